@@ -10,10 +10,15 @@ import { UserProfile } from '@/lib/types/firestore';
 import { displayWeight, displayHeight } from '@/lib/utils/units';
 import AppLayout from '@/components/layout/AppLayout';
 import Link from 'next/link';
-import { User, Save, Ruler, Shield, FileText, ExternalLink } from 'lucide-react';
+import { User, Save, Ruler, Shield, FileText, ExternalLink, Database } from 'lucide-react';
 import { useCachedData } from '@/lib/hooks/useCachedData';
+import ExerciseMergeTool from '@/components/features/ExerciseMergeTool';
+import SyncConflicts from '@/components/features/SyncConflicts';
+import SyncStatusPanel from '@/components/features/SyncStatusPanel';
+import DataImportWizard from '@/components/features/DataImportWizard';
+import BackupRestorePanel from '@/components/features/BackupRestorePanel';
 
-type Tab = 'profile' | 'preferences' | 'about';
+type Tab = 'profile' | 'preferences' | 'data' | 'about';
 
 export default function AccountPage() {
   const { user } = useAuth();
@@ -33,6 +38,14 @@ export default function AccountPage() {
   const [editGoal, setEditGoal] = useState('');
   const [activeTab, setActiveTab] = useState<Tab>('profile');
 
+  // Deep link to a tab, e.g. /account?tab=data from the sync banner
+  useEffect(() => {
+    const tab = new URLSearchParams(window.location.search).get('tab');
+    if (tab === 'profile' || tab === 'preferences' || tab === 'data' || tab === 'about') {
+      setActiveTab(tab);
+    }
+  }, []);
+
   // Initialize form fields when profile loads
   useEffect(() => {
     if (profile) {
@@ -60,6 +73,7 @@ export default function AccountPage() {
   const tabs: { key: Tab; label: string; icon: React.ReactNode }[] = [
     { key: 'profile', label: 'Profile', icon: <User className="w-4 h-4" /> },
     { key: 'preferences', label: 'Preferences', icon: <Ruler className="w-4 h-4" /> },
+    { key: 'data', label: 'Data', icon: <Database className="w-4 h-4" /> },
     { key: 'about', label: 'About', icon: <Shield className="w-4 h-4" /> },
   ];
 
@@ -72,7 +86,7 @@ export default function AccountPage() {
             Account Settings
           </h2>
           <p className="text-sm text-[color:var(--muted-foreground)]">
-            Manage your profile and preferences
+            Manage your profile, preferences and data
           </p>
         </div>
 
@@ -209,6 +223,17 @@ export default function AccountPage() {
             </div>
           )}
 
+          {/* Data Tab */}
+          {activeTab === 'data' && (
+            <div className="space-y-4">
+              <SyncStatusPanel />
+              <SyncConflicts />
+              <BackupRestorePanel />
+              <DataImportWizard />
+              <ExerciseMergeTool />
+            </div>
+          )}
+
           {/* About Tab */}
           {activeTab === 'about' && (
             <div className="space-y-4">
@@ -1,13 +1,15 @@
 'use client';
 
-import { useCallback, useEffect } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import Link from 'next/link';
+import { useRouter } from 'next/navigation';
 import { useAuth } from '@/components/providers/AuthProvider';
 import { getUserProfile } from '@/lib/auth';
 import { getDashboardStats } from '@/lib/stats';
 import { UserProfile } from '@/lib/types/firestore';
 import AppLayout from '@/components/layout/AppLayout';
 import RecentActivity from '@/components/features/RecentActivity';
+import TodaysWorkoutCard from '@/components/features/TodaysWorkoutCard';
 import {
   Flame,
   Dumbbell,
@@ -20,6 +22,9 @@ import {
 import { triggerDashboardNotifications } from '@/lib/notificationTriggers';
 import { useUnits } from '@/components/providers/UnitProvider';
 import { useCachedData } from '@/lib/hooks/useCachedData';
+import { useActiveWorkout } from '@/lib/hooks/useActiveWorkout';
+import { TrainingProgram, getPrograms, getProgramDay } from '@/lib/programs';
+import { WorkoutTemplate, getWorkoutTemplates } from '@/lib/workoutTemplates';
 
 export default function Home() {
   const { user } = useAuth();
@@ -40,6 +45,45 @@ export default function Home() {
     staleTime: 60 * 1000, // revalidate after 1 min
   });
 
+  const { data: programs } = useCachedData<TrainingProgram[]>({
+    key: `programs:${user?.uid}`,
+    fetcher: useCallback(() => getPrograms(user!.uid), [user]),
+    enabled: !!user,
+  });
+
+  const { data: templates = [] } = useCachedData<WorkoutTemplate[]>({
+    key: `workoutTemplates:${user?.uid}`,
+    fetcher: useCallback(() => getWorkoutTemplates(user!.uid), [user]),
+    enabled: !!user,
+  });
+
+  const router = useRouter();
+  const activeWorkout = useActiveWorkout(user?.uid);
+  const [startingWorkout, setStartingWorkout] = useState(false);
+
+  const activeProgram = programs?.find((p) => p.active) || null;
+  const todaysDay = activeProgram ? getProgramDay(activeProgram) : null;
+  const todaysTemplate = todaysDay
+    ? templates.find((t) => t.id === todaysDay.templateId) || null
+    : null;
+
+  // Pre-populate a live session from today's program day and open the logger
+  const handleStartTodaysWorkout = async () => {
+    if (!todaysDay || !todaysTemplate) return;
+    if (
+      activeWorkout.session &&
+      !confirm("You have a session in progress. Replace it with today's workout?")
+    ) {
+      return;
+    }
+    setStartingWorkout(true);
+    await activeWorkout.startFromTemplate(todaysTemplate, {
+      programId: todaysDay.programId,
+      key: todaysDay.key,
+    });
+    router.push('/workouts');
+  };
+
   // Trigger dashboard notifications once per session
   useEffect(() => {
     if (user && stats) {
@@ -67,6 +111,17 @@ export default function Home() {
           </h2>
         </div>
 
+        {/* Today's program workout */}
+        {activeProgram && (
+          <TodaysWorkoutCard
+            program={activeProgram}
+            day={todaysDay}
+            template={todaysTemplate}
+            onStart={handleStartTodaysWorkout}
+            isStarting={startingWorkout}
+          />
+        )}
+
         {/* Stats */}
         {loading ? (
           <div className="space-y-4">
@@ -1,29 +1,59 @@
 'use client';
 
 import { useState, useEffect, useMemo, useCallback } from 'react';
-import { Plus } from 'lucide-react';
+import { Plus, BookOpen, ChevronDown } from 'lucide-react';
 import { useAuth } from '@/components/providers/AuthProvider';
 import { useToast } from '@/lib/contexts/ToastContext';
 import { getErrorMessage } from '@/lib/utils/errorMessages';
-import { getMeals, addMeal, updateMeal, deleteMeal } from '@/lib/meals';
+import {
+  getMeals,
+  getMealsByDate,
+  addMeal,
+  updateMeal,
+  deleteMeal,
+  copyMealToDate,
+} from '@/lib/meals';
+import {
+  MealTemplate,
+  getMealTemplates,
+  addMealTemplate,
+  updateMealTemplate,
+  deleteMealTemplate,
+  templateToMeal,
+} from '@/lib/mealTemplates';
 import {
   addMealOffline,
   getMealsOffline,
   updateMealOffline,
   deleteMealOffline,
+  addMealTemplateOffline,
+  getMealTemplatesOffline,
+  updateMealTemplateOffline,
+  deleteMealTemplateOffline,
+  cacheMealTemplatesOffline,
   addToSyncQueue,
 } from '@/lib/offline/offlineStore';
 import { useOffline } from '@/lib/hooks/useOffline';
-import { Meal } from '@/lib/types/firestore';
+import { Meal, Goal, WaterLog } from '@/lib/types/firestore';
 import AppLayout from '@/components/layout/AppLayout';
 import MealList from '@/components/features/MealList';
 import MealForm from '@/components/features/MealForm';
+import MealTemplateCard from '@/components/features/MealTemplateCard';
+import TdeeCard from '@/components/features/TdeeCard';
+import NutritionRings from '@/components/features/NutritionRings';
+import NutritionDiary from '@/components/features/NutritionDiary';
+import { getActiveGoals, getDailyNutritionTargets } from '@/lib/goals';
+import { addWaterLog, deleteWaterLog, getTotalWater, getWaterLogsByDate } from '@/lib/waterLogs';
+import { getMealNutrition, sumNutrients } from '@/lib/utils/mealItems';
+import { TdeeReport, applyTargetProposal, getTdeeReport } from '@/lib/tdee';
+import MealTemplateForm from '@/components/features/MealTemplateForm';
 import Modal from '@/components/ui/Modal';
 import SearchBar from '@/components/ui/SearchBar';
 import FilterPanel, { FilterOptions } from '@/components/features/FilterPanel';
 import { searchAndFilterMeals } from '@/lib/utils/search';
 import { triggerMealNotifications } from '@/lib/notificationTriggers';
 import { useCachedData } from '@/lib/hooks/useCachedData';
+import { cacheInvalidate } from '@/lib/cache';
 
 export default function NutritionPage() {
   const { user } = useAuth();
@@ -41,17 +71,91 @@ export default function NutritionPage() {
       if (isOnline) {
         return getMeals(user!.uid);
       } else {
-        return getMealsOffline(user!.uid);
+        const offlineMeals = await getMealsOffline(user!.uid);
+        return offlineMeals.filter((m) => !m.planned);
       }
     }, [user, isOnline]),
     enabled: !!user,
   });
 
+  const [diaryDate, setDiaryDate] = useState(() => {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    return today;
+  });
+
+  // The diary day, planned meals included
+  const {
+    data: diaryMeals = [],
+    loading: diaryLoading,
+    refetch: refetchDiary,
+  } = useCachedData<Meal[]>({
+    key: `meals:${user?.uid}:day:${diaryDate.toDateString()}`,
+    fetcher: useCallback(async () => {
+      if (isOnline) return getMealsByDate(user!.uid, diaryDate, true);
+      const offlineMeals = await getMealsOffline(user!.uid);
+      return offlineMeals
+        .filter((m) => new Date(m.date).toDateString() === diaryDate.toDateString())
+        .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+    }, [user, isOnline, diaryDate]),
+    enabled: !!user,
+  });
+
+  const {
+    data: templates = [],
+    loading: templatesLoading,
+    setData: setTemplates,
+  } = useCachedData<MealTemplate[]>({
+    key: `mealTemplates:${user?.uid}`,
+    fetcher: useCallback(async () => {
+      if (!isOnline) return getMealTemplatesOffline(user!.uid);
+      const online = await getMealTemplates(user!.uid);
+      // Keep a local copy so templates can be used and edited offline
+      cacheMealTemplatesOffline(user!.uid, online).catch(() => {});
+      return online;
+    }, [user, isOnline]),
+    enabled: !!user,
+  });
+
+  const {
+    data: tdeeReport,
+    loading: tdeeLoading,
+    refetch: refetchTdee,
+  } = useCachedData<TdeeReport>({
+    key: `tdee:${user?.uid}`,
+    fetcher: useCallback(() => getTdeeReport(user!.uid), [user]),
+    enabled: !!user && isOnline,
+  });
+
+  const {
+    data: activeGoals = [],
+    refetch: refetchGoals,
+  } = useCachedData<Goal[]>({
+    key: `goals:${user?.uid}:nutrition`,
+    fetcher: useCallback(() => getActiveGoals(user!.uid), [user]),
+    enabled: !!user && isOnline,
+  });
+
+  const {
+    data: waterLogs = [],
+    setData: setWaterLogs,
+  } = useCachedData<WaterLog[]>({
+    key: `water:${user?.uid}:today`,
+    fetcher: useCallback(() => getWaterLogsByDate(user!.uid, new Date()), [user]),
+    enabled: !!user && isOnline,
+  });
+
   const [editingMeal, setEditingMeal] = useState<Meal | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
+  // New meals started from the diary: the viewed day, logged or planned
+  const [diaryDefaults, setDiaryDefaults] = useState<{ date: Date; planned: boolean } | null>(null);
+  const [diaryBusy, setDiaryBusy] = useState(false);
   const [formLoading, setFormLoading] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [filters, setFilters] = useState<FilterOptions>({});
+  const [showTemplates, setShowTemplates] = useState(false);
+  const [applyingTargets, setApplyingTargets] = useState(false);
+  const [templateModal, setTemplateModal] = useState<{ editing: MealTemplate | null } | null>(null);
 
   // Set UID for sync manager
   useEffect(() => {
@@ -63,11 +167,41 @@ export default function NutritionPage() {
     return searchAndFilterMeals(meals, searchQuery, filters);
   }, [meals, searchQuery, filters]);
 
+  const todayTotals = useMemo(() => {
+    const today = new Date().toDateString();
+    return sumNutrients(
+      meals.filter((m) => new Date(m.date).toDateString() === today).map(getMealNutrition)
+    );
+  }, [meals]);
+
+  const dailyTargets = useMemo(() => getDailyNutritionTargets(activeGoals), [activeGoals]);
+
   const handleClearFilters = () => {
     setFilters({});
     setSearchQuery('');
   };
 
+  // Save a new meal online or to the offline queue; planned meals stay out of the logged list
+  const saveNewMeal = async (data: Omit<Meal, 'id' | 'createdAt' | 'updatedAt'>): Promise<Meal> => {
+    let id: string;
+
+    if (isOnline) {
+      id = await addMeal(user!.uid, data);
+    } else {
+      id = await addMealOffline(user!.uid, data);
+      await addToSyncQueue(user!.uid, 'create', 'meals', id, { ...data, id });
+    }
+
+    const newMeal: Meal = {
+      ...data,
+      id,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    if (!newMeal.planned) setMeals((prev = []) => [newMeal, ...prev]);
+    return newMeal;
+  };
+
   const handleAddMeal = async (
     data: Omit<Meal, 'id' | 'createdAt' | 'updatedAt'>
   ) => {
@@ -75,25 +209,14 @@ export default function NutritionPage() {
 
     setFormLoading(true);
     try {
-      let id: string;
-
-      if (isOnline) {
-        id = await addMeal(user.uid, data);
-      } else {
-        id = await addMealOffline(user.uid, data);
-        await addToSyncQueue(user.uid, 'create', 'meals', id, { ...data, id });
-        showToast('Saved offline — will sync when online', 'info');
-      }
-
-      const newMeal: Meal = {
-        ...data,
-        id,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      };
-      setMeals((prev = []) => [newMeal, ...prev]);
+      const newMeal = await saveNewMeal(data);
+      refetchDiary();
       setIsModalOpen(false);
-      if (isOnline) {
+      if (!isOnline) {
+        showToast('Saved offline — will sync when online', 'info');
+      } else if (newMeal.planned) {
+        showToast('Meal planned', 'success');
+      } else {
         showToast('Meal added successfully!', 'success');
         // Check calorie goal notifications
         const totalCalories = [...meals, newMeal].reduce((sum, m) => {
@@ -125,7 +248,7 @@ export default function NutritionPage() {
         await updateMeal(user.uid, editingMeal.id, data);
       } else {
         await updateMealOffline(user.uid, editingMeal.id, data);
-        await addToSyncQueue(user.uid, 'update', 'meals', editingMeal.id, data);
+        await addToSyncQueue(user.uid, 'update', 'meals', editingMeal.id, data, editingMeal);
         showToast('Updated offline — will sync when online', 'info');
       }
 
@@ -136,6 +259,7 @@ export default function NutritionPage() {
             : m
         )
       );
+      refetchDiary();
       setIsModalOpen(false);
       setEditingMeal(null);
       if (isOnline) showToast('Meal updated successfully!', 'success');
@@ -159,11 +283,19 @@ export default function NutritionPage() {
         await deleteMeal(user.uid, mealId);
       } else {
         await deleteMealOffline(user.uid, mealId);
-        await addToSyncQueue(user.uid, 'delete', 'meals', mealId, null);
+        await addToSyncQueue(
+          user.uid,
+          'delete',
+          'meals',
+          mealId,
+          null,
+          [...meals, ...diaryMeals].find((m) => m.id === mealId)
+        );
         showToast('Deleted offline — will sync when online', 'info');
       }
 
       setMeals((prev = []) => prev.filter((m) => m.id !== mealId));
+      refetchDiary();
       if (isOnline) showToast('Meal deleted successfully!', 'success');
     } catch (error: any) {
       console.error('Error deleting meal:', error);
@@ -171,6 +303,180 @@ export default function NutritionPage() {
     }
   };
 
+  // ---- Diary ----
+
+  const handleConfirmPlanned = async (meal: Meal) => {
+    if (!user) return;
+
+    const updates = { planned: false, fromPlan: true };
+    setDiaryBusy(true);
+    try {
+      if (isOnline) {
+        await updateMeal(user.uid, meal.id, updates);
+      } else {
+        await updateMealOffline(user.uid, meal.id, updates);
+        await addToSyncQueue(user.uid, 'update', 'meals', meal.id, updates, meal);
+      }
+      setMeals((prev = []) =>
+        [{ ...meal, ...updates, updatedAt: new Date() }, ...prev].sort(
+          (a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()
+        )
+      );
+      await refetchDiary();
+      showToast(isOnline ? `${meal.mealName} logged` : 'Logged offline — will sync when online', isOnline ? 'success' : 'info');
+    } catch (error) {
+      showToast(getErrorMessage(error, 'Failed to log planned meal'), 'error');
+    } finally {
+      setDiaryBusy(false);
+    }
+  };
+
+  const handleCopyToToday = async (source: Meal[]) => {
+    if (!user || source.length === 0) return;
+
+    setDiaryBusy(true);
+    try {
+      const today = new Date();
+      for (const meal of source) {
+        await saveNewMeal(copyMealToDate(meal, today));
+      }
+      cacheInvalidate(`meals:${user.uid}:day:${today.toDateString()}`);
+      showToast(
+        `Copied ${source.length} meal${source.length !== 1 ? 's' : ''} to today${isOnline ? '' : ' — will sync when online'}`,
+        isOnline ? 'success' : 'info'
+      );
+    } catch (error) {
+      showToast(getErrorMessage(error, 'Failed to copy meals'), 'error');
+    } finally {
+      setDiaryBusy(false);
+    }
+  };
+
+  const handleOpenDiaryAdd = (planned: boolean) => {
+    const now = new Date();
+    const date = new Date(diaryDate);
+    date.setHours(now.getHours(), now.getMinutes(), 0, 0);
+    setEditingMeal(null);
+    setDiaryDefaults({ date, planned });
+    setIsModalOpen(true);
+  };
+
+  const handleApplyTargets = async () => {
+    if (!user || !tdeeReport?.proposal) return;
+
+    setApplyingTargets(true);
+    try {
+      await applyTargetProposal(user.uid, tdeeReport.proposal);
+      await Promise.all([refetchTdee(), refetchGoals()]);
+      showToast('Calorie target updated', 'success');
+    } catch (error) {
+      showToast(getErrorMessage(error, 'Failed to update targets'), 'error');
+    } finally {
+      setApplyingTargets(false);
+    }
+  };
+
+  // ---- Hydration ----
+
+  const handleAddWater = async (amount: number) => {
+    if (!user) return;
+
+    try {
+      const date = new Date();
+      const id = await addWaterLog(user.uid, amount, date);
+      setWaterLogs((prev = []) => [...prev, { id, amount, date, createdAt: date }]);
+    } catch (error) {
+      showToast(getErrorMessage(error, 'Failed to log water'), 'error');
+    }
+  };
+
+  const handleUndoWater = async () => {
+    const last = waterLogs[waterLogs.length - 1];
+    if (!user || !last) return;
+
+    try {
+      await deleteWaterLog(user.uid, last.id);
+      setWaterLogs((prev = []) => prev.filter((log) => log.id !== last.id));
+    } catch (error) {
+      showToast(getErrorMessage(error, 'Failed to undo'), 'error');
+    }
+  };
+
+  // ---- Templates & recipes ----
+
+  const handleUseTemplate = (template: MealTemplate, servings: number) => {
+    handleAddMeal(templateToMeal(template, new Date(), servings));
+  };
+
+  const handleSaveTemplate = async (
+    data: Omit<MealTemplate, 'id' | 'createdAt' | 'updatedAt'>
+  ) => {
+    if (!user || !templateModal) return;
+
+    setFormLoading(true);
+    try {
+      if (templateModal.editing) {
+        // Meals already logged keep their own copy of the nutrients
+        const id = templateModal.editing.id;
+        if (isOnline) {
+          await updateMealTemplate(user.uid, id, data);
+        } else {
+          await updateMealTemplateOffline(user.uid, id, data);
+          await addToSyncQueue(user.uid, 'update', 'mealTemplates', id, data, templateModal.editing);
+        }
+        setTemplates((prev = []) =>
+          prev.map((t) => (t.id === id ? { ...t, ...data, updatedAt: new Date() } : t))
+        );
+      } else {
+        let id: string;
+        if (isOnline) {
+          id = await addMealTemplate(user.uid, data);
+        } else {
+          id = await addMealTemplateOffline(user.uid, data);
+          await addToSyncQueue(user.uid, 'create', 'mealTemplates', id, { ...data, id });
+        }
+        setTemplates((prev = []) =>
+          [...prev, { ...data, id, createdAt: new Date(), updatedAt: new Date() }].sort((a, b) =>
+            a.name.localeCompare(b.name)
+          )
+        );
+      }
+      setTemplateModal(null);
+      if (isOnline) showToast('Template saved', 'success');
+      else showToast('Saved offline — will sync when online', 'info');
+    } catch (error) {
+      showToast(getErrorMessage(error, 'Failed to save template'), 'error');
+    } finally {
+      setFormLoading(false);
+    }
+  };
+
+  const handleDeleteTemplate = async (templateId: string) => {
+    if (!user) return;
+    if (!confirm('Are you sure you want to delete this template?')) return;
+
+    try {
+      if (isOnline) {
+        await deleteMealTemplate(user.uid, templateId);
+      } else {
+        await deleteMealTemplateOffline(user.uid, templateId);
+        await addToSyncQueue(
+          user.uid,
+          'delete',
+          'mealTemplates',
+          templateId,
+          null,
+          templates.find((t) => t.id === templateId)
+        );
+      }
+      setTemplates((prev = []) => prev.filter((t) => t.id !== templateId));
+      if (isOnline) showToast('Template deleted', 'success');
+      else showToast('Deleted offline — will sync when online', 'info');
+    } catch (error) {
+      showToast(getErrorMessage(error, 'Failed to delete template'), 'error');
+    }
+  };
+
   const handleEditMeal = (meal: Meal) => {
     setEditingMeal(meal);
     setIsModalOpen(true);
@@ -179,10 +485,12 @@ export default function NutritionPage() {
   const handleCloseModal = () => {
     setIsModalOpen(false);
     setEditingMeal(null);
+    setDiaryDefaults(null);
   };
 
   const handleOpenAddModal = () => {
     setEditingMeal(null);
+    setDiaryDefaults(null);
     setIsModalOpen(true);
   };
 
@@ -207,6 +515,82 @@ export default function NutritionPage() {
           </button>
         </div>
 
+        {/* Today's intake against goal targets */}
+        <NutritionRings
+          totals={todayTotals}
+          water={getTotalWater(waterLogs)}
+          targets={dailyTargets}
+          onAddWater={handleAddWater}
+          onUndoWater={handleUndoWater}
+          waterDisabled={!isOnline}
+        />
+
+        {/* Day-by-day diary */}
+        <NutritionDiary
+          date={diaryDate}
+          meals={diaryMeals}
+          loading={diaryLoading}
+          busy={diaryBusy}
+          onDateChange={setDiaryDate}
+          onAdd={handleOpenDiaryAdd}
+          onEdit={handleEditMeal}
+          onDelete={handleDeleteMeal}
+          onConfirm={handleConfirmPlanned}
+          onCopy={handleCopyToToday}
+        />
+
+        {/* TDEE estimate & weekly targets */}
+        {isOnline && (
+          <TdeeCard
+            report={tdeeReport}
+            loading={tdeeLoading}
+            onApply={handleApplyTargets}
+            applying={applyingTargets}
+          />
+        )}
+
+        {/* Templates & recipes */}
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <button
+              onClick={() => setShowTemplates((v) => !v)}
+              aria-expanded={showTemplates}
+              className="flex items-center gap-2 text-xs font-semibold uppercase tracking-wider text-[color:var(--muted-foreground)] hover:text-[color:var(--foreground)]"
+            >
+              <BookOpen className="h-3.5 w-3.5" />
+              Recipes & templates{templates.length > 0 && ` (${templates.length})`}
+              <ChevronDown className={`h-3.5 w-3.5 transition-transform ${showTemplates ? 'rotate-180' : ''}`} />
+            </button>
+            <button
+              onClick={() => setTemplateModal({ editing: null })}
+              className="flex items-center gap-1 text-xs font-medium text-[color:var(--muted-foreground)] hover:text-[color:var(--foreground)]"
+            >
+              <Plus className="h-3.5 w-3.5" />
+              New
+            </button>
+          </div>
+          {showTemplates &&
+            (templatesLoading ? (
+              <div className="h-32 animate-pulse rounded-lg bg-zinc-100 dark:bg-zinc-800" />
+            ) : templates.length === 0 ? (
+              <p className="rounded-lg border-2 border-dashed border-zinc-200 p-6 text-center text-sm text-[color:var(--muted-foreground)] dark:border-zinc-800">
+                No templates yet — save a recipe to log it by the serving
+              </p>
+            ) : (
+              <div className="grid gap-3 sm:grid-cols-2">
+                {templates.map((template) => (
+                  <MealTemplateCard
+                    key={template.id}
+                    template={template}
+                    onUse={handleUseTemplate}
+                    onEdit={(t) => setTemplateModal({ editing: t })}
+                    onDelete={handleDeleteTemplate}
+                  />
+                ))}
+              </div>
+            ))}
+        </div>
+
         {/* Search & Filters */}
         <div className="space-y-3">
           <SearchBar
@@ -245,9 +629,22 @@ export default function NutritionPage() {
           onSubmit={editingMeal ? handleUpdateMeal : handleAddMeal}
           onCancel={handleCloseModal}
           initialData={editingMeal || undefined}
+          defaultDate={diaryDefaults?.date}
+          planned={diaryDefaults?.planned}
           isLoading={formLoading}
         />
       </Modal>
+
+      <Modal isOpen={templateModal !== null} onClose={() => setTemplateModal(null)}>
+        {templateModal && (
+          <MealTemplateForm
+            onSubmit={handleSaveTemplate}
+            onCancel={() => setTemplateModal(null)}
+            initialData={templateModal.editing || undefined}
+            isLoading={formLoading}
+          />
+        )}
+      </Modal>
     </AppLayout>
   );
 }
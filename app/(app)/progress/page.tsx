@@ -6,12 +6,27 @@ import { useAuth } from '@/components/providers/AuthProvider';
 import { useToast } from '@/lib/contexts/ToastContext';
 import { getErrorMessage } from '@/lib/utils/errorMessages';
 import { getActiveGoals, addGoal, updateGoal, deleteGoal, completeGoal } from '@/lib/goals';
-import { getWeightLogs, addWeightLog } from '@/lib/weightLogs';
+import { getWeightLogs, addWeightLog, updateWeightLog, deleteWeightLog } from '@/lib/weightLogs';
 import { getAchievements } from '@/lib/achievements';
 import { getInsights, type Insight } from '@/lib/reports';
 import { calculateStreaks } from '@/lib/achievements';
 import { getWorkouts } from '@/lib/workouts';
-import { Goal, WeightLog, Achievement } from '@/lib/types/firestore';
+import {
+  addGoalOffline,
+  getGoalsOffline,
+  updateGoalOffline,
+  deleteGoalOffline,
+  addWeightLogOffline,
+  getWeightLogsOffline,
+  updateWeightLogOffline,
+  deleteWeightLogOffline,
+  getWorkoutsOffline,
+  cacheGoalsOffline,
+  cacheWeightLogsOffline,
+  addToSyncQueue,
+} from '@/lib/offline/offlineStore';
+import { useOffline } from '@/lib/hooks/useOffline';
+import { Goal, WeightLog, Achievement, Workout } from '@/lib/types/firestore';
 import { triggerGoalCompletedNotification } from '@/lib/notificationTriggers';
 import { useUnits } from '@/components/providers/UnitProvider';
 import { weightUnit, getWeightInUnit, weightToKg, displayWeight } from '@/lib/utils/units';
@@ -19,15 +34,20 @@ import AppLayout from '@/components/layout/AppLayout';
 import GoalCard from '@/components/features/GoalCard';
 import GoalForm from '@/components/features/GoalForm';
 import StreakIndicator from '@/components/features/StreakIndicator';
+import ProgressReportCard from '@/components/features/ProgressReportCard';
 import Modal from '@/components/ui/Modal';
 import { WeightChart } from '@/components/features/WeightChart';
-import { Plus, Target, TrendingUp, Award, Lightbulb, ChevronRight } from 'lucide-react';
+import { WorkoutVolumeChart } from '@/components/features/WorkoutVolumeChart';
+import { ExerciseStrengthChart } from '@/components/features/ExerciseStrengthChart';
+import { MuscleVolumeChart } from '@/components/features/MuscleVolumeChart';
+import { Plus, Target, TrendingUp, Award, Lightbulb, ChevronRight, Dumbbell, Edit2, Trash2 } from 'lucide-react';
 import { useCachedData } from '@/lib/hooks/useCachedData';
 
 export default function ProfilePage() {
   const { user } = useAuth();
   const { unitSystem } = useUnits();
   const { showToast } = useToast();
+  const { isOnline, setUid } = useOffline();
 
   // Cached progress data — single fetch with all sub-queries
   interface ProgressData {
@@ -35,6 +55,7 @@ export default function ProfilePage() {
     weightLogs: WeightLog[];
     achievements: Achievement[];
     insights: Insight[];
+    workouts: Workout[];
     streakInfo: { current: number; longest: number; total: number };
     activeGoal: Goal | null;
   }
@@ -46,13 +67,27 @@ export default function ProfilePage() {
   } = useCachedData<ProgressData>({
     key: `progress:${user?.uid}:${unitSystem}`,
     fetcher: useCallback(async () => {
-      const [goalsData, weightsData, achievementsData, insightsData, workoutsData] = await Promise.all([
-        getActiveGoals(user!.uid),
-        getWeightLogs(user!.uid, 30),
-        getAchievements(user!.uid).catch(() => [] as Achievement[]),
-        getInsights(user!.uid, unitSystem).catch(() => [] as Insight[]),
-        getWorkouts(user!.uid, 500).catch(() => []),
-      ]);
+      const [goalsData, weightsData, achievementsData, insightsData, workoutsData] = isOnline
+        ? await Promise.all([
+            getActiveGoals(user!.uid),
+            getWeightLogs(user!.uid, 30),
+            getAchievements(user!.uid).catch(() => [] as Achievement[]),
+            getInsights(user!.uid, unitSystem).catch(() => [] as Insight[]),
+            getWorkouts(user!.uid, 500).catch(() => [] as Workout[]),
+          ])
+        : await Promise.all([
+            getGoalsOffline(user!.uid, 'active'),
+            getWeightLogsOffline(user!.uid).then((logs) => logs.slice(0, 30)),
+            [] as Achievement[],
+            [] as Insight[],
+            getWorkoutsOffline(user!.uid).catch(() => [] as Workout[]),
+          ]);
+
+      if (isOnline) {
+        // Keep a local copy so goals and weigh-ins can be edited offline
+        cacheGoalsOffline(user!.uid, goalsData).catch(() => {});
+        cacheWeightLogsOffline(user!.uid, weightsData).catch(() => {});
+      }
 
       const weightGoal = goalsData.find(g => g.type === 'weight') || null;
       const workoutDates = workoutsData.map((w) => w.date);
@@ -63,10 +98,11 @@ export default function ProfilePage() {
         weightLogs: weightsData,
         achievements: achievementsData,
         insights: insightsData,
+        workouts: workoutsData,
         streakInfo: { current: streaks.currentStreak, longest: streaks.longestStreak, total: workoutsData.length },
         activeGoal: weightGoal,
       };
-    }, [user, unitSystem]),
+    }, [user, unitSystem, isOnline]),
     enabled: !!user,
     ttl: 5 * 60 * 1000,
     staleTime: 2 * 60 * 1000,
@@ -77,6 +113,7 @@ export default function ProfilePage() {
   const weightLogs = progressData?.weightLogs ?? [];
   const achievements = progressData?.achievements ?? [];
   const insights = progressData?.insights ?? [];
+  const workouts = progressData?.workouts ?? [];
   const streakInfo = progressData?.streakInfo ?? { current: 0, longest: 0, total: 0 };
   const activeGoal = progressData?.activeGoal ?? null;
 
@@ -84,16 +121,29 @@ export default function ProfilePage() {
   const [editingGoal, setEditingGoal] = useState<Goal | null>(null);
   const [goalFormLoading, setGoalFormLoading] = useState(false);
   const [isWeightModalOpen, setIsWeightModalOpen] = useState(false);
+  const [editingLog, setEditingLog] = useState<WeightLog | null>(null);
   const [newWeight, setNewWeight] = useState('');
   const [newNotes, setNewNotes] = useState('');
   const [weightSubmitting, setWeightSubmitting] = useState(false);
 
+  // Set UID for sync manager
+  useEffect(() => {
+    if (user) setUid(user.uid);
+  }, [user, setUid]);
+
   const handleAddGoal = async (data: Omit<Goal, 'id' | 'createdAt' | 'updatedAt'>) => {
     if (!user) return;
 
     setGoalFormLoading(true);
     try {
-      const id = await addGoal(user.uid, data);
+      let id: string;
+      if (isOnline) {
+        id = await addGoal(user.uid, data);
+      } else {
+        id = await addGoalOffline(user.uid, data);
+        await addToSyncQueue(user.uid, 'create', 'goals', id, { ...data, id });
+        showToast('Saved offline — will sync when online', 'info');
+      }
       const newGoal: Goal = {
         ...data,
         id,
@@ -102,7 +152,7 @@ export default function ProfilePage() {
       };
       setProgressData((prev) => prev ? { ...prev, goals: [newGoal, ...prev.goals] } : prev!);
       setIsGoalModalOpen(false);
-      showToast('Goal created successfully!', 'success');
+      if (isOnline) showToast('Goal created successfully!', 'success');
     } catch (error) {
       console.error('Error adding goal:', error);
       showToast(getErrorMessage(error, 'Failed to create goal'), 'error');
@@ -116,7 +166,13 @@ export default function ProfilePage() {
 
     setGoalFormLoading(true);
     try {
-      await updateGoal(user.uid, editingGoal.id, data);
+      if (isOnline) {
+        await updateGoal(user.uid, editingGoal.id, data);
+      } else {
+        await updateGoalOffline(user.uid, editingGoal.id, data);
+        await addToSyncQueue(user.uid, 'update', 'goals', editingGoal.id, data, editingGoal);
+        showToast('Updated offline — will sync when online', 'info');
+      }
       setProgressData((prev) => prev ? {
         ...prev,
         goals: prev.goals.map((g) =>
@@ -125,7 +181,7 @@ export default function ProfilePage() {
       } : prev!);
       setIsGoalModalOpen(false);
       setEditingGoal(null);
-      showToast('Goal updated successfully!', 'success');
+      if (isOnline) showToast('Goal updated successfully!', 'success');
     } catch (error) {
       console.error('Error updating goal:', error);
       showToast(getErrorMessage(error, 'Failed to update goal'), 'error');
@@ -134,7 +190,21 @@ export default function ProfilePage() {
     }
   };
 
-  const handleAddWeight = async (e: React.FormEvent) => {
+  const handleOpenWeightModal = (log: WeightLog | null) => {
+    setEditingLog(log);
+    setNewWeight(log ? String(getWeightInUnit(log.weight, unitSystem)) : '');
+    setNewNotes(log?.notes ?? '');
+    setIsWeightModalOpen(true);
+  };
+
+  const handleCloseWeightModal = () => {
+    setIsWeightModalOpen(false);
+    setEditingLog(null);
+    setNewWeight('');
+    setNewNotes('');
+  };
+
+  const handleSaveWeight = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!user || !newWeight) return;
 
@@ -148,42 +218,96 @@ export default function ProfilePage() {
 
       // Convert to kg if imperial
       const weightKg = weightToKg(weight, unitSystem);
+      const notes = newNotes.trim() || undefined;
+
+      if (editingLog) {
+        const updates = { weight: weightKg, notes };
+        if (isOnline) {
+          await updateWeightLog(user.uid, editingLog.id, updates);
+        } else {
+          await updateWeightLogOffline(user.uid, editingLog.id, updates);
+          await addToSyncQueue(user.uid, 'update', 'weightLogs', editingLog.id, updates, editingLog);
+          showToast('Updated offline — will sync when online', 'info');
+        }
+
+        setProgressData((prev) => prev ? {
+          ...prev,
+          weightLogs: prev.weightLogs.map((l) =>
+            l.id === editingLog.id ? { ...l, ...updates, updatedAt: new Date() } : l
+          ),
+        } : prev!);
+        handleCloseWeightModal();
+        if (isOnline) showToast('Weight log updated!', 'success');
+        return;
+      }
 
-      const id = await addWeightLog(user.uid, {
-        weight: weightKg,
-        notes: newNotes.trim() || undefined,
-        date: new Date(),
-      });
+      const data = { weight: weightKg, notes, date: new Date() };
+      let id: string;
+      if (isOnline) {
+        id = await addWeightLog(user.uid, data);
+      } else {
+        id = await addWeightLogOffline(user.uid, data);
+        await addToSyncQueue(user.uid, 'create', 'weightLogs', id, { ...data, id });
+        showToast('Saved offline — will sync when online', 'info');
+      }
 
       const newLog: WeightLog = {
+        ...data,
         id,
-        weight: weightKg,
-        notes: newNotes.trim() || undefined,
-        date: new Date(),
         createdAt: new Date(),
         updatedAt: new Date(),
       };
 
       setProgressData((prev) => prev ? { ...prev, weightLogs: [newLog, ...prev.weightLogs] } : prev!);
-      setIsWeightModalOpen(false);
-      setNewWeight('');
-      setNewNotes('');
-      showToast('Weight logged successfully!', 'success');
+      handleCloseWeightModal();
+      if (isOnline) showToast('Weight logged successfully!', 'success');
     } catch (error) {
-      console.error('Error adding weight log:', error);
+      console.error('Error saving weight log:', error);
       showToast(getErrorMessage(error, 'Failed to log weight'), 'error');
     } finally {
       setWeightSubmitting(false);
     }
   };
 
+  const handleDeleteWeight = async (logId: string) => {
+    if (!user || !confirm('Delete this weight log?')) return;
+
+    try {
+      if (isOnline) {
+        await deleteWeightLog(user.uid, logId);
+      } else {
+        await deleteWeightLogOffline(user.uid, logId);
+        await addToSyncQueue(
+          user.uid,
+          'delete',
+          'weightLogs',
+          logId,
+          null,
+          weightLogs.find((l) => l.id === logId)
+        );
+        showToast('Deleted offline — will sync when online', 'info');
+      }
+      setProgressData((prev) => prev ? { ...prev, weightLogs: prev.weightLogs.filter((l) => l.id !== logId) } : prev!);
+      if (isOnline) showToast('Weight log deleted', 'success');
+    } catch (error) {
+      console.error('Error deleting weight log:', error);
+      showToast(getErrorMessage(error, 'Failed to delete weight log'), 'error');
+    }
+  };
+
   const handleDeleteGoal = async (goalId: string) => {
     if (!user || !confirm('Are you sure you want to delete this goal?')) return;
 
     try {
-      await deleteGoal(user.uid, goalId);
+      if (isOnline) {
+        await deleteGoal(user.uid, goalId);
+      } else {
+        await deleteGoalOffline(user.uid, goalId);
+        await addToSyncQueue(user.uid, 'delete', 'goals', goalId, null, goals.find((g) => g.id === goalId));
+        showToast('Deleted offline — will sync when online', 'info');
+      }
       setProgressData((prev) => prev ? { ...prev, goals: prev.goals.filter((g) => g.id !== goalId) } : prev!);
-      showToast('Goal deleted successfully!', 'success');
+      if (isOnline) showToast('Goal deleted successfully!', 'success');
     } catch (error) {
       console.error('Error deleting goal:', error);
       showToast(getErrorMessage(error, 'Failed to delete goal'), 'error');
@@ -194,7 +318,13 @@ export default function ProfilePage() {
     if (!user) return;
 
     try {
-      await completeGoal(user.uid, goalId);
+      if (isOnline) {
+        await completeGoal(user.uid, goalId);
+      } else {
+        const updates = { status: 'completed' as const, completedAt: new Date() };
+        await updateGoalOffline(user.uid, goalId, updates);
+        await addToSyncQueue(user.uid, 'update', 'goals', goalId, updates, goals.find((g) => g.id === goalId));
+      }
       const completedGoal = goals.find((g) => g.id === goalId);
       setProgressData((prev) => prev ? {
         ...prev,
@@ -203,7 +333,7 @@ export default function ProfilePage() {
         ),
       } : prev!);
       showToast('Goal completed! 🎉', 'success');
-      if (completedGoal) {
+      if (completedGoal && isOnline) {
         triggerGoalCompletedNotification(user.uid, completedGoal.title).catch(() => {});
       }
     } catch (error) {
@@ -304,6 +434,35 @@ export default function ProfilePage() {
             </div>
           )}
 
+          {/* Printable report */}
+          <ProgressReportCard />
+
+          {/* Training Section */}
+          {workouts.length > 0 && (
+            <div className="rounded-2xl border border-zinc-200 bg-[color:var(--background)] p-4 shadow-sm dark:border-zinc-800">
+              <div className="mb-4">
+                <p className="text-sm font-semibold text-[color:var(--foreground)] flex items-center gap-2">
+                  <Dumbbell className="w-4 h-4" />
+                  Strength
+                </p>
+                <p className="text-xs text-[color:var(--muted-foreground)]">
+                  Estimated 1RM and rep-range records per exercise
+                </p>
+              </div>
+              <ExerciseStrengthChart workouts={workouts} />
+
+              <div className="mt-4 pt-4 border-t border-zinc-200 dark:border-zinc-800">
+                <h4 className="text-xs font-semibold text-[color:var(--foreground)] mb-3">Training Volume</h4>
+                <WorkoutVolumeChart workouts={workouts} />
+              </div>
+
+              <div className="mt-4 pt-4 border-t border-zinc-200 dark:border-zinc-800">
+                <h4 className="text-xs font-semibold text-[color:var(--foreground)] mb-3">Weekly Sets per Muscle</h4>
+                <MuscleVolumeChart workouts={workouts} />
+              </div>
+            </div>
+          )}
+
           {/* Weight Tracker Section */}
           <div className="rounded-2xl border border-zinc-200 bg-[color:var(--background)] p-4 shadow-sm dark:border-zinc-800">
             <div className="flex items-center justify-between mb-4">
@@ -317,7 +476,7 @@ export default function ProfilePage() {
                 </p>
               </div>
               <button
-                onClick={() => setIsWeightModalOpen(true)}
+                onClick={() => handleOpenWeightModal(null)}
                 className="flex items-center gap-2 px-4 py-2 rounded-lg bg-[color:var(--foreground)] text-[color:var(--background)] text-sm font-medium hover:opacity-90"
               >
                 <Plus className="w-4 h-4" />
@@ -345,12 +504,28 @@ export default function ProfilePage() {
                             <p className="text-xs text-[color:var(--muted-foreground)]">{log.notes}</p>
                           )}
                         </div>
-                        <p className="text-xs text-[color:var(--muted-foreground)]">
-                          {new Date(log.date).toLocaleDateString([], {
-                            month: 'short',
-                            day: 'numeric',
-                          })}
-                        </p>
+                        <div className="flex items-center gap-1">
+                          <p className="mr-1 text-xs text-[color:var(--muted-foreground)]">
+                            {new Date(log.date).toLocaleDateString([], {
+                              month: 'short',
+                              day: 'numeric',
+                            })}
+                          </p>
+                          <button
+                            onClick={() => handleOpenWeightModal(log)}
+                            className="rounded-lg p-1.5 hover:bg-zinc-100 dark:hover:bg-zinc-800"
+                            title="Edit"
+                          >
+                            <Edit2 className="h-3.5 w-3.5" />
+                          </button>
+                          <button
+                            onClick={() => handleDeleteWeight(log.id)}
+                            className="rounded-lg p-1.5 hover:bg-red-50 dark:hover:bg-red-900/20"
+                            title="Delete"
+                          >
+                            <Trash2 className="h-3.5 w-3.5 text-red-500" />
+                          </button>
+                        </div>
                       </div>
                     ))}
                   </div>
@@ -433,10 +608,12 @@ export default function ProfilePage() {
       </Modal>
 
       {/* Weight Modal */}
-      <Modal isOpen={isWeightModalOpen} onClose={() => setIsWeightModalOpen(false)}>
-        <form onSubmit={handleAddWeight} className="space-y-4">
+      <Modal isOpen={isWeightModalOpen} onClose={handleCloseWeightModal}>
+        <form onSubmit={handleSaveWeight} className="space-y-4">
           <div className="flex items-center justify-between">
-            <h2 className="text-xl font-semibold text-[color:var(--foreground)]">Log Weight</h2>
+            <h2 className="text-xl font-semibold text-[color:var(--foreground)]">
+              {editingLog ? 'Edit Weight' : 'Log Weight'}
+            </h2>
           </div>
 
           <div className="space-y-4">
@@ -471,7 +648,7 @@ export default function ProfilePage() {
           <div className="flex gap-3">
             <button
               type="button"
-              onClick={() => setIsWeightModalOpen(false)}
+              onClick={handleCloseWeightModal}
               disabled={weightSubmitting}
               className="flex h-12 flex-1 items-center justify-center rounded-full border border-zinc-200 text-sm font-semibold dark:border-zinc-800 disabled:opacity-50"
             >
@@ -482,7 +659,7 @@ export default function ProfilePage() {
               disabled={weightSubmitting}
               className="flex h-12 flex-1 items-center justify-center rounded-full bg-[color:var(--foreground)] text-sm font-semibold text-[color:var(--background)] disabled:opacity-50"
             >
-              {weightSubmitting ? 'Logging...' : 'Log Weight'}
+              {weightSubmitting ? 'Saving...' : editingLog ? 'Save' : 'Log Weight'}
             </button>
           </div>
         </form>
@@ -0,0 +1,202 @@
+'use client';
+
+import { useState, useCallback, useMemo } from 'react';
+import Link from 'next/link';
+import { Plus, ChevronLeft, Link2 } from 'lucide-react';
+import { useAuth } from '@/components/providers/AuthProvider';
+import { useToast } from '@/lib/contexts/ToastContext';
+import { getErrorMessage } from '@/lib/utils/errorMessages';
+import { getWorkouts } from '@/lib/workouts';
+import { Workout } from '@/lib/types/firestore';
+import { Exercise, findExerciseByName, normalizeExerciseName } from '@/lib/data/exercises';
+import {
+  CustomExerciseData,
+  addCustomExercise,
+  updateCustomExercise,
+  deleteCustomExercise,
+  setExerciseAlias,
+} from '@/lib/customExercises';
+import { getUniqueExercises } from '@/lib/utils/search';
+import AppLayout from '@/components/layout/AppLayout';
+import Modal from '@/components/ui/Modal';
+import ExerciseLibrary from '@/components/features/ExerciseLibrary';
+import CustomExerciseForm from '@/components/features/CustomExerciseForm';
+import { useCachedData } from '@/lib/hooks/useCachedData';
+import { useExerciseLibrary } from '@/lib/hooks/useExerciseLibrary';
+
+type ModalState = { editing: Exercise | null; initialName?: string } | null;
+
+export default function ExercisesPage() {
+  const { user } = useAuth();
+  const { showToast } = useToast();
+  const { exercises, aliases, setCustomExercises, setAliases } = useExerciseLibrary();
+
+  const { data: workouts = [] } = useCachedData<Workout[]>({
+    key: `workouts:${user?.uid}`,
+    fetcher: useCallback(() => getWorkouts(user!.uid), [user]),
+    enabled: !!user,
+  });
+
+  const [modal, setModal] = useState<ModalState>(null);
+  const [formLoading, setFormLoading] = useState(false);
+
+  // Logged names that resolve to neither a library exercise nor an alias
+  const unmatched = useMemo(
+    () =>
+      getUniqueExercises(workouts).filter(
+        (name) => !findExerciseByName(name, exercises, aliases)
+      ),
+    [workouts, exercises, aliases]
+  );
+
+  const handleSave = async (data: CustomExerciseData) => {
+    if (!user || !modal) return;
+
+    setFormLoading(true);
+    try {
+      if (modal.editing) {
+        const id = modal.editing.id;
+        await updateCustomExercise(user.uid, id, data);
+        setCustomExercises((prev = []) =>
+          prev.map((ex) => (ex.id === id ? { ...ex, ...data } : ex))
+        );
+      } else {
+        const id = await addCustomExercise(user.uid, data);
+        setCustomExercises((prev = []) =>
+          [...prev, { ...data, id, isCustom: true }].sort((a, b) => a.name.localeCompare(b.name))
+        );
+        // Creating from an unmatched name: map the logged name onto the new exercise
+        if (
+          modal.initialName &&
+          normalizeExerciseName(modal.initialName) !== normalizeExerciseName(data.name)
+        ) {
+          await setExerciseAlias(user.uid, modal.initialName, id);
+          setAliases((prev = {}) => ({ ...prev, [normalizeExerciseName(modal.initialName!)]: id }));
+        }
+      }
+      setModal(null);
+      showToast('Exercise saved', 'success');
+    } catch (error) {
+      showToast(getErrorMessage(error, 'Failed to save exercise'), 'error');
+    } finally {
+      setFormLoading(false);
+    }
+  };
+
+  const handleDelete = async (exercise: Exercise) => {
+    if (!user) return;
+    if (!confirm(`Delete ${exercise.name}? Logged workouts keep their entries.`)) return;
+
+    try {
+      await deleteCustomExercise(user.uid, exercise.id);
+      setCustomExercises((prev = []) => prev.filter((ex) => ex.id !== exercise.id));
+      showToast('Exercise deleted', 'success');
+    } catch (error) {
+      showToast(getErrorMessage(error, 'Failed to delete exercise'), 'error');
+    }
+  };
+
+  const handleMap = async (name: string, exerciseId: string) => {
+    if (!user || !exerciseId) return;
+
+    try {
+      await setExerciseAlias(user.uid, name, exerciseId);
+      setAliases((prev = {}) => ({ ...prev, [normalizeExerciseName(name)]: exerciseId }));
+      showToast(`Mapped ${name}`, 'success');
+    } catch (error) {
+      showToast(getErrorMessage(error, 'Failed to save exercise mapping'), 'error');
+    }
+  };
+
+  return (
+    <AppLayout title="Exercises">
+      <section className="space-y-6">
+        <div className="flex items-end justify-between">
+          <div>
+            <Link
+              href="/workouts"
+              className="mb-2 inline-flex items-center gap-1 text-xs font-medium text-[color:var(--muted-foreground)] hover:text-[color:var(--foreground)]"
+            >
+              <ChevronLeft className="h-3.5 w-3.5" />
+              Workouts
+            </Link>
+            <h2 className="text-2xl font-semibold text-[color:var(--foreground)]">
+              Exercise Library
+            </h2>
+            <p className="mt-1 text-sm text-[color:var(--muted-foreground)]">
+              Built-in and your own exercises
+            </p>
+          </div>
+          <button
+            onClick={() => setModal({ editing: null })}
+            className="flex h-12 items-center gap-2 rounded-full bg-[color:var(--foreground)] px-5 text-sm font-semibold text-[color:var(--background)]"
+          >
+            <Plus className="h-5 w-5" />
+            New
+          </button>
+        </div>
+
+        {/* Unmatched names */}
+        {unmatched.length > 0 && (
+          <div className="space-y-3 rounded-lg border border-zinc-200 p-4 dark:border-zinc-800">
+            <div>
+              <p className="flex items-center gap-2 text-xs font-semibold uppercase tracking-wider text-[color:var(--muted-foreground)]">
+                <Link2 className="h-3.5 w-3.5" />
+                Unmatched names
+              </p>
+              <p className="mt-1 text-xs text-[color:var(--muted-foreground)]">
+                Map names from your logs to a library exercise, or create a custom one
+              </p>
+            </div>
+            <ul className="divide-y divide-zinc-200 dark:divide-zinc-800">
+              {unmatched.map((name) => (
+                <li key={name} className="flex items-center gap-2 py-2">
+                  <span className="min-w-0 flex-1 truncate text-sm font-medium text-[color:var(--foreground)]">
+                    {name}
+                  </span>
+                  <select
+                    value=""
+                    onChange={(e) => handleMap(name, e.target.value)}
+                    aria-label={`Map ${name} to an exercise`}
+                    className="w-40 rounded-lg border border-zinc-200 bg-white px-2 py-1.5 text-sm dark:border-zinc-700 dark:bg-zinc-800"
+                  >
+                    <option value="">Map to…</option>
+                    {exercises.map((ex) => (
+                      <option key={ex.id} value={ex.id}>
+                        {ex.name}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => setModal({ editing: null, initialName: name })}
+                    className="rounded-lg border border-zinc-200 px-3 py-1.5 text-xs font-medium dark:border-zinc-700"
+                  >
+                    Create
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <ExerciseLibrary
+          exercises={exercises}
+          onEditExercise={(exercise) => setModal({ editing: exercise })}
+          onDeleteExercise={handleDelete}
+        />
+      </section>
+
+      <Modal isOpen={modal !== null} onClose={() => setModal(null)}>
+        {modal && (
+          <CustomExerciseForm
+            onSubmit={handleSave}
+            onCancel={() => setModal(null)}
+            initialData={modal.editing || undefined}
+            initialName={modal.initialName}
+            isLoading={formLoading}
+          />
+        )}
+      </Modal>
+    </AppLayout>
+  );
+}
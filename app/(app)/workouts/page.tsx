@@ -1,7 +1,8 @@
 'use client';
 
 import { useState, useEffect, useMemo, useCallback } from 'react';
-import { Plus } from 'lucide-react';
+import Link from 'next/link';
+import { Plus, Play, CalendarRange, BookOpen } from 'lucide-react';
 import { useAuth } from '@/components/providers/AuthProvider';
 import { useToast } from '@/lib/contexts/ToastContext';
 import { getErrorMessage } from '@/lib/utils/errorMessages';
@@ -18,13 +19,17 @@ import { Workout } from '@/lib/types/firestore';
 import AppLayout from '@/components/layout/AppLayout';
 import WorkoutList from '@/components/features/WorkoutList';
 import WorkoutForm from '@/components/features/WorkoutForm';
+import ActiveWorkoutLogger from '@/components/features/ActiveWorkoutLogger';
 import Modal from '@/components/ui/Modal';
 import SearchBar from '@/components/ui/SearchBar';
 import FilterPanel, { FilterOptions } from '@/components/features/FilterPanel';
 import { searchAndFilterWorkouts } from '@/lib/utils/search';
-import { triggerWorkoutNotifications } from '@/lib/notificationTriggers';
+import { triggerPersonalRecordNotifications, triggerWorkoutNotifications } from '@/lib/notificationTriggers';
 import { useUnits } from '@/components/providers/UnitProvider';
 import { useCachedData } from '@/lib/hooks/useCachedData';
+import { useActiveWorkout } from '@/lib/hooks/useActiveWorkout';
+import { setProgramDayCompleted } from '@/lib/programs';
+import { cacheInvalidate } from '@/lib/cache';
 
 export default function WorkoutsPage() {
   const { user } = useAuth();
@@ -54,6 +59,7 @@ export default function WorkoutsPage() {
   const [formLoading, setFormLoading] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [filters, setFilters] = useState<FilterOptions>({});
+  const activeWorkout = useActiveWorkout(user?.uid);
 
   // Set UID for sync manager
   useEffect(() => {
@@ -70,6 +76,34 @@ export default function WorkoutsPage() {
     setSearchQuery('');
   };
 
+  // Persist a new workout online, or locally with a queued sync when offline
+  const createWorkout = async (
+    uid: string,
+    data: Omit<Workout, 'id' | 'createdAt' | 'updatedAt'>
+  ) => {
+    let id: string;
+
+    if (isOnline) {
+      id = await addWorkout(uid, data);
+    } else {
+      // Save locally and queue for sync
+      id = await addWorkoutOffline(uid, data);
+      await addToSyncQueue(uid, 'create', 'workouts', id, { ...data, id });
+      showToast('Saved offline — will sync when online', 'info');
+    }
+
+    const newWorkout: Workout = {
+      ...data,
+      id,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    setWorkouts((prev = []) => [newWorkout, ...prev]);
+    if (isOnline) {
+      triggerWorkoutNotifications(uid, newWorkout, unitSystem).catch(() => {});
+    }
+  };
+
   const handleAddWorkout = async (
     data: Omit<Workout, 'id' | 'createdAt' | 'updatedAt'>
   ) => {
@@ -77,29 +111,9 @@ export default function WorkoutsPage() {
 
     setFormLoading(true);
     try {
-      let id: string;
-
-      if (isOnline) {
-        id = await addWorkout(user.uid, data);
-      } else {
-        // Save locally and queue for sync
-        id = await addWorkoutOffline(user.uid, data);
-        await addToSyncQueue(user.uid, 'create', 'workouts', id, { ...data, id });
-        showToast('Saved offline — will sync when online', 'info');
-      }
-
-      const newWorkout: Workout = {
-        ...data,
-        id,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      };
-      setWorkouts((prev = []) => [newWorkout, ...prev]);
+      await createWorkout(user.uid, data);
       setIsModalOpen(false);
-      if (isOnline) {
-        showToast('Workout added successfully!', 'success');
-        triggerWorkoutNotifications(user.uid, unitSystem).catch(() => {});
-      }
+      if (isOnline) showToast('Workout added successfully!', 'success');
     } catch (error: any) {
       console.error('Error adding workout:', error);
       showToast(getErrorMessage(error, 'Failed to add workout'), 'error');
@@ -108,6 +122,36 @@ export default function WorkoutsPage() {
     }
   };
 
+  const handleFinishSession = async (
+    data: Omit<Workout, 'id' | 'createdAt' | 'updatedAt'>
+  ) => {
+    if (!user) return;
+
+    setFormLoading(true);
+    try {
+      await createWorkout(user.uid, data);
+      const programDay = activeWorkout.session?.programDay;
+      if (programDay) {
+        // Program progress is best-effort; the workout itself is already saved
+        await setProgramDayCompleted(user.uid, programDay.programId, programDay.key)
+          .then(() => cacheInvalidate(`programs:${user.uid}`))
+          .catch(() => {});
+      }
+      await activeWorkout.discard();
+      if (isOnline) showToast('Session saved — nice work!', 'success');
+    } catch (error) {
+      console.error('Error saving session:', error);
+      showToast(getErrorMessage(error, 'Failed to save session'), 'error');
+    } finally {
+      setFormLoading(false);
+    }
+  };
+
+  const handleDiscardSession = async () => {
+    if (!confirm('Discard this session? Logged sets will be lost.')) return;
+    await activeWorkout.discard();
+  };
+
   const handleUpdateWorkout = async (
     data: Omit<Workout, 'id' | 'createdAt' | 'updatedAt'>
   ) => {
@@ -119,20 +163,18 @@ export default function WorkoutsPage() {
         await updateWorkout(user.uid, editingWorkout.id, data);
       } else {
         await updateWorkoutOffline(user.uid, editingWorkout.id, data);
-        await addToSyncQueue(user.uid, 'update', 'workouts', editingWorkout.id, data);
+        await addToSyncQueue(user.uid, 'update', 'workouts', editingWorkout.id, data, editingWorkout);
         showToast('Updated offline — will sync when online', 'info');
       }
 
-      setWorkouts((prev = []) =>
-        prev.map((w) =>
-          w.id === editingWorkout.id
-            ? { ...w, ...data, updatedAt: new Date() }
-            : w
-        )
-      );
+      const updated: Workout = { ...editingWorkout, ...data, updatedAt: new Date() };
+      setWorkouts((prev = []) => prev.map((w) => (w.id === editingWorkout.id ? updated : w)));
       setIsModalOpen(false);
       setEditingWorkout(null);
-      if (isOnline) showToast('Workout updated successfully!', 'success');
+      if (isOnline) {
+        showToast('Workout updated successfully!', 'success');
+        triggerPersonalRecordNotifications(user.uid, updated, unitSystem).catch(() => {});
+      }
     } catch (error: any) {
       console.error('Error updating workout:', error);
       showToast(getErrorMessage(error, 'Failed to update workout'), 'error');
@@ -153,7 +195,14 @@ export default function WorkoutsPage() {
         await deleteWorkout(user.uid, workoutId);
       } else {
         await deleteWorkoutOffline(user.uid, workoutId);
-        await addToSyncQueue(user.uid, 'delete', 'workouts', workoutId, null);
+        await addToSyncQueue(
+          user.uid,
+          'delete',
+          'workouts',
+          workoutId,
+          null,
+          workouts.find((w) => w.id === workoutId)
+        );
         showToast('Deleted offline — will sync when online', 'info');
       }
 
@@ -192,15 +241,58 @@ export default function WorkoutsPage() {
               Track your exercise sessions
             </p>
           </div>
-          <button
-            onClick={handleOpenAddModal}
-            className="flex h-12 items-center gap-2 rounded-full bg-[color:var(--foreground)] px-6 text-sm font-semibold text-[color:var(--background)]"
-          >
-            <Plus className="h-5 w-5" />
-            Add
-          </button>
+          <div className="flex gap-2">
+            <Link
+              href="/workouts/programs"
+              className="flex h-12 w-12 items-center justify-center rounded-full border border-zinc-200 dark:border-zinc-800"
+              aria-label="Templates & programs"
+              title="Templates & programs"
+            >
+              <CalendarRange className="h-5 w-5" />
+            </Link>
+            <Link
+              href="/workouts/exercises"
+              className="flex h-12 w-12 items-center justify-center rounded-full border border-zinc-200 dark:border-zinc-800"
+              aria-label="Exercise library"
+              title="Exercise library"
+            >
+              <BookOpen className="h-5 w-5" />
+            </Link>
+            {!activeWorkout.session && !activeWorkout.loading && (
+              <button
+                onClick={() => activeWorkout.start()}
+                className="flex h-12 items-center gap-2 rounded-full border border-zinc-200 px-5 text-sm font-semibold dark:border-zinc-800"
+              >
+                <Play className="h-5 w-5" />
+                Start
+              </button>
+            )}
+            <button
+              onClick={handleOpenAddModal}
+              className="flex h-12 items-center gap-2 rounded-full bg-[color:var(--foreground)] px-6 text-sm font-semibold text-[color:var(--background)]"
+            >
+              <Plus className="h-5 w-5" />
+              Add
+            </button>
+          </div>
         </div>
 
+        {/* Live session */}
+        {activeWorkout.session && (
+          <ActiveWorkoutLogger
+            session={activeWorkout.session}
+            history={workouts}
+            restRemaining={activeWorkout.restRemaining}
+            onUpdate={activeWorkout.update}
+            onToggleSet={activeWorkout.toggleSet}
+            onSkipRest={activeWorkout.skipRest}
+            onSetRestSeconds={activeWorkout.setRestSeconds}
+            onFinish={handleFinishSession}
+            onDiscard={handleDiscardSession}
+            isSaving={formLoading}
+          />
+        )}
+
         {/* Search & Filters */}
         <div className="space-y-3">
           <SearchBar
@@ -239,6 +331,7 @@ export default function WorkoutsPage() {
           onSubmit={editingWorkout ? handleUpdateWorkout : handleAddWorkout}
           onCancel={handleCloseModal}
           initialData={editingWorkout || undefined}
+          history={workouts}
           isLoading={formLoading}
         />
       </Modal>
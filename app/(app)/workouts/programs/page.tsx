@@ -0,0 +1,317 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { Plus, ChevronLeft, ClipboardList, CalendarRange } from 'lucide-react';
+import { useAuth } from '@/components/providers/AuthProvider';
+import { useToast } from '@/lib/contexts/ToastContext';
+import { getErrorMessage } from '@/lib/utils/errorMessages';
+import {
+  WorkoutTemplate,
+  getWorkoutTemplates,
+  addWorkoutTemplate,
+  updateWorkoutTemplate,
+  deleteWorkoutTemplate,
+} from '@/lib/workoutTemplates';
+import {
+  TrainingProgram,
+  getPrograms,
+  addProgram,
+  updateProgram,
+  deleteProgram,
+  setActiveProgram,
+  setProgramDayCompleted,
+} from '@/lib/programs';
+import AppLayout from '@/components/layout/AppLayout';
+import Modal from '@/components/ui/Modal';
+import WorkoutTemplateCard from '@/components/features/WorkoutTemplateCard';
+import WorkoutTemplateForm from '@/components/features/WorkoutTemplateForm';
+import ProgramCard from '@/components/features/ProgramCard';
+import ProgramForm from '@/components/features/ProgramForm';
+import { useCachedData } from '@/lib/hooks/useCachedData';
+import { useActiveWorkout } from '@/lib/hooks/useActiveWorkout';
+
+type ModalState =
+  | { kind: 'template'; editing: WorkoutTemplate | null }
+  | { kind: 'program'; editing: TrainingProgram | null }
+  | null;
+
+export default function ProgramsPage() {
+  const { user } = useAuth();
+  const router = useRouter();
+  const { showToast } = useToast();
+  const activeWorkout = useActiveWorkout(user?.uid);
+
+  const {
+    data: templates = [],
+    loading: templatesLoading,
+    setData: setTemplates,
+  } = useCachedData<WorkoutTemplate[]>({
+    key: `workoutTemplates:${user?.uid}`,
+    fetcher: useCallback(() => getWorkoutTemplates(user!.uid), [user]),
+    enabled: !!user,
+  });
+
+  const {
+    data: programs = [],
+    loading: programsLoading,
+    setData: setPrograms,
+    refetch: refetchPrograms,
+  } = useCachedData<TrainingProgram[]>({
+    key: `programs:${user?.uid}`,
+    fetcher: useCallback(() => getPrograms(user!.uid), [user]),
+    enabled: !!user,
+  });
+
+  const [modal, setModal] = useState<ModalState>(null);
+  const [formLoading, setFormLoading] = useState(false);
+
+  // ---- Templates ----
+
+  const handleSaveTemplate = async (
+    data: Omit<WorkoutTemplate, 'id' | 'createdAt' | 'updatedAt'>
+  ) => {
+    if (!user || modal?.kind !== 'template') return;
+
+    setFormLoading(true);
+    try {
+      if (modal.editing) {
+        const id = modal.editing.id;
+        await updateWorkoutTemplate(user.uid, id, data);
+        setTemplates((prev = []) =>
+          prev.map((t) => (t.id === id ? { ...t, ...data, updatedAt: new Date() } : t))
+        );
+      } else {
+        const id = await addWorkoutTemplate(user.uid, data);
+        setTemplates((prev = []) =>
+          [...prev, { ...data, id, createdAt: new Date(), updatedAt: new Date() }].sort((a, b) =>
+            a.name.localeCompare(b.name)
+          )
+        );
+      }
+      setModal(null);
+      showToast('Template saved', 'success');
+    } catch (error) {
+      showToast(getErrorMessage(error, 'Failed to save template'), 'error');
+    } finally {
+      setFormLoading(false);
+    }
+  };
+
+  const handleDeleteTemplate = async (templateId: string) => {
+    if (!user) return;
+    const usedBy = programs.filter((p) => p.schedule.some((d) => d.templateId === templateId));
+    const message = usedBy.length
+      ? `This template is scheduled in ${usedBy.map((p) => p.name).join(', ')}. Delete anyway?`
+      : 'Are you sure you want to delete this template?';
+    if (!confirm(message)) return;
+
+    try {
+      await deleteWorkoutTemplate(user.uid, templateId);
+      setTemplates((prev = []) => prev.filter((t) => t.id !== templateId));
+      showToast('Template deleted', 'success');
+    } catch (error) {
+      showToast(getErrorMessage(error, 'Failed to delete template'), 'error');
+    }
+  };
+
+  const handleUseTemplate = async (template: WorkoutTemplate) => {
+    if (
+      activeWorkout.session &&
+      !confirm('You have a session in progress. Replace it with this template?')
+    ) {
+      return;
+    }
+    await activeWorkout.startFromTemplate(template);
+    router.push('/workouts');
+  };
+
+  // ---- Programs ----
+
+  const handleSaveProgram = async (
+    data: Omit<TrainingProgram, 'id' | 'createdAt' | 'updatedAt' | 'completedDays'>
+  ) => {
+    if (!user || modal?.kind !== 'program') return;
+
+    setFormLoading(true);
+    try {
+      if (modal.editing) {
+        await updateProgram(user.uid, modal.editing.id, data);
+        if (data.active) await setActiveProgram(user.uid, modal.editing.id);
+      } else {
+        await addProgram(user.uid, data);
+      }
+      // Activation may have changed other programs too
+      await refetchPrograms();
+      setModal(null);
+      showToast('Program saved', 'success');
+    } catch (error) {
+      showToast(getErrorMessage(error, 'Failed to save program'), 'error');
+    } finally {
+      setFormLoading(false);
+    }
+  };
+
+  const handleToggleActive = async (program: TrainingProgram) => {
+    if (!user) return;
+    const nextActive = program.active ? null : program.id;
+    try {
+      await setActiveProgram(user.uid, nextActive);
+      setPrograms((prev = []) => prev.map((p) => ({ ...p, active: p.id === nextActive })));
+    } catch (error) {
+      showToast(getErrorMessage(error, 'Failed to update program'), 'error');
+    }
+  };
+
+  const handleToggleDay = async (program: TrainingProgram, key: string, completed: boolean) => {
+    if (!user) return;
+    try {
+      await setProgramDayCompleted(user.uid, program.id, key, completed);
+      setPrograms((prev = []) =>
+        prev.map((p) =>
+          p.id === program.id
+            ? {
+                ...p,
+                completedDays: completed
+                  ? [...p.completedDays.filter((k) => k !== key), key]
+                  : p.completedDays.filter((k) => k !== key),
+              }
+            : p
+        )
+      );
+    } catch (error) {
+      showToast(getErrorMessage(error, 'Failed to update program day'), 'error');
+    }
+  };
+
+  const handleDeleteProgram = async (programId: string) => {
+    if (!user) return;
+    if (!confirm('Are you sure you want to delete this program?')) return;
+
+    try {
+      await deleteProgram(user.uid, programId);
+      setPrograms((prev = []) => prev.filter((p) => p.id !== programId));
+      showToast('Program deleted', 'success');
+    } catch (error) {
+      showToast(getErrorMessage(error, 'Failed to delete program'), 'error');
+    }
+  };
+
+  return (
+    <AppLayout title="Programs">
+      <section className="space-y-6">
+        <div>
+          <Link
+            href="/workouts"
+            className="mb-2 inline-flex items-center gap-1 text-xs font-medium text-[color:var(--muted-foreground)] hover:text-[color:var(--foreground)]"
+          >
+            <ChevronLeft className="h-3.5 w-3.5" />
+            Workouts
+          </Link>
+          <h2 className="text-2xl font-semibold text-[color:var(--foreground)]">
+            Templates & Programs
+          </h2>
+          <p className="mt-1 text-sm text-[color:var(--muted-foreground)]">
+            Plan your sessions and follow a weekly schedule
+          </p>
+        </div>
+
+        {/* Programs */}
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <p className="flex items-center gap-2 text-xs font-semibold uppercase tracking-wider text-[color:var(--muted-foreground)]">
+              <CalendarRange className="h-3.5 w-3.5" />
+              Programs
+            </p>
+            <button
+              onClick={() => setModal({ kind: 'program', editing: null })}
+              disabled={templates.length === 0}
+              className="flex items-center gap-1 text-xs font-medium text-[color:var(--muted-foreground)] hover:text-[color:var(--foreground)] disabled:opacity-50"
+            >
+              <Plus className="h-3.5 w-3.5" />
+              New program
+            </button>
+          </div>
+          {programsLoading ? (
+            <div className="h-32 animate-pulse rounded-lg bg-zinc-100 dark:bg-zinc-800" />
+          ) : programs.length === 0 ? (
+            <p className="rounded-lg border-2 border-dashed border-zinc-200 p-6 text-center text-sm text-[color:var(--muted-foreground)] dark:border-zinc-800">
+              {templates.length === 0
+                ? 'Create a template, then schedule it into a program'
+                : 'No programs yet — schedule your templates across the week'}
+            </p>
+          ) : (
+            programs.map((program) => (
+              <ProgramCard
+                key={program.id}
+                program={program}
+                templates={templates}
+                onToggleActive={handleToggleActive}
+                onToggleDay={handleToggleDay}
+                onEdit={(p) => setModal({ kind: 'program', editing: p })}
+                onDelete={handleDeleteProgram}
+              />
+            ))
+          )}
+        </div>
+
+        {/* Templates */}
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <p className="flex items-center gap-2 text-xs font-semibold uppercase tracking-wider text-[color:var(--muted-foreground)]">
+              <ClipboardList className="h-3.5 w-3.5" />
+              Templates
+            </p>
+            <button
+              onClick={() => setModal({ kind: 'template', editing: null })}
+              className="flex items-center gap-1 text-xs font-medium text-[color:var(--muted-foreground)] hover:text-[color:var(--foreground)]"
+            >
+              <Plus className="h-3.5 w-3.5" />
+              New template
+            </button>
+          </div>
+          {templatesLoading ? (
+            <div className="h-32 animate-pulse rounded-lg bg-zinc-100 dark:bg-zinc-800" />
+          ) : templates.length === 0 ? (
+            <p className="rounded-lg border-2 border-dashed border-zinc-200 p-6 text-center text-sm text-[color:var(--muted-foreground)] dark:border-zinc-800">
+              No templates yet
+            </p>
+          ) : (
+            <div className="grid gap-3 sm:grid-cols-2">
+              {templates.map((template) => (
+                <WorkoutTemplateCard
+                  key={template.id}
+                  template={template}
+                  onUse={handleUseTemplate}
+                  onEdit={(t) => setModal({ kind: 'template', editing: t })}
+                  onDelete={handleDeleteTemplate}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+      </section>
+
+      <Modal isOpen={modal !== null} onClose={() => setModal(null)}>
+        {modal?.kind === 'template' && (
+          <WorkoutTemplateForm
+            onSubmit={handleSaveTemplate}
+            onCancel={() => setModal(null)}
+            initialData={modal.editing || undefined}
+            isLoading={formLoading}
+          />
+        )}
+        {modal?.kind === 'program' && (
+          <ProgramForm
+            templates={templates}
+            onSubmit={handleSaveProgram}
+            onCancel={() => setModal(null)}
+            initialData={modal.editing || undefined}
+            isLoading={formLoading}
+          />
+        )}
+      </Modal>
+    </AppLayout>
+  );
+}
@@ -0,0 +1,339 @@
+'use client';
+
+import { useState } from 'react';
+import { Check, Plus, Timer, X, SkipForward } from 'lucide-react';
+import { Workout, SetType } from '@/lib/types/firestore';
+import { ActiveWorkoutSession, ActiveSessionSet } from '@/lib/offline/offlineStore';
+import { useUnits } from '@/components/providers/UnitProvider';
+import { weightUnit, weightToKg, getWeightInUnit } from '@/lib/utils/units';
+import { getLastPerformance } from '@/lib/utils/workoutSets';
+import ExerciseDatalist from '@/components/features/ExerciseDatalist';
+
+const REST_OPTIONS = [30, 60, 90, 120, 180, 240, 300];
+
+const SET_TYPE_SHORT: Record<SetType, string> = {
+  warmup: 'W',
+  working: '',
+  drop: 'D',
+  failure: 'F',
+};
+
+const formatClock = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+interface ActiveWorkoutLoggerProps {
+  session: ActiveWorkoutSession;
+  history: Workout[]; // newest first, used to pre-fill sets
+  restRemaining: number;
+  onUpdate: (mutator: (current: ActiveWorkoutSession) => ActiveWorkoutSession) => void;
+  onToggleSet: (exerciseIndex: number, setIndex: number) => void;
+  onSkipRest: () => void;
+  onSetRestSeconds: (seconds: number) => void;
+  onFinish: (data: Omit<Workout, 'id' | 'createdAt' | 'updatedAt'>) => Promise<void>;
+  onDiscard: () => void;
+  isSaving?: boolean;
+}
+
+export default function ActiveWorkoutLogger({
+  session,
+  history,
+  restRemaining,
+  onUpdate,
+  onToggleSet,
+  onSkipRest,
+  onSetRestSeconds,
+  onFinish,
+  onDiscard,
+  isSaving = false,
+}: ActiveWorkoutLoggerProps) {
+  const { unitSystem } = useUnits();
+  const wu = weightUnit(unitSystem);
+  const [newExercise, setNewExercise] = useState('');
+  const [error, setError] = useState('');
+
+  const completedSets = session.exercises.reduce(
+    (sum, e) => sum + e.sets.filter((s) => s.completed).length,
+    0
+  );
+
+  const updateSet = (exerciseIndex: number, setIndex: number, updates: Partial<ActiveSessionSet>) => {
+    onUpdate((current) => ({
+      ...current,
+      exercises: current.exercises.map((e, i) =>
+        i === exerciseIndex
+          ? { ...e, sets: e.sets.map((s, j) => (j === setIndex ? { ...s, ...updates } : s)) }
+          : e
+      ),
+    }));
+  };
+
+  const addSet = (exerciseIndex: number) => {
+    onUpdate((current) => ({
+      ...current,
+      exercises: current.exercises.map((e, i) => {
+        if (i !== exerciseIndex) return e;
+        const previous = e.sets[e.sets.length - 1];
+        const next: ActiveSessionSet = previous
+          ? { ...previous, completed: false }
+          : { reps: 0, weight: 0, type: 'working', completed: false };
+        return { ...e, sets: [...e.sets, next] };
+      }),
+    }));
+  };
+
+  const removeExercise = (exerciseIndex: number) => {
+    onUpdate((current) => ({
+      ...current,
+      exercises: current.exercises.filter((_, i) => i !== exerciseIndex),
+    }));
+  };
+
+  // Pre-fill the new exercise with the sets from the last time it was done
+  const handleAddExercise = () => {
+    const name = newExercise.trim();
+    if (!name) return;
+    const last = getLastPerformance(history, name);
+    const sets: ActiveSessionSet[] = last
+      ? last.map((s) => ({ ...s, completed: false }))
+      : [{ reps: 0, weight: 0, type: 'working', completed: false }];
+    onUpdate((current) => ({
+      ...current,
+      exercises: [...current.exercises, { exercise: name, sets }],
+    }));
+    setNewExercise('');
+  };
+
+  const handleFinish = async () => {
+    setError('');
+    const exercises = session.exercises
+      .map((e) => ({
+        exercise: e.exercise,
+        notes: e.notes,
+        sets: e.sets
+          .filter((s) => s.completed && s.reps > 0)
+          .map((s) => ({ reps: s.reps, weight: s.weight, rpe: s.rpe, type: s.type })),
+      }))
+      .filter((e) => e.sets.length > 0);
+
+    if (exercises.length === 0) {
+      setError('Complete at least one set before finishing');
+      return;
+    }
+
+    const startedAt = new Date(session.startedAt);
+    await onFinish({
+      title: session.title.trim() || undefined,
+      exercises,
+      duration: Math.max(1, Math.round((Date.now() - startedAt.getTime()) / 60000)),
+      date: startedAt,
+    });
+  };
+
+  const inputClass =
+    'w-full rounded-lg border border-zinc-200 bg-[color:var(--background)] px-2 py-1.5 text-sm shadow-sm outline-none focus:border-black dark:border-zinc-800 dark:focus:border-white disabled:opacity-50';
+
+  return (
+    <div className="space-y-3 rounded-2xl border border-zinc-200 bg-[color:var(--background)] p-4 shadow-sm dark:border-zinc-800">
+      <div className="flex items-center gap-2">
+        <input
+          type="text"
+          placeholder="Session name"
+          value={session.title}
+          onChange={(e) => onUpdate((current) => ({ ...current, title: e.target.value }))}
+          className={`${inputClass} flex-1 font-semibold`}
+        />
+        <label className="flex items-center gap-1 text-xs text-[color:var(--muted-foreground)]">
+          <Timer className="h-4 w-4" />
+          <select
+            value={session.restSeconds}
+            onChange={(e) => onSetRestSeconds(Number(e.target.value))}
+            aria-label="Rest between sets"
+            className="rounded-lg border border-zinc-200 bg-[color:var(--background)] px-1 py-1 text-xs dark:border-zinc-800"
+          >
+            {REST_OPTIONS.map((s) => (
+              <option key={s} value={s}>
+                {formatClock(s)}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {/* Rest countdown */}
+      {restRemaining > 0 && (
+        <div className="flex items-center justify-between rounded-xl bg-purple-600 px-4 py-3 text-white dark:bg-purple-500">
+          <div>
+            <p className="text-xs opacity-80">Rest</p>
+            <p className="text-2xl font-bold tabular-nums">{formatClock(restRemaining)}</p>
+          </div>
+          <button
+            type="button"
+            onClick={onSkipRest}
+            className="flex items-center gap-1 rounded-full bg-white/20 px-3 py-1.5 text-xs font-medium"
+          >
+            <SkipForward className="h-3.5 w-3.5" />
+            Skip
+          </button>
+        </div>
+      )}
+
+      {error && (
+        <p className="rounded-lg bg-red-100 p-2 text-xs text-red-700 dark:bg-red-900 dark:text-red-100">
+          {error}
+        </p>
+      )}
+
+      {session.exercises.map((entry, exerciseIndex) => {
+        const last = getLastPerformance(history, entry.exercise);
+        return (
+          <div
+            key={exerciseIndex}
+            className="space-y-2 rounded-xl border border-zinc-200 p-3 dark:border-zinc-800"
+          >
+            <div className="flex items-start justify-between">
+              <div>
+                <h3 className="font-semibold text-[color:var(--foreground)]">{entry.exercise}</h3>
+                {last && (
+                  <p className="text-[11px] text-[color:var(--muted-foreground)]">
+                    Last time:{' '}
+                    {last
+                      .map((s) => `${s.weight ? `${getWeightInUnit(s.weight, unitSystem)}×` : ''}${s.reps}`)
+                      .join(', ')}
+                  </p>
+                )}
+              </div>
+              <button
+                type="button"
+                onClick={() => removeExercise(exerciseIndex)}
+                className="rounded-full p-1 hover:bg-zinc-100 dark:hover:bg-zinc-800"
+                aria-label={`Remove ${entry.exercise}`}
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </div>
+
+            <div className="grid grid-cols-[1.5rem_1fr_1fr_2.25rem] items-center gap-1 text-[10px] font-medium text-[color:var(--muted-foreground)]">
+              <span>Set</span>
+              <span>{wu}</span>
+              <span>Reps</span>
+              <span />
+            </div>
+            {entry.sets.map((set, setIndex) => (
+              <div
+                key={setIndex}
+                className={`grid grid-cols-[1.5rem_1fr_1fr_2.25rem] items-center gap-1 rounded-lg ${
+                  set.completed ? 'bg-green-50 dark:bg-green-900/20' : ''
+                }`}
+              >
+                <button
+                  type="button"
+                  onClick={() => {
+                    const order: SetType[] = ['working', 'warmup', 'drop', 'failure'];
+                    updateSet(exerciseIndex, setIndex, {
+                      type: order[(order.indexOf(set.type) + 1) % order.length],
+                    });
+                  }}
+                  className="text-xs font-medium text-[color:var(--muted-foreground)]"
+                  aria-label={`Set ${setIndex + 1} type: ${set.type}`}
+                >
+                  {SET_TYPE_SHORT[set.type] || setIndex + 1}
+                </button>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.5"
+                  value={set.weight ? getWeightInUnit(set.weight, unitSystem) : ''}
+                  onChange={(e) =>
+                    updateSet(exerciseIndex, setIndex, {
+                      weight: e.target.value ? weightToKg(parseFloat(e.target.value), unitSystem) : 0,
+                    })
+                  }
+                  aria-label={`Set ${setIndex + 1} weight`}
+                  className={inputClass}
+                />
+                <input
+                  type="number"
+                  min="0"
+                  value={set.reps || ''}
+                  onChange={(e) =>
+                    updateSet(exerciseIndex, setIndex, { reps: parseInt(e.target.value) || 0 })
+                  }
+                  aria-label={`Set ${setIndex + 1} reps`}
+                  className={inputClass}
+                />
+                <button
+                  type="button"
+                  onClick={() => onToggleSet(exerciseIndex, setIndex)}
+                  disabled={!set.completed && set.reps <= 0}
+                  className={`flex h-8 w-8 items-center justify-center rounded-lg border disabled:opacity-30 ${
+                    set.completed
+                      ? 'border-green-600 bg-green-600 text-white'
+                      : 'border-zinc-200 dark:border-zinc-800'
+                  }`}
+                  aria-label={set.completed ? `Undo set ${setIndex + 1}` : `Complete set ${setIndex + 1}`}
+                >
+                  <Check className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+
+            <button
+              type="button"
+              onClick={() => addSet(exerciseIndex)}
+              className="flex items-center gap-1 text-xs font-medium text-[color:var(--muted-foreground)] hover:text-[color:var(--foreground)]"
+            >
+              <Plus className="h-3.5 w-3.5" />
+              Add set
+            </button>
+          </div>
+        );
+      })}
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          list="active-exercise-options"
+          placeholder="Add exercise"
+          value={newExercise}
+          onChange={(e) => setNewExercise(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleAddExercise();
+            }
+          }}
+          className={`${inputClass} flex-1`}
+        />
+        <ExerciseDatalist id="active-exercise-options" />
+        <button
+          type="button"
+          onClick={handleAddExercise}
+          disabled={!newExercise.trim()}
+          className="flex h-9 items-center gap-1 rounded-lg border border-zinc-200 px-3 text-xs font-medium dark:border-zinc-800 disabled:opacity-50"
+        >
+          <Plus className="h-4 w-4" />
+          Add
+        </button>
+      </div>
+
+      <div className="flex gap-2 pt-1">
+        <button
+          type="button"
+          onClick={onDiscard}
+          disabled={isSaving}
+          className="flex h-10 flex-1 items-center justify-center rounded-lg border border-zinc-200 text-sm font-medium text-red-600 dark:border-zinc-800 disabled:opacity-50"
+        >
+          Discard
+        </button>
+        <button
+          type="button"
+          onClick={handleFinish}
+          disabled={isSaving || completedSets === 0}
+          className="flex h-10 flex-1 items-center justify-center rounded-lg bg-[color:var(--foreground)] text-sm font-medium text-[color:var(--background)] disabled:opacity-50"
+        >
+          {isSaving ? 'Saving...' : `Finish (${completedSets} sets)`}
+        </button>
+      </div>
+    </div>
+  );
+}
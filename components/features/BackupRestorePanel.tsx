@@ -0,0 +1,266 @@
+'use client';
+
+import { useState } from 'react';
+import { DatabaseBackup, Download, FileUp, CheckCircle2 } from 'lucide-react';
+import { useAuth } from '@/components/providers/AuthProvider';
+import { useToast } from '@/lib/contexts/ToastContext';
+import { useOffline } from '@/lib/hooks/useOffline';
+import { getErrorMessage } from '@/lib/utils/errorMessages';
+import { downloadFile } from '@/lib/utils/export';
+import { createBackup, restoreBackup, RestoreMode, RestoreResult } from '@/lib/backup';
+import {
+  BACKUP_COLLECTIONS,
+  BACKUP_COLLECTION_LABELS,
+  BACKUP_VERSION,
+  BackupValidation,
+  parseBackupFile,
+} from '@/lib/utils/backup';
+
+// Validation problems listed before "and N more"
+const ERROR_LIMIT = 50;
+
+const MODE_OPTIONS: { value: RestoreMode; label: string; description: string }[] = [
+  {
+    value: 'merge',
+    label: 'Merge',
+    description: 'Add what this account is missing. Nothing already here is changed.',
+  },
+  {
+    value: 'replace',
+    label: 'Replace',
+    description: 'Make this account match the backup. Records that aren’t in the backup are deleted.',
+  },
+];
+
+/**
+ * Download a full account backup (profile, every collection and browser
+ * preferences) and restore one into this account
+ */
+export default function BackupRestorePanel() {
+  const { user } = useAuth();
+  const { showToast } = useToast();
+  const { isOnline } = useOffline();
+
+  const [backingUp, setBackingUp] = useState(false);
+  const [fileName, setFileName] = useState('');
+  const [validation, setValidation] = useState<BackupValidation | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [restoring, setRestoring] = useState(false);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [result, setResult] = useState<RestoreResult | null>(null);
+
+  const reset = () => {
+    setFileName('');
+    setValidation(null);
+    setMode('merge');
+    setProgress({ done: 0, total: 0 });
+    setResult(null);
+  };
+
+  const handleBackup = async () => {
+    if (!user) return;
+    setBackingUp(true);
+    try {
+      const backup = await createBackup(user.uid);
+      const filename = `gymi-backup-${new Date().toISOString().split('T')[0]}.json`;
+      downloadFile(JSON.stringify(backup, null, 2), filename, 'application/json');
+      const total = Object.values(backup.collections).reduce((sum, docs) => sum + (docs?.length || 0), 0);
+      showToast(`Backed up ${total} records`, 'success');
+    } catch (error) {
+      showToast(getErrorMessage(error, 'Failed to create backup'), 'error');
+    } finally {
+      setBackingUp(false);
+    }
+  };
+
+  const handleFile = async (file: File) => {
+    reset();
+    try {
+      setValidation(await parseBackupFile(file));
+      setFileName(file.name);
+    } catch (error) {
+      showToast(getErrorMessage(error, 'Failed to read backup'), 'error');
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!user || !validation) return;
+    if (
+      mode === 'replace' &&
+      !confirm('Replace this account with the backup? Records that aren’t in the backup will be deleted.')
+    ) {
+      return;
+    }
+    setRestoring(true);
+    try {
+      const restored = await restoreBackup(user.uid, validation.backup, mode, (done, total) =>
+        setProgress({ done, total })
+      );
+      setResult(restored);
+      showToast('Backup restored', 'success');
+    } catch (error) {
+      showToast(getErrorMessage(error, 'Failed to restore backup'), 'error');
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const backup = validation?.backup;
+  const secondaryButton =
+    'flex items-center gap-1 rounded-full border border-zinc-200 px-3 py-1.5 text-xs font-medium hover:bg-zinc-100 disabled:opacity-50 dark:border-zinc-800 dark:hover:bg-zinc-800';
+  const primaryButton =
+    'rounded-full bg-[color:var(--foreground)] px-3 py-1.5 text-xs font-semibold text-[color:var(--background)] disabled:opacity-50';
+
+  return (
+    <div className="rounded-2xl border border-zinc-200 bg-[color:var(--background)] p-5 shadow-sm dark:border-zinc-800">
+      <div className="mb-4 flex items-start justify-between gap-3">
+        <div>
+          <p className="mb-1 flex items-center gap-2 text-sm font-semibold text-[color:var(--foreground)]">
+            <DatabaseBackup className="h-4 w-4" />
+            Backup &amp; Restore
+          </p>
+          <p className="text-xs text-[color:var(--muted-foreground)]">
+            Everything in your account — profile, logs, goals, achievements, templates, notifications and this
+            browser&apos;s preferences — in one file
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={handleBackup}
+          disabled={backingUp || !isOnline}
+          className={`shrink-0 ${secondaryButton}`}
+        >
+          <Download className="h-3.5 w-3.5" />
+          {backingUp ? 'Preparing…' : 'Download backup'}
+        </button>
+      </div>
+
+      {/* Choose a backup */}
+      {!backup && (
+        <label
+          className={`flex cursor-pointer items-center justify-center gap-2 rounded-xl border-2 border-dashed border-zinc-200 p-4 text-xs text-[color:var(--muted-foreground)] hover:bg-zinc-50 dark:border-zinc-800 dark:hover:bg-zinc-900/50 ${
+            !isOnline ? 'pointer-events-none opacity-50' : ''
+          }`}
+        >
+          <FileUp className="h-4 w-4" />
+          {isOnline ? 'Restore from a backup file (.json)' : 'Restoring needs a connection'}
+          <input
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            disabled={!isOnline}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) handleFile(file);
+            }}
+          />
+        </label>
+      )}
+
+      {/* Review and restore */}
+      {backup && validation && !result && (
+        <div className="space-y-4">
+          <div className="space-y-2 rounded-xl border border-zinc-200 p-3 dark:border-zinc-800">
+            <p className="text-sm font-medium text-[color:var(--foreground)]">{fileName}</p>
+            <p className="text-[10px] text-[color:var(--muted-foreground)]">
+              {backup.exportDate && `Made ${new Date(backup.exportDate).toLocaleString()} · `}
+              version {validation.fromVersion}
+              {validation.fromVersion < BACKUP_VERSION && ` (upgraded to version ${BACKUP_VERSION})`}
+            </p>
+            <ul className="grid grid-cols-2 gap-x-3 gap-y-0.5 text-xs text-[color:var(--foreground)]">
+              <li>Profile: {backup.profile ? 'included' : 'not included'}</li>
+              <li>Preferences: {Object.keys(backup.preferences).length}</li>
+              {BACKUP_COLLECTIONS.filter((name) => backup.collections[name]).map((name) => (
+                <li key={name}>
+                  {BACKUP_COLLECTION_LABELS[name]}: {backup.collections[name]!.length}
+                </li>
+              ))}
+            </ul>
+
+            {validation.errors.length > 0 && (
+              <div className="max-h-40 space-y-0.5 overflow-y-auto rounded-lg bg-red-50 p-2 text-[11px] text-red-700 dark:bg-red-900/20 dark:text-red-300">
+                <p className="font-medium">{validation.errors.length} entries failed validation and are left out</p>
+                {validation.errors.slice(0, ERROR_LIMIT).map((error, i) => (
+                  <p key={i}>{error}</p>
+                ))}
+                {validation.errors.length > ERROR_LIMIT && <p>and {validation.errors.length - ERROR_LIMIT} more</p>}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            {MODE_OPTIONS.map((option) => (
+              <label
+                key={option.value}
+                className={`flex cursor-pointer items-start gap-2 rounded-xl border p-3 ${
+                  mode === option.value ? 'border-[color:var(--foreground)]' : 'border-zinc-200 dark:border-zinc-800'
+                }`}
+              >
+                <input
+                  type="radio"
+                  name="restore-mode"
+                  value={option.value}
+                  checked={mode === option.value}
+                  onChange={() => setMode(option.value)}
+                  disabled={restoring}
+                  className="mt-0.5"
+                />
+                <span>
+                  <span className="block text-xs font-medium text-[color:var(--foreground)]">{option.label}</span>
+                  <span className="block text-[10px] text-[color:var(--muted-foreground)]">{option.description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+
+          {restoring ? (
+            <div className="space-y-1">
+              <div className="h-2 overflow-hidden rounded-full bg-zinc-100 dark:bg-zinc-800">
+                <div
+                  className="h-full bg-[color:var(--foreground)] transition-all"
+                  style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }}
+                />
+              </div>
+              <p className="text-[10px] text-[color:var(--muted-foreground)]">
+                Restoring {progress.done} of {progress.total}…
+              </p>
+            </div>
+          ) : (
+            <div className="flex gap-2">
+              <button type="button" onClick={reset} className={secondaryButton}>
+                Cancel
+              </button>
+              <button type="button" onClick={handleRestore} disabled={!isOnline} className={`ml-auto ${primaryButton}`}>
+                {mode === 'merge' ? 'Merge backup' : 'Replace with backup'}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Finished */}
+      {result && (
+        <div className="space-y-3">
+          <p className="flex items-center gap-2 text-sm text-[color:var(--foreground)]">
+            <CheckCircle2 className="h-4 w-4 text-emerald-500" />
+            Restored {result.written} records
+            {result.skipped > 0 && ` · ${result.skipped} already here`}
+            {result.deleted > 0 && ` · ${result.deleted} removed`}
+          </p>
+          <p className="text-xs text-[color:var(--muted-foreground)]">
+            Reload to see the restored profile{result.preferences > 0 && ' and preferences'} everywhere.
+          </p>
+          <div className="flex gap-2">
+            <button type="button" onClick={reset} className={secondaryButton}>
+              Done
+            </button>
+            <button type="button" onClick={() => window.location.reload()} className={primaryButton}>
+              Reload
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { X } from 'lucide-react';
+import CameraView from '@/components/features/CameraView';
+import { BarcodeReader, createBarcodeReader, isValidBarcode, normalizeBarcode } from '@/lib/utils/barcode';
+
+interface BarcodeScannerProps {
+  onDetected: (barcode: string) => void; // normalized EAN-13/EAN-8
+  onClose: () => void;
+}
+
+// Decoding every animation frame is wasteful; a few reads a second is plenty
+const SCAN_INTERVAL_MS = 200;
+
+export default function BarcodeScanner({ onDetected, onClose }: BarcodeScannerProps) {
+  const [manualCode, setManualCode] = useState('');
+  const [error, setError] = useState('');
+
+  const readerRef = useRef<BarcodeReader | null>(null);
+  const lastScanRef = useRef(0);
+  const busyRef = useRef(false);
+  const doneRef = useRef(false);
+  // CameraView keeps the first frame callback it gets, so read props via a ref
+  const onDetectedRef = useRef(onDetected);
+
+  useEffect(() => {
+    onDetectedRef.current = onDetected;
+  }, [onDetected]);
+
+  const handleFrame = useCallback((canvas: HTMLCanvasElement) => {
+    const now = Date.now();
+    if (doneRef.current || busyRef.current || now - lastScanRef.current < SCAN_INTERVAL_MS) return;
+    lastScanRef.current = now;
+    busyRef.current = true;
+
+    if (!readerRef.current) readerRef.current = createBarcodeReader();
+    readerRef.current(canvas)
+      .then((code) => {
+        if (code && !doneRef.current) {
+          doneRef.current = true;
+          onDetectedRef.current(code);
+        }
+      })
+      .catch((err) => console.error('Barcode decode failed:', err))
+      .finally(() => {
+        busyRef.current = false;
+      });
+  }, []);
+
+  const handleManualSubmit = () => {
+    const code = normalizeBarcode(manualCode);
+    if (!isValidBarcode(code)) {
+      setError('Enter the 8, 12 or 13 digits under the barcode');
+      return;
+    }
+    doneRef.current = true;
+    onDetected(code);
+  };
+
+  return (
+    <div className="space-y-2 rounded-lg border border-zinc-200 p-2 dark:border-zinc-800">
+      <div className="flex items-center justify-between">
+        <p className="text-xs font-medium">Scan a barcode</p>
+        <button
+          type="button"
+          onClick={onClose}
+          className="rounded-full p-1 hover:bg-zinc-100 dark:hover:bg-zinc-800"
+          aria-label="Close scanner"
+        >
+          <X className="h-3.5 w-3.5" />
+        </button>
+      </div>
+
+      <div className="relative">
+        <CameraView facingMode="environment" onFrameCapture={handleFrame} className="h-48 rounded-lg" />
+        {/* Aiming guide over the rows the decoder samples */}
+        <div className="pointer-events-none absolute inset-x-6 top-1/2 h-px -translate-y-1/2 bg-red-500/80" />
+      </div>
+
+      {/* Typed fallback for damaged labels or devices without a camera */}
+      <div className="flex gap-2">
+        <input
+          type="text"
+          inputMode="numeric"
+          placeholder="Or type the code"
+          value={manualCode}
+          onChange={(e) => {
+            setManualCode(e.target.value);
+            setError('');
+          }}
+          onKeyDown={(e) => {
+            // Don't submit the surrounding meal form
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleManualSubmit();
+            }
+          }}
+          aria-label="Barcode number"
+          className="min-w-0 flex-1 rounded-lg border border-zinc-200 bg-[color:var(--background)] px-3 py-1.5 text-sm dark:border-zinc-800"
+        />
+        <button
+          type="button"
+          onClick={handleManualSubmit}
+          className="rounded-lg border border-zinc-200 px-3 text-xs font-medium hover:bg-zinc-100 dark:border-zinc-800 dark:hover:bg-zinc-800"
+        >
+          Look up
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,266 @@
+'use client';
+
+import { useState, FormEvent } from 'react';
+import { X } from 'lucide-react';
+import { Exercise, MuscleGroup, Equipment } from '@/lib/data/exercises';
+import { CustomExerciseData } from '@/lib/customExercises';
+import FilterChip from '@/components/ui/FilterChip';
+
+interface CustomExerciseFormProps {
+  onSubmit: (data: CustomExerciseData) => Promise<void>;
+  onCancel: () => void;
+  initialData?: Exercise;
+  initialName?: string; // pre-fill when creating from a free-text name
+  isLoading?: boolean;
+}
+
+const MUSCLE_GROUPS: MuscleGroup[] = [
+  'chest',
+  'back',
+  'shoulders',
+  'biceps',
+  'triceps',
+  'forearms',
+  'abs',
+  'obliques',
+  'quads',
+  'hamstrings',
+  'glutes',
+  'calves',
+  'full-body',
+  'cardio',
+];
+
+const EQUIPMENT: Equipment[] = [
+  'barbell',
+  'dumbbell',
+  'kettlebell',
+  'cable',
+  'machine',
+  'bodyweight',
+  'resistance-band',
+  'medicine-ball',
+  'pull-up-bar',
+  'bench',
+  'none',
+];
+
+const label = (value: string) =>
+  value.charAt(0).toUpperCase() + value.slice(1).replace('-', ' ');
+
+export default function CustomExerciseForm({
+  onSubmit,
+  onCancel,
+  initialData,
+  initialName = '',
+  isLoading = false,
+}: CustomExerciseFormProps) {
+  const [formData, setFormData] = useState({
+    name: initialData?.name || initialName,
+    category: initialData?.category || ('strength' as Exercise['category']),
+    difficulty: initialData?.difficulty || ('beginner' as Exercise['difficulty']),
+    description: initialData?.description || '',
+    instructions: initialData?.instructions.join('\n') || '',
+  });
+  const [muscleGroups, setMuscleGroups] = useState<MuscleGroup[]>(
+    initialData?.muscleGroups || []
+  );
+  const [equipment, setEquipment] = useState<Equipment[]>(initialData?.equipment || []);
+  const [error, setError] = useState('');
+
+  const toggle = <T,>(list: T[], value: T) =>
+    list.includes(value) ? list.filter((v) => v !== value) : [...list, value];
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    // Validation
+    if (formData.name.trim().length < 2) {
+      setError('Exercise name must be at least 2 characters');
+      return;
+    }
+
+    if (muscleGroups.length === 0) {
+      setError('Select at least one muscle group');
+      return;
+    }
+
+    try {
+      await onSubmit({
+        name: formData.name.trim(),
+        category: formData.category,
+        difficulty: formData.difficulty,
+        muscleGroups,
+        equipment: equipment.length ? equipment : ['none'],
+        description: formData.description.trim(),
+        instructions: formData.instructions
+          .split('\n')
+          .map((line) => line.trim())
+          .filter(Boolean),
+      });
+    } catch {
+      setError('Failed to save exercise');
+    }
+  };
+
+  const inputClass =
+    'w-full px-4 py-3 bg-white dark:bg-zinc-800 border border-zinc-200 dark:border-zinc-700 rounded-lg outline-none focus:border-[color:var(--foreground)]';
+
+  return (
+    <div className="w-full max-w-lg">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-xl font-semibold text-[color:var(--foreground)]">
+          {initialData ? 'Edit Exercise' : 'New Exercise'}
+        </h2>
+        <button
+          onClick={onCancel}
+          className="p-2 hover:bg-zinc-100 dark:hover:bg-zinc-800 rounded-full transition-colors"
+        >
+          <X className="h-5 w-5" />
+        </button>
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        {/* Name */}
+        <div>
+          <label className="block text-sm font-medium text-[color:var(--foreground)] mb-2">
+            Name
+          </label>
+          <input
+            type="text"
+            value={formData.name}
+            onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+            placeholder="e.g., Bulgarian Split Squat"
+            className={inputClass}
+            required
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="block text-sm font-medium text-[color:var(--foreground)] mb-2">
+              Category
+            </label>
+            <select
+              value={formData.category}
+              onChange={(e) =>
+                setFormData({ ...formData, category: e.target.value as Exercise['category'] })
+              }
+              className={inputClass}
+            >
+              <option value="strength">Strength</option>
+              <option value="cardio">Cardio</option>
+              <option value="flexibility">Flexibility</option>
+              <option value="sports">Sports</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-[color:var(--foreground)] mb-2">
+              Difficulty
+            </label>
+            <select
+              value={formData.difficulty}
+              onChange={(e) =>
+                setFormData({ ...formData, difficulty: e.target.value as Exercise['difficulty'] })
+              }
+              className={inputClass}
+            >
+              <option value="beginner">Beginner</option>
+              <option value="intermediate">Intermediate</option>
+              <option value="advanced">Advanced</option>
+            </select>
+          </div>
+        </div>
+
+        {/* Muscle Groups */}
+        <div>
+          <label className="block text-sm font-medium text-[color:var(--foreground)] mb-2">
+            Muscle Groups
+          </label>
+          <div className="flex flex-wrap gap-2">
+            {MUSCLE_GROUPS.map((muscle) => (
+              <FilterChip
+                key={muscle}
+                label={label(muscle)}
+                active={muscleGroups.includes(muscle)}
+                onToggle={() => setMuscleGroups((prev) => toggle(prev, muscle))}
+                variant="outlined"
+              />
+            ))}
+          </div>
+        </div>
+
+        {/* Equipment */}
+        <div>
+          <label className="block text-sm font-medium text-[color:var(--foreground)] mb-2">
+            Equipment
+          </label>
+          <div className="flex flex-wrap gap-2">
+            {EQUIPMENT.map((item) => (
+              <FilterChip
+                key={item}
+                label={label(item)}
+                active={equipment.includes(item)}
+                onToggle={() => setEquipment((prev) => toggle(prev, item))}
+                variant="outlined"
+              />
+            ))}
+          </div>
+        </div>
+
+        {/* Description */}
+        <div>
+          <label className="block text-sm font-medium text-[color:var(--foreground)] mb-2">
+            Description (Optional)
+          </label>
+          <input
+            type="text"
+            value={formData.description}
+            onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+
+        {/* Instructions */}
+        <div>
+          <label className="block text-sm font-medium text-[color:var(--foreground)] mb-2">
+            Instructions (Optional, one step per line)
+          </label>
+          <textarea
+            value={formData.instructions}
+            onChange={(e) => setFormData({ ...formData, instructions: e.target.value })}
+            rows={3}
+            className={inputClass}
+          />
+        </div>
+
+        {/* Error Message */}
+        {error && (
+          <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-sm text-red-600 dark:text-red-400">
+            {error}
+          </div>
+        )}
+
+        {/* Actions */}
+        <div className="flex gap-3 pt-4">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="flex-1 px-6 py-3 border border-zinc-300 dark:border-zinc-600 text-[color:var(--foreground)] rounded-lg hover:bg-zinc-50 dark:hover:bg-zinc-800 transition-colors"
+            disabled={isLoading}
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            className="flex-1 px-6 py-3 bg-[color:var(--foreground)] text-[color:var(--background)] rounded-lg hover:opacity-90 transition-opacity disabled:opacity-50"
+            disabled={isLoading}
+          >
+            {isLoading ? 'Saving...' : initialData ? 'Update' : 'Create'} Exercise
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
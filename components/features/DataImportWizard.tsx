@@ -0,0 +1,604 @@
+'use client';
+
+import { useState } from 'react';
+import { Upload, FileUp, AlertTriangle, CheckCircle2, Trash2 } from 'lucide-react';
+import { useAuth } from '@/components/providers/AuthProvider';
+import { useUnits } from '@/components/providers/UnitProvider';
+import { useToast } from '@/lib/contexts/ToastContext';
+import { useOffline } from '@/lib/hooks/useOffline';
+import { useExerciseLibrary } from '@/lib/hooks/useExerciseLibrary';
+import { getErrorMessage } from '@/lib/utils/errorMessages';
+import { displayWeight, UnitSystem } from '@/lib/utils/units';
+import { parseJSONFile } from '@/lib/utils/export';
+import { readCSVRows } from '@/lib/utils/csv';
+import { getExistingFingerprints, importRecords } from '@/lib/dataImport';
+import {
+  ColumnMapping,
+  IMPORT_FIELDS,
+  IMPORT_KIND_LABELS,
+  ImportDraft,
+  ImportDrafts,
+  ImportKind,
+  ImportPreview,
+  ImportUnits,
+  MealDraft,
+  WeightLogDraft,
+  WorkoutDraft,
+  autoMapColumns,
+  columnMapper,
+  detectImportKind,
+  detectImportUnits,
+  findDuplicateRecords,
+  missingColumnErrors,
+  previewBackupImport,
+  previewCSVFile,
+} from '@/lib/utils/import';
+import {
+  ImportAdapter,
+  MappingProfile,
+  applyMappingProfile,
+  deleteMappingProfile,
+  detectImportAdapter,
+  findMappingProfile,
+  getMappingProfiles,
+  resolveImportedExercises,
+  saveMappingProfile,
+} from '@/lib/utils/importAdapters';
+
+type Step = 'upload' | 'map' | 'preview' | 'importing' | 'done';
+
+// Rows listed in the preview before "and N more"
+const SAMPLE_SIZE = 5;
+const ERROR_LIMIT = 50;
+const UNRESOLVED_LIMIT = 20;
+
+const UNIT_OPTIONS: { value: UnitSystem; weight: string; distance: string }[] = [
+  { value: 'metric', weight: 'kg', distance: 'km' },
+  { value: 'imperial', weight: 'lbs', distance: 'mi' },
+];
+
+/**
+ * Restore data from a GYMI CSV export or JSON backup, or bring it over from
+ * Strong, Hevy or MyFitnessPal: map columns, check a dry run with row errors
+ * and duplicates, then import in batches
+ */
+export default function DataImportWizard() {
+  const { user } = useAuth();
+  const { unitSystem } = useUnits();
+  const { showToast } = useToast();
+  const { isOnline } = useOffline();
+  const { exercises, aliases } = useExerciseLibrary();
+
+  const [step, setStep] = useState<Step>('upload');
+  const [csvFile, setCsvFile] = useState<File | null>(null); // read again in full for the dry run
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [fileName, setFileName] = useState('');
+  const [adapter, setAdapter] = useState<ImportAdapter | null>(null); // recognized app export
+  const [kind, setKind] = useState<ImportKind>('workouts');
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [units, setUnits] = useState<ImportUnits>({ weight: unitSystem, distance: unitSystem });
+  const [detected, setDetected] = useState({ weight: false, distance: false });
+  const [profiles, setProfiles] = useState<MappingProfile[]>(getMappingProfiles);
+  const [appliedProfile, setAppliedProfile] = useState<MappingProfile | null>(null);
+  const [profileName, setProfileName] = useState('');
+  const [previews, setPreviews] = useState<ImportPreview[]>([]);
+  const [duplicates, setDuplicates] = useState<Partial<Record<ImportKind, Set<number>>>>({});
+  const [includeDuplicates, setIncludeDuplicates] = useState(false);
+  const [working, setWorking] = useState(false);
+  const [readPercent, setReadPercent] = useState(0);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [importedCount, setImportedCount] = useState(0);
+
+  const reset = () => {
+    setStep('upload');
+    setCsvFile(null);
+    setHeaders([]);
+    setFileName('');
+    setAdapter(null);
+    setAppliedProfile(null);
+    setProfileName('');
+    setPreviews([]);
+    setDuplicates({});
+    setIncludeDuplicates(false);
+    setProgress({ done: 0, total: 0 });
+  };
+
+  const applyKind = (next: ImportKind, headers: string[]) => {
+    const nextMapping = autoMapColumns(next, headers);
+    const detection = detectImportUnits(next, headers, nextMapping, unitSystem);
+    setKind(next);
+    setMapping(nextMapping);
+    setUnits(detection.units);
+    setDetected(detection.detected);
+    setAppliedProfile(null);
+  };
+
+  const applyAdapter = (next: ImportAdapter, headers: string[]) => {
+    const stated = next.statedUnits?.(headers) || {};
+    setAdapter(next);
+    setKind(next.kind);
+    setUnits({ weight: stated.weight || unitSystem, distance: stated.distance || unitSystem });
+    setDetected({ weight: !!stated.weight, distance: !!stated.distance });
+  };
+
+  const applyProfile = (profile: MappingProfile, profileMapping: ColumnMapping) => {
+    setKind(profile.kind);
+    setMapping(profileMapping);
+    setUnits(profile.units);
+    setDetected({ weight: false, distance: false });
+    setAppliedProfile(profile);
+    setProfileName(profile.name);
+  };
+
+  // Dry run done: link exercise names to the library, then look for records
+  // that already exist before showing it
+  const showPreview = async (dryRun: ImportPreview[]) => {
+    if (!user) return;
+    const next = dryRun.map((preview) => {
+      if (preview.kind !== 'workouts') return preview;
+      const resolved = resolveImportedExercises(preview.records as WorkoutDraft[], { library: exercises, aliases });
+      return { ...preview, records: resolved.workouts, unresolvedExercises: resolved.unresolved };
+    });
+    const found: Partial<Record<ImportKind, Set<number>>> = {};
+    for (const preview of next) {
+      const existing = await getExistingFingerprints(user.uid, preview.kind, preview.records);
+      found[preview.kind] = findDuplicateRecords(preview.kind, preview.records, existing);
+    }
+    setPreviews(next);
+    setDuplicates(found);
+    setStep('preview');
+  };
+
+  const handleFile = async (file: File) => {
+    setWorking(true);
+    setReadPercent(0);
+    try {
+      setFileName(file.name);
+      if (file.name.toLowerCase().endsWith('.json')) {
+        const backup = await parseJSONFile(file);
+        const all = Object.values(previewBackupImport(backup)).filter((p) => p.rowCount > 0);
+        if (all.length === 0) throw new Error('The backup has no workouts, meals or weight logs');
+        setCsvFile(null);
+        await showPreview(all);
+      } else {
+        // Only the header and a first data row for now; the dry run reads the rest
+        const [header, firstRow] = await readCSVRows(file, 2);
+        if (!firstRow) throw new Error('The file has no data rows');
+        setCsvFile(file);
+        setHeaders(header);
+        const recognized = detectImportAdapter(header);
+        const saved = recognized ? null : findMappingProfile(header, profiles);
+        if (recognized) {
+          applyAdapter(recognized, header);
+        } else if (saved) {
+          applyProfile(saved.profile, saved.mapping);
+        } else {
+          setAdapter(null);
+          applyKind(detectImportKind(header) || 'workouts', header);
+        }
+        setStep('map');
+      }
+    } catch (error) {
+      showToast(getErrorMessage(error, 'Failed to read file'), 'error');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleDryRun = async () => {
+    if (!csvFile) return;
+    setWorking(true);
+    setReadPercent(0);
+    try {
+      const mapRows = adapter ? adapter.createReader(headers, units) : columnMapper(mapping);
+      const preview = await previewCSVFile(csvFile, kind, mapRows, units, {
+        onProgress: (read, total) => setReadPercent(Math.round((read / total) * 100)),
+      });
+      if (preview.rowCount === 0) throw new Error('The file has no data rows');
+      await showPreview([preview]);
+    } catch (error) {
+      showToast(getErrorMessage(error, 'Failed to check for duplicates'), 'error');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleSaveProfile = () => {
+    const name = profileName.trim();
+    if (!name || !csvFile) return;
+    try {
+      const saved = saveMappingProfile(name, kind, headers, mapping, units);
+      setProfiles(saved);
+      setAppliedProfile(saved.find((p) => p.name === name) || null);
+      showToast(`Saved mapping "${name}"`, 'success');
+    } catch (error) {
+      showToast(getErrorMessage(error, 'Failed to save mapping'), 'error');
+    }
+  };
+
+  const handleDeleteProfile = (profile: MappingProfile) => {
+    if (!confirm(`Delete the saved mapping "${profile.name}"?`)) return;
+    setProfiles(deleteMappingProfile(profile.id));
+    setAppliedProfile(null);
+    setProfileName('');
+  };
+
+  const toImport = (preview: ImportPreview) =>
+    (preview.records as ImportDraft[]).filter((_, i) => includeDuplicates || !duplicates[preview.kind]?.has(i));
+  const importTotal = previews.reduce((sum, p) => sum + toImport(p).length, 0);
+
+  const handleImport = async () => {
+    if (!user || importTotal === 0) return;
+    setStep('importing');
+    try {
+      const drafts = Object.fromEntries(previews.map((p) => [p.kind, toImport(p)])) as Partial<ImportDrafts>;
+      const count = await importRecords(user.uid, drafts, (done, total) => setProgress({ done, total }));
+      setImportedCount(count);
+      setStep('done');
+      showToast(`Imported ${count} record${count !== 1 ? 's' : ''}`, 'success');
+    } catch (error) {
+      showToast(getErrorMessage(error, 'Import failed'), 'error');
+      setStep('preview');
+    }
+  };
+
+  const describe = (preview: ImportPreview, record: ImportDraft) => {
+    const date = new Date(record.date).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+    if (preview.kind === 'workouts') {
+      const workout = record as WorkoutDraft;
+      const sets = workout.exercises.reduce((sum, e) => sum + e.sets.length, 0);
+      const name = workout.title || workout.exercises.map((e) => e.exercise).join(', ');
+      return `${date} · ${name} · ${workout.exercises.length} exercises, ${sets} sets`;
+    }
+    if (preview.kind === 'meals') {
+      const meal = record as MealDraft;
+      return `${date} · ${meal.mealName} · ${meal.calories} kcal`;
+    }
+    return `${date} · ${displayWeight((record as WeightLogDraft).weight, unitSystem)}`;
+  };
+
+  const missingRequired = !adapter && missingColumnErrors(kind, mapping).length > 0;
+  const unitQuantities = adapter
+    ? adapter.quantities
+    : (['weight', 'distance'] as const).filter((quantity) => mapping[quantity] >= 0);
+  const unitNote = (quantity: keyof ImportUnits) => {
+    if (detected[quantity]) return adapter ? `stated in the ${adapter.label} export` : 'detected from the column name';
+    if (appliedProfile) return `from the "${appliedProfile.name}" mapping`;
+    return 'not stated in the file — check this';
+  };
+  const selectClass =
+    'w-full rounded-lg border border-zinc-200 bg-transparent px-2 py-1.5 text-xs text-[color:var(--foreground)] dark:border-zinc-800';
+  const secondaryButton =
+    'rounded-full border border-zinc-200 px-3 py-1.5 text-xs font-medium hover:bg-zinc-100 disabled:opacity-50 dark:border-zinc-800 dark:hover:bg-zinc-800';
+  const primaryButton =
+    'rounded-full bg-[color:var(--foreground)] px-3 py-1.5 text-xs font-semibold text-[color:var(--background)] disabled:opacity-50';
+
+  return (
+    <div className="rounded-2xl border border-zinc-200 bg-[color:var(--background)] p-5 shadow-sm dark:border-zinc-800">
+      <p className="mb-1 flex items-center gap-2 text-sm font-semibold text-[color:var(--foreground)]">
+        <Upload className="h-4 w-4" />
+        Import Data
+      </p>
+      <p className="mb-4 text-xs text-[color:var(--muted-foreground)]">
+        Restore workouts, meals and weight logs from a GYMI CSV export or JSON backup, or bring them over from a
+        Strong, Hevy or MyFitnessPal CSV export
+        {fileName && step !== 'upload' && ` · ${fileName}`}
+      </p>
+
+      {/* 1. Choose a file */}
+      {step === 'upload' && (
+        <label
+          className={`flex cursor-pointer flex-col items-center gap-2 rounded-xl border-2 border-dashed border-zinc-200 p-6 text-center text-sm text-[color:var(--muted-foreground)] hover:bg-zinc-50 dark:border-zinc-800 dark:hover:bg-zinc-900/50 ${
+            working || !isOnline ? 'pointer-events-none opacity-50' : ''
+          }`}
+        >
+          <FileUp className="h-6 w-6" />
+          {!isOnline ? 'Importing needs a connection' : working ? 'Reading file…' : 'Choose a .csv or .json file'}
+          <input
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            className="hidden"
+            disabled={working || !isOnline}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) handleFile(file);
+            }}
+          />
+        </label>
+      )}
+
+      {/* 2. Map columns (CSV only) */}
+      {step === 'map' && csvFile && (
+        <div className="space-y-4">
+          {adapter ? (
+            <div className="flex flex-wrap items-center justify-between gap-2 rounded-xl bg-zinc-50 p-3 dark:bg-zinc-900/50">
+              <p className="text-xs text-[color:var(--foreground)]">
+                Recognized a <span className="font-medium">{adapter.label}</span> export of{' '}
+                {IMPORT_KIND_LABELS[adapter.kind].toLowerCase()}
+              </p>
+              <button
+                type="button"
+                onClick={() => {
+                  setAdapter(null);
+                  applyKind(detectImportKind(headers) || adapter.kind, headers);
+                }}
+                className={secondaryButton}
+              >
+                Map columns manually
+              </button>
+            </div>
+          ) : (
+            <>
+              <div className="flex items-center gap-2">
+                <span className="text-xs font-medium text-[color:var(--foreground)]">This file holds</span>
+                <select
+                  value={kind}
+                  onChange={(e) => applyKind(e.target.value as ImportKind, headers)}
+                  className={`${selectClass} w-auto`}
+                >
+                  {(Object.keys(IMPORT_KIND_LABELS) as ImportKind[]).map((k) => (
+                    <option key={k} value={k}>
+                      {IMPORT_KIND_LABELS[k]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="grid grid-cols-[1fr_1.5fr] items-center gap-x-3 gap-y-2">
+                {IMPORT_FIELDS[kind].map((field) => (
+                  <div key={field.key} className="contents">
+                    <span className="text-xs text-[color:var(--foreground)]">
+                      {field.label}
+                      {field.required && <span className="text-red-500"> *</span>}
+                    </span>
+                    <select
+                      value={mapping[field.key] ?? -1}
+                      onChange={(e) => setMapping((prev) => ({ ...prev, [field.key]: Number(e.target.value) }))}
+                      className={selectClass}
+                    >
+                      <option value={-1}>— Not imported —</option>
+                      {headers.map((header, index) => (
+                        <option key={index} value={index}>
+                          {header || `Column ${index + 1}`}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+
+              {/* Saved mappings */}
+              <div className="space-y-2 rounded-xl bg-zinc-50 p-3 dark:bg-zinc-900/50">
+                {profiles.length > 0 && (
+                  <div className="flex items-center gap-2">
+                    <select
+                      value={appliedProfile?.id || ''}
+                      onChange={(e) => {
+                        const profile = profiles.find((p) => p.id === e.target.value);
+                        const profileMapping = profile && applyMappingProfile(profile, headers);
+                        if (profile && profileMapping) applyProfile(profile, profileMapping);
+                      }}
+                      aria-label="Saved mapping"
+                      className={selectClass}
+                    >
+                      <option value="">Use a saved mapping…</option>
+                      {profiles.map((profile) => (
+                        <option key={profile.id} value={profile.id} disabled={!applyMappingProfile(profile, headers)}>
+                          {profile.name} ({IMPORT_KIND_LABELS[profile.kind]})
+                        </option>
+                      ))}
+                    </select>
+                    {appliedProfile && (
+                      <button
+                        type="button"
+                        onClick={() => handleDeleteProfile(appliedProfile)}
+                        aria-label={`Delete ${appliedProfile.name}`}
+                        className="rounded-full p-1.5 text-[color:var(--muted-foreground)] hover:bg-zinc-100 hover:text-red-600 dark:hover:bg-zinc-800"
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </button>
+                    )}
+                  </div>
+                )}
+                <div className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={profileName}
+                    onChange={(e) => setProfileName(e.target.value)}
+                    placeholder="Name this mapping to reuse it"
+                    maxLength={40}
+                    className={selectClass}
+                  />
+                  <button
+                    type="button"
+                    onClick={handleSaveProfile}
+                    disabled={!profileName.trim() || missingRequired}
+                    className={`shrink-0 ${secondaryButton}`}
+                  >
+                    Save mapping
+                  </button>
+                </div>
+              </div>
+            </>
+          )}
+
+          {/* Units */}
+          {unitQuantities.map((quantity) => (
+            <div key={quantity} className="flex flex-wrap items-center gap-2 text-xs">
+              <span className="font-medium capitalize text-[color:var(--foreground)]">{quantity} in</span>
+              {UNIT_OPTIONS.map((option) => (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => setUnits((prev) => ({ ...prev, [quantity]: option.value }))}
+                  className={`rounded-full border px-3 py-1 ${
+                    units[quantity] === option.value
+                      ? 'border-[color:var(--foreground)] font-medium text-[color:var(--foreground)]'
+                      : 'border-zinc-200 text-[color:var(--muted-foreground)] dark:border-zinc-800'
+                  }`}
+                >
+                  {option[quantity]}
+                </button>
+              ))}
+              <span className="text-[10px] text-[color:var(--muted-foreground)]">{unitNote(quantity)}</span>
+            </div>
+          ))}
+
+          <div className="flex gap-2">
+            <button type="button" onClick={reset} className={secondaryButton}>
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleDryRun}
+              disabled={working || missingRequired}
+              className={`ml-auto ${primaryButton}`}
+            >
+              {working ? `Checking rows… ${readPercent}%` : 'Preview import'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* 3. Dry run */}
+      {(step === 'preview' || step === 'importing') && (
+        <div className="space-y-4">
+          {previews.map((preview) => {
+            const dupes = duplicates[preview.kind]?.size || 0;
+            const errorRows = new Set(preview.errors.map((e) => e.row)).size;
+            return (
+              <div key={preview.kind} className="space-y-2 rounded-xl border border-zinc-200 p-3 dark:border-zinc-800">
+                <p className="text-sm font-medium text-[color:var(--foreground)]">
+                  {IMPORT_KIND_LABELS[preview.kind]}
+                </p>
+                <p className="text-xs text-[color:var(--muted-foreground)]">
+                  {preview.records.length} ready from {preview.rowCount} {csvFile ? 'rows' : 'entries'}
+                  {dupes > 0 && ` · ${dupes} already in GYMI`}
+                  {errorRows > 0 && ` · ${errorRows} with errors`}
+                </p>
+
+                {preview.records.length > 0 && (
+                  <ul className="space-y-1 text-xs text-[color:var(--foreground)]">
+                    {(preview.records as ImportDraft[]).slice(0, SAMPLE_SIZE).map((record, i) => (
+                      <li key={i} className={duplicates[preview.kind]?.has(i) ? 'line-through opacity-50' : ''}>
+                        {describe(preview, record)}
+                      </li>
+                    ))}
+                    {preview.records.length > SAMPLE_SIZE && (
+                      <li className="text-[color:var(--muted-foreground)]">
+                        and {preview.records.length - SAMPLE_SIZE} more
+                      </li>
+                    )}
+                  </ul>
+                )}
+
+                {preview.unmapped && preview.unmapped.length > 0 && (
+                  <div className="max-h-32 space-y-0.5 overflow-y-auto rounded-lg bg-amber-50 p-2 text-[11px] text-amber-700 dark:bg-amber-900/20 dark:text-amber-300">
+                    <p className="font-medium">
+                      {preview.unmapped.length} rows have no GYMI equivalent and are skipped
+                    </p>
+                    {preview.unmapped.slice(0, ERROR_LIMIT).map((row, i) => (
+                      <p key={i}>
+                        Row {row.row}: {row.message}
+                      </p>
+                    ))}
+                  </div>
+                )}
+
+                {preview.unresolvedExercises && preview.unresolvedExercises.length > 0 && (
+                  <div className="space-y-0.5 rounded-lg bg-zinc-50 p-2 text-[11px] text-[color:var(--muted-foreground)] dark:bg-zinc-900/50">
+                    <p className="font-medium text-[color:var(--foreground)]">
+                      {preview.unresolvedExercises.length} exercises aren&apos;t in your library and are kept as written
+                    </p>
+                    {preview.unresolvedExercises.slice(0, UNRESOLVED_LIMIT).map((entry) => (
+                      <p key={entry.name}>
+                        {entry.name}
+                        {entry.suggestion && ` · closest: ${entry.suggestion}`}
+                      </p>
+                    ))}
+                    {preview.unresolvedExercises.length > UNRESOLVED_LIMIT && (
+                      <p>and {preview.unresolvedExercises.length - UNRESOLVED_LIMIT} more</p>
+                    )}
+                  </div>
+                )}
+
+                {preview.errors.length > 0 && (
+                  <div className="max-h-40 space-y-0.5 overflow-y-auto rounded-lg bg-red-50 p-2 text-[11px] text-red-700 dark:bg-red-900/20 dark:text-red-300">
+                    {preview.errors.slice(0, ERROR_LIMIT).map((error, i) => (
+                      <p key={i}>
+                        {csvFile ? 'Row' : 'Entry'} {error.row}: {error.message}
+                      </p>
+                    ))}
+                    {preview.errors.length > ERROR_LIMIT && (
+                      <p>and {preview.errors.length - ERROR_LIMIT} more errors</p>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          {Object.values(duplicates).some((d) => d && d.size > 0) && (
+            <label className="flex items-center gap-2 text-xs text-[color:var(--foreground)]">
+              <input
+                type="checkbox"
+                checked={includeDuplicates}
+                onChange={(e) => setIncludeDuplicates(e.target.checked)}
+                disabled={step === 'importing'}
+              />
+              Import records that already exist too
+            </label>
+          )}
+
+          {step === 'importing' ? (
+            <div className="space-y-1">
+              <div className="h-2 overflow-hidden rounded-full bg-zinc-100 dark:bg-zinc-800">
+                <div
+                  className="h-full bg-[color:var(--foreground)] transition-all"
+                  style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }}
+                />
+              </div>
+              <p className="text-[10px] text-[color:var(--muted-foreground)]">
+                Importing {progress.done} of {progress.total}…
+              </p>
+            </div>
+          ) : (
+            <div className="flex gap-2">
+              <button type="button" onClick={csvFile ? () => setStep('map') : reset} className={secondaryButton}>
+                Back
+              </button>
+              <button
+                type="button"
+                onClick={handleImport}
+                disabled={importTotal === 0 || !isOnline}
+                className={`ml-auto ${primaryButton}`}
+              >
+                Import {importTotal} record{importTotal !== 1 ? 's' : ''}
+              </button>
+            </div>
+          )}
+          {previews.some((p) => p.errors.length > 0) && step === 'preview' && (
+            <p className="flex items-center gap-1 text-[10px] text-[color:var(--muted-foreground)]">
+              <AlertTriangle className="h-3 w-3" />
+              Rows with errors are left out
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* 4. Finished */}
+      {step === 'done' && (
+        <div className="space-y-3">
+          <p className="flex items-center gap-2 text-sm text-[color:var(--foreground)]">
+            <CheckCircle2 className="h-4 w-4 text-emerald-500" />
+            Imported {importedCount} record{importedCount !== 1 ? 's' : ''}
+          </p>
+          <button type="button" onClick={reset} className={secondaryButton}>
+            Import another file
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,22 @@
+'use client';
+
+import { useExerciseLibrary } from '@/lib/hooks/useExerciseLibrary';
+
+interface ExerciseDatalistProps {
+  id: string;
+}
+
+/**
+ * Autocomplete options for exercise name inputs (built-in + custom exercises)
+ */
+export default function ExerciseDatalist({ id }: ExerciseDatalistProps) {
+  const { exercises } = useExerciseLibrary();
+
+  return (
+    <datalist id={id}>
+      {exercises.map((ex) => (
+        <option key={ex.id} value={ex.name} />
+      ))}
+    </datalist>
+  );
+}
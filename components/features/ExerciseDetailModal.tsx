@@ -1,13 +1,15 @@
 'use client';
 
 import { useState } from 'react';
-import { X, Info, Dumbbell } from 'lucide-react';
+import { X, Info, Dumbbell, Edit, Trash2 } from 'lucide-react';
 import { Exercise } from '@/lib/data/exercises';
 
 interface ExerciseDetailModalProps {
   exercise: Exercise;
   onClose: () => void;
   onSelect?: (exercise: Exercise) => void;
+  onEdit?: (exercise: Exercise) => void; // custom exercises only
+  onDelete?: (exercise: Exercise) => void;
 }
 
 const muscleGroupEmoji: Record<string, string> = {
@@ -37,7 +39,11 @@ export default function ExerciseDetailModal({
   exercise,
   onClose,
   onSelect,
+  onEdit,
+  onDelete,
 }: ExerciseDetailModalProps) {
+  const canManage = exercise.isCustom && (onEdit || onDelete);
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50">
       <div className="w-full max-w-2xl max-h-[90vh] overflow-y-auto bg-white dark:bg-zinc-900 rounded-lg shadow-xl">
@@ -47,6 +53,11 @@ export default function ExerciseDetailModal({
             <h2 className="text-2xl font-bold text-zinc-900 dark:text-zinc-100">
               {exercise.name}
             </h2>
+            {exercise.isCustom && (
+              <span className="mt-1 inline-block px-2 py-0.5 bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300 rounded text-xs font-medium">
+                Custom
+              </span>
+            )}
             <p className="mt-1 text-sm text-zinc-600 dark:text-zinc-400">
               {exercise.description}
             </p>
@@ -165,8 +176,33 @@ export default function ExerciseDetailModal({
         </div>
 
         {/* Footer */}
-        {onSelect && (
-          <div className="sticky bottom-0 p-4 bg-white dark:bg-zinc-900 border-t border-zinc-200 dark:border-zinc-800">
+        {(onSelect || canManage) && (
+          <div className="sticky bottom-0 flex gap-2 p-4 bg-white dark:bg-zinc-900 border-t border-zinc-200 dark:border-zinc-800">
+            {canManage && onEdit && (
+              <button
+                onClick={() => {
+                  onEdit(exercise);
+                  onClose();
+                }}
+                className="flex items-center justify-center gap-2 px-4 py-3 border border-zinc-200 dark:border-zinc-700 rounded-lg hover:bg-zinc-50 dark:hover:bg-zinc-800 transition-colors text-sm font-medium"
+              >
+                <Edit className="w-4 h-4" />
+                Edit
+              </button>
+            )}
+            {canManage && onDelete && (
+              <button
+                onClick={() => {
+                  onDelete(exercise);
+                  onClose();
+                }}
+                className="flex items-center justify-center gap-2 px-4 py-3 border border-zinc-200 dark:border-zinc-700 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors text-sm font-medium text-red-600 dark:text-red-400"
+              >
+                <Trash2 className="w-4 h-4" />
+                Delete
+              </button>
+            )}
+            {onSelect && (
             <button
               onClick={() => {
                 onSelect(exercise);
@@ -177,6 +213,7 @@ export default function ExerciseDetailModal({
               <Dumbbell className="w-5 h-5" />
               Use This Exercise
             </button>
+            )}
           </div>
         )}
       </div>
@@ -4,15 +4,11 @@ import { useState } from 'react';
 import { Search, Filter, X } from 'lucide-react';
 import {
   Exercise,
-  EXERCISE_DATABASE,
   MuscleGroup,
-  Equipment,
   searchExercises,
   getExercisesByMuscleGroup,
-  getExercisesByCategory,
-  getExercisesByDifficulty,
-  getExercisesByEquipment,
 } from '@/lib/data/exercises';
+import { useExerciseLibrary } from '@/lib/hooks/useExerciseLibrary';
 import ExerciseDetailModal from '@/components/features/ExerciseDetailModal';
 import SearchBar from '@/components/ui/SearchBar';
 import FilterChip from '@/components/ui/FilterChip';
@@ -35,14 +31,22 @@ const CATEGORIES: Exercise['category'][] = ['strength', 'cardio', 'flexibility',
 const DIFFICULTIES: Exercise['difficulty'][] = ['beginner', 'intermediate', 'advanced'];
 
 interface ExerciseLibraryProps {
+  exercises?: Exercise[]; // defaults to built-in + the user's custom exercises
   onSelectExercise?: (exercise: Exercise) => void;
+  onEditExercise?: (exercise: Exercise) => void;
+  onDeleteExercise?: (exercise: Exercise) => void;
   selectionMode?: boolean;
 }
 
 export default function ExerciseLibrary({
+  exercises,
   onSelectExercise,
+  onEditExercise,
+  onDeleteExercise,
   selectionMode = false,
 }: ExerciseLibraryProps) {
+  const userLibrary = useExerciseLibrary();
+  const library = exercises ?? userLibrary.exercises;
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedMuscle, setSelectedMuscle] = useState<MuscleGroup | null>(null);
   const [selectedCategory, setSelectedCategory] = useState<Exercise['category'] | null>(null);
@@ -53,16 +57,14 @@ export default function ExerciseLibrary({
   const [showFilters, setShowFilters] = useState(false);
 
   // Filter exercises
-  let filteredExercises = EXERCISE_DATABASE;
+  let filteredExercises = library;
 
   if (searchQuery) {
-    filteredExercises = searchExercises(searchQuery);
+    filteredExercises = searchExercises(searchQuery, filteredExercises);
   }
 
   if (selectedMuscle) {
-    filteredExercises = filteredExercises.filter((ex) =>
-      ex.muscleGroups.includes(selectedMuscle)
-    );
+    filteredExercises = getExercisesByMuscleGroup(selectedMuscle, filteredExercises);
   }
 
   if (selectedCategory) {
@@ -219,6 +221,11 @@ export default function ExerciseLibrary({
                   )}
                 </div>
               </div>
+              {exercise.isCustom && (
+                <span className="flex-shrink-0 px-2 py-0.5 bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300 rounded text-xs font-medium">
+                  Custom
+                </span>
+              )}
               <span
                 className={`flex-shrink-0 px-2 py-0.5 rounded text-xs font-medium ${
                   exercise.difficulty === 'beginner'
@@ -256,6 +263,8 @@ export default function ExerciseLibrary({
           exercise={selectedExercise}
           onClose={() => setSelectedExercise(null)}
           onSelect={selectionMode ? onSelectExercise : undefined}
+          onEdit={onEditExercise}
+          onDelete={onDeleteExercise}
         />
       )}
     </div>
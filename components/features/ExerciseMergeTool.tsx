@@ -0,0 +1,165 @@
+'use client';
+
+import { useState } from 'react';
+import { GitMerge, Search } from 'lucide-react';
+import { useAuth } from '@/components/providers/AuthProvider';
+import { useToast } from '@/lib/contexts/ToastContext';
+import { getErrorMessage } from '@/lib/utils/errorMessages';
+import { getWorkouts, mergeWorkoutExercises } from '@/lib/workouts';
+import { setExerciseAlias } from '@/lib/customExercises';
+import { Exercise, getExerciseById } from '@/lib/data/exercises';
+import { Workout } from '@/lib/types/firestore';
+import {
+  ExerciseMergeProposal,
+  getExerciseMergeProposals,
+} from '@/lib/utils/exerciseResolver';
+import { useExerciseLibrary } from '@/lib/hooks/useExerciseLibrary';
+
+const MATCH_LABELS = {
+  id: 'Linked',
+  exact: 'Exact',
+  alias: 'Alias',
+  fuzzy: 'Similar',
+} as const;
+
+/**
+ * One-time history migration: scans past workouts for exercise names that
+ * aren't linked to a library exercise and proposes merges for review.
+ */
+export default function ExerciseMergeTool() {
+  const { user } = useAuth();
+  const { showToast } = useToast();
+  const { exercises, aliases, setAliases } = useExerciseLibrary();
+
+  const [workouts, setWorkouts] = useState<Workout[] | null>(null);
+  const [proposals, setProposals] = useState<ExerciseMergeProposal[]>([]);
+  const [selected, setSelected] = useState<Record<string, string>>({}); // key → exercise id ('' = skip)
+  const [scanning, setScanning] = useState(false);
+  const [merging, setMerging] = useState(false);
+
+  const handleScan = async () => {
+    if (!user) return;
+    setScanning(true);
+    try {
+      const history = await getWorkouts(user.uid, 1000);
+      const found = getExerciseMergeProposals(history, { library: exercises, aliases });
+      setWorkouts(history);
+      setProposals(found);
+      setSelected(Object.fromEntries(found.map((p) => [p.key, p.match?.exercise.id || ''])));
+    } catch (error) {
+      showToast(getErrorMessage(error, 'Failed to scan workouts'), 'error');
+    } finally {
+      setScanning(false);
+    }
+  };
+
+  const merges: Record<string, Exercise> = {};
+  for (const [key, id] of Object.entries(selected)) {
+    const exercise = id ? getExerciseById(id, exercises) : undefined;
+    if (exercise) merges[key] = exercise;
+  }
+  const mergeCount = Object.keys(merges).length;
+
+  const handleMerge = async () => {
+    if (!user || !workouts || mergeCount === 0) return;
+    setMerging(true);
+    try {
+      const updated = await mergeWorkoutExercises(user.uid, workouts, merges);
+
+      // Remember reviewed names so future logs resolve without fuzzy matching
+      const reviewed = proposals.filter(
+        (p) => merges[p.key] && (p.match?.type === 'fuzzy' || p.match?.exercise.id !== merges[p.key].id)
+      );
+      await Promise.all(reviewed.map((p) => setExerciseAlias(user.uid, p.name, merges[p.key].id)));
+      if (reviewed.length) {
+        setAliases((prev = {}) => ({
+          ...prev,
+          ...Object.fromEntries(reviewed.map((p) => [p.key, merges[p.key].id])),
+        }));
+      }
+
+      showToast(`Merged ${mergeCount} names across ${updated} workouts`, 'success');
+      setWorkouts(null);
+      setProposals([]);
+      setSelected({});
+    } catch (error) {
+      showToast(getErrorMessage(error, 'Failed to merge exercises'), 'error');
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  return (
+    <div className="rounded-2xl border border-zinc-200 bg-[color:var(--background)] p-5 shadow-sm dark:border-zinc-800">
+      <p className="text-sm font-semibold text-[color:var(--foreground)] flex items-center gap-2 mb-1">
+        <GitMerge className="w-4 h-4" />
+        Merge Exercise Names
+      </p>
+      <p className="text-xs text-[color:var(--muted-foreground)] mb-4">
+        Link past workouts to library exercises so &quot;bench&quot; and &quot;Bench Press&quot;
+        count as the same lift in stats, PRs and achievements
+      </p>
+
+      {workouts === null ? (
+        <button
+          onClick={handleScan}
+          disabled={scanning}
+          className="flex items-center justify-center gap-2 w-full h-11 rounded-xl border border-zinc-200 text-sm font-medium text-[color:var(--foreground)] hover:bg-zinc-50 dark:border-zinc-800 dark:hover:bg-zinc-900 transition-colors disabled:opacity-50"
+        >
+          <Search className="w-4 h-4" />
+          {scanning ? 'Scanning...' : 'Scan workout history'}
+        </button>
+      ) : proposals.length === 0 ? (
+        <p className="rounded-xl bg-zinc-50 p-3 text-center text-sm text-[color:var(--muted-foreground)] dark:bg-zinc-900/50">
+          All logged exercises are already linked
+        </p>
+      ) : (
+        <div className="space-y-3">
+          <ul className="max-h-80 divide-y divide-zinc-200 overflow-y-auto dark:divide-zinc-800">
+            {proposals.map((proposal) => (
+              <li key={proposal.key} className="flex items-center gap-2 py-2">
+                <div className="min-w-0 flex-1">
+                  <p className="truncate text-sm font-medium text-[color:var(--foreground)]">
+                    {proposal.name}
+                  </p>
+                  <p className="text-xs text-[color:var(--muted-foreground)]">
+                    {proposal.entries} {proposal.entries === 1 ? 'entry' : 'entries'}
+                    {proposal.match &&
+                      ` · ${MATCH_LABELS[proposal.match.type]}${
+                        proposal.match.type === 'fuzzy'
+                          ? ` ${Math.round(proposal.match.score * 100)}%`
+                          : ''
+                      }`}
+                  </p>
+                </div>
+                <select
+                  value={selected[proposal.key] || ''}
+                  onChange={(e) =>
+                    setSelected((prev) => ({ ...prev, [proposal.key]: e.target.value }))
+                  }
+                  aria-label={`Merge ${proposal.name} into`}
+                  className="w-44 rounded-xl border border-zinc-200 bg-[color:var(--background)] px-2 py-1.5 text-sm dark:border-zinc-800"
+                >
+                  <option value="">Keep as is</option>
+                  {exercises.map((ex) => (
+                    <option key={ex.id} value={ex.id}>
+                      {ex.name}
+                    </option>
+                  ))}
+                </select>
+              </li>
+            ))}
+          </ul>
+          <button
+            onClick={handleMerge}
+            disabled={merging || mergeCount === 0}
+            className="flex items-center justify-center gap-2 w-full h-11 rounded-xl bg-[color:var(--foreground)] text-sm font-semibold text-[color:var(--background)] hover:opacity-90 active:scale-[0.98] transition-all disabled:opacity-50"
+          >
+            <GitMerge className="w-4 h-4" />
+            {merging ? 'Merging...' : `Merge ${mergeCount} ${mergeCount === 1 ? 'name' : 'names'}`}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Workout } from '@/lib/types/firestore';
+import { useUnits } from '@/components/providers/UnitProvider';
+import { displayWeight } from '@/lib/utils/units';
+import { createExerciseKeyer, resolveWorkoutExercise } from '@/lib/utils/exerciseResolver';
+import {
+  OneRepMaxFormula,
+  PR_REP_RANGES,
+  getE1RMHistory,
+  getRepRangeRecords,
+} from '@/lib/strength';
+
+interface ExerciseStrengthChartProps {
+  workouts: Workout[];
+  points?: number; // Number of sessions to show
+}
+
+export function ExerciseStrengthChart({ workouts, points = 12 }: ExerciseStrengthChartProps) {
+  const { unitSystem } = useUnits();
+  const [formula, setFormula] = useState<OneRepMaxFormula>('epley');
+
+  // Exercises with at least one loaded set, most frequently trained first;
+  // names of the same library exercise are listed once under its name
+  const exercises = useMemo(() => {
+    const keyOf = createExerciseKeyer();
+    const counts = new Map<string, { name: string; count: number }>();
+    for (const w of workouts) {
+      for (const e of w.exercises) {
+        if (!e.sets.some((s) => s.weight > 0)) continue;
+        const seen = counts.get(keyOf(e));
+        counts.set(keyOf(e), {
+          name: seen?.name || resolveWorkoutExercise(e)?.name || e.exercise,
+          count: (seen?.count || 0) + 1,
+        });
+      }
+    }
+    return [...counts.values()]
+      .sort((a, b) => b.count - a.count)
+      .map(({ name }) => name);
+  }, [workouts]);
+
+  const [selected, setSelected] = useState<string | null>(null);
+  const exercise = selected && exercises.includes(selected) ? selected : exercises[0];
+
+  const history = useMemo(
+    () => (exercise ? getE1RMHistory(workouts, exercise, formula) : []),
+    [workouts, exercise, formula]
+  );
+  const records = useMemo(
+    () => (exercise ? getRepRangeRecords(workouts, exercise) : null),
+    [workouts, exercise]
+  );
+
+  if (!exercise) {
+    return (
+      <div className="flex items-center justify-center py-12 text-center">
+        <p className="text-sm text-[color:var(--muted-foreground)]">
+          Log a weighted exercise to see strength progress.
+        </p>
+      </div>
+    );
+  }
+
+  const visible = history.slice(-points);
+  const maxE1RM = Math.max(...visible.map((p) => p.e1rm), 1);
+  const minE1RM = Math.min(...visible.map((p) => p.e1rm));
+  // Start the axis slightly below the lowest point so changes are visible
+  const floor = Math.max(0, minE1RM - (maxE1RM - minE1RM || maxE1RM * 0.1));
+  const current = history[history.length - 1]?.e1rm ?? 0;
+  const best = history.reduce((max, p) => Math.max(max, p.e1rm), 0);
+  const first = history[0]?.e1rm ?? 0;
+  const change = first > 0 ? Math.round(((current - first) / first) * 100) : 0;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2">
+        <select
+          value={exercise}
+          onChange={(e) => setSelected(e.target.value)}
+          aria-label="Exercise"
+          className="flex-1 rounded-lg border border-zinc-200 bg-[color:var(--background)] px-2 py-1.5 text-sm dark:border-zinc-800"
+        >
+          {exercises.map((name) => (
+            <option key={name} value={name}>
+              {name}
+            </option>
+          ))}
+        </select>
+        <select
+          value={formula}
+          onChange={(e) => setFormula(e.target.value as OneRepMaxFormula)}
+          aria-label="1RM formula"
+          className="rounded-lg border border-zinc-200 bg-[color:var(--background)] px-2 py-1.5 text-sm dark:border-zinc-800"
+        >
+          <option value="epley">Epley</option>
+          <option value="brzycki">Brzycki</option>
+        </select>
+      </div>
+
+      {/* Stats */}
+      <div className="grid grid-cols-3 gap-3">
+        <div className="text-center">
+          <p className="text-xs text-[color:var(--muted-foreground)]">Current e1RM</p>
+          <p className="text-lg font-semibold text-[color:var(--foreground)]">
+            {displayWeight(current, unitSystem)}
+          </p>
+        </div>
+        <div className="text-center">
+          <p className="text-xs text-[color:var(--muted-foreground)]">Best e1RM</p>
+          <p className="text-lg font-semibold text-[color:var(--foreground)]">
+            {displayWeight(best, unitSystem)}
+          </p>
+        </div>
+        <div className="text-center">
+          <p className="text-xs text-[color:var(--muted-foreground)]">Change</p>
+          <p
+            className={`text-lg font-semibold ${
+              change > 0 ? 'text-green-600' : change < 0 ? 'text-red-600' : 'text-[color:var(--foreground)]'
+            }`}
+          >
+            {change > 0 ? '+' : ''}
+            {change}%
+          </p>
+        </div>
+      </div>
+
+      {/* Chart */}
+      <div className="relative h-40 flex items-end gap-1">
+        {visible.map((point, index) => {
+          const height = ((point.e1rm - floor) / (maxE1RM - floor || 1)) * 100;
+          return (
+            <div key={index} className="flex-1 flex flex-col items-center gap-1 group h-full justify-end">
+              <div
+                className="w-full rounded-t bg-blue-600 dark:bg-blue-500 hover:bg-blue-700 dark:hover:bg-blue-600 transition-all relative"
+                style={{ height: `${Math.max(height, 4)}%` }}
+              >
+                {/* Tooltip */}
+                <div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-2 opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none">
+                  <div className="bg-zinc-900 dark:bg-zinc-100 text-white dark:text-zinc-900 px-2 py-1 rounded text-xs whitespace-nowrap">
+                    {displayWeight(point.e1rm, unitSystem)}
+                    <div className="text-zinc-400 dark:text-zinc-600 text-[10px]">
+                      {displayWeight(point.weight, unitSystem)} × {point.reps} •{' '}
+                      {point.date.toLocaleDateString([], { month: 'short', day: 'numeric' })}
+                    </div>
+                  </div>
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Rep-range PRs */}
+      {records && (
+        <div className="grid grid-cols-4 gap-2 border-t border-zinc-200 pt-3 dark:border-zinc-800">
+          {PR_REP_RANGES.map((repRange) => {
+            const record = records[repRange];
+            return (
+              <div key={repRange} className="rounded-lg bg-zinc-50 p-2 text-center dark:bg-zinc-900">
+                <p className="text-[10px] font-medium text-[color:var(--muted-foreground)]">
+                  {repRange}RM
+                </p>
+                <p className="text-sm font-semibold text-[color:var(--foreground)]">
+                  {record ? displayWeight(record.weight, unitSystem) : '—'}
+                </p>
+                {record && record.reps > repRange && (
+                  <p className="text-[10px] text-[color:var(--muted-foreground)]">× {record.reps}</p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <p className="text-xs text-center text-[color:var(--muted-foreground)]">
+        Best estimated 1RM per session • last {visible.length} session{visible.length !== 1 ? 's' : ''}
+      </p>
+    </div>
+  );
+}
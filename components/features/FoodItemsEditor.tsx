@@ -0,0 +1,199 @@
+'use client';
+
+import { ReactNode, useEffect, useState } from 'react';
+import { X, Plus, Search } from 'lucide-react';
+import { MealItem } from '@/lib/types/firestore';
+import { Food, getFoodById, searchFoods } from '@/lib/data/foods';
+import { createMealItem, setMealItemAmount } from '@/lib/utils/mealItems';
+import { loadSavedProducts } from '@/lib/services/productCatalog';
+
+// Items keep the amount as typed; nutrients are recalculated from `base`
+export interface ItemFormState {
+  base: MealItem;
+  quantity: string;
+  unit: string;
+}
+
+export const toItemFormState = (item: MealItem): ItemFormState => ({
+  base: item,
+  quantity: item.quantity.toString(),
+  unit: item.unit,
+});
+
+export const toMealItem = ({ base, quantity, unit }: ItemFormState): MealItem =>
+  base.servingSize ? setMealItemAmount(base, parseFloat(quantity) || 0, unit) : base;
+
+// One serving when the food has household measures, otherwise 100 g
+export const foodToItem = (food: Food): MealItem => {
+  const serving = food.servings[0];
+  return serving ? createMealItem(food, 1, serving.label) : createMealItem(food, 100);
+};
+
+export const hasInvalidAmount = (items: ItemFormState[]) =>
+  items.some((item) => item.base.servingSize && !(parseFloat(item.quantity) > 0));
+
+interface FoodItemsEditorProps {
+  items: ItemFormState[];
+  onChange: (items: ItemFormState[]) => void;
+  disabled?: boolean;
+  allowFreeText?: boolean; // offer adding a name without nutrition data
+  placeholder?: string;
+  searchAction?: ReactNode; // button next to the search box
+  children?: ReactNode; // rendered between the item list and the search box
+}
+
+/** Item list with amount/unit inputs plus search over bundled foods and saved products */
+export default function FoodItemsEditor({
+  items,
+  onChange,
+  disabled = false,
+  allowFreeText = true,
+  placeholder = 'Search foods, e.g., chicken',
+  searchAction,
+  children,
+}: FoodItemsEditorProps) {
+  const [foodQuery, setFoodQuery] = useState('');
+  // Bumped once products saved on this device are merged into the food library
+  const [, setLibraryVersion] = useState(0);
+  const foodResults = searchFoods(foodQuery);
+
+  useEffect(() => {
+    loadSavedProducts().then(() => setLibraryVersion((v) => v + 1));
+  }, []);
+
+  const addItem = (item: MealItem) => {
+    onChange([...items, toItemFormState(item)]);
+    setFoodQuery('');
+  };
+
+  const updateItem = (index: number, updates: Partial<ItemFormState>) => {
+    onChange(items.map((item, i) => (i === index ? { ...item, ...updates } : item)));
+  };
+
+  const removeItem = (index: number) => {
+    onChange(items.filter((_, i) => i !== index));
+  };
+
+  return (
+    <>
+      {items.map((state, index) => {
+        const item = toMealItem(state);
+        const food = state.base.foodId ? getFoodById(state.base.foodId) : undefined;
+        return (
+          <div
+            key={index}
+            className="flex items-center gap-2 rounded-lg border border-zinc-200 p-2 dark:border-zinc-800"
+          >
+            <div className="min-w-0 flex-1">
+              <p className="truncate text-sm font-medium text-[color:var(--foreground)]">{item.name}</p>
+              {item.nutrients && (
+                <p className="text-[10px] text-[color:var(--muted-foreground)]">
+                  {item.nutrients.calories} kcal · P {item.nutrients.protein}g · C {item.nutrients.carbs}g · F{' '}
+                  {item.nutrients.fat}g
+                </p>
+              )}
+            </div>
+            {state.base.servingSize > 0 && (
+              <>
+                <input
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={state.quantity}
+                  onChange={(e) => updateItem(index, { quantity: e.target.value })}
+                  disabled={disabled}
+                  aria-label={`${item.name} amount`}
+                  className="w-16 rounded-lg border border-zinc-200 bg-[color:var(--background)] px-2 py-1 text-sm dark:border-zinc-800 disabled:opacity-50"
+                />
+                {food ? (
+                  <select
+                    value={state.unit}
+                    onChange={(e) => updateItem(index, { unit: e.target.value })}
+                    disabled={disabled}
+                    aria-label={`${item.name} unit`}
+                    className="rounded-lg border border-zinc-200 bg-[color:var(--background)] px-1 py-1 text-sm dark:border-zinc-800 disabled:opacity-50"
+                  >
+                    <option value="g">g</option>
+                    {food.servings.map((serving) => (
+                      <option key={serving.label} value={serving.label}>
+                        {serving.label} ({serving.grams} g)
+                      </option>
+                    ))}
+                  </select>
+                ) : (
+                  <span className="text-xs text-[color:var(--muted-foreground)]">{state.unit}</span>
+                )}
+              </>
+            )}
+            <button
+              type="button"
+              onClick={() => removeItem(index)}
+              disabled={disabled}
+              className="rounded-full p-1 hover:bg-zinc-100 dark:hover:bg-zinc-800"
+              aria-label={`Remove ${item.name}`}
+            >
+              <X className="h-3.5 w-3.5" />
+            </button>
+          </div>
+        );
+      })}
+
+      {children}
+
+      <div className="flex gap-2">
+        <div className="relative flex-1">
+          <Search className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-[color:var(--muted-foreground)]" />
+          <input
+            type="text"
+            placeholder={placeholder}
+            value={foodQuery}
+            onChange={(e) => setFoodQuery(e.target.value)}
+            disabled={disabled}
+            aria-label="Search foods"
+            className="w-full rounded-lg border border-zinc-200 bg-[color:var(--background)] py-2 pl-9 pr-3 text-sm shadow-sm outline-none focus:border-black dark:border-zinc-800 disabled:opacity-50"
+          />
+        </div>
+        {searchAction}
+      </div>
+      {foodQuery.trim() && (
+        <ul className="max-h-48 overflow-y-auto rounded-lg border border-zinc-200 dark:border-zinc-800">
+          {foodResults.map((food) => (
+            <li key={food.id}>
+              <button
+                type="button"
+                onClick={() => addItem(foodToItem(food))}
+                className="flex w-full items-center justify-between px-3 py-2 text-left text-sm hover:bg-zinc-50 dark:hover:bg-zinc-900"
+              >
+                <span className="text-[color:var(--foreground)]">
+                  {food.name}
+                  {food.brand && (
+                    <span className="text-xs text-[color:var(--muted-foreground)]"> · {food.brand}</span>
+                  )}
+                </span>
+                <span className="text-xs text-[color:var(--muted-foreground)]">
+                  {food.per100g.calories} kcal/100g
+                </span>
+              </button>
+            </li>
+          ))}
+          {allowFreeText ? (
+            <li>
+              <button
+                type="button"
+                onClick={() => addItem({ name: foodQuery.trim(), servingSize: 0, quantity: 1, unit: 'serving' })}
+                className="flex w-full items-center gap-1 px-3 py-2 text-left text-xs font-medium text-[color:var(--muted-foreground)] hover:bg-zinc-50 dark:hover:bg-zinc-900"
+              >
+                <Plus className="h-3.5 w-3.5" />
+                Add &quot;{foodQuery.trim()}&quot; without nutrition data
+              </button>
+            </li>
+          ) : (
+            foodResults.length === 0 && (
+              <li className="px-3 py-2 text-xs text-[color:var(--muted-foreground)]">No matching foods</li>
+            )
+          )}
+        </ul>
+      )}
+    </>
+  );
+}
@@ -3,7 +3,7 @@
 import { Goal } from '@/lib/types/firestore';
 import { Target, Calendar, TrendingUp, Edit, Trash2, CheckCircle } from 'lucide-react';
 import { useUnits } from '@/components/providers/UnitProvider';
-import { displayWeight } from '@/lib/utils/units';
+import { displayWeight, getVolumeInUnit, volumeUnit } from '@/lib/utils/units';
 
 interface GoalCardProps {
   goal: Goal;
@@ -25,6 +25,8 @@ export default function GoalCard({ goal, progress = 0, onEdit, onDelete, onCompl
         return '🔥';
       case 'macros':
         return '🥗';
+      case 'hydration':
+        return '💧';
       default:
         return '🎯';
     }
@@ -163,6 +165,31 @@ export default function GoalCard({ goal, progress = 0, onEdit, onDelete, onCompl
             P:{goal.targetProtein || 0} C:{goal.targetCarbs || 0} F:{goal.targetFat || 0}
           </span>
         )}
+        {goal.targetFiber && (
+          <span className="px-2 py-1 rounded-lg bg-zinc-100 dark:bg-zinc-800 text-[color:var(--muted-foreground)]">
+            Fiber ≥ {goal.targetFiber}g
+          </span>
+        )}
+        {goal.targetSugar && (
+          <span className="px-2 py-1 rounded-lg bg-zinc-100 dark:bg-zinc-800 text-[color:var(--muted-foreground)]">
+            Sugar ≤ {goal.targetSugar}g
+          </span>
+        )}
+        {goal.targetSaturatedFat && (
+          <span className="px-2 py-1 rounded-lg bg-zinc-100 dark:bg-zinc-800 text-[color:var(--muted-foreground)]">
+            Sat. fat ≤ {goal.targetSaturatedFat}g
+          </span>
+        )}
+        {goal.targetSodium && (
+          <span className="px-2 py-1 rounded-lg bg-zinc-100 dark:bg-zinc-800 text-[color:var(--muted-foreground)]">
+            Sodium ≤ {goal.targetSodium}mg
+          </span>
+        )}
+        {goal.targetWaterPerDay && (
+          <span className="px-2 py-1 rounded-lg bg-zinc-100 dark:bg-zinc-800 text-[color:var(--muted-foreground)]">
+            {getVolumeInUnit(goal.targetWaterPerDay, unitSystem)} {volumeUnit(unitSystem)}/day
+          </span>
+        )}
       </div>
 
       {/* Timeline */}
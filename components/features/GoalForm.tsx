@@ -6,7 +6,14 @@ import { Goal } from '@/lib/types/firestore';
 import { getErrorMessage } from '@/lib/utils/errorMessages';
 import { useFormShortcuts } from '@/lib/hooks/useKeyboardShortcut';
 import { useUnits } from '@/components/providers/UnitProvider';
-import { weightUnit, weightToKg, getWeightInUnit } from '@/lib/utils/units';
+import {
+  weightUnit,
+  weightToKg,
+  getWeightInUnit,
+  volumeUnit,
+  volumeToMl,
+  getVolumeInUnit,
+} from '@/lib/utils/units';
 
 const formatDateToInputString = (date: Date): string => {
   const year = date.getFullYear();
@@ -30,6 +37,7 @@ export default function GoalForm({
 }: GoalFormProps) {
   const { unitSystem } = useUnits();
   const wu = weightUnit(unitSystem);
+  const vu = volumeUnit(unitSystem);
   const [formData, setFormData] = useState({
     type: (initialData?.type || 'weight') as Goal['type'],
     title: initialData?.title || '',
@@ -42,6 +50,13 @@ export default function GoalForm({
     targetProtein: initialData?.targetProtein?.toString() || '',
     targetCarbs: initialData?.targetCarbs?.toString() || '',
     targetFat: initialData?.targetFat?.toString() || '',
+    targetFiber: initialData?.targetFiber?.toString() || '',
+    targetSugar: initialData?.targetSugar?.toString() || '',
+    targetSaturatedFat: initialData?.targetSaturatedFat?.toString() || '',
+    targetSodium: initialData?.targetSodium?.toString() || '',
+    targetWaterPerDay: initialData?.targetWaterPerDay
+      ? getVolumeInUnit(initialData.targetWaterPerDay, unitSystem).toString()
+      : '',
     startDate: initialData?.startDate
       ? formatDateToInputString(new Date(initialData.startDate))
       : formatDateToInputString(new Date()),
@@ -77,10 +92,25 @@ export default function GoalForm({
       setError('Target calories per day is required');
       return;
     }
-    if (formData.type === 'macros' && !formData.targetProtein && !formData.targetCarbs && !formData.targetFat) {
+    if (
+      formData.type === 'macros' &&
+      ![
+        formData.targetProtein,
+        formData.targetCarbs,
+        formData.targetFat,
+        formData.targetFiber,
+        formData.targetSugar,
+        formData.targetSaturatedFat,
+        formData.targetSodium,
+      ].some(Boolean)
+    ) {
       setError('At least one macro target is required');
       return;
     }
+    if (formData.type === 'hydration' && !formData.targetWaterPerDay) {
+      setError('Target water per day is required');
+      return;
+    }
 
     try {
       const goalData: Omit<Goal, 'id' | 'createdAt' | 'updatedAt'> = {
@@ -107,6 +137,13 @@ export default function GoalForm({
         if (formData.targetProtein) goalData.targetProtein = parseInt(formData.targetProtein);
         if (formData.targetCarbs) goalData.targetCarbs = parseInt(formData.targetCarbs);
         if (formData.targetFat) goalData.targetFat = parseInt(formData.targetFat);
+        if (formData.targetFiber) goalData.targetFiber = parseInt(formData.targetFiber);
+        if (formData.targetSugar) goalData.targetSugar = parseInt(formData.targetSugar);
+        if (formData.targetSaturatedFat) goalData.targetSaturatedFat = parseInt(formData.targetSaturatedFat);
+        if (formData.targetSodium) goalData.targetSodium = parseInt(formData.targetSodium);
+      }
+      if (formData.type === 'hydration' && formData.targetWaterPerDay) {
+        goalData.targetWaterPerDay = volumeToMl(parseFloat(formData.targetWaterPerDay), unitSystem);
       }
 
       await onSubmit(goalData);
@@ -125,6 +162,7 @@ export default function GoalForm({
     workout_frequency: 'Workout Frequency',
     calories: 'Daily Calories',
     macros: 'Macro Targets',
+    hydration: 'Daily Water',
   };
 
   return (
@@ -281,6 +319,74 @@ export default function GoalForm({
           </div>
         )}
 
+        {formData.type === 'macros' && (
+          <div className="grid grid-cols-2 gap-4">
+            <label className="block text-sm font-medium">
+              Fiber, at least (g)
+              <input
+                type="number"
+                placeholder="30"
+                min="0"
+                value={formData.targetFiber}
+                onChange={(e) => setFormData({ ...formData, targetFiber: e.target.value })}
+                disabled={isLoading}
+                className="mt-2 w-full rounded-2xl border border-zinc-200 bg-[color:var(--background)] px-4 py-3 text-sm shadow-sm outline-none focus:border-black dark:border-zinc-800 dark:focus:border-white disabled:opacity-50"
+              />
+            </label>
+            <label className="block text-sm font-medium">
+              Sugar, at most (g)
+              <input
+                type="number"
+                placeholder="50"
+                min="0"
+                value={formData.targetSugar}
+                onChange={(e) => setFormData({ ...formData, targetSugar: e.target.value })}
+                disabled={isLoading}
+                className="mt-2 w-full rounded-2xl border border-zinc-200 bg-[color:var(--background)] px-4 py-3 text-sm shadow-sm outline-none focus:border-black dark:border-zinc-800 dark:focus:border-white disabled:opacity-50"
+              />
+            </label>
+            <label className="block text-sm font-medium">
+              Sat. fat, at most (g)
+              <input
+                type="number"
+                placeholder="20"
+                min="0"
+                value={formData.targetSaturatedFat}
+                onChange={(e) => setFormData({ ...formData, targetSaturatedFat: e.target.value })}
+                disabled={isLoading}
+                className="mt-2 w-full rounded-2xl border border-zinc-200 bg-[color:var(--background)] px-4 py-3 text-sm shadow-sm outline-none focus:border-black dark:border-zinc-800 dark:focus:border-white disabled:opacity-50"
+              />
+            </label>
+            <label className="block text-sm font-medium">
+              Sodium, at most (mg)
+              <input
+                type="number"
+                placeholder="2300"
+                min="0"
+                value={formData.targetSodium}
+                onChange={(e) => setFormData({ ...formData, targetSodium: e.target.value })}
+                disabled={isLoading}
+                className="mt-2 w-full rounded-2xl border border-zinc-200 bg-[color:var(--background)] px-4 py-3 text-sm shadow-sm outline-none focus:border-black dark:border-zinc-800 dark:focus:border-white disabled:opacity-50"
+              />
+            </label>
+          </div>
+        )}
+
+        {formData.type === 'hydration' && (
+          <label className="block text-sm font-medium">
+            Water Per Day ({vu}) *
+            <input
+              type="number"
+              placeholder={unitSystem === 'imperial' ? '100' : '3000'}
+              min="0"
+              value={formData.targetWaterPerDay}
+              onChange={(e) => setFormData({ ...formData, targetWaterPerDay: e.target.value })}
+              disabled={isLoading}
+              className="mt-2 w-full rounded-2xl border border-zinc-200 bg-[color:var(--background)] px-4 py-3 text-sm shadow-sm outline-none focus:border-black dark:border-zinc-800 dark:focus:border-white disabled:opacity-50"
+            />
+          </label>
+        )}
+
         {/* Timeline */}
         <div className="grid grid-cols-2 gap-4">
           <label className="block text-sm font-medium">
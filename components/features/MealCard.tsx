@@ -2,6 +2,7 @@
 
 import { Meal } from '@/lib/types/firestore';
 import { Edit2, Trash2, Apple } from 'lucide-react';
+import { MICRONUTRIENT_FIELDS, formatMealItems, getMealNutrition, hasItemNutrition } from '@/lib/utils/mealItems';
 
 interface MealCardProps {
   meal: Meal;
@@ -18,6 +19,9 @@ export default function MealCard({ meal, onEdit, onDelete }: MealCardProps) {
     other: '🍽️ Other',
   }[meal.mealType] || meal.mealType;
 
+  const nutrition = getMealNutrition(meal);
+  const structured = hasItemNutrition(meal.items);
+
   const formatTime = (date: Date) => {
     return new Date(date).toLocaleTimeString([], {
       hour: '2-digit',
@@ -47,48 +51,56 @@ export default function MealCard({ meal, onEdit, onDelete }: MealCardProps) {
             {mealTypeLabel} • {formatDate(meal.date)} at {formatTime(meal.date)}
           </p>
 
-          {meal.items && (
+          {meal.items.length > 0 && (
             <p className="mt-2 text-sm text-[color:var(--muted-foreground)]">
-              {meal.items}
+              {formatMealItems(meal.items)}
             </p>
           )}
 
           <div className="mt-3 flex flex-wrap gap-3 text-sm">
             <div className="rounded-lg bg-zinc-100 px-3 py-1 dark:bg-zinc-800">
               <p className="font-semibold text-[color:var(--foreground)]">
-                {meal.calories}
+                {nutrition.calories}
               </p>
               <p className="text-xs text-[color:var(--muted-foreground)]">kcal</p>
             </div>
 
-            {meal.protein !== undefined && (
+            {(structured || meal.protein !== undefined) && (
               <div className="rounded-lg bg-blue-50 px-3 py-1 dark:bg-blue-900/30">
                 <p className="font-semibold text-blue-700 dark:text-blue-300">
-                  {meal.protein}g
+                  {nutrition.protein}g
                 </p>
                 <p className="text-xs text-blue-600 dark:text-blue-400">protein</p>
               </div>
             )}
 
-            {meal.carbs !== undefined && (
+            {(structured || meal.carbs !== undefined) && (
               <div className="rounded-lg bg-amber-50 px-3 py-1 dark:bg-amber-900/30">
                 <p className="font-semibold text-amber-700 dark:text-amber-300">
-                  {meal.carbs}g
+                  {nutrition.carbs}g
                 </p>
                 <p className="text-xs text-amber-600 dark:text-amber-400">carbs</p>
               </div>
             )}
 
-            {meal.fat !== undefined && (
+            {(structured || meal.fat !== undefined) && (
               <div className="rounded-lg bg-red-50 px-3 py-1 dark:bg-red-900/30">
                 <p className="font-semibold text-red-700 dark:text-red-300">
-                  {meal.fat}g
+                  {nutrition.fat}g
                 </p>
                 <p className="text-xs text-red-600 dark:text-red-400">fat</p>
               </div>
             )}
           </div>
 
+          {MICRONUTRIENT_FIELDS.some(({ key }) => nutrition[key] !== undefined) && (
+            <p className="mt-2 text-xs text-[color:var(--muted-foreground)]">
+              {MICRONUTRIENT_FIELDS.filter(({ key }) => nutrition[key] !== undefined)
+                .map(({ key, label, unit }) => `${label} ${nutrition[key]}${unit}`)
+                .join(' · ')}
+            </p>
+          )}
+
           {meal.notes && (
             <p className="mt-3 text-sm italic text-[color:var(--muted-foreground)]">
               {meal.notes}
@@ -1,9 +1,19 @@
 'use client';
 
 import { useState, FormEvent } from 'react';
-import { X } from 'lucide-react';
-import { Meal } from '@/lib/types/firestore';
+import { X, ScanBarcode, Loader } from 'lucide-react';
+import { Meal, MealItem, Nutrients } from '@/lib/types/firestore';
 import { getErrorMessage } from '@/lib/utils/errorMessages';
+import { lookupProduct, saveCustomProduct } from '@/lib/services/productCatalog';
+import BarcodeScanner from '@/components/features/BarcodeScanner';
+import FoodItemsEditor, {
+  ItemFormState,
+  foodToItem,
+  hasInvalidAmount,
+  toItemFormState,
+  toMealItem,
+} from '@/components/features/FoodItemsEditor';
+import { MICRONUTRIENT_FIELDS, hasItemNutrition, sumNutrients } from '@/lib/utils/mealItems';
 
 // Helper to format Date to datetime-local string in user's local timezone
 const formatDateToLocalString = (date: Date): string => {
@@ -15,10 +25,35 @@ const formatDateToLocalString = (date: Date): string => {
   return `${year}-${month}-${day}T${hours}:${minutes}`;
 };
 
+// Nutrition label entry for a scanned product the catalogs don't know
+interface ProductFormState {
+  barcode: string;
+  name: string;
+  brand: string;
+  calories: string; // per 100 g
+  protein: string;
+  carbs: string;
+  fat: string;
+  servingGrams: string;
+}
+
+const emptyProduct = (barcode: string): ProductFormState => ({
+  barcode,
+  name: '',
+  brand: '',
+  calories: '',
+  protein: '',
+  carbs: '',
+  fat: '',
+  servingGrams: '',
+});
+
 interface MealFormProps {
   onSubmit: (data: Omit<Meal, 'id' | 'createdAt' | 'updatedAt'>) => Promise<void>;
   onCancel: () => void;
   initialData?: Meal;
+  defaultDate?: Date; // new meals: diary day being viewed
+  planned?: boolean; // new meals: plan ahead instead of logging
   isLoading?: boolean;
 }
 
@@ -26,34 +61,110 @@ export default function MealForm({
   onSubmit,
   onCancel,
   initialData,
+  defaultDate,
+  planned = false,
   isLoading = false,
 }: MealFormProps) {
   const [formData, setFormData] = useState({
     mealName: initialData?.mealName || '',
     mealType: (initialData?.mealType || 'other') as 'breakfast' | 'lunch' | 'dinner' | 'snack' | 'other',
-    items: initialData?.items || '',
     calories: initialData?.calories?.toString() || '',
     protein: initialData?.protein?.toString() || '',
     carbs: initialData?.carbs?.toString() || '',
     fat: initialData?.fat?.toString() || '',
+    saturatedFat: initialData?.saturatedFat?.toString() || '',
+    fiber: initialData?.fiber?.toString() || '',
+    sugar: initialData?.sugar?.toString() || '',
+    sodium: initialData?.sodium?.toString() || '',
     notes: initialData?.notes || '',
     date: initialData?.date
       ? formatDateToLocalString(new Date(initialData.date))
-      : formatDateToLocalString(new Date()),
+      : formatDateToLocalString(defaultDate || new Date()),
   });
 
+  const [items, setItems] = useState<ItemFormState[]>(
+    (initialData?.items || []).map(toItemFormState)
+  );
+  const [showScanner, setShowScanner] = useState(false);
+  const [lookingUp, setLookingUp] = useState(false);
+  const [newProduct, setNewProduct] = useState<ProductFormState | null>(null);
+
   const [error, setError] = useState('');
 
+  const mealItems = items.map(toMealItem);
+  // Totals come from the items once every item has nutrition data
+  const itemTotals = hasItemNutrition(mealItems)
+    ? sumNutrients(mealItems.map((item) => item.nutrients as Nutrients))
+    : null;
+  const knownCalories = mealItems.reduce((sum, item) => sum + (item.nutrients?.calories || 0), 0);
+
+  const addItem = (item: MealItem) => {
+    setItems((prev) => [...prev, toItemFormState(item)]);
+  };
+
+  const handleBarcode = async (barcode: string) => {
+    setShowScanner(false);
+    setError('');
+    setLookingUp(true);
+    try {
+      const { food } = await lookupProduct(barcode);
+      if (food) {
+        addItem(foodToItem(food));
+        setNewProduct(null);
+      } else {
+        setNewProduct(emptyProduct(barcode));
+      }
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to look up product'));
+    } finally {
+      setLookingUp(false);
+    }
+  };
+
+  const handleSaveProduct = async () => {
+    if (!newProduct) return;
+    if (!newProduct.name.trim() || !newProduct.calories) {
+      setError('Product name and calories per 100 g are required');
+      return;
+    }
+    const servingGrams = parseFloat(newProduct.servingGrams);
+
+    try {
+      const food = await saveCustomProduct({
+        barcode: newProduct.barcode,
+        name: newProduct.name,
+        brand: newProduct.brand,
+        per100g: {
+          calories: parseFloat(newProduct.calories) || 0,
+          protein: parseFloat(newProduct.protein) || 0,
+          carbs: parseFloat(newProduct.carbs) || 0,
+          fat: parseFloat(newProduct.fat) || 0,
+        },
+        servings: servingGrams > 0 ? [{ label: 'serving', grams: servingGrams }] : [],
+      });
+      addItem(foodToItem(food));
+      setNewProduct(null);
+      setError('');
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to save product'));
+    }
+  };
+
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
     setError('');
 
     // Validation
-    if (!formData.mealName || !formData.calories) {
+    if (!formData.mealName || (!itemTotals && !formData.calories)) {
       setError('Meal name and calories are required');
       return;
     }
 
+    if (hasInvalidAmount(items)) {
+      setError('Every food needs a positive amount');
+      return;
+    }
+
     if (parseInt(formData.calories) < 0) {
       setError('Calories must be a positive number');
       return;
@@ -76,13 +187,32 @@ export default function MealForm({
       await onSubmit({
         mealName: formData.mealName.trim(),
         mealType: formData.mealType,
-        items: formData.items.trim(),
-        calories: parseInt(formData.calories),
-        protein: formData.protein ? parseFloat(formData.protein) : undefined,
-        carbs: formData.carbs ? parseFloat(formData.carbs) : undefined,
-        fat: formData.fat ? parseFloat(formData.fat) : undefined,
+        items: mealItems,
+        ...(itemTotals
+          ? {
+              calories: itemTotals.calories,
+              protein: itemTotals.protein,
+              carbs: itemTotals.carbs,
+              fat: itemTotals.fat,
+              saturatedFat: itemTotals.saturatedFat,
+              fiber: itemTotals.fiber,
+              sugar: itemTotals.sugar,
+              sodium: itemTotals.sodium,
+            }
+          : {
+              calories: parseInt(formData.calories),
+              protein: formData.protein ? parseFloat(formData.protein) : undefined,
+              carbs: formData.carbs ? parseFloat(formData.carbs) : undefined,
+              fat: formData.fat ? parseFloat(formData.fat) : undefined,
+              saturatedFat: formData.saturatedFat ? parseFloat(formData.saturatedFat) : undefined,
+              fiber: formData.fiber ? parseFloat(formData.fiber) : undefined,
+              sugar: formData.sugar ? parseFloat(formData.sugar) : undefined,
+              sodium: formData.sodium ? parseFloat(formData.sodium) : undefined,
+            }),
         notes: formData.notes?.trim() || undefined,
         date: dateObj,
+        // Edits keep the meal's planned/logged state
+        planned: !initialData && planned ? true : undefined,
       });
     } catch (err) {
       setError(getErrorMessage(err, 'Failed to save meal'));
@@ -93,7 +223,7 @@ export default function MealForm({
     <form onSubmit={handleSubmit} className="space-y-3">
       <div className="flex items-center justify-between mb-3">
         <h2 className="text-lg font-semibold text-[color:var(--foreground)]">
-          {initialData ? 'Edit Meal' : 'Add Meal'}
+          {initialData ? 'Edit Meal' : planned ? 'Plan Meal' : 'Add Meal'}
         </h2>
         <button
           type="button"
@@ -141,75 +271,219 @@ export default function MealForm({
           </label>
         </div>
 
-        <label className="block text-xs font-medium">
-          Food Items
-          <textarea
-            placeholder="e.g., Chicken breast, Rice, Broccoli"
-            rows={2}
-            value={formData.items}
-            onChange={(e) => setFormData({ ...formData, items: e.target.value })}
-            disabled={isLoading}
-            className="mt-1 w-full rounded-lg border border-zinc-200 bg-[color:var(--background)] px-3 py-2 text-sm shadow-sm outline-none focus:border-black dark:border-zinc-800 disabled:opacity-50"
-          />
-        </label>
+        <div className="space-y-2">
+          <p className="text-xs font-medium">Food Items</p>
 
-        <label className="block text-xs font-medium">
-          Calories *
-          <input
-            type="number"
-            placeholder="500"
-            min="0"
-            value={formData.calories}
-            onChange={(e) => setFormData({ ...formData, calories: e.target.value })}
+          <FoodItemsEditor
+            items={items}
+            onChange={setItems}
             disabled={isLoading}
-            className="mt-1 w-full rounded-lg border border-zinc-200 bg-[color:var(--background)] px-3 py-2 text-sm shadow-sm outline-none focus:border-black dark:border-zinc-800 disabled:opacity-50"
-          />
-        </label>
+            searchAction={
+              <button
+                type="button"
+                onClick={() => setShowScanner((v) => !v)}
+                disabled={isLoading || lookingUp}
+                className={`rounded-lg border border-zinc-200 px-3 hover:bg-zinc-100 dark:border-zinc-800 dark:hover:bg-zinc-800 disabled:opacity-50 ${showScanner ? 'bg-zinc-100 dark:bg-zinc-800' : ''}`}
+                aria-label="Scan barcode"
+                aria-expanded={showScanner}
+              >
+                <ScanBarcode className="h-4 w-4" />
+              </button>
+            }
+          >
+            {showScanner && (
+              <BarcodeScanner onDetected={handleBarcode} onClose={() => setShowScanner(false)} />
+            )}
 
-        <div className="grid grid-cols-3 gap-2">
-          <label className="block text-xs font-medium">
-            Protein (g)
-            <input
-              type="number"
-              placeholder="25"
-              min="0"
-              step="0.5"
-              value={formData.protein}
-              onChange={(e) => setFormData({ ...formData, protein: e.target.value })}
-              disabled={isLoading}
-              className="mt-1 w-full rounded-lg border border-zinc-200 bg-[color:var(--background)] px-2 py-2 text-sm shadow-sm outline-none focus:border-black dark:border-zinc-800 disabled:opacity-50"
-            />
-          </label>
+            {lookingUp && (
+              <p className="flex items-center gap-2 text-xs text-[color:var(--muted-foreground)]">
+                <Loader className="h-3.5 w-3.5 animate-spin" />
+                Looking up product...
+              </p>
+            )}
 
-          <label className="block text-xs font-medium">
-            Carbs (g)
-            <input
-              type="number"
-              placeholder="50"
-              min="0"
-              step="0.5"
-              value={formData.carbs}
-              onChange={(e) => setFormData({ ...formData, carbs: e.target.value })}
-              disabled={isLoading}
-              className="mt-1 w-full rounded-lg border border-zinc-200 bg-[color:var(--background)] px-2 py-2 text-sm shadow-sm outline-none focus:border-black dark:border-zinc-800 disabled:opacity-50"
-            />
-          </label>
+            {newProduct && (
+              <div className="space-y-2 rounded-lg border border-zinc-200 p-2 dark:border-zinc-800">
+                <div className="flex items-center justify-between">
+                  <p className="text-xs font-medium">
+                    Unknown product {newProduct.barcode} — enter it from the label
+                  </p>
+                  <button
+                    type="button"
+                    onClick={() => setNewProduct(null)}
+                    className="rounded-full p-1 hover:bg-zinc-100 dark:hover:bg-zinc-800"
+                    aria-label="Discard product"
+                  >
+                    <X className="h-3.5 w-3.5" />
+                  </button>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  {([
+                    { key: 'name', label: 'Name *', type: 'text' },
+                    { key: 'brand', label: 'Brand', type: 'text' },
+                  ] as const).map((field) => (
+                    <label key={field.key} className="block text-[10px] font-medium">
+                      {field.label}
+                      <input
+                        type={field.type}
+                        value={newProduct[field.key]}
+                        onChange={(e) => setNewProduct({ ...newProduct, [field.key]: e.target.value })}
+                        disabled={isLoading}
+                        className="mt-0.5 w-full rounded-lg border border-zinc-200 bg-[color:var(--background)] px-2 py-1 text-sm dark:border-zinc-800 disabled:opacity-50"
+                      />
+                    </label>
+                  ))}
+                </div>
+                <div className="grid grid-cols-5 gap-1.5">
+                  {([
+                    { key: 'calories', label: 'kcal *' },
+                    { key: 'protein', label: 'Protein' },
+                    { key: 'carbs', label: 'Carbs' },
+                    { key: 'fat', label: 'Fat' },
+                    { key: 'servingGrams', label: 'Serving g' },
+                  ] as const).map((field) => (
+                    <label key={field.key} className="block text-[10px] font-medium">
+                      {field.label}
+                      <input
+                        type="number"
+                        min="0"
+                        step="any"
+                        value={newProduct[field.key]}
+                        onChange={(e) => setNewProduct({ ...newProduct, [field.key]: e.target.value })}
+                        disabled={isLoading}
+                        className="mt-0.5 w-full rounded-lg border border-zinc-200 bg-[color:var(--background)] px-1.5 py-1 text-sm dark:border-zinc-800 disabled:opacity-50"
+                      />
+                    </label>
+                  ))}
+                </div>
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-[10px] text-[color:var(--muted-foreground)]">
+                    Values per 100 g. Saved on this device for future scans.
+                  </p>
+                  <button
+                    type="button"
+                    onClick={handleSaveProduct}
+                    disabled={isLoading}
+                    className="shrink-0 rounded-lg bg-[color:var(--foreground)] px-3 py-1 text-xs font-medium text-[color:var(--background)] disabled:opacity-50"
+                  >
+                    Save & add
+                  </button>
+                </div>
+              </div>
+            )}
 
-          <label className="block text-xs font-medium">
-            Fat (g)
-            <input
-              type="number"
-              placeholder="15"
-              min="0"
-              step="0.5"
-              value={formData.fat}
-              onChange={(e) => setFormData({ ...formData, fat: e.target.value })}
-              disabled={isLoading}
-              className="mt-1 w-full rounded-lg border border-zinc-200 bg-[color:var(--background)] px-2 py-2 text-sm shadow-sm outline-none focus:border-black dark:border-zinc-800 disabled:opacity-50"
-            />
-          </label>
+          </FoodItemsEditor>
         </div>
 
+        {itemTotals ? (
+          <div className="rounded-lg bg-zinc-50 p-3 dark:bg-zinc-900">
+            <p className="mb-2 text-[10px] font-medium uppercase tracking-wide text-[color:var(--muted-foreground)]">
+              Calculated from items
+            </p>
+            <div className="grid grid-cols-4 gap-2 text-center">
+              {[
+                { label: 'kcal', value: itemTotals.calories },
+                { label: 'protein', value: `${itemTotals.protein}g` },
+                { label: 'carbs', value: `${itemTotals.carbs}g` },
+                { label: 'fat', value: `${itemTotals.fat}g` },
+              ].map((total) => (
+                <div key={total.label}>
+                  <p className="text-sm font-semibold text-[color:var(--foreground)]">{total.value}</p>
+                  <p className="text-[10px] text-[color:var(--muted-foreground)]">{total.label}</p>
+                </div>
+              ))}
+            </div>
+            {MICRONUTRIENT_FIELDS.some(({ key }) => itemTotals[key] !== undefined) && (
+              <p className="mt-2 text-center text-[10px] text-[color:var(--muted-foreground)]">
+                {MICRONUTRIENT_FIELDS.filter(({ key }) => itemTotals[key] !== undefined)
+                  .map(({ key, label, unit }) => `${label} ${itemTotals[key]}${unit}`)
+                  .join(' · ')}
+              </p>
+            )}
+          </div>
+        ) : (
+          <>
+            {knownCalories > 0 && (
+              <p className="text-xs text-[color:var(--muted-foreground)]">
+                Foods with nutrition data add up to {knownCalories} kcal — enter the meal total below
+              </p>
+            )}
+            <label className="block text-xs font-medium">
+              Calories *
+              <input
+                type="number"
+                placeholder="500"
+                min="0"
+                value={formData.calories}
+                onChange={(e) => setFormData({ ...formData, calories: e.target.value })}
+                disabled={isLoading}
+                className="mt-1 w-full rounded-lg border border-zinc-200 bg-[color:var(--background)] px-3 py-2 text-sm shadow-sm outline-none focus:border-black dark:border-zinc-800 disabled:opacity-50"
+              />
+            </label>
+
+            <div className="grid grid-cols-3 gap-2">
+              <label className="block text-xs font-medium">
+                Protein (g)
+                <input
+                  type="number"
+                  placeholder="25"
+                  min="0"
+                  step="0.5"
+                  value={formData.protein}
+                  onChange={(e) => setFormData({ ...formData, protein: e.target.value })}
+                  disabled={isLoading}
+                  className="mt-1 w-full rounded-lg border border-zinc-200 bg-[color:var(--background)] px-2 py-2 text-sm shadow-sm outline-none focus:border-black dark:border-zinc-800 disabled:opacity-50"
+                />
+              </label>
+
+              <label className="block text-xs font-medium">
+                Carbs (g)
+                <input
+                  type="number"
+                  placeholder="50"
+                  min="0"
+                  step="0.5"
+                  value={formData.carbs}
+                  onChange={(e) => setFormData({ ...formData, carbs: e.target.value })}
+                  disabled={isLoading}
+                  className="mt-1 w-full rounded-lg border border-zinc-200 bg-[color:var(--background)] px-2 py-2 text-sm shadow-sm outline-none focus:border-black dark:border-zinc-800 disabled:opacity-50"
+                />
+              </label>
+
+              <label className="block text-xs font-medium">
+                Fat (g)
+                <input
+                  type="number"
+                  placeholder="15"
+                  min="0"
+                  step="0.5"
+                  value={formData.fat}
+                  onChange={(e) => setFormData({ ...formData, fat: e.target.value })}
+                  disabled={isLoading}
+                  className="mt-1 w-full rounded-lg border border-zinc-200 bg-[color:var(--background)] px-2 py-2 text-sm shadow-sm outline-none focus:border-black dark:border-zinc-800 disabled:opacity-50"
+                />
+              </label>
+            </div>
+
+            <div className="grid grid-cols-4 gap-2">
+              {MICRONUTRIENT_FIELDS.map(({ key, label, unit }) => (
+                <label key={key} className="block text-xs font-medium">
+                  {label} ({unit})
+                  <input
+                    type="number"
+                    min="0"
+                    step={unit === 'mg' ? '1' : '0.5'}
+                    value={formData[key]}
+                    onChange={(e) => setFormData({ ...formData, [key]: e.target.value })}
+                    disabled={isLoading}
+                    className="mt-1 w-full rounded-lg border border-zinc-200 bg-[color:var(--background)] px-2 py-2 text-sm shadow-sm outline-none focus:border-black dark:border-zinc-800 disabled:opacity-50"
+                  />
+                </label>
+              ))}
+            </div>
+          </>
+        )}
+
         <label className="block text-xs font-medium">
           Date & Time
           <input
@@ -248,7 +522,7 @@ export default function MealForm({
           disabled={isLoading}
           className="flex h-10 flex-1 items-center justify-center rounded-lg bg-[color:var(--foreground)] text-sm font-medium text-[color:var(--background)] disabled:opacity-50"
         >
-          {isLoading ? 'Saving...' : initialData ? 'Update' : 'Add'}
+          {isLoading ? 'Saving...' : initialData ? 'Update' : planned ? 'Plan' : 'Add'}
         </button>
       </div>
     </form>
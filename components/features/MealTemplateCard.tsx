@@ -1,11 +1,12 @@
 'use client';
 
+import { useState } from 'react';
 import { BookmarkPlus, Trash2, Edit } from 'lucide-react';
-import { MealTemplate } from '@/lib/mealTemplates';
+import { MealTemplate, isRecipe } from '@/lib/mealTemplates';
 
 interface MealTemplateCardProps {
   template: MealTemplate;
-  onUse: (template: MealTemplate) => void;
+  onUse: (template: MealTemplate, servings: number) => void; // servings is 1 for fixed templates
   onEdit: (template: MealTemplate) => void;
   onDelete: (templateId: string) => void;
 }
@@ -24,6 +25,10 @@ export default function MealTemplateCard({
   onEdit,
   onDelete,
 }: MealTemplateCardProps) {
+  const recipe = isRecipe(template);
+  const [servings, setServings] = useState('1');
+  const servingCount = parseFloat(servings);
+
   return (
     <div className="p-4 bg-white dark:bg-zinc-800 border border-zinc-200 dark:border-zinc-700 rounded-lg">
       <div className="flex items-start justify-between gap-3 mb-3">
@@ -39,12 +44,18 @@ export default function MealTemplateCard({
           </p>
         </div>
         <span className="flex-shrink-0 px-2 py-0.5 bg-zinc-100 dark:bg-zinc-900 text-zinc-600 dark:text-zinc-400 rounded text-xs capitalize">
-          {template.mealType}
+          {recipe ? 'Recipe' : template.mealType}
         </span>
       </div>
 
+      {recipe && (
+        <p className="mb-1 text-xs text-zinc-500 dark:text-zinc-400">
+          Per serving · makes {template.servings}
+        </p>
+      )}
+
       {/* Macros */}
-      <div className="flex items-center gap-3 mb-3">
+      <div className="flex flex-wrap items-center gap-3 mb-3">
         <div className="text-sm">
           <span className="font-medium text-zinc-900 dark:text-zinc-100">
             {template.calories}
@@ -79,12 +90,24 @@ export default function MealTemplateCard({
 
       {/* Actions */}
       <div className="flex items-center gap-2">
+        {recipe && (
+          <input
+            type="number"
+            min="0"
+            step="0.25"
+            value={servings}
+            onChange={(e) => setServings(e.target.value)}
+            aria-label="Servings to log"
+            className="w-16 px-2 py-2 bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-700 rounded-lg text-sm"
+          />
+        )}
         <button
-          onClick={() => onUse(template)}
-          className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-zinc-900 dark:bg-zinc-100 text-white dark:text-zinc-900 rounded-lg hover:bg-zinc-800 dark:hover:bg-zinc-200 transition-colors text-sm font-medium"
+          onClick={() => onUse(template, recipe ? servingCount : 1)}
+          disabled={recipe && !(servingCount > 0)}
+          className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-zinc-900 dark:bg-zinc-100 text-white dark:text-zinc-900 rounded-lg hover:bg-zinc-800 dark:hover:bg-zinc-200 transition-colors text-sm font-medium disabled:opacity-50"
         >
           <BookmarkPlus className="w-4 h-4" />
-          Use Template
+          {recipe ? `Log ${servingCount > 0 ? `${servingCount} ` : ''}serving${servingCount === 1 ? '' : 's'}` : 'Use Template'}
         </button>
         <button
           onClick={() => onEdit(template)}
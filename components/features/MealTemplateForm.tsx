@@ -2,7 +2,14 @@
 
 import { useState, FormEvent } from 'react';
 import { X } from 'lucide-react';
-import { MealTemplate } from '@/lib/mealTemplates';
+import { MealTemplate, getRecipeNutrition, isRecipe } from '@/lib/mealTemplates';
+import { formatMealItems } from '@/lib/utils/mealItems';
+import FoodItemsEditor, {
+  ItemFormState,
+  hasInvalidAmount,
+  toItemFormState,
+  toMealItem,
+} from '@/components/features/FoodItemsEditor';
 
 interface MealTemplateFormProps {
   onSubmit: (data: Omit<MealTemplate, 'id' | 'createdAt' | 'updatedAt'>) => Promise<void>;
@@ -28,8 +35,20 @@ export default function MealTemplateForm({
     notes: initialData?.notes || '',
   });
 
+  // Recipes compute per-serving totals from ingredients instead of typed totals
+  const [mode, setMode] = useState<'fixed' | 'recipe'>(
+    initialData && isRecipe(initialData) ? 'recipe' : 'fixed'
+  );
+  const [ingredients, setIngredients] = useState<ItemFormState[]>(
+    (initialData?.ingredients || []).map(toItemFormState)
+  );
+  const [servings, setServings] = useState(initialData?.servings?.toString() || '1');
+
   const [error, setError] = useState('');
 
+  const ingredientItems = ingredients.map(toMealItem);
+  const perServing = getRecipeNutrition(ingredientItems, parseFloat(servings));
+
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
     setError('');
@@ -40,6 +59,39 @@ export default function MealTemplateForm({
       return;
     }
 
+    if (mode === 'recipe') {
+      if (ingredients.length === 0) {
+        setError('Add at least one ingredient');
+        return;
+      }
+      if (hasInvalidAmount(ingredients)) {
+        setError('Every ingredient needs a positive amount');
+        return;
+      }
+      if (!perServing) {
+        setError('Servings must be greater than 0');
+        return;
+      }
+
+      try {
+        await onSubmit({
+          name: formData.name.trim(),
+          items: formatMealItems(ingredientItems),
+          mealType: formData.mealType,
+          calories: perServing.calories,
+          protein: perServing.protein,
+          carbs: perServing.carbs,
+          fat: perServing.fat,
+          notes: formData.notes?.trim() || undefined,
+          ingredients: ingredientItems,
+          servings: parseFloat(servings),
+        });
+      } catch {
+        setError('Failed to save template');
+      }
+      return;
+    }
+
     if (!formData.items.trim()) {
       setError('Food items are required');
       return;
@@ -60,6 +112,8 @@ export default function MealTemplateForm({
         carbs: formData.carbs ? parseFloat(formData.carbs) : undefined,
         fat: formData.fat ? parseFloat(formData.fat) : undefined,
         notes: formData.notes?.trim() || undefined,
+        ingredients: undefined,
+        servings: undefined,
       });
     } catch (err: any) {
       setError('Failed to save template');
@@ -96,21 +150,6 @@ export default function MealTemplateForm({
           />
         </div>
 
-        {/* Food Items */}
-        <div>
-          <label className="block text-sm font-medium text-[color:var(--foreground)] mb-2">
-            Food Items
-          </label>
-          <textarea
-            value={formData.items}
-            onChange={(e) => setFormData({ ...formData, items: e.target.value })}
-            placeholder="e.g., 2 eggs, 100g chicken breast, 1 cup rice"
-            rows={3}
-            className="w-full px-4 py-3 bg-white dark:bg-zinc-800 border border-zinc-200 dark:border-zinc-700 rounded-lg outline-none focus:border-[color:var(--foreground)]"
-            required
-          />
-        </div>
-
         {/* Meal Type */}
         <div>
           <label className="block text-sm font-medium text-[color:var(--foreground)] mb-2">
@@ -129,67 +168,163 @@ export default function MealTemplateForm({
           </select>
         </div>
 
-        {/* Calories */}
-        <div>
-          <label className="block text-sm font-medium text-[color:var(--foreground)] mb-2">
-            Calories
-          </label>
-          <input
-            type="number"
-            value={formData.calories}
-            onChange={(e) => setFormData({ ...formData, calories: e.target.value })}
-            placeholder="500"
-            min="0"
-            className="w-full px-4 py-3 bg-white dark:bg-zinc-800 border border-zinc-200 dark:border-zinc-700 rounded-lg outline-none focus:border-[color:var(--foreground)]"
-            required
-          />
+        {/* Template kind */}
+        <div className="grid grid-cols-2 gap-1 rounded-lg bg-zinc-100 p-1 dark:bg-zinc-800">
+          {([
+            { value: 'fixed', label: 'Fixed totals' },
+            { value: 'recipe', label: 'Recipe' },
+          ] as const).map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => setMode(option.value)}
+              aria-pressed={mode === option.value}
+              className={`rounded-md py-1.5 text-sm font-medium transition-colors ${
+                mode === option.value
+                  ? 'bg-[color:var(--background)] text-[color:var(--foreground)] shadow-sm'
+                  : 'text-[color:var(--muted-foreground)]'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
         </div>
 
-        {/* Macros Grid */}
-        <div className="grid grid-cols-3 gap-3">
-          <div>
-            <label className="block text-sm font-medium text-[color:var(--foreground)] mb-2">
-              Protein (g)
-            </label>
-            <input
-              type="number"
-              value={formData.protein}
-              onChange={(e) => setFormData({ ...formData, protein: e.target.value })}
-              placeholder="20"
-              min="0"
-              step="0.1"
-              className="w-full px-4 py-3 bg-white dark:bg-zinc-800 border border-zinc-200 dark:border-zinc-700 rounded-lg outline-none focus:border-[color:var(--foreground)]"
-            />
-          </div>
-          <div>
-            <label className="block text-sm font-medium text-[color:var(--foreground)] mb-2">
-              Carbs (g)
-            </label>
-            <input
-              type="number"
-              value={formData.carbs}
-              onChange={(e) => setFormData({ ...formData, carbs: e.target.value })}
-              placeholder="30"
-              min="0"
-              step="0.1"
-              className="w-full px-4 py-3 bg-white dark:bg-zinc-800 border border-zinc-200 dark:border-zinc-700 rounded-lg outline-none focus:border-[color:var(--foreground)]"
-            />
-          </div>
-          <div>
-            <label className="block text-sm font-medium text-[color:var(--foreground)] mb-2">
-              Fat (g)
-            </label>
-            <input
-              type="number"
-              value={formData.fat}
-              onChange={(e) => setFormData({ ...formData, fat: e.target.value })}
-              placeholder="10"
-              min="0"
-              step="0.1"
-              className="w-full px-4 py-3 bg-white dark:bg-zinc-800 border border-zinc-200 dark:border-zinc-700 rounded-lg outline-none focus:border-[color:var(--foreground)]"
-            />
-          </div>
-        </div>
+        {mode === 'recipe' && (
+          <>
+            {/* Ingredients */}
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-[color:var(--foreground)]">
+                Ingredients (whole recipe)
+              </label>
+              <FoodItemsEditor
+                items={ingredients}
+                onChange={setIngredients}
+                disabled={isLoading}
+                allowFreeText={false}
+                placeholder="Add ingredient, e.g., ground beef"
+              />
+            </div>
+
+            {/* Yield */}
+            <div>
+              <label className="block text-sm font-medium text-[color:var(--foreground)] mb-2">
+                Servings
+              </label>
+              <input
+                type="number"
+                value={servings}
+                onChange={(e) => setServings(e.target.value)}
+                min="0"
+                step="any"
+                className="w-full px-4 py-3 bg-white dark:bg-zinc-800 border border-zinc-200 dark:border-zinc-700 rounded-lg outline-none focus:border-[color:var(--foreground)]"
+                required
+              />
+            </div>
+
+            {perServing && (
+              <div className="rounded-lg bg-zinc-50 p-3 dark:bg-zinc-900">
+                <p className="mb-2 text-xs font-medium uppercase tracking-wide text-[color:var(--muted-foreground)]">
+                  Per serving
+                </p>
+                <div className="grid grid-cols-4 gap-2 text-center">
+                  {[
+                    { label: 'kcal', value: perServing.calories },
+                    { label: 'protein', value: `${perServing.protein}g` },
+                    { label: 'carbs', value: `${perServing.carbs}g` },
+                    { label: 'fat', value: `${perServing.fat}g` },
+                  ].map((total) => (
+                    <div key={total.label}>
+                      <p className="text-sm font-semibold text-[color:var(--foreground)]">{total.value}</p>
+                      <p className="text-xs text-[color:var(--muted-foreground)]">{total.label}</p>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </>
+        )}
+
+        {mode === 'fixed' && (
+          <>
+            {/* Food Items */}
+            <div>
+              <label className="block text-sm font-medium text-[color:var(--foreground)] mb-2">
+                Food Items
+              </label>
+              <textarea
+                value={formData.items}
+                onChange={(e) => setFormData({ ...formData, items: e.target.value })}
+                placeholder="e.g., 2 eggs, 100g chicken breast, 1 cup rice"
+                rows={3}
+                className="w-full px-4 py-3 bg-white dark:bg-zinc-800 border border-zinc-200 dark:border-zinc-700 rounded-lg outline-none focus:border-[color:var(--foreground)]"
+                required
+              />
+            </div>
+
+            {/* Calories */}
+            <div>
+              <label className="block text-sm font-medium text-[color:var(--foreground)] mb-2">
+                Calories
+              </label>
+              <input
+                type="number"
+                value={formData.calories}
+                onChange={(e) => setFormData({ ...formData, calories: e.target.value })}
+                placeholder="500"
+                min="0"
+                className="w-full px-4 py-3 bg-white dark:bg-zinc-800 border border-zinc-200 dark:border-zinc-700 rounded-lg outline-none focus:border-[color:var(--foreground)]"
+                required
+              />
+            </div>
+
+            {/* Macros Grid */}
+            <div className="grid grid-cols-3 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-[color:var(--foreground)] mb-2">
+                  Protein (g)
+                </label>
+                <input
+                  type="number"
+                  value={formData.protein}
+                  onChange={(e) => setFormData({ ...formData, protein: e.target.value })}
+                  placeholder="20"
+                  min="0"
+                  step="0.1"
+                  className="w-full px-4 py-3 bg-white dark:bg-zinc-800 border border-zinc-200 dark:border-zinc-700 rounded-lg outline-none focus:border-[color:var(--foreground)]"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-[color:var(--foreground)] mb-2">
+                  Carbs (g)
+                </label>
+                <input
+                  type="number"
+                  value={formData.carbs}
+                  onChange={(e) => setFormData({ ...formData, carbs: e.target.value })}
+                  placeholder="30"
+                  min="0"
+                  step="0.1"
+                  className="w-full px-4 py-3 bg-white dark:bg-zinc-800 border border-zinc-200 dark:border-zinc-700 rounded-lg outline-none focus:border-[color:var(--foreground)]"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-[color:var(--foreground)] mb-2">
+                  Fat (g)
+                </label>
+                <input
+                  type="number"
+                  value={formData.fat}
+                  onChange={(e) => setFormData({ ...formData, fat: e.target.value })}
+                  placeholder="10"
+                  min="0"
+                  step="0.1"
+                  className="w-full px-4 py-3 bg-white dark:bg-zinc-800 border border-zinc-200 dark:border-zinc-700 rounded-lg outline-none focus:border-[color:var(--foreground)]"
+                />
+              </div>
+            </div>
+          </>
+        )}
 
         {/* Notes */}
         <div>
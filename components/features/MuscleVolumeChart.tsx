@@ -0,0 +1,120 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { ChevronLeft, ChevronRight, AlertTriangle } from 'lucide-react';
+import { Workout } from '@/lib/types/firestore';
+import { useUnits } from '@/components/providers/UnitProvider';
+import { getWeightInUnit, weightUnit } from '@/lib/utils/units';
+import { WEEKLY_SET_TARGET, buildWeeklyMuscleReport } from '@/lib/reports';
+
+interface MuscleVolumeChartProps {
+  workouts: Workout[];
+}
+
+const MAX_WEEKS_BACK = 11;
+
+export function MuscleVolumeChart({ workouts }: MuscleVolumeChartProps) {
+  const { unitSystem } = useUnits();
+  const [weeksBack, setWeeksBack] = useState(0);
+
+  const report = useMemo(() => {
+    const date = new Date();
+    date.setDate(date.getDate() - weeksBack * 7);
+    return buildWeeklyMuscleReport(workouts, date);
+  }, [workouts, weeksBack]);
+
+  // Scale bars to the target ceiling so the 10–20 band stays in view
+  const scale = Math.max(WEEKLY_SET_TARGET.max, ...report.muscles.map((m) => m.hardSets));
+  const bandLeft = (WEEKLY_SET_TARGET.min / scale) * 100;
+  const bandWidth = ((WEEKLY_SET_TARGET.max - WEEKLY_SET_TARGET.min) / scale) * 100;
+  const lagging = new Set(report.imbalances.flatMap((i) => i.muscles));
+
+  const formatTonnage = (kg: number) => {
+    const value = getWeightInUnit(kg, unitSystem);
+    return value >= 1000 ? `${(value / 1000).toFixed(1)}k` : `${Math.round(value)}`;
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Week navigation */}
+      <div className="flex items-center justify-between">
+        <button
+          onClick={() => setWeeksBack((w) => Math.min(w + 1, MAX_WEEKS_BACK))}
+          disabled={weeksBack >= MAX_WEEKS_BACK}
+          className="p-1 rounded-lg hover:bg-zinc-100 dark:hover:bg-zinc-800 disabled:opacity-30"
+          aria-label="Previous week"
+        >
+          <ChevronLeft className="w-4 h-4" />
+        </button>
+        <div className="text-center">
+          <p className="text-xs font-medium text-[color:var(--foreground)]">
+            {weeksBack === 0 ? 'This week' : weeksBack === 1 ? 'Last week' : report.period}
+          </p>
+          <p className="text-[10px] text-[color:var(--muted-foreground)]">
+            {report.totalHardSets} hard sets
+          </p>
+        </div>
+        <button
+          onClick={() => setWeeksBack((w) => Math.max(w - 1, 0))}
+          disabled={weeksBack === 0}
+          className="p-1 rounded-lg hover:bg-zinc-100 dark:hover:bg-zinc-800 disabled:opacity-30"
+          aria-label="Next week"
+        >
+          <ChevronRight className="w-4 h-4" />
+        </button>
+      </div>
+
+      {/* Sets per muscle */}
+      <div className="space-y-1.5">
+        {report.muscles.map((m) => (
+          <div key={m.muscle} className="grid grid-cols-[5.5rem_1fr_4.5rem] items-center gap-2 group">
+            <span className="text-xs capitalize text-[color:var(--foreground)]">{m.muscle}</span>
+            <div className="relative h-3 rounded bg-zinc-100 dark:bg-zinc-800">
+              <div
+                className="absolute inset-y-0 bg-green-500/15"
+                style={{ left: `${bandLeft}%`, width: `${bandWidth}%` }}
+              />
+              <div
+                className={`absolute inset-y-0 left-0 rounded ${
+                  lagging.has(m.muscle) ? 'bg-amber-500' : 'bg-blue-600 dark:bg-blue-500'
+                }`}
+                style={{ width: `${(m.hardSets / scale) * 100}%` }}
+                title={m.exercises.join(', ')}
+              />
+            </div>
+            <span className="text-right text-xs tabular-nums text-[color:var(--muted-foreground)]">
+              {m.hardSets}
+              {m.tonnage > 0 && (
+                <span className="text-[10px]"> · {formatTonnage(m.tonnage)}</span>
+              )}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {/* Imbalance flags */}
+      {report.imbalances.length > 0 && (
+        <div className="space-y-2">
+          {report.imbalances.map((imbalance) => (
+            <div
+              key={imbalance.kind}
+              className="flex items-start gap-2 p-2 rounded-lg bg-amber-50 dark:bg-amber-900/20"
+            >
+              <AlertTriangle className="w-3.5 h-3.5 shrink-0 mt-0.5 text-amber-600 dark:text-amber-400" />
+              <p className="text-xs text-[color:var(--foreground)] leading-relaxed">
+                {imbalance.message}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <p className="text-xs text-center text-[color:var(--muted-foreground)]">
+        Hard sets (secondary muscles count ½) · tonnage in {weightUnit(unitSystem)} · shaded band ={' '}
+        {WEEKLY_SET_TARGET.min}–{WEEKLY_SET_TARGET.max} sets
+        {report.unmappedSets > 0 &&
+          ` · ${report.unmappedSets} sets from unrecognized exercises not counted`}
+      </p>
+    </div>
+  );
+}
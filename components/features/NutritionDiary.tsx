@@ -0,0 +1,263 @@
+'use client';
+
+import { ChevronLeft, ChevronRight, Copy, Check, Edit2, Trash2, Plus, CalendarClock } from 'lucide-react';
+import { Meal } from '@/lib/types/firestore';
+import { formatMealItems, getMealNutrition, sumNutrients } from '@/lib/utils/mealItems';
+
+interface NutritionDiaryProps {
+  date: Date; // day being viewed
+  meals: Meal[]; // that day's meals, planned included
+  loading?: boolean;
+  busy?: boolean; // a copy or confirmation is being saved
+  onDateChange: (date: Date) => void;
+  onAdd: (planned: boolean) => void;
+  onEdit: (meal: Meal) => void;
+  onDelete: (mealId: string) => void;
+  onConfirm: (meal: Meal) => void;
+  onCopy: (meals: Meal[]) => void; // copy to today
+}
+
+const SLOTS: { type: Meal['mealType']; label: string }[] = [
+  { type: 'breakfast', label: '🌅 Breakfast' },
+  { type: 'lunch', label: '☀️ Lunch' },
+  { type: 'dinner', label: '🌙 Dinner' },
+  { type: 'snack', label: '🍎 Snack' },
+  { type: 'other', label: '🍽️ Other' },
+];
+
+const startOfDay = (date: Date) => {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+};
+
+const addDays = (date: Date, days: number) => {
+  const day = new Date(date);
+  day.setDate(day.getDate() + days);
+  return day;
+};
+
+const toInputValue = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+function formatDayLabel(date: Date, today: Date): string {
+  const diff = Math.round((startOfDay(date).getTime() - today.getTime()) / (24 * 60 * 60 * 1000));
+  if (diff === 0) return 'Today';
+  if (diff === -1) return 'Yesterday';
+  if (diff === 1) return 'Tomorrow';
+  return date.toLocaleDateString([], {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: date.getFullYear() !== today.getFullYear() ? 'numeric' : undefined,
+  });
+}
+
+/** One day of the food diary: meals by slot, copy to today, planned meals */
+export default function NutritionDiary({
+  date,
+  meals,
+  loading = false,
+  busy = false,
+  onDateChange,
+  onAdd,
+  onEdit,
+  onDelete,
+  onConfirm,
+  onCopy,
+}: NutritionDiaryProps) {
+  const today = startOfDay(new Date());
+  const day = startOfDay(date);
+  const isToday = day.getTime() === today.getTime();
+  const isPast = day < today;
+  const isFuture = day > today;
+
+  const logged = meals.filter((m) => !m.planned);
+  const loggedTotals = sumNutrients(logged.map(getMealNutrition));
+  const plannedCalories = meals
+    .filter((m) => m.planned || m.fromPlan)
+    .reduce((sum, m) => sum + getMealNutrition(m).calories, 0);
+
+  return (
+    <div className="space-y-3 rounded-2xl border border-zinc-200 bg-[color:var(--background)] p-4 shadow-sm dark:border-zinc-800">
+      {/* Day navigator */}
+      <div className="flex items-center justify-between gap-2">
+        <button
+          type="button"
+          onClick={() => onDateChange(addDays(day, -1))}
+          className="rounded-full p-2 hover:bg-zinc-100 dark:hover:bg-zinc-800"
+          aria-label="Previous day"
+        >
+          <ChevronLeft className="h-4 w-4" />
+        </button>
+        <div className="flex flex-1 flex-col items-center">
+          <p className="text-sm font-semibold text-[color:var(--foreground)]">{formatDayLabel(day, today)}</p>
+          <div className="flex items-center gap-2">
+            <input
+              type="date"
+              value={toInputValue(day)}
+              onChange={(e) => {
+                if (!e.target.value) return;
+                const [year, month, dayOfMonth] = e.target.value.split('-').map(Number);
+                onDateChange(new Date(year, month - 1, dayOfMonth));
+              }}
+              aria-label="Diary date"
+              className="bg-transparent text-xs text-[color:var(--muted-foreground)] outline-none"
+            />
+            {!isToday && (
+              <button
+                type="button"
+                onClick={() => onDateChange(today)}
+                className="text-xs font-medium text-[color:var(--muted-foreground)] underline hover:text-[color:var(--foreground)]"
+              >
+                Today
+              </button>
+            )}
+          </div>
+        </div>
+        <button
+          type="button"
+          onClick={() => onDateChange(addDays(day, 1))}
+          className="rounded-full p-2 hover:bg-zinc-100 dark:hover:bg-zinc-800"
+          aria-label="Next day"
+        >
+          <ChevronRight className="h-4 w-4" />
+        </button>
+      </div>
+
+      {/* Day totals */}
+      <div className="flex flex-wrap items-center justify-center gap-x-3 gap-y-1 text-xs text-[color:var(--muted-foreground)]">
+        <span>
+          <span className="font-semibold text-[color:var(--foreground)]">{loggedTotals.calories}</span> kcal logged
+        </span>
+        <span>
+          P {Math.round(loggedTotals.protein)}g · C {Math.round(loggedTotals.carbs)}g · F {Math.round(loggedTotals.fat)}g
+        </span>
+        {plannedCalories > 0 && <span>{plannedCalories} kcal planned</span>}
+      </div>
+
+      {loading ? (
+        <div className="h-24 animate-pulse rounded-lg bg-zinc-100 dark:bg-zinc-800" />
+      ) : meals.length === 0 ? (
+        <p className="rounded-lg border-2 border-dashed border-zinc-200 p-6 text-center text-sm text-[color:var(--muted-foreground)] dark:border-zinc-800">
+          {isFuture ? 'Nothing planned for this day yet' : 'No meals logged on this day'}
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {SLOTS.map(({ type, label }) => {
+            const slotMeals = meals.filter((m) => m.mealType === type);
+            if (slotMeals.length === 0) return null;
+            const slotCalories = slotMeals.reduce((sum, m) => sum + getMealNutrition(m).calories, 0);
+            return (
+              <div key={type} className="space-y-1.5">
+                <div className="flex items-center justify-between">
+                  <p className="text-xs font-semibold uppercase tracking-wider text-[color:var(--muted-foreground)]">
+                    {label} · {slotCalories} kcal
+                  </p>
+                  {!isToday && (
+                    <button
+                      type="button"
+                      onClick={() => onCopy(slotMeals)}
+                      disabled={busy}
+                      className="flex items-center gap-1 text-xs font-medium text-[color:var(--muted-foreground)] hover:text-[color:var(--foreground)] disabled:opacity-50"
+                    >
+                      <Copy className="h-3.5 w-3.5" />
+                      Copy to today
+                    </button>
+                  )}
+                </div>
+                {slotMeals.map((meal) => (
+                  <div
+                    key={meal.id}
+                    className={`flex items-center gap-2 rounded-lg border p-2 ${
+                      meal.planned
+                        ? 'border-dashed border-zinc-300 dark:border-zinc-700'
+                        : 'border-zinc-200 dark:border-zinc-800'
+                    }`}
+                  >
+                    <div className="min-w-0 flex-1">
+                      <p className="flex items-center gap-1.5 truncate text-sm font-medium text-[color:var(--foreground)]">
+                        {meal.mealName}
+                        {meal.planned && (
+                          <span className="rounded-full bg-sky-100 px-1.5 py-0.5 text-[10px] font-medium text-sky-700 dark:bg-sky-900/40 dark:text-sky-300">
+                            Planned
+                          </span>
+                        )}
+                      </p>
+                      <p className="truncate text-[10px] text-[color:var(--muted-foreground)]">
+                        {getMealNutrition(meal).calories} kcal
+                        {meal.items.length > 0 && ` · ${formatMealItems(meal.items)}`}
+                      </p>
+                    </div>
+                    {meal.planned && !isFuture && (
+                      <button
+                        type="button"
+                        onClick={() => onConfirm(meal)}
+                        disabled={busy}
+                        className="flex items-center gap-1 rounded-full bg-[color:var(--foreground)] px-2.5 py-1 text-xs font-semibold text-[color:var(--background)] disabled:opacity-50"
+                        title="Log this planned meal as eaten"
+                      >
+                        <Check className="h-3.5 w-3.5" />
+                        Eaten
+                      </button>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => onEdit(meal)}
+                      className="rounded-lg p-1.5 hover:bg-zinc-100 dark:hover:bg-zinc-800"
+                      title="Edit"
+                    >
+                      <Edit2 className="h-3.5 w-3.5" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => onDelete(meal.id)}
+                      className="rounded-lg p-1.5 hover:bg-red-50 dark:hover:bg-red-900/20"
+                      title="Delete"
+                    >
+                      <Trash2 className="h-3.5 w-3.5 text-red-500" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {!isFuture && (
+          <button
+            type="button"
+            onClick={() => onAdd(false)}
+            className="flex items-center gap-1 rounded-full border border-zinc-200 px-3 py-1.5 text-xs font-medium hover:bg-zinc-100 dark:border-zinc-800 dark:hover:bg-zinc-800"
+          >
+            <Plus className="h-3.5 w-3.5" />
+            Log meal
+          </button>
+        )}
+        {!isPast && (
+          <button
+            type="button"
+            onClick={() => onAdd(true)}
+            className="flex items-center gap-1 rounded-full border border-zinc-200 px-3 py-1.5 text-xs font-medium hover:bg-zinc-100 dark:border-zinc-800 dark:hover:bg-zinc-800"
+          >
+            <CalendarClock className="h-3.5 w-3.5" />
+            Plan meal
+          </button>
+        )}
+        {!isToday && meals.length > 0 && (
+          <button
+            type="button"
+            onClick={() => onCopy(meals)}
+            disabled={busy}
+            className="ml-auto flex items-center gap-1 rounded-full border border-zinc-200 px-3 py-1.5 text-xs font-medium hover:bg-zinc-100 disabled:opacity-50 dark:border-zinc-800 dark:hover:bg-zinc-800"
+          >
+            <Copy className="h-3.5 w-3.5" />
+            Copy day to today
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
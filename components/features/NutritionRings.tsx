@@ -0,0 +1,178 @@
+'use client';
+
+import Link from 'next/link';
+import { Droplet, Undo2 } from 'lucide-react';
+import { Nutrients } from '@/lib/types/firestore';
+import { DailyNutritionTargets } from '@/lib/goals';
+import { useUnits } from '@/components/providers/UnitProvider';
+import { getVolumeInUnit, volumeToMl, volumeUnit } from '@/lib/utils/units';
+
+interface NutritionRingsProps {
+  totals: Nutrients; // today's intake
+  water: number; // ml logged today
+  targets: DailyNutritionTargets;
+  onAddWater?: (ml: number) => void;
+  onUndoWater?: () => void;
+  waterDisabled?: boolean;
+}
+
+type RingKey = Exclude<keyof DailyNutritionTargets, 'water'>;
+
+const RINGS: { key: RingKey; label: string; unit: string; color: string; limit?: boolean }[] = [
+  { key: 'calories', label: 'Calories', unit: 'kcal', color: 'text-orange-500' },
+  { key: 'protein', label: 'Protein', unit: 'g', color: 'text-blue-500' },
+  { key: 'carbs', label: 'Carbs', unit: 'g', color: 'text-amber-500' },
+  { key: 'fat', label: 'Fat', unit: 'g', color: 'text-rose-500' },
+  { key: 'fiber', label: 'Fiber', unit: 'g', color: 'text-emerald-500' },
+  { key: 'sugar', label: 'Sugar', unit: 'g', color: 'text-pink-500', limit: true },
+  { key: 'saturatedFat', label: 'Sat. fat', unit: 'g', color: 'text-purple-500', limit: true },
+  { key: 'sodium', label: 'Sodium', unit: 'mg', color: 'text-violet-500', limit: true },
+];
+
+// Quick-add sizes: a glass and a bottle
+const WATER_STEPS = { metric: [250, 500], imperial: [8, 16] };
+
+const SIZE = 56;
+const STROKE = 6;
+const RADIUS = (SIZE - STROKE) / 2;
+const CIRCUMFERENCE = 2 * Math.PI * RADIUS;
+
+function ProgressRing({
+  value,
+  target,
+  color,
+  over = false,
+}: {
+  value: number;
+  target?: number;
+  color: string;
+  over?: boolean;
+}) {
+  const fraction = target ? Math.min(value / target, 1) : 0;
+  return (
+    <svg width={SIZE} height={SIZE} className="-rotate-90" aria-hidden="true">
+      <circle
+        cx={SIZE / 2}
+        cy={SIZE / 2}
+        r={RADIUS}
+        fill="none"
+        strokeWidth={STROKE}
+        className="stroke-zinc-200 dark:stroke-zinc-800"
+      />
+      <circle
+        cx={SIZE / 2}
+        cy={SIZE / 2}
+        r={RADIUS}
+        fill="none"
+        strokeWidth={STROKE}
+        strokeLinecap="round"
+        stroke="currentColor"
+        strokeDasharray={CIRCUMFERENCE}
+        strokeDashoffset={CIRCUMFERENCE * (1 - fraction)}
+        className={`transition-all duration-500 ${over ? 'text-red-500' : color}`}
+      />
+    </svg>
+  );
+}
+
+/** Today's intake against the targets set in goals, plus the hydration log */
+export default function NutritionRings({
+  totals,
+  water,
+  targets,
+  onAddWater,
+  onUndoWater,
+  waterDisabled = false,
+}: NutritionRingsProps) {
+  const { unitSystem } = useUnits();
+  const vu = volumeUnit(unitSystem);
+  const rings = RINGS.filter((ring) => targets[ring.key]);
+
+  return (
+    <div className="space-y-4 rounded-2xl border border-zinc-200 bg-[color:var(--background)] p-4 shadow-sm dark:border-zinc-800">
+      <p className="text-xs font-semibold uppercase tracking-wider text-[color:var(--muted-foreground)]">
+        Today
+      </p>
+
+      {rings.length === 0 ? (
+        <p className="text-sm text-[color:var(--muted-foreground)]">
+          {totals.calories} kcal · P {totals.protein}g · C {totals.carbs}g · F {totals.fat}g.{' '}
+          <Link href="/progress" className="underline">
+            Set daily targets in Goals
+          </Link>{' '}
+          to track them here.
+        </p>
+      ) : (
+        <div className="grid grid-cols-4 gap-3">
+          {rings.map(({ key, label, unit, color, limit }) => {
+            const value = totals[key] ?? 0;
+            const target = targets[key] as number;
+            const over = !!limit && value > target;
+            return (
+              <div key={key} className="flex flex-col items-center gap-1 text-center">
+                <div className="relative">
+                  <ProgressRing value={value} target={target} color={color} over={over} />
+                  <span
+                    className={`absolute inset-0 flex items-center justify-center text-[10px] font-semibold ${
+                      over ? 'text-red-600 dark:text-red-400' : 'text-[color:var(--foreground)]'
+                    }`}
+                  >
+                    {Math.round((value / target) * 100)}%
+                  </span>
+                </div>
+                <p className="text-[10px] font-medium text-[color:var(--foreground)]">{label}</p>
+                <p className="text-[10px] text-[color:var(--muted-foreground)]">
+                  {Math.round(value)}
+                  {limit ? ' ≤ ' : '/'}
+                  {target}
+                  {unit === 'kcal' ? '' : unit}
+                </p>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Hydration */}
+      <div className="flex items-center gap-3 border-t border-zinc-200 pt-3 dark:border-zinc-800">
+        <div className="relative shrink-0">
+          <ProgressRing value={water} target={targets.water} color="text-sky-500" />
+          <Droplet className="absolute inset-0 m-auto h-4 w-4 text-sky-500" />
+        </div>
+        <div className="min-w-0 flex-1">
+          <p className="text-sm font-medium text-[color:var(--foreground)]">
+            {getVolumeInUnit(water, unitSystem)}
+            {targets.water ? ` / ${getVolumeInUnit(targets.water, unitSystem)}` : ''} {vu}
+          </p>
+          <p className="text-[10px] text-[color:var(--muted-foreground)]">
+            {targets.water ? 'Water' : 'Water · no daily target set'}
+          </p>
+        </div>
+        {onAddWater &&
+          WATER_STEPS[unitSystem].map((step) => (
+            <button
+              key={step}
+              type="button"
+              onClick={() => onAddWater(volumeToMl(step, unitSystem))}
+              disabled={waterDisabled}
+              className="rounded-full border border-zinc-200 px-3 py-1.5 text-xs font-medium hover:bg-zinc-100 disabled:opacity-50 dark:border-zinc-800 dark:hover:bg-zinc-800"
+            >
+              +{step} {vu}
+            </button>
+          ))}
+        {onUndoWater && (
+          <button
+            type="button"
+            onClick={onUndoWater}
+            disabled={waterDisabled || water === 0}
+            className="rounded-full p-1.5 text-[color:var(--muted-foreground)] hover:bg-zinc-100 disabled:opacity-50 dark:hover:bg-zinc-800"
+            aria-label="Undo last drink"
+            title="Undo last drink"
+          >
+            <Undo2 className="h-4 w-4" />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+'use client';
+
+import { useState } from 'react';
+import { Settings2 } from 'lucide-react';
+import { useUnits } from '@/components/providers/UnitProvider';
+import { weightUnit } from '@/lib/utils/units';
+import {
+  BARBELLS,
+  BarbellId,
+  PlateSettings,
+  calculatePlates,
+  roundToLoadable,
+} from '@/lib/utils/plates';
+
+interface PlateCalculatorProps {
+  target: number; // display unit; 0 when nothing entered yet
+  e1rm?: number; // display unit, enables %-of-1RM shortcuts
+  settings: PlateSettings;
+  onSettingsChange: (settings: PlateSettings) => void;
+  onSelectWeight?: (weight: number) => void; // display unit
+  disabled?: boolean;
+}
+
+const ONE_RM_PERCENTAGES = [60, 70, 75, 80, 85, 90];
+
+// Heavier plates get wider chips, like on the bar
+const plateClass = (weight: number, heaviest: number) =>
+  weight >= heaviest * 0.5
+    ? 'px-2 py-1 bg-zinc-900 text-white dark:bg-zinc-100 dark:text-zinc-900'
+    : weight >= heaviest * 0.2
+      ? 'px-1.5 py-0.5 bg-zinc-600 text-white dark:bg-zinc-400 dark:text-zinc-900'
+      : 'px-1 py-0.5 bg-zinc-200 text-zinc-800 dark:bg-zinc-700 dark:text-zinc-100';
+
+export default function PlateCalculator({
+  target,
+  e1rm,
+  settings,
+  onSettingsChange,
+  onSelectWeight,
+  disabled = false,
+}: PlateCalculatorProps) {
+  const { unitSystem } = useUnits();
+  const wu = weightUnit(unitSystem);
+  const [showSettings, setShowSettings] = useState(false);
+
+  const loadout = target > 0 ? calculatePlates(target, unitSystem, settings) : null;
+  const heaviest = Math.max(...settings.plates[unitSystem].map((p) => p.weight), 1);
+  const nearest = target > 0 ? roundToLoadable(target, unitSystem, settings) : null;
+
+  const updatePairs = (weight: number, pairs: number) => {
+    onSettingsChange({
+      ...settings,
+      plates: {
+        ...settings.plates,
+        [unitSystem]: settings.plates[unitSystem].map((p) =>
+          p.weight === weight ? { ...p, pairs: Math.max(0, pairs) } : p
+        ),
+      },
+    });
+  };
+
+  return (
+    <div className="space-y-2 rounded-lg bg-zinc-50 p-2 text-xs dark:bg-zinc-900">
+      <div className="flex items-center gap-2">
+        <select
+          value={settings.barId}
+          onChange={(e) => onSettingsChange({ ...settings, barId: e.target.value as BarbellId })}
+          disabled={disabled}
+          aria-label="Bar"
+          className="min-w-0 flex-1 rounded-lg border border-zinc-200 bg-[color:var(--background)] px-2 py-1 text-xs dark:border-zinc-800"
+        >
+          {BARBELLS.map((bar) => (
+            <option key={bar.id} value={bar.id}>
+              {bar.label}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={() => setShowSettings((v) => !v)}
+          className={`rounded-full p-1 hover:bg-zinc-200 dark:hover:bg-zinc-800 ${showSettings ? 'bg-zinc-200 dark:bg-zinc-800' : ''}`}
+          aria-label="Plate inventory"
+          aria-expanded={showSettings}
+        >
+          <Settings2 className="h-3.5 w-3.5" />
+        </button>
+      </div>
+
+      {/* Plate inventory */}
+      {showSettings && (
+        <div className="grid grid-cols-4 gap-1.5">
+          {settings.plates[unitSystem].map((plate) => (
+            <label key={plate.weight} className="flex flex-col gap-0.5 text-[10px] text-[color:var(--muted-foreground)]">
+              {plate.weight} {wu} pairs
+              <input
+                type="number"
+                min="0"
+                value={plate.pairs}
+                onChange={(e) => updatePairs(plate.weight, parseInt(e.target.value) || 0)}
+                disabled={disabled}
+                className="rounded border border-zinc-200 bg-[color:var(--background)] px-1.5 py-0.5 text-xs dark:border-zinc-800"
+              />
+            </label>
+          ))}
+        </div>
+      )}
+
+      {/* Loadout */}
+      {loadout ? (
+        <div className="space-y-1">
+          <div className="flex flex-wrap items-center gap-1">
+            <span className="text-[color:var(--muted-foreground)]">Each side:</span>
+            {loadout.perSide.length === 0 ? (
+              <span className="font-medium text-[color:var(--foreground)]">empty bar</span>
+            ) : (
+              loadout.perSide.map((plate, i) => (
+                <span key={i} className={`rounded font-semibold tabular-nums ${plateClass(plate, heaviest)}`}>
+                  {plate}
+                </span>
+              ))
+            )}
+          </div>
+          {loadout.difference !== 0 && (
+            <p className="text-amber-700 dark:text-amber-400">
+              {target < loadout.bar
+                ? `Below the bar weight (${loadout.bar} ${wu})`
+                : `Loads ${loadout.total} ${wu} (${loadout.difference} ${wu})`}
+              {nearest !== null && nearest !== target && onSelectWeight && (
+                <button
+                  type="button"
+                  onClick={() => onSelectWeight(nearest)}
+                  disabled={disabled}
+                  className="ml-2 font-semibold underline"
+                >
+                  Use {nearest} {wu}
+                </button>
+              )}
+            </p>
+          )}
+        </div>
+      ) : (
+        <p className="text-[color:var(--muted-foreground)]">Enter a weight to see the plates.</p>
+      )}
+
+      {/* %-of-1RM shortcuts, rounded to loadable weights */}
+      {e1rm !== undefined && e1rm > 0 && onSelectWeight && (
+        <div className="flex flex-wrap items-center gap-1">
+          <span className="text-[color:var(--muted-foreground)]">
+            e1RM {Math.round(e1rm)} {wu}:
+          </span>
+          {ONE_RM_PERCENTAGES.map((pct) => {
+            const weight = roundToLoadable((e1rm * pct) / 100, unitSystem, settings);
+            return (
+              <button
+                key={pct}
+                type="button"
+                onClick={() => onSelectWeight(weight)}
+                disabled={disabled}
+                className="rounded-full border border-zinc-200 px-2 py-0.5 hover:bg-zinc-100 dark:border-zinc-700 dark:hover:bg-zinc-800"
+                title={`${pct}% of estimated 1RM`}
+              >
+                {pct}% · {weight}
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
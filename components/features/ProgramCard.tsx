@@ -0,0 +1,133 @@
+'use client';
+
+import { Check, Trash2, Edit } from 'lucide-react';
+import {
+  TrainingProgram,
+  getProgramWeek,
+  getProgramDayKey,
+  getProgramProgress,
+} from '@/lib/programs';
+import { WorkoutTemplate } from '@/lib/workoutTemplates';
+
+interface ProgramCardProps {
+  program: TrainingProgram;
+  templates: WorkoutTemplate[];
+  onToggleActive: (program: TrainingProgram) => void;
+  onToggleDay: (program: TrainingProgram, key: string, completed: boolean) => void;
+  onEdit: (program: TrainingProgram) => void;
+  onDelete: (programId: string) => void;
+}
+
+const WEEKDAYS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+export default function ProgramCard({
+  program,
+  templates,
+  onToggleActive,
+  onToggleDay,
+  onEdit,
+  onDelete,
+}: ProgramCardProps) {
+  const week = getProgramWeek(program);
+  const { completed, total } = getProgramProgress(program);
+  const percent = total > 0 ? Math.round((completed / total) * 100) : 0;
+  const today = new Date().getDay();
+  const templateName = (id: string) => templates.find((t) => t.id === id)?.name || 'Deleted template';
+
+  const status =
+    week !== null
+      ? `Week ${week} of ${program.weeks}`
+      : program.startDate > new Date()
+        ? `Starts ${program.startDate.toLocaleDateString([], { month: 'short', day: 'numeric' })}`
+        : 'Finished';
+
+  return (
+    <div className="p-4 bg-white dark:bg-zinc-800 border border-zinc-200 dark:border-zinc-700 rounded-lg">
+      <div className="flex items-start justify-between gap-3 mb-3">
+        <div className="flex-1 min-w-0">
+          <h3 className="font-semibold text-zinc-900 dark:text-zinc-100 truncate">
+            {program.name}
+          </h3>
+          <p className="mt-1 text-sm text-zinc-600 dark:text-zinc-400">
+            {status} • {completed}/{total} workouts done
+          </p>
+        </div>
+        {program.active && (
+          <span className="flex-shrink-0 px-2 py-0.5 bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400 rounded text-xs font-medium">
+            Active
+          </span>
+        )}
+      </div>
+
+      {/* Progress */}
+      <div className="mb-3 h-1.5 w-full rounded-full bg-zinc-100 dark:bg-zinc-900">
+        <div
+          className="h-1.5 rounded-full bg-green-600 dark:bg-green-500 transition-all"
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+
+      {/* Current week — tap a day to mark it done */}
+      {week !== null && (
+        <div className="mb-3 grid grid-cols-7 gap-1">
+          {WEEKDAYS.map((label, day) => {
+            const scheduled = program.schedule.find((d) => d.week === week && d.dayOfWeek === day);
+            const key = getProgramDayKey(week, day);
+            const done = program.completedDays.includes(key);
+            return (
+              <button
+                key={day}
+                type="button"
+                disabled={!scheduled}
+                onClick={() => onToggleDay(program, key, !done)}
+                title={scheduled ? templateName(scheduled.templateId) : 'Rest'}
+                className={`flex h-12 flex-col items-center justify-center rounded-lg border text-[10px] disabled:cursor-default ${
+                  day === today ? 'border-zinc-900 dark:border-zinc-100' : 'border-zinc-200 dark:border-zinc-700'
+                } ${
+                  done
+                    ? 'bg-green-600 text-white'
+                    : scheduled
+                      ? 'text-zinc-900 dark:text-zinc-100'
+                      : 'text-zinc-400 dark:text-zinc-600'
+                }`}
+              >
+                <span className="font-medium">{label}</span>
+                {done ? (
+                  <Check className="h-3 w-3" />
+                ) : (
+                  <span className="max-w-full truncate px-0.5">
+                    {scheduled ? templateName(scheduled.templateId) : '—'}
+                  </span>
+                )}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Actions */}
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => onToggleActive(program)}
+          className="flex-1 px-4 py-2 border border-zinc-200 dark:border-zinc-700 rounded-lg hover:bg-zinc-50 dark:hover:bg-zinc-700 transition-colors text-sm font-medium text-zinc-900 dark:text-zinc-100"
+        >
+          {program.active ? 'Stop Following' : 'Follow Program'}
+        </button>
+        <button
+          onClick={() => onEdit(program)}
+          className="p-2 hover:bg-zinc-100 dark:hover:bg-zinc-700 rounded-lg transition-colors"
+          aria-label="Edit program"
+        >
+          <Edit className="w-4 h-4 text-zinc-600 dark:text-zinc-400" />
+        </button>
+        <button
+          onClick={() => onDelete(program.id)}
+          className="p-2 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+          aria-label="Delete program"
+        >
+          <Trash2 className="w-4 h-4 text-red-600 dark:text-red-400" />
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,272 @@
+'use client';
+
+import { useState, FormEvent } from 'react';
+import { X } from 'lucide-react';
+import { TrainingProgram, ProgramDay } from '@/lib/programs';
+import { WorkoutTemplate } from '@/lib/workoutTemplates';
+
+type ProgramFormData = Omit<TrainingProgram, 'id' | 'createdAt' | 'updatedAt' | 'completedDays'>;
+
+interface ProgramFormProps {
+  templates: WorkoutTemplate[];
+  onSubmit: (data: ProgramFormData) => Promise<void>;
+  onCancel: () => void;
+  initialData?: TrainingProgram;
+  isLoading?: boolean;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MAX_WEEKS = 16;
+
+const toDateInput = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(
+    date.getDate()
+  ).padStart(2, '0')}`;
+
+/** Template id per weekday for each week ('' = rest day) */
+function toGrid(schedule: ProgramDay[], weeks: number): string[][] {
+  const grid = Array.from({ length: weeks }, () => Array(7).fill(''));
+  for (const day of schedule) {
+    if (day.week >= 1 && day.week <= weeks) grid[day.week - 1][day.dayOfWeek] = day.templateId;
+  }
+  return grid;
+}
+
+export default function ProgramForm({
+  templates,
+  onSubmit,
+  onCancel,
+  initialData,
+  isLoading = false,
+}: ProgramFormProps) {
+  const initialWeeks = initialData?.weeks || 4;
+  const initialGrid = toGrid(initialData?.schedule || [], MAX_WEEKS);
+
+  const [name, setName] = useState(initialData?.name || '');
+  const [weeks, setWeeks] = useState(String(initialWeeks));
+  const [startDate, setStartDate] = useState(toDateInput(initialData?.startDate || new Date()));
+  const [active, setActive] = useState(initialData?.active ?? true);
+  const [notes, setNotes] = useState(initialData?.notes || '');
+  const [grid, setGrid] = useState<string[][]>(initialGrid);
+  // Most programs repeat one week; only show every week when they differ
+  const [repeatWeekly, setRepeatWeekly] = useState(
+    initialGrid
+      .slice(1, initialWeeks)
+      .every((week) => week.every((id, day) => id === initialGrid[0][day]))
+  );
+  const [error, setError] = useState('');
+
+  const weekCount = Math.min(Math.max(parseInt(weeks) || 1, 1), MAX_WEEKS);
+  const visibleWeeks = repeatWeekly ? 1 : weekCount;
+
+  const setDay = (week: number, day: number, templateId: string) => {
+    setGrid((prev) =>
+      prev.map((row, w) => (w === week ? row.map((id, d) => (d === day ? templateId : id)) : row))
+    );
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    // Validation
+    if (!name.trim()) {
+      setError('Program name is required');
+      return;
+    }
+
+    if (!startDate) {
+      setError('Start date is required');
+      return;
+    }
+
+    const schedule: ProgramDay[] = [];
+    for (let week = 1; week <= weekCount; week++) {
+      const row = grid[repeatWeekly ? 0 : week - 1];
+      row.forEach((templateId, dayOfWeek) => {
+        if (templateId) schedule.push({ week, dayOfWeek, templateId });
+      });
+    }
+
+    if (schedule.length === 0) {
+      setError('Schedule at least one workout');
+      return;
+    }
+
+    const [year, month, day] = startDate.split('-').map(Number);
+
+    try {
+      await onSubmit({
+        name: name.trim(),
+        weeks: weekCount,
+        schedule,
+        startDate: new Date(year, month - 1, day),
+        active,
+        notes: notes.trim() || undefined,
+      });
+    } catch {
+      setError('Failed to save program');
+    }
+  };
+
+  const inputClass =
+    'w-full px-4 py-3 bg-white dark:bg-zinc-800 border border-zinc-200 dark:border-zinc-700 rounded-lg outline-none focus:border-[color:var(--foreground)]';
+
+  return (
+    <div className="w-full max-w-lg">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-xl font-semibold text-[color:var(--foreground)]">
+          {initialData ? 'Edit Program' : 'New Program'}
+        </h2>
+        <button
+          onClick={onCancel}
+          className="p-2 hover:bg-zinc-100 dark:hover:bg-zinc-800 rounded-full transition-colors"
+        >
+          <X className="h-5 w-5" />
+        </button>
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        {/* Program Name */}
+        <div>
+          <label className="block text-sm font-medium text-[color:var(--foreground)] mb-2">
+            Program Name
+          </label>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g., Push Pull Legs, 5/3/1"
+            className={inputClass}
+            required
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="block text-sm font-medium text-[color:var(--foreground)] mb-2">
+              Weeks
+            </label>
+            <input
+              type="number"
+              min="1"
+              max={MAX_WEEKS}
+              value={weeks}
+              onChange={(e) => setWeeks(e.target.value)}
+              className={inputClass}
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-[color:var(--foreground)] mb-2">
+              Start Date
+            </label>
+            <input
+              type="date"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+              className={inputClass}
+              required
+            />
+          </div>
+        </div>
+
+        {/* Schedule */}
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium text-[color:var(--foreground)]">Schedule</span>
+            <label className="flex items-center gap-2 text-xs text-[color:var(--muted-foreground)]">
+              <input
+                type="checkbox"
+                checked={repeatWeekly}
+                onChange={(e) => setRepeatWeekly(e.target.checked)}
+              />
+              Same every week
+            </label>
+          </div>
+
+          {templates.length === 0 && (
+            <p className="text-xs text-[color:var(--muted-foreground)]">
+              Create a workout template first to schedule it.
+            </p>
+          )}
+
+          {Array.from({ length: visibleWeeks }, (_, week) => (
+            <div key={week} className="space-y-1">
+              {!repeatWeekly && (
+                <p className="text-xs font-semibold text-[color:var(--muted-foreground)]">
+                  Week {week + 1}
+                </p>
+              )}
+              <div className="grid grid-cols-7 gap-1">
+                {WEEKDAYS.map((label, day) => (
+                  <label key={day} className="flex flex-col gap-1 text-center">
+                    <span className="text-[10px] text-[color:var(--muted-foreground)]">{label}</span>
+                    <select
+                      value={grid[week][day]}
+                      onChange={(e) => setDay(week, day, e.target.value)}
+                      aria-label={`Week ${week + 1} ${label}`}
+                      className="w-full rounded-lg border border-zinc-200 bg-white px-0.5 py-1.5 text-[11px] dark:border-zinc-700 dark:bg-zinc-800"
+                    >
+                      <option value="">Rest</option>
+                      {templates.map((t) => (
+                        <option key={t.id} value={t.id}>
+                          {t.name}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <label className="flex items-center gap-2 text-sm text-[color:var(--foreground)]">
+          <input type="checkbox" checked={active} onChange={(e) => setActive(e.target.checked)} />
+          Follow this program now
+        </label>
+
+        {/* Notes */}
+        <div>
+          <label className="block text-sm font-medium text-[color:var(--foreground)] mb-2">
+            Notes (Optional)
+          </label>
+          <textarea
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Deload on week 4, training max 90%..."
+            rows={2}
+            className={inputClass}
+          />
+        </div>
+
+        {/* Error Message */}
+        {error && (
+          <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-sm text-red-600 dark:text-red-400">
+            {error}
+          </div>
+        )}
+
+        {/* Actions */}
+        <div className="flex gap-3 pt-4">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="flex-1 px-6 py-3 border border-zinc-300 dark:border-zinc-600 text-[color:var(--foreground)] rounded-lg hover:bg-zinc-50 dark:hover:bg-zinc-800 transition-colors"
+            disabled={isLoading}
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            className="flex-1 px-6 py-3 bg-[color:var(--foreground)] text-[color:var(--background)] rounded-lg hover:opacity-90 transition-opacity disabled:opacity-50"
+            disabled={isLoading}
+          >
+            {isLoading ? 'Saving...' : initialData ? 'Update' : 'Create'} Program
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+'use client';
+
+import { useState } from 'react';
+import { FileText, Download } from 'lucide-react';
+import { useAuth } from '@/components/providers/AuthProvider';
+import { useUnits } from '@/components/providers/UnitProvider';
+import { useToast } from '@/lib/contexts/ToastContext';
+import { useOffline } from '@/lib/hooks/useOffline';
+import { getErrorMessage } from '@/lib/utils/errorMessages';
+import { downloadFile } from '@/lib/utils/export';
+import { buildReportPDF, reportFileName } from '@/lib/utils/reportPdf';
+import { getPeriodReport, ReportPeriod } from '@/lib/reports';
+
+const PERIOD_OPTIONS: { value: string; label: string; period: ReportPeriod; offset: number }[] = [
+  { value: 'this-week', label: 'This week', period: 'week', offset: 0 },
+  { value: 'last-week', label: 'Last week', period: 'week', offset: -1 },
+  { value: 'this-month', label: 'This month', period: 'month', offset: 0 },
+  { value: 'last-month', label: 'Last month', period: 'month', offset: -1 },
+];
+
+// A day inside the chosen week or month
+function periodDate(period: ReportPeriod, offset: number): Date {
+  const date = new Date();
+  if (period === 'week') date.setDate(date.getDate() + offset * 7);
+  else date.setMonth(date.getMonth() + offset, 1);
+  return date;
+}
+
+/**
+ * Download a weekly or monthly progress report as a PDF to share with a
+ * coach or dietitian
+ */
+export default function ProgressReportCard() {
+  const { user } = useAuth();
+  const { unitSystem } = useUnits();
+  const { showToast } = useToast();
+  const { isOnline } = useOffline();
+
+  const [choice, setChoice] = useState(PERIOD_OPTIONS[0].value);
+  const [generating, setGenerating] = useState(false);
+
+  const handleDownload = async () => {
+    if (!user) return;
+    const option = PERIOD_OPTIONS.find((o) => o.value === choice) ?? PERIOD_OPTIONS[0];
+    setGenerating(true);
+    try {
+      const report = await getPeriodReport(user.uid, option.period, periodDate(option.period, option.offset));
+      const pdf = buildReportPDF(report, { unitSystem, name: user.displayName });
+      downloadFile([pdf], reportFileName(report), 'application/pdf');
+      showToast('Report downloaded', 'success');
+    } catch (error) {
+      showToast(getErrorMessage(error, 'Failed to create report'), 'error');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  return (
+    <div className="rounded-2xl border border-zinc-200 bg-[color:var(--background)] p-4 shadow-sm dark:border-zinc-800">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <p className="text-sm font-semibold text-[color:var(--foreground)] flex items-center gap-2">
+            <FileText className="w-4 h-4" />
+            Progress Report
+          </p>
+          <p className="text-xs text-[color:var(--muted-foreground)]">
+            Summary, weight and volume charts, goals and top lifts as a PDF for your coach or dietitian
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={choice}
+            onChange={(e) => setChoice(e.target.value)}
+            aria-label="Report period"
+            disabled={generating}
+            className="rounded-lg border border-zinc-200 bg-[color:var(--background)] px-2 py-1.5 text-xs dark:border-zinc-800"
+          >
+            {PERIOD_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={handleDownload}
+            disabled={generating || !isOnline}
+            className="flex items-center gap-1 rounded-full border border-zinc-200 px-3 py-1.5 text-xs font-medium hover:bg-zinc-100 disabled:opacity-50 dark:border-zinc-800 dark:hover:bg-zinc-800"
+          >
+            <Download className="h-3.5 w-3.5" />
+            {generating ? 'Preparing…' : 'Download PDF'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+'use client';
+
+import { TrendingUp, TrendingDown, Repeat } from 'lucide-react';
+import {
+  OverloadSuggestion,
+  ProgressionRule,
+  PROGRESSION_RULE_LABELS,
+} from '@/lib/progression';
+import { useUnits } from '@/components/providers/UnitProvider';
+import { displayWeight } from '@/lib/utils/units';
+
+interface ProgressionHintProps {
+  suggestion: OverloadSuggestion;
+  onRuleChange: (rule: ProgressionRule) => void;
+  onApply: (suggestion: OverloadSuggestion) => void;
+  disabled?: boolean;
+}
+
+export default function ProgressionHint({
+  suggestion,
+  onRuleChange,
+  onApply,
+  disabled = false,
+}: ProgressionHintProps) {
+  const { unitSystem } = useUnits();
+  const Icon =
+    suggestion.action === 'deload'
+      ? TrendingDown
+      : suggestion.action === 'repeat'
+        ? Repeat
+        : TrendingUp;
+
+  return (
+    <div className="flex items-start gap-2 rounded-lg bg-blue-50 p-2 text-xs text-blue-800 dark:bg-blue-950/40 dark:text-blue-300">
+      <Icon className="mt-0.5 h-3.5 w-3.5 flex-shrink-0" />
+      <div className="min-w-0 flex-1">
+        <p className="font-semibold">
+          Next: {suggestion.sets}×{suggestion.reps}
+          {suggestion.weight > 0 && ` @ ${displayWeight(suggestion.weight, unitSystem)}`}
+        </p>
+        <p className="opacity-80">{suggestion.reason}</p>
+        <select
+          value={suggestion.rule}
+          onChange={(e) => onRuleChange(e.target.value as ProgressionRule)}
+          disabled={disabled}
+          aria-label={`Progression rule for ${suggestion.exercise}`}
+          className="mt-1 rounded border border-blue-200 bg-transparent px-1 py-0.5 text-[11px] dark:border-blue-900"
+        >
+          {(Object.keys(PROGRESSION_RULE_LABELS) as ProgressionRule[]).map((rule) => (
+            <option key={rule} value={rule}>
+              {PROGRESSION_RULE_LABELS[rule]}
+            </option>
+          ))}
+        </select>
+      </div>
+      <button
+        type="button"
+        onClick={() => onApply(suggestion)}
+        disabled={disabled}
+        className="flex-shrink-0 rounded-full bg-blue-600 px-2.5 py-1 text-[11px] font-semibold text-white disabled:opacity-50 dark:bg-blue-500"
+      >
+        Apply
+      </button>
+    </div>
+  );
+}
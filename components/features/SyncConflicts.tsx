@@ -0,0 +1,236 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { GitCompare } from 'lucide-react';
+import { useAuth } from '@/components/providers/AuthProvider';
+import { useUnits } from '@/components/providers/UnitProvider';
+import { useToast } from '@/lib/contexts/ToastContext';
+import { useOffline } from '@/lib/hooks/useOffline';
+import { getErrorMessage } from '@/lib/utils/errorMessages';
+import { displayWeight } from '@/lib/utils/units';
+import { getSyncConflicts, SyncConflict, SYNC_COLLECTION_LABELS } from '@/lib/offline/offlineStore';
+import {
+  CONFLICT_POLICIES,
+  ConflictPolicy,
+  getConflictPolicy,
+  resolveSyncConflict,
+  saveConflictPolicy,
+} from '@/lib/offline/conflicts';
+
+type Side = 'local' | 'remote';
+
+const WEIGHT_FIELDS = new Set(['weight', 'targetWeight']);
+
+// "targetCaloriesPerDay" → "Target calories per day"
+const fieldLabel = (field: string) => {
+  const words = field.replace(/([A-Z])/g, ' $1').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+const isDateString = (value: string) => /^\d{4}-\d{2}-\d{2}T/.test(value);
+
+/**
+ * Offline edits that collided with a newer edit made elsewhere, shown side
+ * by side so the user can keep either version field by field
+ */
+export default function SyncConflicts() {
+  const { user } = useAuth();
+  const { unitSystem } = useUnits();
+  const { showToast } = useToast();
+  const { isOnline, setUid, triggerSync } = useOffline();
+
+  const [conflicts, setConflicts] = useState<SyncConflict[] | null>(null);
+  const [policy, setPolicy] = useState<ConflictPolicy>(getConflictPolicy);
+  const [choices, setChoices] = useState<Record<string, Record<string, Side>>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadConflicts = useCallback(async () => {
+    if (!user) return;
+    try {
+      setConflicts(await getSyncConflicts(user.uid));
+    } catch {
+      setConflicts([]);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (user) setUid(user.uid);
+    loadConflicts();
+  }, [user, setUid, loadConflicts]);
+
+  const formatValue = (field: string, value: unknown): string => {
+    if (value === undefined || value === null || value === '') return '—';
+    if (WEIGHT_FIELDS.has(field) && typeof value === 'number') return displayWeight(value, unitSystem);
+    if (value instanceof Date) return value.toLocaleString();
+    if (typeof value === 'string') return isDateString(value) ? new Date(value).toLocaleString() : value;
+    if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+    if (Array.isArray(value)) {
+      // Exercises and food items show by name
+      const names = value
+        .map((entry) => (entry && typeof entry === 'object' ? entry.exercise || entry.name : String(entry)))
+        .filter(Boolean);
+      return names.length > 0 ? names.join(', ') : `${value.length} item${value.length !== 1 ? 's' : ''}`;
+    }
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+  };
+
+  const handlePolicyChange = (next: ConflictPolicy) => {
+    setPolicy(next);
+    saveConflictPolicy(next);
+  };
+
+  const pickSide = (conflictId: string, field: string, side: Side) => {
+    setChoices((prev) => ({ ...prev, [conflictId]: { ...prev[conflictId], [field]: side } }));
+  };
+
+  const handleResolve = async (conflict: SyncConflict, choice: Side | Record<string, Side>) => {
+    setBusyId(conflict.id);
+    try {
+      await resolveSyncConflict(conflict, choice);
+      setConflicts((prev) => prev?.filter((c) => c.id !== conflict.id) ?? null);
+      if (isOnline) await triggerSync();
+      showToast(
+        choice === 'remote' ? 'Kept the other version' : isOnline ? 'Your changes were saved' : 'Will sync when online',
+        isOnline || choice === 'remote' ? 'success' : 'info'
+      );
+    } catch (error) {
+      showToast(getErrorMessage(error, 'Failed to resolve conflict'), 'error');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const sideButton = (active: boolean) =>
+    `w-full rounded-lg border px-2 py-1.5 text-left text-xs transition-colors ${
+      active
+        ? 'border-[color:var(--foreground)] bg-zinc-100 font-medium text-[color:var(--foreground)] dark:bg-zinc-800'
+        : 'border-zinc-200 text-[color:var(--muted-foreground)] hover:text-[color:var(--foreground)] dark:border-zinc-800'
+    }`;
+
+  return (
+    <div className="rounded-2xl border border-zinc-200 bg-[color:var(--background)] p-5 shadow-sm dark:border-zinc-800">
+      <p className="mb-1 flex items-center gap-2 text-sm font-semibold text-[color:var(--foreground)]">
+        <GitCompare className="h-4 w-4" />
+        Sync Conflicts
+      </p>
+      <p className="mb-4 text-xs text-[color:var(--muted-foreground)]">
+        When an offline edit meets a newer edit made on another device
+      </p>
+
+      <div className="mb-4 space-y-1.5">
+        {CONFLICT_POLICIES.map((option) => (
+          <label
+            key={option.value}
+            className="flex cursor-pointer items-start gap-2 rounded-xl px-3 py-2 text-sm hover:bg-zinc-100 dark:hover:bg-zinc-800/60"
+          >
+            <input
+              type="radio"
+              name="conflict-policy"
+              value={option.value}
+              checked={policy === option.value}
+              onChange={() => handlePolicyChange(option.value)}
+              className="mt-1"
+            />
+            <span>
+              <span className="font-medium text-[color:var(--foreground)]">{option.label}</span>
+              <span className="block text-xs text-[color:var(--muted-foreground)]">{option.description}</span>
+            </span>
+          </label>
+        ))}
+      </div>
+
+      {conflicts === null ? (
+        <div className="h-16 animate-pulse rounded-xl bg-zinc-100 dark:bg-zinc-800" />
+      ) : conflicts.length === 0 ? (
+        <p className="rounded-xl bg-zinc-50 p-3 text-center text-xs text-[color:var(--muted-foreground)] dark:bg-zinc-900/50">
+          No conflicts to review
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {conflicts.map((conflict) => {
+            const picked = choices[conflict.id] || {};
+            const busy = busyId === conflict.id;
+            return (
+              <div key={conflict.id} className="space-y-3 rounded-xl border border-zinc-200 p-3 dark:border-zinc-800">
+                <div>
+                  <p className="text-sm font-medium text-[color:var(--foreground)]">
+                    {SYNC_COLLECTION_LABELS[conflict.collection]}: {conflict.label}
+                  </p>
+                  <p className="text-[10px] text-[color:var(--muted-foreground)]">
+                    This device {new Date(conflict.localAt).toLocaleString()} · other device{' '}
+                    {new Date(conflict.remoteAt).toLocaleString()}
+                  </p>
+                </div>
+
+                {conflict.kind === 'delete' ? (
+                  <p className="text-xs text-[color:var(--muted-foreground)]">
+                    Deleted on this device, but edited elsewhere after this device last synced.
+                  </p>
+                ) : (
+                  <div className="space-y-2">
+                    <div className="grid grid-cols-[1fr_2fr_2fr] gap-2 text-[10px] font-semibold uppercase tracking-wider text-[color:var(--muted-foreground)]">
+                      <span>Field</span>
+                      <span>This device</span>
+                      <span>Other device</span>
+                    </div>
+                    {conflict.fields.map(({ field, local, remote }) => (
+                      <div key={field} className="grid grid-cols-[1fr_2fr_2fr] items-start gap-2">
+                        <span className="pt-1.5 text-xs font-medium text-[color:var(--foreground)]">
+                          {fieldLabel(field)}
+                        </span>
+                        <button
+                          type="button"
+                          onClick={() => pickSide(conflict.id, field, 'local')}
+                          className={sideButton(picked[field] === 'local')}
+                        >
+                          {formatValue(field, local)}
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => pickSide(conflict.id, field, 'remote')}
+                          className={sideButton((picked[field] || 'remote') === 'remote')}
+                        >
+                          {formatValue(field, remote)}
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                <div className="flex flex-wrap gap-2">
+                  <button
+                    type="button"
+                    onClick={() => handleResolve(conflict, 'local')}
+                    disabled={busy}
+                    className="rounded-full border border-zinc-200 px-3 py-1.5 text-xs font-medium hover:bg-zinc-100 disabled:opacity-50 dark:border-zinc-800 dark:hover:bg-zinc-800"
+                  >
+                    {conflict.kind === 'delete' ? 'Delete it' : 'Keep this device'}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleResolve(conflict, 'remote')}
+                    disabled={busy}
+                    className="rounded-full border border-zinc-200 px-3 py-1.5 text-xs font-medium hover:bg-zinc-100 disabled:opacity-50 dark:border-zinc-800 dark:hover:bg-zinc-800"
+                  >
+                    {conflict.kind === 'delete' ? 'Keep it' : 'Keep other device'}
+                  </button>
+                  {conflict.kind === 'update' && conflict.fields.length > 1 && (
+                    <button
+                      type="button"
+                      onClick={() => handleResolve(conflict, picked)}
+                      disabled={busy}
+                      className="ml-auto rounded-full bg-[color:var(--foreground)] px-3 py-1.5 text-xs font-semibold text-[color:var(--background)] disabled:opacity-50"
+                    >
+                      Save selection
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
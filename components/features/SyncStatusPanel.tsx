@@ -0,0 +1,283 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { History, RefreshCw, RotateCcw, Edit2, Trash2 } from 'lucide-react';
+import { useAuth } from '@/components/providers/AuthProvider';
+import { useToast } from '@/lib/contexts/ToastContext';
+import { useOffline } from '@/lib/hooks/useOffline';
+import { getErrorMessage } from '@/lib/utils/errorMessages';
+import { getSyncStatus, SyncStatus } from '@/lib/offline/syncManager';
+import {
+  requeueDeadLetter,
+  removeDeadLetter,
+  DeadLetterItem,
+  SyncHistoryEntry,
+  SYNC_COLLECTION_LABELS,
+} from '@/lib/offline/offlineStore';
+
+const OUTCOME_STYLES: Record<SyncHistoryEntry['outcome'], string> = {
+  synced: 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/40 dark:text-emerald-300',
+  skipped: 'bg-zinc-100 text-zinc-600 dark:bg-zinc-800 dark:text-zinc-300',
+  failed: 'bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300',
+  'dead-letter': 'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300',
+};
+
+const OUTCOME_LABELS: Record<SyncHistoryEntry['outcome'], string> = {
+  synced: 'Synced',
+  skipped: 'Skipped',
+  failed: 'Will retry',
+  'dead-letter': 'Gave up',
+};
+
+// Entries shown in the history list
+const HISTORY_ROWS = 20;
+
+const describeChange = (item: Pick<DeadLetterItem, 'collection' | 'type'>) =>
+  `${SYNC_COLLECTION_LABELS[item.collection]} ${item.type}`;
+
+/**
+ * Offline sync health: the queue, changes that ran out of retries (which can
+ * be retried, edited or discarded) and the outcome of recent sync attempts
+ */
+export default function SyncStatusPanel() {
+  const { user } = useAuth();
+  const { showToast } = useToast();
+  const { isOnline, isSyncing, setUid, triggerSync, refreshPendingCount } = useOffline();
+
+  const [status, setStatus] = useState<SyncStatus | null>(null);
+  const [editing, setEditing] = useState<{ id: string; text: string } | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadStatus = useCallback(async () => {
+    if (!user) return;
+    try {
+      setStatus(await getSyncStatus(user.uid));
+    } catch {
+      setStatus({ pending: 0, failed: 0, conflicts: 0, deadLetters: [], history: [] });
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (user) setUid(user.uid);
+    loadStatus();
+  }, [user, setUid, loadStatus]);
+
+  // Pick up results of syncs started elsewhere in the app
+  useEffect(() => {
+    if (!isSyncing) loadStatus();
+  }, [isSyncing, loadStatus]);
+
+  const syncNow = async () => {
+    await triggerSync(true);
+    await loadStatus();
+  };
+
+  const handleRetry = async (item: DeadLetterItem, data?: unknown) => {
+    setBusyId(item.id);
+    try {
+      await requeueDeadLetter(item.id, data);
+      setEditing(null);
+      if (isOnline) {
+        await syncNow();
+      } else {
+        await loadStatus();
+        await refreshPendingCount();
+      }
+      showToast(isOnline ? 'Retried' : 'Will retry when online', isOnline ? 'success' : 'info');
+    } catch (error) {
+      showToast(getErrorMessage(error, 'Failed to retry change'), 'error');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleSaveEdit = (item: DeadLetterItem) => {
+    if (!editing) return;
+    let data: unknown;
+    try {
+      data = JSON.parse(editing.text);
+    } catch {
+      showToast('That is not valid JSON', 'error');
+      return;
+    }
+    handleRetry(item, data);
+  };
+
+  const handleDiscard = async (item: DeadLetterItem) => {
+    if (!confirm(`Discard this ${describeChange(item).toLowerCase()}? It will not be synced.`)) return;
+    setBusyId(item.id);
+    try {
+      await removeDeadLetter(item.id);
+      await loadStatus();
+      await refreshPendingCount();
+      showToast('Change discarded', 'success');
+    } catch (error) {
+      showToast(getErrorMessage(error, 'Failed to discard change'), 'error');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const actionButton =
+    'flex items-center gap-1 rounded-full border border-zinc-200 px-3 py-1.5 text-xs font-medium hover:bg-zinc-100 disabled:opacity-50 dark:border-zinc-800 dark:hover:bg-zinc-800';
+
+  return (
+    <div className="rounded-2xl border border-zinc-200 bg-[color:var(--background)] p-5 shadow-sm dark:border-zinc-800">
+      <div className="mb-4 flex items-start justify-between gap-3">
+        <div>
+          <p className="mb-1 flex items-center gap-2 text-sm font-semibold text-[color:var(--foreground)]">
+            <History className="h-4 w-4" />
+            Offline Sync
+          </p>
+          <p className="text-xs text-[color:var(--muted-foreground)]">
+            {status === null
+              ? 'Loading…'
+              : `${status.pending} pending · ${status.failed} retrying · ${status.deadLetters.length} failed`}
+            {status?.nextRetryAt && ` · next retry ${new Date(status.nextRetryAt).toLocaleTimeString()}`}
+          </p>
+          {status?.lastError && (
+            <p className="mt-0.5 text-[10px] text-amber-600 dark:text-amber-400">Last error: {status.lastError}</p>
+          )}
+        </div>
+        <button
+          type="button"
+          onClick={syncNow}
+          disabled={!isOnline || isSyncing || !status?.pending}
+          className={actionButton}
+        >
+          <RefreshCw className={`h-3.5 w-3.5 ${isSyncing ? 'animate-spin' : ''}`} />
+          Sync now
+        </button>
+      </div>
+
+      {status === null ? (
+        <div className="h-16 animate-pulse rounded-xl bg-zinc-100 dark:bg-zinc-800" />
+      ) : (
+        <div className="space-y-4">
+          {/* Dead letters */}
+          <div className="space-y-2">
+            <p className="text-xs font-semibold uppercase tracking-wider text-[color:var(--muted-foreground)]">
+              Failed changes
+            </p>
+            {status.deadLetters.length === 0 ? (
+              <p className="rounded-xl bg-zinc-50 p-3 text-center text-xs text-[color:var(--muted-foreground)] dark:bg-zinc-900/50">
+                Nothing failed to sync
+              </p>
+            ) : (
+              status.deadLetters.map((item) => {
+                const busy = busyId === item.id;
+                const isEditing = editing?.id === item.id;
+                return (
+                  <div key={item.id} className="space-y-2 rounded-xl border border-zinc-200 p-3 dark:border-zinc-800">
+                    <div>
+                      <p className="text-sm font-medium text-[color:var(--foreground)]">{describeChange(item)}</p>
+                      <p className="text-[10px] text-[color:var(--muted-foreground)]">
+                        Made {new Date(item.timestamp).toLocaleString()} · gave up{' '}
+                        {new Date(item.failedAt).toLocaleString()} after {item.retries} attempts
+                      </p>
+                      {item.error && <p className="mt-1 text-xs text-red-600 dark:text-red-400">{item.error}</p>}
+                    </div>
+
+                    {isEditing && (
+                      <textarea
+                        value={editing.text}
+                        onChange={(e) => setEditing({ id: item.id, text: e.target.value })}
+                        rows={8}
+                        spellCheck={false}
+                        aria-label="Change data"
+                        className="w-full rounded-lg border border-zinc-200 bg-transparent p-2 font-mono text-xs outline-none focus:border-[color:var(--foreground)] dark:border-zinc-800"
+                      />
+                    )}
+
+                    <div className="flex flex-wrap gap-2">
+                      {isEditing ? (
+                        <>
+                          <button
+                            type="button"
+                            onClick={() => handleSaveEdit(item)}
+                            disabled={busy}
+                            className="rounded-full bg-[color:var(--foreground)] px-3 py-1.5 text-xs font-semibold text-[color:var(--background)] disabled:opacity-50"
+                          >
+                            Save &amp; retry
+                          </button>
+                          <button type="button" onClick={() => setEditing(null)} className={actionButton}>
+                            Cancel
+                          </button>
+                        </>
+                      ) : (
+                        <>
+                          <button
+                            type="button"
+                            onClick={() => handleRetry(item)}
+                            disabled={busy}
+                            className={actionButton}
+                          >
+                            <RotateCcw className="h-3.5 w-3.5" />
+                            Retry
+                          </button>
+                          {item.type !== 'delete' && (
+                            <button
+                              type="button"
+                              onClick={() => setEditing({ id: item.id, text: JSON.stringify(item.data, null, 2) })}
+                              disabled={busy}
+                              className={actionButton}
+                            >
+                              <Edit2 className="h-3.5 w-3.5" />
+                              Edit
+                            </button>
+                          )}
+                          <button
+                            type="button"
+                            onClick={() => handleDiscard(item)}
+                            disabled={busy}
+                            className={`${actionButton} text-red-600 dark:text-red-400`}
+                          >
+                            <Trash2 className="h-3.5 w-3.5" />
+                            Discard
+                          </button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                );
+              })
+            )}
+          </div>
+
+          {/* Sync history */}
+          <div className="space-y-2">
+            <p className="text-xs font-semibold uppercase tracking-wider text-[color:var(--muted-foreground)]">
+              Recent activity
+            </p>
+            {status.history.length === 0 ? (
+              <p className="rounded-xl bg-zinc-50 p-3 text-center text-xs text-[color:var(--muted-foreground)] dark:bg-zinc-900/50">
+                No offline changes synced yet
+              </p>
+            ) : (
+              <ul className="divide-y divide-zinc-200 dark:divide-zinc-800">
+                {status.history.slice(0, HISTORY_ROWS).map((entry) => (
+                  <li key={entry.id} className="flex items-start gap-2 py-2">
+                    <span
+                      className={`shrink-0 rounded-full px-1.5 py-0.5 text-[10px] font-medium ${OUTCOME_STYLES[entry.outcome]}`}
+                    >
+                      {OUTCOME_LABELS[entry.outcome]}
+                    </span>
+                    <div className="min-w-0 flex-1">
+                      <p className="text-xs text-[color:var(--foreground)]">{describeChange(entry)}</p>
+                      {entry.message && (
+                        <p className="truncate text-[10px] text-[color:var(--muted-foreground)]">{entry.message}</p>
+                      )}
+                    </div>
+                    <span className="shrink-0 text-[10px] text-[color:var(--muted-foreground)]">
+                      {new Date(entry.timestamp).toLocaleString()}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+'use client';
+
+import { Gauge } from 'lucide-react';
+import { useUnits } from '@/components/providers/UnitProvider';
+import { displayWeightChange, getWeightInUnit, weightUnit } from '@/lib/utils/units';
+import {
+  KCAL_PER_KG,
+  MAX_WEEKLY_ADJUSTMENT,
+  MIN_CALORIE_TARGET,
+  TREND_SMOOTHING,
+  TdeeReport,
+} from '@/lib/tdee';
+
+interface TdeeCardProps {
+  report: TdeeReport | undefined;
+  loading?: boolean;
+  onApply?: () => void;
+  applying?: boolean;
+}
+
+const kcal = (value: number) => value.toLocaleString();
+
+const confidenceClass = {
+  high: 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/40 dark:text-emerald-300',
+  medium: 'bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300',
+  low: 'bg-zinc-100 text-zinc-600 dark:bg-zinc-800 dark:text-zinc-400',
+};
+
+export default function TdeeCard({ report, loading = false, onApply, applying = false }: TdeeCardProps) {
+  const { unitSystem } = useUnits();
+  const wu = weightUnit(unitSystem);
+  const weight = (kg: number) => `${getWeightInUnit(Math.round(kg * 10) / 10, unitSystem)} ${wu}`;
+
+  if (loading && !report) {
+    return <div className="h-32 animate-pulse rounded-2xl bg-zinc-100 dark:bg-zinc-800" />;
+  }
+  if (!report) return null;
+
+  const { estimate, proposal, status } = report;
+
+  return (
+    <div className="space-y-3 rounded-2xl border border-zinc-200 bg-[color:var(--background)] p-4 shadow-sm dark:border-zinc-800">
+      <div className="flex items-center justify-between">
+        <p className="flex items-center gap-2 text-xs font-semibold uppercase tracking-wider text-[color:var(--muted-foreground)]">
+          <Gauge className="h-3.5 w-3.5" />
+          Adaptive targets
+        </p>
+        {estimate && (
+          <span className={`rounded-full px-2 py-0.5 text-[10px] font-medium capitalize ${confidenceClass[estimate.confidence]}`}>
+            {estimate.confidence} confidence
+          </span>
+        )}
+      </div>
+
+      {!estimate ? (
+        <p className="text-sm text-[color:var(--muted-foreground)]">
+          Log meals on at least 10 days and weigh in at least 4 times over the next 4 weeks to estimate how
+          many calories you actually burn.
+        </p>
+      ) : (
+        <>
+          <div className="flex items-end justify-between gap-3">
+            <div>
+              <p className="text-2xl font-semibold text-[color:var(--foreground)]">
+                {kcal(estimate.tdee)} <span className="text-sm font-normal">kcal/day</span>
+              </p>
+              <p className="text-xs text-[color:var(--muted-foreground)]">Estimated TDEE (maintenance)</p>
+            </div>
+            <p className="text-right text-xs text-[color:var(--muted-foreground)]">
+              Trend {displayWeightChange(estimate.weeklyRate, unitSystem)}/week
+            </p>
+          </div>
+
+          {status === 'no_weight_goal' && (
+            <p className="text-xs text-[color:var(--muted-foreground)]">
+              Add a weight goal with a target weight and date to get weekly calorie and macro targets.
+            </p>
+          )}
+          {status === 'goal_date_passed' && (
+            <p className="text-xs text-[color:var(--muted-foreground)]">
+              Your weight goal&apos;s target date has passed — set a new date to get targets.
+            </p>
+          )}
+
+          {proposal && (
+            <div className="space-y-2 rounded-lg bg-zinc-50 p-3 dark:bg-zinc-900">
+              <div className="flex items-center justify-between gap-2">
+                <div>
+                  <p className="text-[10px] font-medium uppercase tracking-wide text-[color:var(--muted-foreground)]">
+                    This week&apos;s target
+                  </p>
+                  <p className="text-lg font-semibold text-[color:var(--foreground)]">
+                    {kcal(proposal.proposedCalories)} kcal
+                  </p>
+                  <p className="text-xs text-[color:var(--muted-foreground)]">
+                    P {proposal.protein}g · C {proposal.carbs}g · F {proposal.fat}g
+                    {proposal.currentTarget !== null && ` · now ${kcal(proposal.currentTarget)} kcal`}
+                  </p>
+                </div>
+                {onApply && (
+                  <button
+                    type="button"
+                    onClick={onApply}
+                    disabled={applying || proposal.proposedCalories === proposal.currentTarget}
+                    className="shrink-0 rounded-full bg-[color:var(--foreground)] px-4 py-2 text-xs font-semibold text-[color:var(--background)] disabled:opacity-50"
+                  >
+                    {applying ? 'Saving...' : proposal.proposedCalories === proposal.currentTarget ? 'Up to date' : 'Apply'}
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* The math, with the user's own numbers */}
+          <details className="text-xs text-[color:var(--muted-foreground)]">
+            <summary className="cursor-pointer font-medium text-[color:var(--foreground)]">
+              How this is calculated
+            </summary>
+            <ol className="mt-2 list-decimal space-y-1.5 pl-4">
+              <li>
+                You logged food on {estimate.window.loggedDays} of the last {estimate.window.days} days, averaging{' '}
+                {kcal(estimate.window.avgIntake)} kcal. Days you didn&apos;t log are assumed to look like the
+                ones you did.
+              </li>
+              <li>
+                Your weight trend — each weigh-in moves it {Math.round(TREND_SMOOTHING * 100)}% of the way, which
+                evens out water and food swings — went from {weight(estimate.window.trendStart)} to{' '}
+                {weight(estimate.window.trendEnd)} over {estimate.window.weighIns} weigh-ins.
+              </li>
+              <li>
+                {displayWeightChange(estimate.window.trendEnd - estimate.window.trendStart, unitSystem)} ×{' '}
+                {kcal(KCAL_PER_KG)} kcal/kg ÷ {estimate.window.days} days = {kcal(estimate.window.storedEnergy)}{' '}
+                kcal/day {estimate.window.storedEnergy < 0 ? 'drawn from' : 'stored in'} body mass.
+              </li>
+              <li>
+                TDEE = intake − stored energy = {kcal(estimate.window.avgIntake)} −{' '}
+                ({kcal(estimate.window.storedEnergy)}) = <strong>{kcal(estimate.tdee)} kcal/day</strong>.
+              </li>
+              {proposal && (
+                <>
+                  <li>
+                    Reaching {weight(proposal.targetWeight)} by{' '}
+                    {proposal.targetDate.toLocaleDateString([], { month: 'short', day: 'numeric', year: 'numeric' })} (
+                    {proposal.daysLeft} days) needs {displayWeightChange(proposal.requiredRate, unitSystem)}/week.
+                    {proposal.limits.includes('rate') &&
+                      ` That's faster than the safe limit (1% of body weight a week when losing, 0.5% when gaining), so the plan uses ${displayWeightChange(proposal.plannedRate, unitSystem)}/week.`}
+                  </li>
+                  <li>
+                    {displayWeightChange(proposal.plannedRate, unitSystem)}/week × {kcal(KCAL_PER_KG)} kcal/kg ÷ 7 ={' '}
+                    {kcal(proposal.dailyDelta)} kcal/day, so the target is {kcal(estimate.tdee)} +{' '}
+                    ({kcal(proposal.dailyDelta)}) ≈ {kcal(proposal.recommendedCalories)} kcal.
+                    {proposal.limits.includes('floor') &&
+                      ` Targets never go below ${kcal(MIN_CALORIE_TARGET)} kcal.`}
+                  </li>
+                  {proposal.limits.includes('step') && proposal.currentTarget !== null && (
+                    <li>
+                      Targets move at most {MAX_WEEKLY_ADJUSTMENT} kcal a week so the estimate can catch up, so this
+                      week&apos;s target goes from {kcal(proposal.currentTarget)} to{' '}
+                      {kcal(proposal.proposedCalories)} kcal.
+                    </li>
+                  )}
+                  <li>
+                    Macros: protein {proposal.plannedRate < 0 ? '2.0' : '1.8'} g per kg of trend weight, fat 25% of
+                    calories, carbs the rest.
+                  </li>
+                </>
+              )}
+            </ol>
+            {estimate.history.length > 1 && (
+              <p className="mt-2">
+                Weekly estimates: {estimate.history.map((w) => kcal(w.tdee)).join(' → ')} kcal
+              </p>
+            )}
+          </details>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+'use client';
+
+import { Play, Check, CalendarRange } from 'lucide-react';
+import { TrainingProgram, ScheduledProgramDay, getProgramWeek } from '@/lib/programs';
+import { WorkoutTemplate } from '@/lib/workoutTemplates';
+
+interface TodaysWorkoutCardProps {
+  program: TrainingProgram;
+  day: ScheduledProgramDay | null; // null on rest days
+  template: WorkoutTemplate | null;
+  onStart: () => void;
+  isStarting?: boolean;
+}
+
+export default function TodaysWorkoutCard({
+  program,
+  day,
+  template,
+  onStart,
+  isStarting = false,
+}: TodaysWorkoutCardProps) {
+  return (
+    <div className="rounded-2xl border border-zinc-200 bg-[color:var(--background)] p-4 dark:border-zinc-800">
+      <div className="flex items-center gap-2 text-[color:var(--muted-foreground)]">
+        <CalendarRange className="h-3.5 w-3.5" />
+        <span className="text-[11px] font-medium uppercase tracking-wider">
+          {program.name}
+          {day && ` • Week ${day.week}`}
+        </span>
+      </div>
+
+      {!day ? (
+        <p className="mt-2 text-sm text-[color:var(--foreground)]">
+          {getProgramWeek(program) !== null
+            ? 'Rest day — nothing scheduled today'
+            : program.startDate > new Date()
+              ? `Starts ${program.startDate.toLocaleDateString([], { month: 'short', day: 'numeric' })}`
+              : 'Program finished — pick your next one on the Workouts page'}
+        </p>
+      ) : !template ? (
+        <p className="mt-2 text-sm text-[color:var(--muted-foreground)]">
+          Today&apos;s template was deleted — edit the program to reschedule
+        </p>
+      ) : (
+        <div className="mt-2 flex items-center justify-between gap-3">
+          <div className="min-w-0">
+            <p className="truncate text-lg font-semibold text-[color:var(--foreground)]">
+              {template.name}
+            </p>
+            <p className="truncate text-xs text-[color:var(--muted-foreground)]">
+              {template.exercises.map((e) => e.exercise).join(' • ')}
+            </p>
+          </div>
+          {day.completed ? (
+            <span className="flex flex-shrink-0 items-center gap-1 rounded-full bg-green-100 px-3 py-1.5 text-xs font-semibold text-green-700 dark:bg-green-900/30 dark:text-green-400">
+              <Check className="h-3.5 w-3.5" />
+              Done
+            </span>
+          ) : (
+            <button
+              onClick={onStart}
+              disabled={isStarting}
+              className="flex flex-shrink-0 items-center gap-1.5 rounded-full bg-[color:var(--foreground)] px-4 py-2 text-xs font-semibold text-[color:var(--background)] disabled:opacity-50"
+            >
+              <Play className="h-3.5 w-3.5" />
+              Start today&apos;s workout
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,9 +1,24 @@
 'use client';
 
-import { Dumbbell, Edit2, Trash2 } from 'lucide-react';
-import { Workout } from '@/lib/types/firestore';
+import { Activity, Dumbbell, Edit2, Trash2 } from 'lucide-react';
+import { CardioData, Workout, WorkoutSet } from '@/lib/types/firestore';
 import { useUnits } from '@/components/providers/UnitProvider';
-import { displayWeight } from '@/lib/utils/units';
+import {
+  displayDistance,
+  elevationUnit,
+  getElevationInUnit,
+  getWeightInUnit,
+  weightUnit,
+} from '@/lib/utils/units';
+import { getWorkoutTitle, getSetCount } from '@/lib/utils/workoutSets';
+import { formatDuration, formatPace, getCardioTotals, isCardioEntry } from '@/lib/utils/cardio';
+
+const SET_TYPE_LABEL: Record<WorkoutSet['type'], string> = {
+  warmup: 'W',
+  working: '',
+  drop: 'D',
+  failure: 'F',
+};
 
 interface WorkoutCardProps {
   workout: Workout;
@@ -24,19 +39,86 @@ export default function WorkoutCard({ workout, onEdit, onDelete }: WorkoutCardPr
     });
   };
 
+  const formatSet = (set: WorkoutSet) => {
+    const label = SET_TYPE_LABEL[set.type];
+    const load = set.weight > 0 ? `${getWeightInUnit(set.weight, unitSystem)}×` : '';
+    return `${label ? `${label} ` : ''}${load}${set.reps}${set.rpe ? ` @${set.rpe}` : ''}`;
+  };
+
+  const cardioStats = (cardio: CardioData) =>
+    [
+      { label: 'Distance', value: cardio.distance ? displayDistance(cardio.distance, unitSystem) : null },
+      { label: 'Time', value: cardio.duration ? formatDuration(cardio.duration) : null },
+      { label: 'Pace', value: formatPace(cardio, unitSystem) },
+      { label: 'Avg HR', value: cardio.avgHeartRate ? `${cardio.avgHeartRate} bpm` : null },
+      {
+        label: 'Elevation',
+        value: cardio.elevationGain
+          ? `${getElevationInUnit(cardio.elevationGain, unitSystem)} ${elevationUnit(unitSystem)}`
+          : null,
+      },
+      { label: 'Burned', value: cardio.calories ? `${cardio.calories} kcal` : null },
+    ].filter((stat) => stat.value !== null);
+
+  const strengthEntries = workout.exercises.filter((e) => !isCardioEntry(e));
+  const cardioEntries = workout.exercises.filter(isCardioEntry);
+  const cardioTotals = getCardioTotals([workout]);
+  const cardioOnly = strengthEntries.length === 0 && cardioEntries.length > 0;
+
   return (
     <div className="rounded-2xl border border-zinc-200 bg-[color:var(--background)] p-4 shadow-sm dark:border-zinc-800">
       <div className="flex items-start justify-between">
         <div className="flex items-start gap-3">
           <div className="rounded-full bg-zinc-100 p-2 dark:bg-zinc-800">
-            <Dumbbell className="h-5 w-5 text-[color:var(--foreground)]" />
+            {cardioOnly ? (
+              <Activity className="h-5 w-5 text-[color:var(--foreground)]" />
+            ) : (
+              <Dumbbell className="h-5 w-5 text-[color:var(--foreground)]" />
+            )}
           </div>
           <div className="space-y-1">
-            <h3 className="font-semibold text-[color:var(--foreground)]">{workout.exercise}</h3>
+            <h3 className="font-semibold text-[color:var(--foreground)]">{getWorkoutTitle(workout)}</h3>
             <p className="text-sm text-[color:var(--muted-foreground)]">
-              {workout.sets} sets × {workout.reps} reps
-              {workout.weight > 0 && ` • ${displayWeight(workout.weight, unitSystem)}`}
+              {workout.exercises.length} exercise{workout.exercises.length !== 1 ? 's' : ''} •{' '}
+              {cardioOnly
+                ? [
+                    cardioTotals.distance > 0 && displayDistance(cardioTotals.distance, unitSystem),
+                    cardioTotals.duration > 0 && formatDuration(cardioTotals.duration),
+                  ]
+                    .filter(Boolean)
+                    .join(' • ')
+                : `${getSetCount(workout)} sets`}
             </p>
+            <ul className="space-y-0.5">
+              {strengthEntries.map((entry, index) => (
+                <li key={index} className="text-xs text-[color:var(--muted-foreground)]">
+                  <span className="font-medium text-[color:var(--foreground)]">{entry.exercise}</span>
+                  {' — '}
+                  {entry.sets.map(formatSet).join(', ')}
+                </li>
+              ))}
+            </ul>
+            {cardioEntries.map((entry, index) => (
+              <div key={index} className="rounded-lg bg-zinc-50 px-3 py-2 dark:bg-zinc-900">
+                <p className="text-xs font-medium text-[color:var(--foreground)]">{entry.exercise}</p>
+                <dl className="mt-1 grid grid-cols-3 gap-x-4 gap-y-1">
+                  {entry.cardio &&
+                    cardioStats(entry.cardio).map((stat) => (
+                      <div key={stat.label}>
+                        <dt className="text-[10px] text-[color:var(--muted-foreground)]">{stat.label}</dt>
+                        <dd className="text-xs font-semibold tabular-nums text-[color:var(--foreground)]">
+                          {stat.value}
+                        </dd>
+                      </div>
+                    ))}
+                </dl>
+              </div>
+            ))}
+            {workout.exercises.some((e) => e.sets.some((s) => s.weight > 0)) && (
+              <p className="text-[10px] text-[color:var(--muted-foreground)]">
+                Loads in {weightUnit(unitSystem)} • W warm-up, D drop, F failure
+              </p>
+            )}
             {workout.duration && (
               <p className="text-xs text-[color:var(--muted-foreground)]">
                 Duration: {workout.duration} min
@@ -1,13 +1,45 @@
 'use client';
 
-import { useState, FormEvent } from 'react';
-import { X } from 'lucide-react';
-import { Workout } from '@/lib/types/firestore';
+import { useState, useMemo, FormEvent } from 'react';
+import { X, Plus, Trash2, ChevronUp, ChevronDown, Copy, Calculator, Activity } from 'lucide-react';
+import { CardioData, Workout, WorkoutExercise, SetType } from '@/lib/types/firestore';
 import { getErrorMessage } from '@/lib/utils/errorMessages';
 import { validateField, ValidationErrors } from '@/lib/utils/validation';
 import { useFormShortcuts } from '@/lib/hooks/useKeyboardShortcut';
 import { useUnits } from '@/components/providers/UnitProvider';
-import { weightUnit, weightToKg, getWeightInUnit } from '@/lib/utils/units';
+import {
+  UnitSystem,
+  weightUnit,
+  weightToKg,
+  getWeightInUnit,
+  distanceUnit,
+  distanceToKm,
+  getDistanceInUnit,
+  elevationUnit,
+  elevationToM,
+  getElevationInUnit,
+} from '@/lib/utils/units';
+import { formatDuration, isCardioExercise, parseDuration } from '@/lib/utils/cardio';
+import { resolveExercise } from '@/lib/utils/exerciseResolver';
+import {
+  OverloadSuggestion,
+  ProgressionRule,
+  getOverloadSuggestion,
+  getDefaultProgressionSettings,
+  getSavedProgressionRules,
+  saveProgressionRule,
+} from '@/lib/progression';
+import { getE1RMHistory } from '@/lib/strength';
+import {
+  PlateSettings,
+  getPlateSettings,
+  savePlateSettings,
+  roundToLoadable,
+  isBarbellExercise,
+} from '@/lib/utils/plates';
+import ProgressionHint from '@/components/features/ProgressionHint';
+import PlateCalculator from '@/components/features/PlateCalculator';
+import ExerciseDatalist from '@/components/features/ExerciseDatalist';
 
 // Helper to format Date to datetime-local string in user's local timezone
 const formatDateToLocalString = (date: Date): string => {
@@ -19,10 +51,69 @@ const formatDateToLocalString = (date: Date): string => {
   return `${year}-${month}-${day}T${hours}:${minutes}`;
 };
 
+const SET_TYPE_OPTIONS: { value: SetType; label: string }[] = [
+  { value: 'warmup', label: 'Warm-up' },
+  { value: 'working', label: 'Working' },
+  { value: 'drop', label: 'Drop' },
+  { value: 'failure', label: 'Failure' },
+];
+
+// Form state keeps raw input strings; converted on submit
+interface SetFormState {
+  reps: string;
+  weight: string;
+  rpe: string;
+  type: SetType;
+}
+
+// Distance in the display unit, duration as "mm:ss" or "h:mm:ss"
+interface CardioFormState {
+  distance: string;
+  duration: string;
+  avgHeartRate: string;
+  elevationGain: string;
+  calories: string;
+}
+
+interface ExerciseFormState {
+  exercise: string;
+  exerciseId?: string; // library link loaded with the workout, kept until the name changes
+  notes: string;
+  mode: 'sets' | 'cardio';
+  sets: SetFormState[];
+  cardio: CardioFormState;
+}
+
+const emptySet = (): SetFormState => ({ reps: '', weight: '', rpe: '', type: 'working' });
+const emptyCardio = (): CardioFormState => ({
+  distance: '',
+  duration: '',
+  avgHeartRate: '',
+  elevationGain: '',
+  calories: '',
+});
+const getCardioFields = (unit: UnitSystem) =>
+  [
+    { field: 'distance', label: `Distance (${distanceUnit(unit)})`, placeholder: '5', step: '0.01' },
+    { field: 'duration', label: 'Time', placeholder: '25:00' },
+    { field: 'avgHeartRate', label: 'Avg HR (bpm)', placeholder: '150', step: '1' },
+    { field: 'elevationGain', label: `Elevation (${elevationUnit(unit)})`, placeholder: '0', step: '1' },
+    { field: 'calories', label: 'Calories (kcal)', placeholder: '300', step: '1' },
+  ] as { field: keyof CardioFormState; label: string; placeholder: string; step?: string }[];
+
+const emptyExercise = (): ExerciseFormState => ({
+  exercise: '',
+  notes: '',
+  mode: 'sets',
+  sets: [emptySet()],
+  cardio: emptyCardio(),
+});
+
 interface WorkoutFormProps {
   onSubmit: (data: Omit<Workout, 'id' | 'createdAt' | 'updatedAt'>) => Promise<void>;
   onCancel: () => void;
   initialData?: Workout;
+  history?: Workout[]; // logged workouts, used for progression suggestions
   isLoading?: boolean;
 }
 
@@ -30,37 +121,62 @@ export default function WorkoutForm({
   onSubmit,
   onCancel,
   initialData,
+  history = [],
   isLoading = false,
 }: WorkoutFormProps) {
   const { unitSystem } = useUnits();
   const wu = weightUnit(unitSystem);
   const [formData, setFormData] = useState({
-    exercise: initialData?.exercise || '',
-    sets: initialData?.sets?.toString() || '',
-    reps: initialData?.reps?.toString() || '',
-    weight: initialData?.weight ? getWeightInUnit(initialData.weight, unitSystem).toString() : '',
+    title: initialData?.title || '',
     duration: initialData?.duration?.toString() || '',
     notes: initialData?.notes || '',
     date: initialData?.date
       ? formatDateToLocalString(new Date(initialData.date))
       : formatDateToLocalString(new Date()),
   });
+  const [exercises, setExercises] = useState<ExerciseFormState[]>(
+    initialData?.exercises.length
+      ? initialData.exercises.map((entry) => ({
+          exercise: entry.exercise,
+          exerciseId: entry.exerciseId,
+          notes: entry.notes || '',
+          mode: entry.cardio && entry.sets.length === 0 ? 'cardio' : 'sets',
+          sets: entry.sets.length
+            ? entry.sets.map((set) => ({
+                reps: set.reps.toString(),
+                weight: set.weight ? getWeightInUnit(set.weight, unitSystem).toString() : '',
+                rpe: set.rpe?.toString() || '',
+                type: set.type,
+              }))
+            : [emptySet()],
+          cardio: entry.cardio
+            ? {
+                distance: entry.cardio.distance
+                  ? getDistanceInUnit(entry.cardio.distance, unitSystem).toString()
+                  : '',
+                duration: entry.cardio.duration ? formatDuration(entry.cardio.duration) : '',
+                avgHeartRate: entry.cardio.avgHeartRate?.toString() || '',
+                elevationGain: entry.cardio.elevationGain
+                  ? getElevationInUnit(entry.cardio.elevationGain, unitSystem).toString()
+                  : '',
+                calories: entry.cardio.calories?.toString() || '',
+              }
+            : emptyCardio(),
+        }))
+      : [emptyExercise()]
+  );
 
   const [error, setError] = useState('');
+  const [savedRules, setSavedRules] = useState(getSavedProgressionRules);
+  const [plateSettings, setPlateSettings] = useState<PlateSettings>(getPlateSettings);
+  const [platesOpen, setPlatesOpen] = useState<number | null>(null); // exercise index
   const [fieldErrors, setFieldErrors] = useState<ValidationErrors>({});
-  const [touched, setTouched] = useState<Record<string, boolean>>({});
 
   const validationRules = {
-    exercise: { required: true, minLength: 2 },
-    sets: { required: true, min: 1 },
-    reps: { required: true, min: 1 },
-    weight: { min: 0 },
     duration: { min: 0 },
   };
 
   const handleBlur = (fieldName: string) => {
-    setTouched({ ...touched, [fieldName]: true });
-    
     const rule = validationRules[fieldName as keyof typeof validationRules];
     if (rule) {
       const error = validateField(fieldName, formData[fieldName as keyof typeof formData], rule);
@@ -75,12 +191,200 @@ export default function WorkoutForm({
 
   const handleChange = (fieldName: string, value: string) => {
     setFormData({ ...formData, [fieldName]: value });
-    
-    // Clear error on change if field was touched
-    if (touched[fieldName] && fieldErrors[fieldName]) {
-      const { [fieldName]: _, ...rest } = fieldErrors;
-      setFieldErrors(rest);
+  };
+
+  // ── Exercise & set editing ──
+
+  const updateExercise = (index: number, updates: Partial<ExerciseFormState>) => {
+    setExercises((prev) => prev.map((e, i) => (i === index ? { ...e, ...updates } : e)));
+  };
+
+  // Library cardio exercises switch to distance/time logging until sets are entered
+  const updateExerciseName = (index: number, exercise: string) => {
+    setExercises((prev) =>
+      prev.map((e, i) => {
+        if (i !== index) return e;
+        const setsEmpty = e.sets.every((s) => !s.reps && !s.weight);
+        const cardioEmpty = Object.values(e.cardio).every((v) => !v);
+        const match = resolveExercise(exercise, { fuzzy: false });
+        let mode = e.mode;
+        if (match && isCardioExercise(exercise) && setsEmpty) mode = 'cardio';
+        else if (match && !isCardioExercise(exercise) && cardioEmpty) mode = 'sets';
+        const exerciseId = exercise === e.exercise ? e.exerciseId : undefined;
+        return { ...e, exercise, exerciseId, mode };
+      })
+    );
+  };
+
+  const updateCardio = (index: number, updates: Partial<CardioFormState>) => {
+    setExercises((prev) =>
+      prev.map((e, i) => (i === index ? { ...e, cardio: { ...e.cardio, ...updates } } : e))
+    );
+  };
+
+  const moveExercise = (index: number, direction: -1 | 1) => {
+    setExercises((prev) => {
+      const target = index + direction;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const removeExercise = (index: number) => {
+    setExercises((prev) => (prev.length > 1 ? prev.filter((_, i) => i !== index) : prev));
+  };
+
+  const updateSet = (exerciseIndex: number, setIndex: number, updates: Partial<SetFormState>) => {
+    setExercises((prev) =>
+      prev.map((e, i) =>
+        i === exerciseIndex
+          ? { ...e, sets: e.sets.map((s, j) => (j === setIndex ? { ...s, ...updates } : s)) }
+          : e
+      )
+    );
+  };
+
+  // New sets copy the previous set so straight sets only need one entry
+  const addSet = (exerciseIndex: number) => {
+    setExercises((prev) =>
+      prev.map((e, i) =>
+        i === exerciseIndex
+          ? { ...e, sets: [...e.sets, e.sets.length ? { ...e.sets[e.sets.length - 1] } : emptySet()] }
+          : e
+      )
+    );
+  };
+
+  const removeSet = (exerciseIndex: number, setIndex: number) => {
+    setExercises((prev) =>
+      prev.map((e, i) =>
+        i === exerciseIndex && e.sets.length > 1
+          ? { ...e, sets: e.sets.filter((_, j) => j !== setIndex) }
+          : e
+      )
+    );
+  };
+
+  // ── Progression suggestions ──
+
+  // When editing, only sessions before this one count as history
+  const priorWorkouts = useMemo(() => {
+    if (!initialData) return history;
+    const cutoff = new Date(initialData.date).getTime();
+    return history.filter(
+      (w) => w.id !== initialData.id && new Date(w.date).getTime() < cutoff
+    );
+  }, [history, initialData]);
+
+  const suggestions = useMemo(
+    () =>
+      exercises.map((entry) => {
+        const name = entry.exercise.trim();
+        if (!name) return null;
+        const defaults = getDefaultProgressionSettings(name, unitSystem);
+        const rule = savedRules[name.toLowerCase()] ?? defaults.rule;
+        const suggestion = getOverloadSuggestion(priorWorkouts, name, unitSystem, { ...defaults, rule });
+        if (!suggestion || suggestion.weight <= 0 || !isBarbellExercise(name)) return suggestion;
+
+        // Barbell suggestions should be something you can actually load
+        const loadable = roundToLoadable(
+          getWeightInUnit(suggestion.weight, unitSystem),
+          unitSystem,
+          plateSettings
+        );
+        return { ...suggestion, weight: weightToKg(loadable, unitSystem) };
+      }),
+    [exercises, priorWorkouts, unitSystem, savedRules, plateSettings]
+  );
+
+  const handleRuleChange = (exercise: string, rule: ProgressionRule) => {
+    saveProgressionRule(exercise, rule);
+    setSavedRules(getSavedProgressionRules());
+  };
+
+  // ── Plate calculator ──
+
+  const handlePlateSettingsChange = (settings: PlateSettings) => {
+    savePlateSettings(settings);
+    setPlateSettings(settings);
+  };
+
+  // Heaviest working-set weight entered for an exercise (display unit)
+  const getTargetWeight = (entry: ExerciseFormState) =>
+    Math.max(
+      0,
+      ...entry.sets.filter((s) => s.type !== 'warmup').map((s) => parseFloat(s.weight) || 0)
+    );
+
+  const getE1RM = (exercise: string) => {
+    const history = exercise.trim() ? getE1RMHistory(priorWorkouts, exercise.trim()) : [];
+    const best = history.reduce((max, p) => Math.max(max, p.e1rm), 0);
+    return best > 0 ? getWeightInUnit(best, unitSystem) : undefined;
+  };
+
+  // Load every working set with the chosen weight
+  const setWorkingWeight = (exerciseIndex: number, weight: number) => {
+    setExercises((prev) =>
+      prev.map((e, i) =>
+        i === exerciseIndex
+          ? {
+              ...e,
+              sets: e.sets.map((s) => (s.type === 'warmup' ? s : { ...s, weight: String(weight) })),
+            }
+          : e
+      )
+    );
+  };
+
+  // Replace the working sets with the suggested prescription, keeping warm-ups
+  const applySuggestion = (exerciseIndex: number, suggestion: OverloadSuggestion) => {
+    const set: SetFormState = {
+      reps: String(suggestion.reps),
+      weight: suggestion.weight ? String(getWeightInUnit(suggestion.weight, unitSystem)) : '',
+      rpe: '',
+      type: 'working',
+    };
+    setExercises((prev) =>
+      prev.map((e, i) => {
+        if (i !== exerciseIndex) return e;
+        const warmups = e.sets.filter((s) => s.type === 'warmup' && s.reps);
+        return {
+          ...e,
+          sets: [...warmups, ...Array.from({ length: suggestion.sets }, () => ({ ...set }))],
+        };
+      })
+    );
+  };
+
+  const toWorkoutExercise = (entry: ExerciseFormState): WorkoutExercise => {
+    const base = {
+      exercise: entry.exercise.trim(),
+      exerciseId: entry.exerciseId,
+      notes: entry.notes.trim() || undefined,
+    };
+    if (entry.mode === 'cardio') {
+      const { distance, duration, avgHeartRate, elevationGain, calories } = entry.cardio;
+      const cardio: CardioData = {
+        distance: parseFloat(distance) > 0 ? distanceToKm(parseFloat(distance), unitSystem) : undefined,
+        duration: parseDuration(duration) ?? undefined,
+        avgHeartRate: parseInt(avgHeartRate) || undefined,
+        elevationGain:
+          parseFloat(elevationGain) > 0 ? elevationToM(parseFloat(elevationGain), unitSystem) : undefined,
+        calories: parseInt(calories) || undefined,
+      };
+      return { ...base, sets: [], cardio };
     }
+    return {
+      ...base,
+      sets: entry.sets.map((s) => ({
+        reps: parseInt(s.reps),
+        weight: s.weight ? weightToKg(parseFloat(s.weight), unitSystem) : 0,
+        rpe: s.rpe ? parseFloat(s.rpe) : undefined,
+        type: s.type,
+      })),
+    };
   };
 
   const handleSubmit = async (e?: FormEvent) => {
@@ -88,14 +392,43 @@ export default function WorkoutForm({
     setError('');
 
     // Validation
-    if (!formData.exercise || !formData.sets || !formData.reps) {
-      setError('Exercise, sets, and reps are required');
-      return;
-    }
-
-    if (parseInt(formData.sets) <= 0 || parseInt(formData.reps) <= 0) {
-      setError('Sets and reps must be positive numbers');
-      return;
+    for (const [i, entry] of exercises.entries()) {
+      if (entry.exercise.trim().length < 2) {
+        setError(`Exercise ${i + 1} needs a name`);
+        return;
+      }
+      if (entry.mode === 'cardio') {
+        const { distance, duration, avgHeartRate, elevationGain, calories } = entry.cardio;
+        if (!parseFloat(distance) && parseDuration(duration) === null) {
+          setError(`${entry.exercise.trim()} needs a distance or a time`);
+          return;
+        }
+        if (duration && parseDuration(duration) === null) {
+          setError('Time must look like 25:00 or 1:05:30');
+          return;
+        }
+        if ([distance, elevationGain, calories].some((v) => v && parseFloat(v) < 0)) {
+          setError('Distance, elevation and calories cannot be negative');
+          return;
+        }
+        if (avgHeartRate && (parseInt(avgHeartRate) < 30 || parseInt(avgHeartRate) > 250)) {
+          setError('Average heart rate must be between 30 and 250 bpm');
+          return;
+        }
+        continue;
+      }
+      if (entry.sets.some((s) => !s.reps || parseInt(s.reps) <= 0)) {
+        setError(`Every set of ${entry.exercise.trim()} needs a positive rep count`);
+        return;
+      }
+      if (entry.sets.some((s) => s.weight && parseFloat(s.weight) < 0)) {
+        setError('Weight cannot be negative');
+        return;
+      }
+      if (entry.sets.some((s) => s.rpe && (parseFloat(s.rpe) < 1 || parseFloat(s.rpe) > 10))) {
+        setError('RPE must be between 1 and 10');
+        return;
+      }
     }
 
     try {
@@ -104,10 +437,10 @@ export default function WorkoutForm({
       const [datePart, timePart] = formData.date.split('T');
       const [year, month, day] = datePart.split('-').map(Number);
       const [hour, minute] = timePart.split(':').map(Number);
-      
+
       // Create date in local timezone (not UTC)
       const dateObj = new Date(year, month - 1, day, hour, minute, 0, 0);
-      
+
       // Ensure valid date
       if (isNaN(dateObj.getTime())) {
         setError('Invalid date/time');
@@ -115,10 +448,8 @@ export default function WorkoutForm({
       }
 
       await onSubmit({
-        exercise: formData.exercise.trim(),
-        sets: parseInt(formData.sets),
-        reps: parseInt(formData.reps),
-        weight: formData.weight ? weightToKg(parseFloat(formData.weight), unitSystem) : 0,
+        title: formData.title.trim() || undefined,
+        exercises: exercises.map(toWorkoutExercise),
         duration: formData.duration ? parseInt(formData.duration) : undefined,
         notes: formData.notes?.trim() || undefined,
         date: dateObj,
@@ -138,6 +469,9 @@ export default function WorkoutForm({
     onCancel: !isLoading ? onCancel : undefined,
   });
 
+  const inputClass =
+    'w-full rounded-lg border border-zinc-200 bg-[color:var(--background)] px-2 py-1.5 text-sm shadow-sm outline-none focus:border-black dark:border-zinc-800 dark:focus:border-white disabled:opacity-50';
+
   return (
     <form onSubmit={handleSubmit} className="space-y-3">
       <div className="flex items-center justify-between mb-3">
@@ -161,98 +495,227 @@ export default function WorkoutForm({
 
       <div className="space-y-3">
         <label className="block text-xs font-medium">
-          Exercise Name *
+          Session Name
           <input
             type="text"
-            placeholder="e.g., Bench Press"
-            value={formData.exercise}
-            onChange={(e) => handleChange('exercise', e.target.value)}
-            onBlur={() => handleBlur('exercise')}
+            placeholder="e.g., Push Day"
+            value={formData.title}
+            onChange={(e) => handleChange('title', e.target.value)}
             disabled={isLoading}
-            className={`mt-1 w-full rounded-lg border ${
-              fieldErrors.exercise && touched.exercise
-                ? 'border-red-500 dark:border-red-500'
-                : 'border-zinc-200 dark:border-zinc-800'
-            } bg-[color:var(--background)] px-3 py-2 text-sm shadow-sm outline-none focus:border-black dark:focus:border-white disabled:opacity-50`}
+            className="mt-1 w-full rounded-lg border border-zinc-200 bg-[color:var(--background)] px-3 py-2 text-sm shadow-sm outline-none focus:border-black dark:border-zinc-800 dark:focus:border-white disabled:opacity-50"
           />
-          {fieldErrors.exercise && touched.exercise && (
-            <p className="mt-0.5 text-xs text-red-600 dark:text-red-400">
-              {fieldErrors.exercise}
-            </p>
-          )}
         </label>
 
-        <div className="grid grid-cols-3 gap-2">
-          <label className="block text-xs font-medium">
-            Sets *
-            <input
-              type="number"
-              placeholder="3"
-              min="1"
-              value={formData.sets}
-              onChange={(e) => handleChange('sets', e.target.value)}
-              onBlur={() => handleBlur('sets')}
-              disabled={isLoading}
-              className={`mt-1 w-full rounded-lg border ${
-                fieldErrors.sets && touched.sets
-                  ? 'border-red-500 dark:border-red-500'
-                  : 'border-zinc-200 dark:border-zinc-800'
-              } bg-[color:var(--background)] px-2 py-2 text-sm shadow-sm outline-none focus:border-black dark:focus:border-white disabled:opacity-50`}
-            />
-            {fieldErrors.sets && touched.sets && (
-              <p className="mt-0.5 text-xs text-red-600 dark:text-red-400">
-                {fieldErrors.sets}
-              </p>
-            )}
-          </label>
+        <ExerciseDatalist id="workout-exercise-options" />
 
-          <label className="block text-xs font-medium">
-            Reps *
-            <input
-              type="number"
-              placeholder="10"
-              min="1"
-              value={formData.reps}
-              onChange={(e) => handleChange('reps', e.target.value)}
-              onBlur={() => handleBlur('reps')}
-              disabled={isLoading}
-              className={`mt-1 w-full rounded-lg border ${
-                fieldErrors.reps && touched.reps
-                  ? 'border-red-500 dark:border-red-500'
-                  : 'border-zinc-200 dark:border-zinc-800'
-              } bg-[color:var(--background)] px-2 py-2 text-sm shadow-sm outline-none focus:border-black dark:focus:border-white disabled:opacity-50`}
-            />
-            {fieldErrors.reps && touched.reps && (
-              <p className="mt-0.5 text-xs text-red-600 dark:text-red-400">
-                {fieldErrors.reps}
-              </p>
-            )}
-          </label>
+        {exercises.map((entry, exerciseIndex) => (
+          <div
+            key={exerciseIndex}
+            className="space-y-2 rounded-xl border border-zinc-200 p-3 dark:border-zinc-800"
+          >
+            <div className="flex items-center gap-1">
+              <input
+                type="text"
+                list="workout-exercise-options"
+                placeholder="Exercise, e.g., Bench Press"
+                value={entry.exercise}
+                onChange={(e) => updateExerciseName(exerciseIndex, e.target.value)}
+                disabled={isLoading}
+                aria-label={`Exercise ${exerciseIndex + 1} name`}
+                className={`${inputClass} flex-1 font-medium`}
+              />
+              <button
+                type="button"
+                onClick={() =>
+                  updateExercise(exerciseIndex, { mode: entry.mode === 'cardio' ? 'sets' : 'cardio' })
+                }
+                disabled={isLoading}
+                className={`rounded-full p-1 hover:bg-zinc-100 disabled:opacity-30 dark:hover:bg-zinc-800 ${
+                  entry.mode === 'cardio' ? 'bg-zinc-100 dark:bg-zinc-800' : ''
+                }`}
+                aria-label="Log as distance and time"
+                aria-pressed={entry.mode === 'cardio'}
+              >
+                <Activity className="h-4 w-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => setPlatesOpen(platesOpen === exerciseIndex ? null : exerciseIndex)}
+                disabled={isLoading || entry.mode === 'cardio'}
+                className={`rounded-full p-1 hover:bg-zinc-100 disabled:opacity-30 dark:hover:bg-zinc-800 ${
+                  platesOpen === exerciseIndex ? 'bg-zinc-100 dark:bg-zinc-800' : ''
+                }`}
+                aria-label="Plate calculator"
+                aria-expanded={platesOpen === exerciseIndex}
+              >
+                <Calculator className="h-4 w-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => moveExercise(exerciseIndex, -1)}
+                disabled={isLoading || exerciseIndex === 0}
+                className="rounded-full p-1 hover:bg-zinc-100 disabled:opacity-30 dark:hover:bg-zinc-800"
+                aria-label="Move exercise up"
+              >
+                <ChevronUp className="h-4 w-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => moveExercise(exerciseIndex, 1)}
+                disabled={isLoading || exerciseIndex === exercises.length - 1}
+                className="rounded-full p-1 hover:bg-zinc-100 disabled:opacity-30 dark:hover:bg-zinc-800"
+                aria-label="Move exercise down"
+              >
+                <ChevronDown className="h-4 w-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => removeExercise(exerciseIndex)}
+                disabled={isLoading || exercises.length === 1}
+                className="rounded-full p-1 hover:bg-red-50 disabled:opacity-30 dark:hover:bg-red-900/20"
+                aria-label="Remove exercise"
+              >
+                <Trash2 className="h-4 w-4 text-red-600" />
+              </button>
+            </div>
 
-          <label className="block text-xs font-medium">
-            Weight ({wu})
-            <input
-              type="number"
-              placeholder="60"
-              min="0"
-              step="0.5"
-              value={formData.weight}
-              onChange={(e) => handleChange('weight', e.target.value)}
-              onBlur={() => handleBlur('weight')}
-              disabled={isLoading}
-              className={`mt-1 w-full rounded-lg border ${
-                fieldErrors.weight && touched.weight
-                  ? 'border-red-500 dark:border-red-500'
-                  : 'border-zinc-200 dark:border-zinc-800'
-              } bg-[color:var(--background)] px-2 py-2 text-sm shadow-sm outline-none focus:border-black dark:focus:border-white disabled:opacity-50`}
-            />
-            {fieldErrors.weight && touched.weight && (
-              <p className="mt-0.5 text-xs text-red-600 dark:text-red-400">
-                {fieldErrors.weight}
-              </p>
+            {entry.mode === 'cardio' ? (
+              <div className="grid grid-cols-3 gap-2">
+                {getCardioFields(unitSystem).map(({ field, label, placeholder, step }) => (
+                  <label key={field} className="block text-[10px] font-medium text-[color:var(--muted-foreground)]">
+                    {label}
+                    <input
+                      type={step ? 'number' : 'text'}
+                      min={step ? '0' : undefined}
+                      step={step}
+                      placeholder={placeholder}
+                      value={entry.cardio[field]}
+                      onChange={(e) => updateCardio(exerciseIndex, { [field]: e.target.value })}
+                      disabled={isLoading}
+                      className={`${inputClass} mt-0.5`}
+                    />
+                  </label>
+                ))}
+              </div>
+            ) : (
+              <>
+                {suggestions[exerciseIndex] && (
+                  <ProgressionHint
+                    suggestion={suggestions[exerciseIndex]}
+                    onRuleChange={(rule) => handleRuleChange(entry.exercise, rule)}
+                    onApply={(suggestion) => applySuggestion(exerciseIndex, suggestion)}
+                    disabled={isLoading}
+                  />
+                )}
+
+                {platesOpen === exerciseIndex && (
+                  <PlateCalculator
+                    target={getTargetWeight(entry)}
+                    e1rm={getE1RM(entry.exercise)}
+                    settings={plateSettings}
+                    onSettingsChange={handlePlateSettingsChange}
+                    onSelectWeight={(weight) => setWorkingWeight(exerciseIndex, weight)}
+                    disabled={isLoading}
+                  />
+                )}
+
+                <div className="grid grid-cols-[1.5rem_1fr_1fr_1fr_1.3fr_1.5rem] items-center gap-1 text-[10px] font-medium text-[color:var(--muted-foreground)]">
+                  <span>#</span>
+                  <span>Reps *</span>
+                  <span>Weight ({wu})</span>
+                  <span>RPE</span>
+                  <span>Type</span>
+                  <span />
+                </div>
+                {entry.sets.map((set, setIndex) => (
+                  <div
+                    key={setIndex}
+                    className="grid grid-cols-[1.5rem_1fr_1fr_1fr_1.3fr_1.5rem] items-center gap-1"
+                  >
+                    <span className="text-xs text-[color:var(--muted-foreground)]">{setIndex + 1}</span>
+                    <input
+                      type="number"
+                      placeholder="10"
+                      min="1"
+                      value={set.reps}
+                      onChange={(e) => updateSet(exerciseIndex, setIndex, { reps: e.target.value })}
+                      disabled={isLoading}
+                      aria-label={`Set ${setIndex + 1} reps`}
+                      className={inputClass}
+                    />
+                    <input
+                      type="number"
+                      placeholder="60"
+                      min="0"
+                      step="0.5"
+                      value={set.weight}
+                      onChange={(e) => updateSet(exerciseIndex, setIndex, { weight: e.target.value })}
+                      disabled={isLoading}
+                      aria-label={`Set ${setIndex + 1} weight`}
+                      className={inputClass}
+                    />
+                    <input
+                      type="number"
+                      placeholder="8"
+                      min="1"
+                      max="10"
+                      step="0.5"
+                      value={set.rpe}
+                      onChange={(e) => updateSet(exerciseIndex, setIndex, { rpe: e.target.value })}
+                      disabled={isLoading}
+                      aria-label={`Set ${setIndex + 1} RPE`}
+                      className={inputClass}
+                    />
+                    <select
+                      value={set.type}
+                      onChange={(e) =>
+                        updateSet(exerciseIndex, setIndex, { type: e.target.value as SetType })
+                      }
+                      disabled={isLoading}
+                      aria-label={`Set ${setIndex + 1} type`}
+                      className={inputClass}
+                    >
+                      {SET_TYPE_OPTIONS.map((opt) => (
+                        <option key={opt.value} value={opt.value}>
+                          {opt.label}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      type="button"
+                      onClick={() => removeSet(exerciseIndex, setIndex)}
+                      disabled={isLoading || entry.sets.length === 1}
+                      className="rounded-full p-0.5 hover:bg-zinc-100 disabled:opacity-30 dark:hover:bg-zinc-800"
+                      aria-label={`Remove set ${setIndex + 1}`}
+                    >
+                      <X className="h-3.5 w-3.5" />
+                    </button>
+                  </div>
+                ))}
+
+                <button
+                  type="button"
+                  onClick={() => addSet(exerciseIndex)}
+                  disabled={isLoading}
+                  className="flex items-center gap-1 text-xs font-medium text-[color:var(--muted-foreground)] hover:text-[color:var(--foreground)] disabled:opacity-50"
+                >
+                  <Copy className="h-3.5 w-3.5" />
+                  Add set
+                </button>
+              </>
             )}
-          </label>
-        </div>
+          </div>
+        ))}
+
+        <button
+          type="button"
+          onClick={() => setExercises((prev) => [...prev, emptyExercise()])}
+          disabled={isLoading}
+          className="flex h-9 w-full items-center justify-center gap-1 rounded-lg border border-dashed border-zinc-300 text-xs font-medium dark:border-zinc-700 disabled:opacity-50"
+        >
+          <Plus className="h-4 w-4" />
+          Add exercise
+        </button>
 
         <div className="grid grid-cols-2 gap-2">
           <label className="block text-xs font-medium">
@@ -266,11 +729,16 @@ export default function WorkoutForm({
               onBlur={() => handleBlur('duration')}
               disabled={isLoading}
               className={`mt-1 w-full rounded-lg border ${
-                fieldErrors.duration && touched.duration
+                fieldErrors.duration
                   ? 'border-red-500 dark:border-red-500'
                   : 'border-zinc-200 dark:border-zinc-800'
               } bg-[color:var(--background)] px-3 py-2 text-sm shadow-sm outline-none focus:border-black dark:focus:border-white disabled:opacity-50`}
             />
+            {fieldErrors.duration && (
+              <p className="mt-0.5 text-xs text-red-600 dark:text-red-400">
+                {fieldErrors.duration}
+              </p>
+            )}
           </label>
 
           <label className="block text-xs font-medium">
@@ -0,0 +1,81 @@
+'use client';
+
+import { Play, Trash2, Edit } from 'lucide-react';
+import { WorkoutTemplate } from '@/lib/workoutTemplates';
+import { useUnits } from '@/components/providers/UnitProvider';
+import { displayWeight } from '@/lib/utils/units';
+
+interface WorkoutTemplateCardProps {
+  template: WorkoutTemplate;
+  onUse: (template: WorkoutTemplate) => void;
+  onEdit: (template: WorkoutTemplate) => void;
+  onDelete: (templateId: string) => void;
+}
+
+export default function WorkoutTemplateCard({
+  template,
+  onUse,
+  onEdit,
+  onDelete,
+}: WorkoutTemplateCardProps) {
+  const { unitSystem } = useUnits();
+  const totalSets = template.exercises.reduce((sum, e) => sum + e.targetSets, 0);
+
+  return (
+    <div className="p-4 bg-white dark:bg-zinc-800 border border-zinc-200 dark:border-zinc-700 rounded-lg">
+      <div className="flex items-start justify-between gap-3 mb-3">
+        <div className="flex-1 min-w-0">
+          <h3 className="font-semibold text-zinc-900 dark:text-zinc-100 truncate">
+            {template.name}
+          </h3>
+          {template.notes && (
+            <p className="mt-1 text-sm text-zinc-600 dark:text-zinc-400 line-clamp-2">
+              {template.notes}
+            </p>
+          )}
+        </div>
+        <span className="flex-shrink-0 px-2 py-0.5 bg-zinc-100 dark:bg-zinc-900 text-zinc-600 dark:text-zinc-400 rounded text-xs">
+          {template.exercises.length} exercises • {totalSets} sets
+        </span>
+      </div>
+
+      {/* Targets */}
+      <ul className="mb-3 space-y-1">
+        {template.exercises.map((e, index) => (
+          <li key={index} className="flex justify-between text-sm">
+            <span className="text-zinc-900 dark:text-zinc-100 truncate">{e.exercise}</span>
+            <span className="flex-shrink-0 text-zinc-500 dark:text-zinc-400">
+              {e.targetSets}×{e.targetReps}
+              {e.targetWeight ? ` @ ${displayWeight(e.targetWeight, unitSystem)}` : ''}
+            </span>
+          </li>
+        ))}
+      </ul>
+
+      {/* Actions */}
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => onUse(template)}
+          className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-zinc-900 dark:bg-zinc-100 text-white dark:text-zinc-900 rounded-lg hover:bg-zinc-800 dark:hover:bg-zinc-200 transition-colors text-sm font-medium"
+        >
+          <Play className="w-4 h-4" />
+          Start Workout
+        </button>
+        <button
+          onClick={() => onEdit(template)}
+          className="p-2 hover:bg-zinc-100 dark:hover:bg-zinc-700 rounded-lg transition-colors"
+          aria-label="Edit template"
+        >
+          <Edit className="w-4 h-4 text-zinc-600 dark:text-zinc-400" />
+        </button>
+        <button
+          onClick={() => onDelete(template.id)}
+          className="p-2 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+          aria-label="Delete template"
+        >
+          <Trash2 className="w-4 h-4 text-red-600 dark:text-red-400" />
+        </button>
+      </div>
+    </div>
+  );
+}
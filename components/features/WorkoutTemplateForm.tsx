@@ -0,0 +1,275 @@
+'use client';
+
+import { useState, FormEvent } from 'react';
+import { X, Plus, ChevronUp, ChevronDown, Trash2 } from 'lucide-react';
+import { WorkoutTemplate } from '@/lib/workoutTemplates';
+import { useUnits } from '@/components/providers/UnitProvider';
+import { weightUnit, weightToKg, getWeightInUnit } from '@/lib/utils/units';
+import ExerciseDatalist from '@/components/features/ExerciseDatalist';
+
+interface WorkoutTemplateFormProps {
+  onSubmit: (data: Omit<WorkoutTemplate, 'id' | 'createdAt' | 'updatedAt'>) => Promise<void>;
+  onCancel: () => void;
+  initialData?: WorkoutTemplate;
+  isLoading?: boolean;
+}
+
+interface ExerciseRow {
+  exercise: string;
+  targetSets: string;
+  targetReps: string;
+  targetWeight: string; // in the display unit
+}
+
+const emptyRow = (): ExerciseRow => ({
+  exercise: '',
+  targetSets: '3',
+  targetReps: '10',
+  targetWeight: '',
+});
+
+export default function WorkoutTemplateForm({
+  onSubmit,
+  onCancel,
+  initialData,
+  isLoading = false,
+}: WorkoutTemplateFormProps) {
+  const { unitSystem } = useUnits();
+  const [name, setName] = useState(initialData?.name || '');
+  const [notes, setNotes] = useState(initialData?.notes || '');
+  const [rows, setRows] = useState<ExerciseRow[]>(() =>
+    initialData?.exercises.length
+      ? initialData.exercises.map((e) => ({
+          exercise: e.exercise,
+          targetSets: String(e.targetSets),
+          targetReps: String(e.targetReps),
+          targetWeight: e.targetWeight ? String(getWeightInUnit(e.targetWeight, unitSystem)) : '',
+        }))
+      : [emptyRow()]
+  );
+  const [error, setError] = useState('');
+
+  const updateRow = (index: number, updates: Partial<ExerciseRow>) => {
+    setRows((prev) => prev.map((row, i) => (i === index ? { ...row, ...updates } : row)));
+  };
+
+  const moveRow = (index: number, direction: -1 | 1) => {
+    setRows((prev) => {
+      const target = index + direction;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    // Validation
+    if (!name.trim()) {
+      setError('Template name is required');
+      return;
+    }
+
+    const filled = rows.filter((row) => row.exercise.trim());
+    if (filled.length === 0) {
+      setError('Add at least one exercise');
+      return;
+    }
+
+    for (const row of filled) {
+      if (!(parseInt(row.targetSets) > 0) || !(parseInt(row.targetReps) > 0)) {
+        setError(`Sets and reps for ${row.exercise.trim()} must be greater than 0`);
+        return;
+      }
+    }
+
+    try {
+      await onSubmit({
+        name: name.trim(),
+        notes: notes.trim() || undefined,
+        exercises: filled.map((row) => ({
+          exercise: row.exercise.trim(),
+          targetSets: parseInt(row.targetSets),
+          targetReps: parseInt(row.targetReps),
+          targetWeight: row.targetWeight
+            ? weightToKg(parseFloat(row.targetWeight), unitSystem)
+            : undefined,
+        })),
+      });
+    } catch {
+      setError('Failed to save template');
+    }
+  };
+
+  const inputClass =
+    'w-full px-3 py-2 bg-white dark:bg-zinc-800 border border-zinc-200 dark:border-zinc-700 rounded-lg outline-none focus:border-[color:var(--foreground)]';
+
+  return (
+    <div className="w-full max-w-lg">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-xl font-semibold text-[color:var(--foreground)]">
+          {initialData ? 'Edit Template' : 'New Workout Template'}
+        </h2>
+        <button
+          onClick={onCancel}
+          className="p-2 hover:bg-zinc-100 dark:hover:bg-zinc-800 rounded-full transition-colors"
+        >
+          <X className="h-5 w-5" />
+        </button>
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        {/* Template Name */}
+        <div>
+          <label className="block text-sm font-medium text-[color:var(--foreground)] mb-2">
+            Template Name
+          </label>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g., Push Day, Squat 5/3/1"
+            className={inputClass}
+            required
+          />
+        </div>
+
+        {/* Exercises */}
+        <div className="space-y-2">
+          <div className="grid grid-cols-[1fr_3rem_3rem_4rem_3.5rem] gap-1 text-xs font-medium text-[color:var(--muted-foreground)]">
+            <span>Exercise</span>
+            <span>Sets</span>
+            <span>Reps</span>
+            <span>{weightUnit(unitSystem)}</span>
+            <span />
+          </div>
+          {rows.map((row, index) => (
+            <div
+              key={index}
+              className="grid grid-cols-[1fr_3rem_3rem_4rem_3.5rem] items-center gap-1"
+            >
+              <input
+                type="text"
+                list="template-exercise-options"
+                value={row.exercise}
+                onChange={(e) => updateRow(index, { exercise: e.target.value })}
+                placeholder="Exercise"
+                aria-label={`Exercise ${index + 1}`}
+                className={inputClass}
+              />
+              <input
+                type="number"
+                min="1"
+                value={row.targetSets}
+                onChange={(e) => updateRow(index, { targetSets: e.target.value })}
+                aria-label={`Exercise ${index + 1} sets`}
+                className={inputClass}
+              />
+              <input
+                type="number"
+                min="1"
+                value={row.targetReps}
+                onChange={(e) => updateRow(index, { targetReps: e.target.value })}
+                aria-label={`Exercise ${index + 1} reps`}
+                className={inputClass}
+              />
+              <input
+                type="number"
+                min="0"
+                step="0.5"
+                value={row.targetWeight}
+                onChange={(e) => updateRow(index, { targetWeight: e.target.value })}
+                placeholder="—"
+                aria-label={`Exercise ${index + 1} load`}
+                className={inputClass}
+              />
+              <div className="flex items-center">
+                <div className="flex flex-col">
+                  <button
+                    type="button"
+                    onClick={() => moveRow(index, -1)}
+                    disabled={index === 0}
+                    className="disabled:opacity-30"
+                    aria-label="Move up"
+                  >
+                    <ChevronUp className="h-3.5 w-3.5" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => moveRow(index, 1)}
+                    disabled={index === rows.length - 1}
+                    className="disabled:opacity-30"
+                    aria-label="Move down"
+                  >
+                    <ChevronDown className="h-3.5 w-3.5" />
+                  </button>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => setRows((prev) => prev.filter((_, i) => i !== index))}
+                  disabled={rows.length === 1}
+                  className="p-1 disabled:opacity-30"
+                  aria-label="Remove exercise"
+                >
+                  <Trash2 className="h-4 w-4 text-red-600 dark:text-red-400" />
+                </button>
+              </div>
+            </div>
+          ))}
+          <ExerciseDatalist id="template-exercise-options" />
+          <button
+            type="button"
+            onClick={() => setRows((prev) => [...prev, emptyRow()])}
+            className="flex items-center gap-1 text-sm font-medium text-[color:var(--muted-foreground)] hover:text-[color:var(--foreground)]"
+          >
+            <Plus className="h-4 w-4" />
+            Add exercise
+          </button>
+        </div>
+
+        {/* Notes */}
+        <div>
+          <label className="block text-sm font-medium text-[color:var(--foreground)] mb-2">
+            Notes (Optional)
+          </label>
+          <textarea
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Cues, tempo, warm-up..."
+            rows={2}
+            className={inputClass}
+          />
+        </div>
+
+        {/* Error Message */}
+        {error && (
+          <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-sm text-red-600 dark:text-red-400">
+            {error}
+          </div>
+        )}
+
+        {/* Actions */}
+        <div className="flex gap-3 pt-4">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="flex-1 px-6 py-3 border border-zinc-300 dark:border-zinc-600 text-[color:var(--foreground)] rounded-lg hover:bg-zinc-50 dark:hover:bg-zinc-800 transition-colors"
+            disabled={isLoading}
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            className="flex-1 px-6 py-3 bg-[color:var(--foreground)] text-[color:var(--background)] rounded-lg hover:opacity-90 transition-opacity disabled:opacity-50"
+            disabled={isLoading}
+          >
+            {isLoading ? 'Saving...' : initialData ? 'Update' : 'Create'} Template
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
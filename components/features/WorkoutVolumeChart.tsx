@@ -1,6 +1,7 @@
 'use client';
 
 import { Workout } from '@/lib/types/firestore';
+import { getWorkoutVolume } from '@/lib/utils/workoutSets';
 
 interface WorkoutVolumeChartProps {
   workouts: Workout[];
@@ -18,7 +19,7 @@ export function WorkoutVolumeChart({ workouts, days = 30 }: WorkoutVolumeChartPr
     );
   }
 
-  // Group workouts by date and calculate total volume (sets * reps * weight)
+  // Group workouts by date and calculate total volume (reps * weight per working set)
   const endDate = new Date();
   const startDate = new Date();
   startDate.setDate(startDate.getDate() - days);
@@ -36,7 +37,7 @@ export function WorkoutVolumeChart({ workouts, days = 30 }: WorkoutVolumeChartPr
     const workoutDate = new Date(workout.date);
     if (workoutDate >= startDate && workoutDate <= endDate) {
       const dateKey = workoutDate.toLocaleDateString([], { month: 'short', day: 'numeric' });
-      const volume = (workout.sets || 0) * (workout.reps || 0) * (workout.weight || 0);
+      const volume = getWorkoutVolume(workout);
       dailyVolume[dateKey] = (dailyVolume[dateKey] || 0) + volume;
     }
   });
@@ -109,7 +110,7 @@ export function WorkoutVolumeChart({ workouts, days = 30 }: WorkoutVolumeChartPr
       </div>
 
       <p className="text-xs text-center text-[color:var(--muted-foreground)]">
-        Last {Math.min(days, 14)} days • Volume = Sets × Reps × Weight
+        Last {Math.min(days, 14)} days • Volume = Reps × Weight per working set
       </p>
     </div>
   );
@@ -4,6 +4,9 @@ import { useEffect, useState } from 'react';
 import { useAuth } from '@/components/providers/AuthProvider';
 import { getNotifications, markAsRead, markAllAsRead } from '@/lib/notifications';
 import { Notification } from '@/lib/types/firestore';
+import { addToSyncQueue } from '@/lib/offline/offlineStore';
+import { useOffline } from '@/lib/hooks/useOffline';
+import { cacheGet, cacheSet } from '@/lib/cache';
 import NotificationItem from './NotificationItem';
 import { useRouter } from 'next/navigation';
 import { Bell } from 'lucide-react';
@@ -21,6 +24,12 @@ export default function NotificationPanel({
   const router = useRouter();
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [loading, setLoading] = useState(true);
+  const { isOnline, setUid } = useOffline();
+
+  // Set UID for sync manager
+  useEffect(() => {
+    if (user) setUid(user.uid);
+  }, [user, setUid]);
 
   // Fetch notifications on mount
   useEffect(() => {
@@ -40,18 +49,34 @@ export default function NotificationPanel({
     fetch();
   }, [user]);
 
+  // Offline: mark read locally, queue the change and keep the cached list and badge in step
+  const markReadOffline = async (uid: string, ids: string[]) => {
+    const readAt = new Date();
+    for (const id of ids) {
+      await addToSyncQueue(uid, 'update', 'notifications', id, { read: true, readAt });
+    }
+    const next = notifications.map((n) => (ids.includes(n.id) ? { ...n, read: true, readAt } : n));
+    setNotifications(next);
+    cacheSet(`notifications:${uid}:20`, next);
+    cacheSet(`unread:${uid}`, Math.max(0, (cacheGet<number>(`unread:${uid}`) ?? ids.length) - ids.length));
+  };
+
   const handleClick = async (notification: Notification) => {
     if (!user) return;
 
     // Mark as read
     if (!notification.read) {
       try {
-        await markAsRead(user.uid, notification.id);
-        setNotifications((prev) =>
-          prev.map((n) =>
-            n.id === notification.id ? { ...n, read: true, readAt: new Date() } : n
-          )
-        );
+        if (isOnline) {
+          await markAsRead(user.uid, notification.id);
+          setNotifications((prev) =>
+            prev.map((n) =>
+              n.id === notification.id ? { ...n, read: true, readAt: new Date() } : n
+            )
+          );
+        } else {
+          await markReadOffline(user.uid, [notification.id]);
+        }
         onReadChange();
       } catch {
         // non-critical
@@ -70,10 +95,17 @@ export default function NotificationPanel({
     if (!user) return;
 
     try {
-      await markAllAsRead(user.uid);
-      setNotifications((prev) =>
-        prev.map((n) => ({ ...n, read: true, readAt: new Date() }))
-      );
+      if (isOnline) {
+        await markAllAsRead(user.uid);
+        setNotifications((prev) =>
+          prev.map((n) => ({ ...n, read: true, readAt: new Date() }))
+        );
+      } else {
+        await markReadOffline(
+          user.uid,
+          notifications.filter((n) => !n.read).map((n) => n.id)
+        );
+      }
       onReadChange();
     } catch {
       // non-critical
@@ -1,16 +1,42 @@
 'use client';
 
+import { useEffect } from 'react';
+import Link from 'next/link';
+import { useAuth } from '@/components/providers/AuthProvider';
 import { useOffline } from '@/lib/hooks/useOffline';
-import { Wifi, WifiOff, RefreshCw, CloudOff } from 'lucide-react';
+import { Wifi, WifiOff, RefreshCw, CloudOff, GitCompare, AlertTriangle } from 'lucide-react';
 
 /**
  * Offline indicator showing connectivity status, sync state, and pending items
  */
 export function OfflineIndicator() {
-  const { isOnline, swWaitingReady, isSyncing, pendingCount, updateSW } = useOffline();
+  const { user } = useAuth();
+  const {
+    isOnline,
+    swWaitingReady,
+    isSyncing,
+    pendingCount,
+    conflictCount,
+    deadLetterCount,
+    updateSW,
+    setUid,
+    refreshPendingCount,
+  } = useOffline();
+
+  useEffect(() => {
+    setUid(user?.uid ?? null);
+    refreshPendingCount();
+  }, [user, setUid, refreshPendingCount]);
 
   // Don't show anything when online with nothing to report
-  if (isOnline && !swWaitingReady && !isSyncing && pendingCount === 0) {
+  if (
+    isOnline &&
+    !swWaitingReady &&
+    !isSyncing &&
+    pendingCount === 0 &&
+    conflictCount === 0 &&
+    deadLetterCount === 0
+  ) {
     return null;
   }
 
@@ -42,6 +68,32 @@ export function OfflineIndicator() {
         </div>
       )}
 
+      {/* Conflicts waiting for the user's choice */}
+      {!isSyncing && conflictCount > 0 && (
+        <Link
+          href="/account?tab=data"
+          className="bg-rose-600 text-white rounded-lg shadow-lg p-3 flex items-center gap-2 hover:bg-rose-700"
+        >
+          <GitCompare className="w-5 h-5 shrink-0" />
+          <span className="text-sm font-medium">
+            {conflictCount} sync conflict{conflictCount !== 1 ? 's' : ''} to review
+          </span>
+        </Link>
+      )}
+
+      {/* Changes that ran out of retries */}
+      {!isSyncing && deadLetterCount > 0 && (
+        <Link
+          href="/account?tab=data"
+          className="bg-red-600 text-white rounded-lg shadow-lg p-3 flex items-center gap-2 hover:bg-red-700"
+        >
+          <AlertTriangle className="w-5 h-5 shrink-0" />
+          <span className="text-sm font-medium">
+            {deadLetterCount} change{deadLetterCount !== 1 ? 's' : ''} failed to sync
+          </span>
+        </Link>
+      )}
+
       {/* Update available */}
       {swWaitingReady && (
         <div className="bg-blue-500 text-white rounded-lg shadow-lg p-3 flex items-center justify-between gap-2">
@@ -16,6 +16,8 @@ import { getMeals } from './meals';
 import { getErrorMessage } from './utils/errorMessages';
 import { getWeightLogs } from './weightLogs';
 import { cachedFetch, cacheInvalidate } from './cache';
+import { getHeaviestSet } from './utils/workoutSets';
+import { getExerciseKey } from './utils/exerciseResolver';
 
 /**
  * Achievements Service Layer
@@ -364,8 +366,10 @@ export async function gatherAchievementStats(uid: string): Promise<UserAchieveme
   const totalWorkouts = workouts.length;
   const workoutDates = workouts.map((w) => w.date);
   const { currentStreak, longestStreak } = calculateStreaks(workoutDates);
-  const uniqueExercises = new Set(workouts.map((w) => w.exercise.toLowerCase())).size;
-  const heaviestLift = workouts.reduce((max, w) => Math.max(max, w.weight || 0), 0);
+  const uniqueExercises = new Set(
+    workouts.flatMap((w) => w.exercises.filter((e) => e.exercise).map(getExerciseKey))
+  ).size;
+  const heaviestLift = workouts.reduce((max, w) => Math.max(max, getHeaviestSet(w)?.set.weight || 0), 0);
 
   // Meal stats
   const totalMeals = meals.length;
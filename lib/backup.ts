@@ -0,0 +1,214 @@
+import { db } from './firebase';
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  writeBatch,
+  DocumentData,
+  DocumentReference,
+  Timestamp,
+} from 'firebase/firestore';
+import { getErrorMessage } from './utils/errorMessages';
+import { cacheClear } from './cache';
+import {
+  AccountBackup,
+  BACKUP_COLLECTIONS,
+  BACKUP_COLLECTION_LABELS,
+  BACKUP_FORMAT,
+  BACKUP_VERSION,
+  BackupCollection,
+  BackupDocument,
+  applyBackupPreferences,
+  isBackupDate,
+  readBackupPreferences,
+} from './utils/backup';
+
+/**
+ * Account Backup Service Layer
+ * Snapshot every document stored for a user, and restore a snapshot by
+ * merging it into the account or replacing the account with it
+ */
+
+// Firestore allows at most 500 writes per batch
+const BATCH_LIMIT = 450;
+
+export type RestoreMode = 'merge' | 'replace';
+
+export interface RestoreResult {
+  written: number; // documents created or overwritten (profile included)
+  skipped: number; // already in the account (merge only)
+  deleted: number; // not in the backup (replace only)
+  preferences: number; // browser settings applied
+}
+
+// What was being read when a request failed, for the error message
+const describeRead = (name: BackupCollection | null) =>
+  name ? BACKUP_COLLECTION_LABELS[name].toLowerCase() : 'your profile';
+
+// Firestore values → JSON: timestamps become { $date }
+function toBackupValue(value: unknown): unknown {
+  if (value instanceof Timestamp) return { $date: value.toDate().toISOString() };
+  if (Array.isArray(value)) return value.map(toBackupValue);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, v]) => [key, toBackupValue(v)]));
+  }
+  return value;
+}
+
+// JSON → Firestore values: { $date } becomes a timestamp again
+function fromBackupValue(value: unknown): unknown {
+  if (isBackupDate(value)) return Timestamp.fromDate(new Date(value.$date));
+  if (Array.isArray(value)) return value.map(fromBackupValue);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, v]) => [key, fromBackupValue(v)]));
+  }
+  return value;
+}
+
+/**
+ * Everything stored for the user, ready to download as JSON
+ */
+export async function createBackup(uid: string): Promise<AccountBackup> {
+  let reading: BackupCollection | null = null;
+  try {
+    const profileSnap = await getDoc(doc(db, 'users', uid));
+    const collections: AccountBackup['collections'] = {};
+    for (const name of BACKUP_COLLECTIONS) {
+      reading = name;
+      const snapshot = await getDocs(collection(db, 'users', uid, name));
+      collections[name] = snapshot.docs.map(
+        (d) => ({ ...(toBackupValue(d.data()) as Record<string, unknown>), id: d.id }) as BackupDocument
+      );
+    }
+
+    return {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      exportDate: new Date().toISOString(),
+      profile: profileSnap.exists() ? (toBackupValue(profileSnap.data()) as Record<string, unknown>) : null,
+      collections,
+      preferences: readBackupPreferences(),
+    };
+  } catch (error) {
+    throw new Error(`Failed to back up ${describeRead(reading)}. ${getErrorMessage(error)}`);
+  }
+}
+
+interface Write {
+  ref: DocumentReference;
+  data: DocumentData | null; // null deletes
+  merge?: boolean;
+}
+
+async function commitWrites(writes: Write[], onCommitted?: (count: number) => void): Promise<void> {
+  for (let i = 0; i < writes.length; i += BATCH_LIMIT) {
+    const chunk = writes.slice(i, i + BATCH_LIMIT);
+    const batch = writeBatch(db);
+    for (const { ref, data, merge } of chunk) {
+      if (data === null) batch.delete(ref);
+      else batch.set(ref, data, { merge: !!merge });
+    }
+    await batch.commit();
+    onCommitted?.(chunk.length);
+  }
+}
+
+/**
+ * Restore a validated backup.
+ * - `merge` adds documents the account doesn't have (matched by id), fills
+ *   profile fields that are missing and keeps every setting already made here.
+ * - `replace` makes each backed-up collection match the backup exactly,
+ *   deleting documents that aren't in it, and overwrites the profile (except
+ *   the email) and preferences. Collections absent from the backup are kept.
+ * If a batch fails, the documents already changed are put back as they were.
+ */
+export async function restoreBackup(
+  uid: string,
+  backup: AccountBackup,
+  mode: RestoreMode,
+  onProgress?: (done: number, total: number) => void
+): Promise<RestoreResult> {
+  const writes: Write[] = [];
+  const undo: Write[] = [];
+  let skipped = 0;
+  let deleted = 0;
+  let reading: BackupCollection | null = null;
+
+  try {
+    for (const name of Object.keys(backup.collections) as BackupCollection[]) {
+      reading = name;
+      const documents = backup.collections[name] || [];
+      const snapshot = await getDocs(collection(db, 'users', uid, name));
+      const existing = new Map(snapshot.docs.map((d) => [d.id, d.data()]));
+
+      for (const { id, ...fields } of documents) {
+        if (mode === 'merge' && existing.has(id)) {
+          skipped++;
+          continue;
+        }
+        const ref = doc(db, 'users', uid, name, id);
+        writes.push({ ref, data: fromBackupValue(fields) as DocumentData });
+        undo.push({ ref, data: existing.get(id) ?? null });
+      }
+
+      if (mode === 'replace') {
+        const kept = new Set(documents.map((d) => d.id));
+        for (const [id, data] of existing) {
+          if (kept.has(id)) continue;
+          const ref = doc(db, 'users', uid, name, id);
+          writes.push({ ref, data: null });
+          undo.push({ ref, data });
+          deleted++;
+        }
+      }
+    }
+
+    if (backup.profile) {
+      reading = null;
+      const ref = doc(db, 'users', uid);
+      const current = await getDoc(ref);
+      const currentData = current.data() || {};
+      // The sign-in email belongs to this account, not to the backup
+      const { email, createdAt, ...fields } = fromBackupValue(backup.profile) as DocumentData;
+      const updates =
+        mode === 'replace'
+          ? fields
+          : Object.fromEntries(Object.entries(fields).filter(([key]) => currentData[key] === undefined));
+      if (!current.exists()) Object.assign(updates, { email: email ?? null, createdAt: createdAt ?? Timestamp.now() });
+
+      if (Object.keys(updates).length > 0) {
+        writes.push({ ref, data: { ...updates, updatedAt: Timestamp.now() }, merge: true });
+        undo.push({ ref, data: current.exists() ? currentData : null });
+      }
+    }
+  } catch (error) {
+    throw new Error(`Failed to read ${describeRead(reading)}. ${getErrorMessage(error)}`);
+  }
+
+  let done = 0;
+  onProgress?.(0, writes.length);
+  try {
+    await commitWrites(writes, (count) => {
+      done += count;
+      onProgress?.(done, writes.length);
+    });
+  } catch (error) {
+    const message = getErrorMessage(error, 'Failed to restore backup');
+    try {
+      await commitWrites(undo.slice(0, done));
+    } catch {
+      throw new Error(`${message}. Some changes could not be undone.`);
+    }
+    throw new Error(done > 0 ? `${message}. Changes were rolled back.` : message);
+  } finally {
+    cacheClear();
+  }
+
+  return {
+    written: writes.length - deleted,
+    skipped,
+    deleted,
+    preferences: applyBackupPreferences(backup.preferences, mode === 'replace'),
+  };
+}
@@ -75,6 +75,53 @@ export async function cachedFetch<T>(
   return data;
 }
 
+type CacheListener = (key: string) => void;
+
+const listeners = new Set<CacheListener>();
+
+/**
+ * Subscribe to entries rewritten in place (see `cacheRemapId`).
+ * Returns an unsubscribe function.
+ */
+export function cacheSubscribe(listener: CacheListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Copy of `value` with every `id: oldId` replaced; the same reference when nothing matched
+function remapIds(value: unknown, oldId: string, newId: string): unknown {
+  if (Array.isArray(value)) {
+    const mapped = value.map((item) => remapIds(item, oldId, newId));
+    return mapped.some((item, i) => item !== value[i]) ? mapped : value;
+  }
+  if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    let changed = false;
+    const mapped: Record<string, unknown> = {};
+    for (const [field, item] of Object.entries(value)) {
+      mapped[field] = field === 'id' && item === oldId ? newId : remapIds(item, oldId, newId);
+      if (mapped[field] !== item) changed = true;
+    }
+    return changed ? mapped : value;
+  }
+  return value;
+}
+
+/**
+ * Point cached documents at a new id, e.g. once a document created offline
+ * has been written to Firestore. Entries keep their age.
+ */
+export function cacheRemapId(oldId: string, newId: string): void {
+  for (const [key, entry] of store) {
+    const data = remapIds(entry.data, oldId, newId);
+    if (data !== entry.data) {
+      store.set(key, { ...entry, data });
+      listeners.forEach((listener) => listener(key));
+    }
+  }
+}
+
 /**
  * Clear the entire cache. Useful on logout.
  */
@@ -0,0 +1,182 @@
+import { db } from '@/lib/firebase';
+import {
+  collection,
+  addDoc,
+  getDocs,
+  updateDoc,
+  deleteDoc,
+  setDoc,
+  doc,
+  query,
+  orderBy,
+  Timestamp,
+} from 'firebase/firestore';
+import { Exercise, MuscleGroup, Equipment, normalizeExerciseName } from './data/exercises';
+import { getErrorMessage } from './utils/errorMessages';
+
+/**
+ * Custom Exercises
+ * User-created exercises (same shape as the built-in library) and aliases
+ * that map free-text workout exercise names onto a canonical exercise id.
+ */
+
+export type CustomExerciseData = Omit<Exercise, 'id' | 'isCustom' | 'isFavorite'>;
+
+type RawDoc = Record<string, unknown>;
+
+const stringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.map(String).filter(Boolean) : [];
+
+function toExercise(id: string, data: RawDoc): Exercise {
+  return {
+    id,
+    name: String(data.name || ''),
+    category: (data.category as Exercise['category']) || 'strength',
+    muscleGroups: stringList(data.muscleGroups) as MuscleGroup[],
+    equipment: stringList(data.equipment) as Equipment[],
+    difficulty: (data.difficulty as Exercise['difficulty']) || 'beginner',
+    description: String(data.description || ''),
+    instructions: stringList(data.instructions),
+    tips: data.tips ? stringList(data.tips) : undefined,
+    videoUrl: typeof data.videoUrl === 'string' && data.videoUrl ? data.videoUrl : undefined,
+    isCustom: true,
+  };
+}
+
+/** Strip undefined values so an exercise can be written to Firestore */
+function serializeExercise(data: Partial<CustomExerciseData>): RawDoc {
+  const out: RawDoc = {};
+  for (const [key, value] of Object.entries(data)) {
+    out[key] = value === undefined ? null : value;
+  }
+  if (typeof data.name === 'string') out.name = data.name.trim();
+  return out;
+}
+
+// ============================================================
+// CUSTOM EXERCISES
+// ============================================================
+
+/**
+ * Add a custom exercise
+ */
+export async function addCustomExercise(uid: string, data: CustomExerciseData): Promise<string> {
+  try {
+    const exercisesRef = collection(db, 'users', uid, 'customExercises');
+    const docRef = await addDoc(exercisesRef, {
+      ...serializeExercise(data),
+      createdAt: Timestamp.now(),
+      updatedAt: Timestamp.now(),
+    });
+    return docRef.id;
+  } catch (error) {
+    console.error('Error adding custom exercise:', error);
+    throw new Error(getErrorMessage(error, 'Failed to add exercise'));
+  }
+}
+
+/**
+ * Get all custom exercises for a user, sorted by name
+ */
+export async function getCustomExercises(uid: string): Promise<Exercise[]> {
+  try {
+    const exercisesRef = collection(db, 'users', uid, 'customExercises');
+    const q = query(exercisesRef, orderBy('name', 'asc'));
+    const snapshot = await getDocs(q);
+
+    return snapshot.docs.map((doc) => toExercise(doc.id, doc.data()));
+  } catch (error) {
+    console.error('Error fetching custom exercises:', error);
+    throw new Error(getErrorMessage(error, 'Failed to fetch exercises'));
+  }
+}
+
+/**
+ * Update a custom exercise
+ */
+export async function updateCustomExercise(
+  uid: string,
+  exerciseId: string,
+  updates: Partial<CustomExerciseData>
+): Promise<void> {
+  try {
+    const exerciseRef = doc(db, 'users', uid, 'customExercises', exerciseId);
+    await updateDoc(exerciseRef, {
+      ...serializeExercise(updates),
+      updatedAt: Timestamp.now(),
+    });
+  } catch (error) {
+    console.error('Error updating custom exercise:', error);
+    throw new Error(getErrorMessage(error, 'Failed to update exercise'));
+  }
+}
+
+/**
+ * Delete a custom exercise
+ */
+export async function deleteCustomExercise(uid: string, exerciseId: string): Promise<void> {
+  try {
+    const exerciseRef = doc(db, 'users', uid, 'customExercises', exerciseId);
+    await deleteDoc(exerciseRef);
+  } catch (error) {
+    console.error('Error deleting custom exercise:', error);
+    throw new Error(getErrorMessage(error, 'Failed to delete exercise'));
+  }
+}
+
+// ============================================================
+// NAME ALIASES
+// ============================================================
+
+// Firestore document ids cannot contain '/'
+const aliasDocId = (name: string) => encodeURIComponent(normalizeExerciseName(name));
+
+/**
+ * Get all name aliases as normalized name → exercise id
+ */
+export async function getExerciseAliases(uid: string): Promise<Record<string, string>> {
+  try {
+    const aliasesRef = collection(db, 'users', uid, 'exerciseAliases');
+    const snapshot = await getDocs(aliasesRef);
+
+    const aliases: Record<string, string> = {};
+    snapshot.docs.forEach((aliasDoc) => {
+      const data = aliasDoc.data();
+      aliases[normalizeExerciseName(String(data.name || ''))] = String(data.exerciseId || '');
+    });
+    return aliases;
+  } catch (error) {
+    console.error('Error fetching exercise aliases:', error);
+    throw new Error(getErrorMessage(error, 'Failed to fetch exercise aliases'));
+  }
+}
+
+/**
+ * Map a free-text exercise name onto a library exercise id
+ */
+export async function setExerciseAlias(uid: string, name: string, exerciseId: string): Promise<void> {
+  try {
+    const aliasRef = doc(db, 'users', uid, 'exerciseAliases', aliasDocId(name));
+    await setDoc(aliasRef, {
+      name: name.trim(),
+      exerciseId,
+      updatedAt: Timestamp.now(),
+    });
+  } catch (error) {
+    console.error('Error saving exercise alias:', error);
+    throw new Error(getErrorMessage(error, 'Failed to save exercise mapping'));
+  }
+}
+
+/**
+ * Remove a name alias
+ */
+export async function deleteExerciseAlias(uid: string, name: string): Promise<void> {
+  try {
+    const aliasRef = doc(db, 'users', uid, 'exerciseAliases', aliasDocId(name));
+    await deleteDoc(aliasRef);
+  } catch (error) {
+    console.error('Error deleting exercise alias:', error);
+    throw new Error(getErrorMessage(error, 'Failed to delete exercise mapping'));
+  }
+}
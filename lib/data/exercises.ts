@@ -15,6 +15,7 @@ export interface Exercise {
   tips?: string[];
   videoUrl?: string;
   isFavorite?: boolean;
+  isCustom?: boolean; // user-created, stored in users/{uid}/customExercises
 }
 
 export type MuscleGroup =
@@ -407,42 +408,84 @@ export const EXERCISE_DATABASE: Exercise[] = [
   },
 ];
 
+// ============================================================
+// USER LIBRARY
+// ============================================================
+
+// Custom exercises and free-text name aliases for the signed-in user.
+// Populated by useExerciseLibrary so non-React callers see the merged library.
+let customExercises: Exercise[] = [];
+let exerciseAliases: Record<string, string> = {}; // normalized name → exercise id
+
+/** Normalize a free-text exercise name for matching */
+export function normalizeExerciseName(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Replace the user's custom exercises and aliases in the shared library
+ */
+export function setUserExerciseLibrary(
+  custom: Exercise[],
+  aliases: Record<string, string> = {}
+): void {
+  customExercises = custom;
+  exerciseAliases = aliases;
+}
+
+/** Built-in exercises followed by the user's custom exercises */
+export function getAllExercises(): Exercise[] {
+  return customExercises.length ? [...EXERCISE_DATABASE, ...customExercises] : EXERCISE_DATABASE;
+}
+
 /**
  * Get exercises by muscle group
  */
-export function getExercisesByMuscleGroup(muscleGroup: MuscleGroup): Exercise[] {
-  return EXERCISE_DATABASE.filter((ex) => ex.muscleGroups.includes(muscleGroup));
+export function getExercisesByMuscleGroup(
+  muscleGroup: MuscleGroup,
+  library: Exercise[] = getAllExercises()
+): Exercise[] {
+  return library.filter((ex) => ex.muscleGroups.includes(muscleGroup));
 }
 
 /**
  * Get exercises by category
  */
-export function getExercisesByCategory(category: Exercise['category']): Exercise[] {
-  return EXERCISE_DATABASE.filter((ex) => ex.category === category);
+export function getExercisesByCategory(
+  category: Exercise['category'],
+  library: Exercise[] = getAllExercises()
+): Exercise[] {
+  return library.filter((ex) => ex.category === category);
 }
 
 /**
  * Get exercises by difficulty
  */
-export function getExercisesByDifficulty(difficulty: Exercise['difficulty']): Exercise[] {
-  return EXERCISE_DATABASE.filter((ex) => ex.difficulty === difficulty);
+export function getExercisesByDifficulty(
+  difficulty: Exercise['difficulty'],
+  library: Exercise[] = getAllExercises()
+): Exercise[] {
+  return library.filter((ex) => ex.difficulty === difficulty);
 }
 
 /**
  * Get exercises by equipment
  */
-export function getExercisesByEquipment(equipment: Equipment): Exercise[] {
-  return EXERCISE_DATABASE.filter((ex) => ex.equipment.includes(equipment));
+export function getExercisesByEquipment(
+  equipment: Equipment,
+  library: Exercise[] = getAllExercises()
+): Exercise[] {
+  return library.filter((ex) => ex.equipment.includes(equipment));
 }
 
 /**
  * Search exercises by name
  */
-export function searchExercises(query: string): Exercise[] {
-  if (!query.trim()) return EXERCISE_DATABASE;
+export function searchExercises(query: string, library: Exercise[] = getAllExercises()): Exercise[] {
+  if (!query.trim()) return library;
 
   const lowerQuery = query.toLowerCase();
-  return EXERCISE_DATABASE.filter((ex) =>
+  return library.filter((ex) =>
     ex.name.toLowerCase().includes(lowerQuery) ||
     ex.description.toLowerCase().includes(lowerQuery) ||
     ex.muscleGroups.some((mg) => mg.includes(lowerQuery))
@@ -452,6 +495,22 @@ export function searchExercises(query: string): Exercise[] {
 /**
  * Get exercise by ID
  */
-export function getExerciseById(id: string): Exercise | undefined {
-  return EXERCISE_DATABASE.find((ex) => ex.id === id);
+export function getExerciseById(id: string, library: Exercise[] = getAllExercises()): Exercise | undefined {
+  return library.find((ex) => ex.id === id);
+}
+
+/**
+ * Resolve a free-text name to a library exercise by exact name or saved alias
+ */
+export function findExerciseByName(
+  name: string,
+  library: Exercise[] = getAllExercises(),
+  aliases: Record<string, string> = exerciseAliases
+): Exercise | undefined {
+  const key = normalizeExerciseName(name);
+  if (!key) return undefined;
+  const byName = library.find((ex) => normalizeExerciseName(ex.name) === key);
+  if (byName) return byName;
+  const aliasId = aliases[key];
+  return aliasId ? library.find((ex) => ex.id === aliasId) : undefined;
 }
@@ -0,0 +1,210 @@
+import { Nutrients } from '@/lib/types/firestore';
+
+/**
+ * Food Database
+ * Bundled offline nutrition data (per 100 g, approximate USDA values) so
+ * meals can be built from foods without a network lookup.
+ */
+
+export type FoodCategory =
+  | 'protein'
+  | 'dairy'
+  | 'grains'
+  | 'fruit'
+  | 'vegetables'
+  | 'legumes'
+  | 'fats'
+  | 'drinks'
+  | 'snacks';
+
+export interface FoodServing {
+  label: string; // e.g. "cup", "slice", "medium"
+  grams: number;
+}
+
+export interface Food {
+  id: string;
+  name: string;
+  category: FoodCategory;
+  per100g: Nutrients;
+  servings: FoodServing[]; // common household measures; grams are always available
+  brand?: string;
+  barcode?: string; // EAN-13/EAN-8, for packaged products
+  isCustom?: boolean; // scanned or entered product saved on this device
+}
+
+// Column order for the compact table below
+type NutrientRow = [
+  calories: number,
+  protein: number,
+  carbs: number,
+  fat: number,
+  saturatedFat: number,
+  fiber: number,
+  sugar: number,
+  sodium: number,
+  potassium: number,
+  calcium: number,
+  iron: number,
+  vitaminC: number,
+  vitaminD: number,
+];
+
+function food(
+  id: string,
+  name: string,
+  category: FoodCategory,
+  servings: FoodServing[],
+  row: NutrientRow
+): Food {
+  const [calories, protein, carbs, fat, saturatedFat, fiber, sugar, sodium, potassium, calcium, iron, vitaminC, vitaminD] =
+    row;
+  return {
+    id,
+    name,
+    category,
+    servings,
+    per100g: {
+      calories,
+      protein,
+      carbs,
+      fat,
+      saturatedFat,
+      fiber,
+      sugar,
+      sodium,
+      potassium,
+      calcium,
+      iron,
+      vitaminC,
+      vitaminD,
+    },
+  };
+}
+
+export const FOOD_DATABASE: Food[] = [
+  // PROTEIN
+  food('chicken-breast', 'Chicken Breast (cooked)', 'protein', [{ label: 'breast', grams: 172 }], [165, 31, 0, 3.6, 1, 0, 0, 74, 256, 15, 1, 0, 0.1]),
+  food('chicken-thigh', 'Chicken Thigh (cooked)', 'protein', [{ label: 'thigh', grams: 116 }], [209, 26, 0, 10.9, 3, 0, 0, 95, 240, 12, 1.3, 0, 0.1]),
+  food('ground-beef', 'Ground Beef 90% lean (cooked)', 'protein', [{ label: 'patty', grams: 113 }], [217, 26, 0, 11.7, 4.6, 0, 0, 72, 343, 18, 2.7, 0, 0.1]),
+  food('sirloin-steak', 'Sirloin Steak (cooked)', 'protein', [{ label: 'steak', grams: 200 }], [206, 30, 0, 9, 3.5, 0, 0, 56, 350, 20, 2.1, 0, 0.1]),
+  food('salmon', 'Salmon (cooked)', 'protein', [{ label: 'fillet', grams: 154 }], [206, 22, 0, 12.4, 2.5, 0, 0, 61, 384, 15, 0.3, 0, 13.1]),
+  food('tuna-canned', 'Tuna, canned in water', 'protein', [{ label: 'can', grams: 142 }], [116, 25.5, 0, 0.8, 0.2, 0, 0, 338, 237, 14, 1.5, 0, 1.7]),
+  food('shrimp', 'Shrimp (cooked)', 'protein', [{ label: 'cup', grams: 145 }], [99, 24, 0.2, 0.3, 0.1, 0, 0, 111, 259, 70, 0.5, 0, 0]),
+  food('egg', 'Egg', 'protein', [{ label: 'large', grams: 50 }], [143, 12.6, 0.7, 9.5, 3.1, 0, 0.4, 142, 138, 56, 1.8, 0, 2]),
+  food('egg-white', 'Egg White', 'protein', [{ label: 'large', grams: 33 }], [52, 10.9, 0.7, 0.2, 0, 0, 0.7, 166, 163, 7, 0.1, 0, 0]),
+  food('tofu', 'Tofu, firm', 'protein', [{ label: 'cup', grams: 126 }], [144, 17.3, 2.8, 8.7, 1.3, 2.3, 0.6, 14, 237, 683, 2.7, 0.2, 0]),
+  food('whey-protein', 'Whey Protein Powder', 'protein', [{ label: 'scoop', grams: 30 }], [400, 80, 8, 6, 3, 0, 5, 200, 500, 400, 1, 0, 0]),
+
+  // DAIRY
+  food('milk-2', 'Milk, 2%', 'dairy', [{ label: 'cup', grams: 244 }], [50, 3.3, 4.8, 2, 1.3, 0, 5.1, 44, 150, 120, 0, 0, 1.2]),
+  food('greek-yogurt', 'Greek Yogurt, plain nonfat', 'dairy', [{ label: 'container', grams: 170 }], [59, 10.2, 3.6, 0.4, 0.1, 0, 3.2, 36, 141, 110, 0.1, 0, 0]),
+  food('cottage-cheese', 'Cottage Cheese, 2%', 'dairy', [{ label: 'cup', grams: 226 }], [84, 11, 4.3, 2.3, 1.4, 0, 4, 308, 125, 111, 0.2, 0, 0]),
+  food('cheddar', 'Cheddar Cheese', 'dairy', [{ label: 'slice', grams: 28 }], [403, 23, 3.1, 33, 19, 0, 0.5, 653, 76, 710, 0.1, 0, 0.6]),
+
+  // GRAINS & STARCHES
+  food('white-rice', 'White Rice (cooked)', 'grains', [{ label: 'cup', grams: 158 }], [130, 2.7, 28.2, 0.3, 0.1, 0.4, 0.1, 1, 35, 10, 0.2, 0, 0]),
+  food('brown-rice', 'Brown Rice (cooked)', 'grains', [{ label: 'cup', grams: 195 }], [123, 2.7, 25.6, 1, 0.3, 1.6, 0.2, 4, 86, 3, 0.6, 0, 0]),
+  food('oats', 'Rolled Oats (dry)', 'grains', [{ label: '½ cup', grams: 40 }], [379, 13.2, 67.7, 6.5, 1.1, 10.1, 1, 6, 362, 52, 4.3, 0, 0]),
+  food('pasta', 'Pasta (cooked)', 'grains', [{ label: 'cup', grams: 140 }], [158, 5.8, 30.9, 0.9, 0.2, 1.8, 0.6, 1, 44, 7, 1.3, 0, 0]),
+  food('whole-wheat-bread', 'Whole Wheat Bread', 'grains', [{ label: 'slice', grams: 32 }], [252, 12.5, 42.7, 3.5, 0.7, 6, 4.4, 450, 250, 161, 2.5, 0, 0]),
+  food('white-bread', 'White Bread', 'grains', [{ label: 'slice', grams: 25 }], [266, 8.9, 49, 3.3, 0.7, 2.7, 5.7, 490, 115, 151, 3.7, 0, 0]),
+  food('quinoa', 'Quinoa (cooked)', 'grains', [{ label: 'cup', grams: 185 }], [120, 4.4, 21.3, 1.9, 0.2, 2.8, 0.9, 7, 172, 17, 1.5, 0, 0]),
+  food('sweet-potato', 'Sweet Potato (baked)', 'grains', [{ label: 'medium', grams: 114 }], [90, 2, 20.7, 0.2, 0.1, 3.3, 6.5, 36, 475, 38, 0.7, 19.6, 0]),
+  food('potato', 'Potato (baked)', 'grains', [{ label: 'medium', grams: 173 }], [93, 2.5, 21.2, 0.1, 0, 2.2, 1.2, 10, 535, 15, 1.1, 9.6, 0]),
+
+  // FRUIT
+  food('banana', 'Banana', 'fruit', [{ label: 'medium', grams: 118 }], [89, 1.1, 22.8, 0.3, 0.1, 2.6, 12.2, 1, 358, 5, 0.3, 8.7, 0]),
+  food('apple', 'Apple', 'fruit', [{ label: 'medium', grams: 182 }], [52, 0.3, 13.8, 0.2, 0, 2.4, 10.4, 1, 107, 6, 0.1, 4.6, 0]),
+  food('orange', 'Orange', 'fruit', [{ label: 'medium', grams: 131 }], [47, 0.9, 11.8, 0.1, 0, 2.4, 9.4, 0, 181, 40, 0.1, 53.2, 0]),
+  food('blueberries', 'Blueberries', 'fruit', [{ label: 'cup', grams: 148 }], [57, 0.7, 14.5, 0.3, 0, 2.4, 10, 1, 77, 6, 0.3, 9.7, 0]),
+  food('strawberries', 'Strawberries', 'fruit', [{ label: 'cup', grams: 152 }], [32, 0.7, 7.7, 0.3, 0, 2, 4.9, 1, 153, 16, 0.4, 58.8, 0]),
+  food('avocado', 'Avocado', 'fruit', [{ label: 'half', grams: 75 }], [160, 2, 8.5, 14.7, 2.1, 6.7, 0.7, 7, 485, 12, 0.6, 10, 0]),
+
+  // VEGETABLES
+  food('broccoli', 'Broccoli (cooked)', 'vegetables', [{ label: 'cup', grams: 156 }], [35, 2.4, 7.2, 0.4, 0.1, 3.3, 1.4, 41, 293, 40, 0.7, 64.9, 0]),
+  food('spinach', 'Spinach (raw)', 'vegetables', [{ label: 'cup', grams: 30 }], [23, 2.9, 3.6, 0.4, 0.1, 2.2, 0.4, 79, 558, 99, 2.7, 28.1, 0]),
+  food('carrot', 'Carrot', 'vegetables', [{ label: 'medium', grams: 61 }], [41, 0.9, 9.6, 0.2, 0, 2.8, 4.7, 69, 320, 33, 0.3, 5.9, 0]),
+  food('tomato', 'Tomato', 'vegetables', [{ label: 'medium', grams: 123 }], [18, 0.9, 3.9, 0.2, 0, 1.2, 2.6, 5, 237, 10, 0.3, 13.7, 0]),
+  food('bell-pepper', 'Red Bell Pepper', 'vegetables', [{ label: 'medium', grams: 119 }], [31, 1, 6, 0.3, 0, 2.1, 4.2, 4, 211, 7, 0.4, 127.7, 0]),
+
+  // LEGUMES
+  food('black-beans', 'Black Beans (cooked)', 'legumes', [{ label: 'cup', grams: 172 }], [132, 8.9, 23.7, 0.5, 0.1, 8.7, 0.3, 1, 355, 27, 2.1, 0, 0]),
+  food('lentils', 'Lentils (cooked)', 'legumes', [{ label: 'cup', grams: 198 }], [116, 9, 20.1, 0.4, 0.1, 7.9, 1.8, 2, 369, 19, 3.3, 1.5, 0]),
+  food('chickpeas', 'Chickpeas (cooked)', 'legumes', [{ label: 'cup', grams: 164 }], [164, 8.9, 27.4, 2.6, 0.3, 7.6, 4.8, 7, 291, 49, 2.9, 1.3, 0]),
+  food('hummus', 'Hummus', 'legumes', [{ label: 'tbsp', grams: 15 }], [166, 7.9, 14.3, 9.6, 1.4, 6, 0.3, 379, 228, 38, 2.4, 0, 0]),
+
+  // FATS & NUTS
+  food('olive-oil', 'Olive Oil', 'fats', [{ label: 'tbsp', grams: 13.5 }], [884, 0, 0, 100, 13.8, 0, 0, 2, 1, 1, 0.6, 0, 0]),
+  food('butter', 'Butter', 'fats', [{ label: 'tbsp', grams: 14 }], [717, 0.9, 0.1, 81, 51, 0, 0.1, 643, 24, 24, 0, 0, 1.5]),
+  food('peanut-butter', 'Peanut Butter', 'fats', [{ label: 'tbsp', grams: 16 }], [588, 25, 20, 50, 10.1, 6, 9.2, 459, 649, 49, 1.9, 0, 0]),
+  food('almonds', 'Almonds', 'fats', [{ label: 'oz', grams: 28 }], [579, 21.2, 21.6, 49.9, 3.8, 12.5, 4.4, 1, 733, 269, 3.7, 0, 0]),
+
+  // DRINKS
+  food('orange-juice', 'Orange Juice', 'drinks', [{ label: 'cup', grams: 248 }], [45, 0.7, 10.4, 0.2, 0, 0.2, 8.4, 1, 200, 11, 0.2, 50, 0]),
+  food('coffee', 'Coffee, black', 'drinks', [{ label: 'cup', grams: 237 }], [1, 0.1, 0, 0, 0, 0, 0, 2, 49, 2, 0, 0, 0]),
+
+  // SNACKS
+  food('dark-chocolate', 'Dark Chocolate 70–85%', 'snacks', [{ label: 'square', grams: 10 }], [598, 7.8, 45.9, 42.6, 24.5, 10.9, 24, 20, 715, 73, 11.9, 0, 0]),
+  food('honey', 'Honey', 'snacks', [{ label: 'tbsp', grams: 21 }], [304, 0.3, 82.4, 0, 0, 0.2, 82.1, 4, 52, 6, 0.4, 0.5, 0]),
+  food('pizza', 'Cheese Pizza', 'snacks', [{ label: 'slice', grams: 107 }], [266, 11.4, 33.3, 9.7, 4.5, 2.3, 3.6, 598, 172, 188, 2.5, 1.4, 0]),
+];
+
+// ============================================================
+// USER FOODS
+// ============================================================
+
+// Packaged products saved on this device (see lib/services/productCatalog).
+// Populated by the meal form so lookups below see the merged library.
+let userFoods: Food[] = [];
+
+export function setUserFoods(foods: Food[]): void {
+  userFoods = foods;
+}
+
+/** Bundled foods plus saved products */
+export function getAllFoods(): Food[] {
+  return userFoods.length ? [...FOOD_DATABASE, ...userFoods] : FOOD_DATABASE;
+}
+
+/**
+ * Get food by ID
+ */
+export function getFoodById(id: string, library: Food[] = getAllFoods()): Food | undefined {
+  return library.find((f) => f.id === id);
+}
+
+/**
+ * Search foods by name, brand or category; matches at the start of the name,
+ * then at the start of a word, rank first
+ */
+export function searchFoods(query: string, max = 8, library: Food[] = getAllFoods()): Food[] {
+  const q = query.trim().toLowerCase();
+  if (!q) return [];
+  const matches = library.filter(
+    (f) =>
+      f.name.toLowerCase().includes(q) ||
+      f.category.includes(q) ||
+      !!f.brand?.toLowerCase().includes(q)
+  );
+  const rank = (f: Food) => {
+    const name = f.name.toLowerCase();
+    if (name.startsWith(q)) return 0;
+    return name.split(/[\s(,]+/).some((word) => word.startsWith(q)) ? 1 : 2;
+  };
+  return matches.sort((a, b) => rank(a) - rank(b)).slice(0, max);
+}
+
+/**
+ * Nutrients for an amount of food in grams, rounded to 0.1
+ */
+export function calculateNutrients(food: Food, grams: number): Nutrients {
+  const factor = grams / 100;
+  const result = {} as Nutrients;
+  for (const [key, value] of Object.entries(food.per100g) as [keyof Nutrients, number | undefined][]) {
+    if (value === undefined) continue;
+    result[key] = Math.round(value * factor * 10) / 10;
+  }
+  result.calories = Math.round(food.per100g.calories * factor);
+  return result;
+}
@@ -0,0 +1,121 @@
+import { db } from './firebase';
+import { collection, doc, writeBatch, DocumentReference } from 'firebase/firestore';
+import { getErrorMessage } from './utils/errorMessages';
+import { cacheInvalidate } from './cache';
+import { getWorkoutsByDateRange, toWorkoutDocument } from './workouts';
+import { getMealsByDateRange, toMealDocument } from './meals';
+import { getWeightLogsByDateRange, toWeightLogDocument } from './weightLogs';
+import {
+  ImportDraft,
+  ImportDrafts,
+  ImportKind,
+  MealDraft,
+  WeightLogDraft,
+  WorkoutDraft,
+  importFingerprint,
+} from './utils/import';
+
+/**
+ * Data Import Service Layer
+ * Duplicate lookup against existing documents and batched import writes
+ */
+
+// Firestore allows at most 500 writes per batch
+const BATCH_LIMIT = 450;
+
+const IMPORT_ORDER: ImportKind[] = ['workouts', 'meals', 'weightLogs'];
+
+/**
+ * Fingerprints of the user's documents in the date span of `records`
+ */
+export async function getExistingFingerprints(
+  uid: string,
+  kind: ImportKind,
+  records: ImportDraft[]
+): Promise<Set<string>> {
+  if (records.length === 0) return new Set();
+
+  try {
+    // A loop, not Math.min(...times): large imports would overflow the call stack
+    let first = Infinity;
+    let last = -Infinity;
+    for (const record of records) {
+      const time = new Date(record.date).getTime();
+      if (time < first) first = time;
+      if (time > last) last = time;
+    }
+    const start = new Date(first);
+    start.setHours(0, 0, 0, 0);
+    const end = new Date(last);
+    end.setHours(23, 59, 59, 999);
+
+    const existing: ImportDraft[] =
+      kind === 'workouts'
+        ? await getWorkoutsByDateRange(uid, start, end)
+        : kind === 'meals'
+          ? await getMealsByDateRange(uid, start, end, true)
+          : await getWeightLogsByDateRange(uid, start, end);
+
+    return new Set(existing.map((record) => importFingerprint(kind, record)));
+  } catch (error) {
+    throw new Error(getErrorMessage(error, 'Failed to check for duplicates'));
+  }
+}
+
+function toDocument(kind: ImportKind, record: ImportDraft) {
+  switch (kind) {
+    case 'workouts':
+      return toWorkoutDocument(record as WorkoutDraft);
+    case 'meals':
+      return toMealDocument(record as MealDraft);
+    case 'weightLogs':
+      return toWeightLogDocument(record as WeightLogDraft);
+  }
+}
+
+/**
+ * Write imported records in batches. If any batch fails, every document
+ * already written by this import is deleted again so nothing half-imported
+ * is left behind. Returns the number of documents written.
+ */
+export async function importRecords(
+  uid: string,
+  drafts: Partial<ImportDrafts>,
+  onProgress?: (done: number, total: number) => void
+): Promise<number> {
+  const writes = IMPORT_ORDER.flatMap((kind) =>
+    ((drafts[kind] || []) as ImportDraft[]).map((record) => ({
+      ref: doc(collection(db, 'users', uid, kind)),
+      data: toDocument(kind, record),
+    }))
+  );
+  const written: DocumentReference[] = [];
+  onProgress?.(0, writes.length);
+
+  try {
+    for (let i = 0; i < writes.length; i += BATCH_LIMIT) {
+      const chunk = writes.slice(i, i + BATCH_LIMIT);
+      const batch = writeBatch(db);
+      for (const { ref, data } of chunk) batch.set(ref, data);
+      await batch.commit();
+      written.push(...chunk.map((w) => w.ref));
+      onProgress?.(written.length, writes.length);
+    }
+  } catch (error) {
+    const message = getErrorMessage(error, 'Failed to import data');
+    try {
+      for (let i = 0; i < written.length; i += BATCH_LIMIT) {
+        const batch = writeBatch(db);
+        for (const ref of written.slice(i, i + BATCH_LIMIT)) batch.delete(ref);
+        await batch.commit();
+      }
+    } catch {
+      throw new Error(`${message}. ${written.length} imported records could not be rolled back.`);
+    }
+    throw new Error(written.length > 0 ? `${message}. Imported records were rolled back.` : message);
+  } finally {
+    cacheInvalidate(`workouts:${uid}`, `meals:${uid}`, `weightLogs:${uid}`, `stats:${uid}`, `recent:${uid}`);
+  }
+
+  return written.length;
+}
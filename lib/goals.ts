@@ -194,7 +194,8 @@ export async function calculateGoalProgress(
     currentWeight?: number;
     weeklyWorkouts?: number;
     dailyCalories?: number;
-    dailyMacros?: { protein: number; carbs: number; fat: number };
+    dailyMacros?: { protein: number; carbs: number; fat: number; fiber?: number };
+    dailyWater?: number; // ml
   }
 ): Promise<number> {
   try {
@@ -226,11 +227,19 @@ export async function calculateGoalProgress(
         if (goal.targetFat) {
           macroProgress.push(Math.min((currentStats.dailyMacros.fat / goal.targetFat) * 100, 100));
         }
+        // Sugar, saturated fat and sodium are limits, not amounts to reach
+        if (goal.targetFiber) {
+          macroProgress.push(Math.min(((currentStats.dailyMacros.fiber || 0) / goal.targetFiber) * 100, 100));
+        }
         
         return macroProgress.length > 0
           ? macroProgress.reduce((sum, p) => sum + p, 0) / macroProgress.length
           : 0;
 
+      case 'hydration':
+        if (!goal.targetWaterPerDay || !currentStats.dailyWater) return 0;
+        return Math.min((currentStats.dailyWater / goal.targetWaterPerDay) * 100, 100);
+
       default:
         return 0;
     }
@@ -239,3 +248,42 @@ export async function calculateGoalProgress(
     return 0;
   }
 }
+
+/** Daily nutrition targets collected from active calorie, macro and hydration goals */
+export interface DailyNutritionTargets {
+  calories?: number;
+  protein?: number; // g
+  carbs?: number; // g
+  fat?: number; // g
+  fiber?: number; // g, minimum
+  sugar?: number; // g, maximum
+  saturatedFat?: number; // g, maximum
+  sodium?: number; // mg, maximum
+  water?: number; // ml
+}
+
+/**
+ * Merge the targets of active nutrition goals (newest goal wins when two
+ * set the same target)
+ */
+export function getDailyNutritionTargets(goals: Goal[]): DailyNutritionTargets {
+  const targets: DailyNutritionTargets = {};
+  const active = goals
+    .filter((g) => g.status === 'active')
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+
+  for (const goal of active) {
+    if (goal.type === 'calories' && goal.targetCaloriesPerDay) targets.calories = goal.targetCaloriesPerDay;
+    if (goal.type === 'macros') {
+      if (goal.targetProtein) targets.protein = goal.targetProtein;
+      if (goal.targetCarbs) targets.carbs = goal.targetCarbs;
+      if (goal.targetFat) targets.fat = goal.targetFat;
+      if (goal.targetFiber) targets.fiber = goal.targetFiber;
+      if (goal.targetSugar) targets.sugar = goal.targetSugar;
+      if (goal.targetSaturatedFat) targets.saturatedFat = goal.targetSaturatedFat;
+      if (goal.targetSodium) targets.sodium = goal.targetSodium;
+    }
+    if (goal.type === 'hydration' && goal.targetWaterPerDay) targets.water = goal.targetWaterPerDay;
+  }
+  return targets;
+}
@@ -0,0 +1,210 @@
+import { useEffect, useState, useCallback, useRef } from 'react';
+import {
+  ActiveWorkoutSession,
+  saveActiveSessionOffline,
+  getActiveSessionOffline,
+  clearActiveSessionOffline,
+} from '@/lib/offline/offlineStore';
+import { WorkoutTemplate, templateToExercises } from '@/lib/workoutTemplates';
+
+const REST_STORAGE_KEY = 'gymi-rest-seconds';
+const DEFAULT_REST_SECONDS = 90;
+
+/**
+ * Play the end-of-rest cue: vibration where supported plus a short beep
+ */
+function playRestCue() {
+  if (typeof navigator !== 'undefined' && 'vibrate' in navigator) {
+    navigator.vibrate([200, 100, 200]);
+  }
+
+  try {
+    const AudioCtx =
+      window.AudioContext ||
+      (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext;
+    if (!AudioCtx) return;
+    const ctx = new AudioCtx();
+    const oscillator = ctx.createOscillator();
+    const gain = ctx.createGain();
+    oscillator.frequency.value = 880;
+    gain.gain.setValueAtTime(0.2, ctx.currentTime);
+    gain.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + 0.6);
+    oscillator.connect(gain).connect(ctx.destination);
+    oscillator.start();
+    oscillator.stop(ctx.currentTime + 0.6);
+    oscillator.onended = () => ctx.close();
+  } catch {
+    // Audio may be blocked until user interaction — vibration is enough
+  }
+}
+
+/**
+ * Hook to manage an in-progress live workout session.
+ * State is mirrored to IndexedDB on every change so it survives reloads.
+ */
+export function useActiveWorkout(uid: string | undefined) {
+  const [session, setSession] = useState<ActiveWorkoutSession | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [now, setNow] = useState(() => Date.now());
+  const cuePlayedRef = useRef(false);
+
+  // Restore a persisted session on mount
+  useEffect(() => {
+    if (!uid) return;
+    let cancelled = false;
+    getActiveSessionOffline(uid)
+      .then((stored) => {
+        if (cancelled) return;
+        // A rest that ran out while the tab was closed shouldn't fire a late cue
+        if (stored?.restEndsAt && stored.restEndsAt <= Date.now()) {
+          stored.restEndsAt = null;
+        }
+        setSession(stored);
+      })
+      .catch(() => {
+        // Offline store unavailable — live logging still works in memory
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [uid]);
+
+  // Persist every change; kept out of the state updaters, which React may run twice
+  useEffect(() => {
+    if (session) saveActiveSessionOffline(session).catch(() => {});
+  }, [session]);
+
+  /**
+   * Apply a change to the session (persisted by the effect above)
+   */
+  const update = useCallback(
+    (mutator: (current: ActiveWorkoutSession) => ActiveWorkoutSession) => {
+      setSession((current) => (current ? { ...mutator(current), updatedAt: new Date() } : current));
+    },
+    []
+  );
+
+  /**
+   * Begin a new session. Resolves once it is persisted, so callers can
+   * navigate to the logger immediately afterwards.
+   */
+  const start = useCallback(
+    async (
+      title = '',
+      exercises: ActiveWorkoutSession['exercises'] = [],
+      programDay?: ActiveWorkoutSession['programDay']
+    ) => {
+      if (!uid) return;
+      const stored = Number(localStorage.getItem(REST_STORAGE_KEY));
+      const next: ActiveWorkoutSession = {
+        uid,
+        title,
+        startedAt: new Date(),
+        restSeconds: stored > 0 ? stored : DEFAULT_REST_SECONDS,
+        restEndsAt: null,
+        exercises,
+        programDay,
+        updatedAt: new Date(),
+      };
+      setSession(next);
+      await saveActiveSessionOffline(next).catch(() => {});
+    },
+    [uid]
+  );
+
+  /**
+   * Begin a session pre-populated with a template's target sets
+   */
+  const startFromTemplate = useCallback(
+    (template: WorkoutTemplate, programDay?: ActiveWorkoutSession['programDay']) =>
+      start(
+        template.name,
+        templateToExercises(template).map((e) => ({
+          ...e,
+          sets: e.sets.map((s) => ({ ...s, completed: false })),
+        })),
+        programDay
+      ),
+    [start]
+  );
+
+  const discard = useCallback(async () => {
+    setSession(null);
+    if (uid) await clearActiveSessionOffline(uid).catch(() => {});
+  }, [uid]);
+
+  /**
+   * Toggle a set's completion. Completing a set starts the rest countdown.
+   */
+  const toggleSet = useCallback(
+    (exerciseIndex: number, setIndex: number) => {
+      update((current) => {
+        const target = current.exercises[exerciseIndex]?.sets[setIndex];
+        if (!target) return current;
+        const completed = !target.completed;
+        return {
+          ...current,
+          restEndsAt: completed ? Date.now() + current.restSeconds * 1000 : current.restEndsAt,
+          exercises: current.exercises.map((e, i) =>
+            i === exerciseIndex
+              ? { ...e, sets: e.sets.map((s, j) => (j === setIndex ? { ...s, completed } : s)) }
+              : e
+          ),
+        };
+      });
+      cuePlayedRef.current = false;
+      setNow(Date.now());
+    },
+    [update]
+  );
+
+  const skipRest = useCallback(() => {
+    update((current) => ({ ...current, restEndsAt: null }));
+  }, [update]);
+
+  const setRestSeconds = useCallback(
+    (seconds: number) => {
+      if (seconds <= 0) return;
+      localStorage.setItem(REST_STORAGE_KEY, String(seconds));
+      update((current) => ({ ...current, restSeconds: seconds }));
+    },
+    [update]
+  );
+
+  // Rest countdown — derived from restEndsAt so it is correct after a reload
+  const restEndsAt = session?.restEndsAt ?? null;
+  const restRemaining = restEndsAt ? Math.max(0, Math.ceil((restEndsAt - now) / 1000)) : 0;
+
+  useEffect(() => {
+    if (!restEndsAt) return;
+
+    const interval = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= restEndsAt) {
+        if (!cuePlayedRef.current) {
+          cuePlayedRef.current = true;
+          playRestCue();
+        }
+        update((session) => ({ ...session, restEndsAt: null }));
+      }
+    }, 250);
+    return () => clearInterval(interval);
+  }, [restEndsAt, update]);
+
+  return {
+    session,
+    loading: loading && !!uid,
+    restRemaining,
+    start,
+    startFromTemplate,
+    update,
+    discard,
+    toggleSet,
+    skipRest,
+    setRestSeconds,
+  };
+}
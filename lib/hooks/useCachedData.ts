@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { cacheGet, cacheSet } from '@/lib/cache';
+import { cacheGet, cacheSet, cacheSubscribe } from '@/lib/cache';
 
 interface UseCachedDataOptions<T> {
   /** Unique cache key (e.g., "workouts:uid123") */
@@ -114,6 +114,17 @@ export function useCachedData<T>({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [key, enabled]);
 
+  // Pick up this entry when it is rewritten in place (offline ids remapped after a sync)
+  useEffect(
+    () =>
+      cacheSubscribe((changedKey) => {
+        if (changedKey !== key || !mountedRef.current) return;
+        const next = cacheGet<T>(key, ttl);
+        if (next !== undefined) setDataState(next);
+      }),
+    [key, ttl]
+  );
+
   // Manual set (for optimistic updates)
   const setData = useCallback(
     (updater: T | ((prev: T | undefined) => T)) => {
@@ -0,0 +1,49 @@
+import { useCallback, useEffect, useMemo } from 'react';
+import { useAuth } from '@/components/providers/AuthProvider';
+import { useCachedData } from '@/lib/hooks/useCachedData';
+import { Exercise, EXERCISE_DATABASE, setUserExerciseLibrary } from '@/lib/data/exercises';
+import { getCustomExercises, getExerciseAliases } from '@/lib/customExercises';
+
+const LIBRARY_TTL = 10 * 60 * 1000; // 10 min
+
+// Shared defaults while nothing is loaded, so the publishing effect only runs when the data changes
+const NO_CUSTOM_EXERCISES: Exercise[] = [];
+const NO_ALIASES: Record<string, string> = {};
+
+/**
+ * Hook returning the built-in exercise library merged with the signed-in
+ * user's custom exercises and name aliases. Also publishes them to
+ * `lib/data/exercises` so non-React helpers resolve custom names.
+ */
+export function useExerciseLibrary() {
+  const { user } = useAuth();
+
+  const {
+    data: customExercises = NO_CUSTOM_EXERCISES,
+    loading,
+    setData: setCustomExercises,
+  } = useCachedData<Exercise[]>({
+    key: `customExercises:${user?.uid}`,
+    fetcher: useCallback(() => getCustomExercises(user!.uid), [user]),
+    enabled: !!user,
+    ttl: LIBRARY_TTL,
+  });
+
+  const { data: aliases = NO_ALIASES, setData: setAliases } = useCachedData<Record<string, string>>({
+    key: `exerciseAliases:${user?.uid}`,
+    fetcher: useCallback(() => getExerciseAliases(user!.uid), [user]),
+    enabled: !!user,
+    ttl: LIBRARY_TTL,
+  });
+
+  const exercises = useMemo(
+    () => (customExercises.length ? [...EXERCISE_DATABASE, ...customExercises] : EXERCISE_DATABASE),
+    [customExercises]
+  );
+
+  useEffect(() => {
+    setUserExerciseLibrary(customExercises, aliases);
+  }, [customExercises, aliases]);
+
+  return { exercises, customExercises, aliases, loading, setCustomExercises, setAliases };
+}
@@ -1,7 +1,7 @@
 import { useEffect, useState, useCallback, useRef } from 'react';
 import { initOfflineStore } from '@/lib/offline/offlineStore';
 import { processSyncQueue, getSyncStatus, isSyncInProgress } from '@/lib/offline/syncManager';
-import type { SyncResult } from '@/lib/offline/syncManager';
+import type { SyncResult, SyncStatus } from '@/lib/offline/syncManager';
 
 /**
  * Hook to manage offline state and service worker registration
@@ -12,9 +12,12 @@ export function useOffline() {
   const [swWaitingReady, setSwWaitingReady] = useState(false);
   const [isSyncing, setIsSyncing] = useState(false);
   const [pendingCount, setPendingCount] = useState(0);
+  const [conflictCount, setConflictCount] = useState(0);
+  const [deadLetterCount, setDeadLetterCount] = useState(0);
   const [lastSyncResult, setLastSyncResult] = useState<SyncResult | null>(null);
   const swRef = useRef<ServiceWorkerRegistration | null>(null);
   const uidRef = useRef<string | null>(null);
+  const retryTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   /**
    * Set the current user ID for sync operations
@@ -23,20 +26,37 @@ export function useOffline() {
     uidRef.current = uid;
   }, []);
 
+  const applyStatus = useCallback((status: SyncStatus) => {
+    setPendingCount(status.pending);
+    setConflictCount(status.conflicts);
+    setDeadLetterCount(status.deadLetters.length);
+  }, []);
+
   /**
    * Trigger sync manually
+   * `ignoreBackoff` retries failed items without waiting out their delay.
    */
-  const triggerSync = useCallback(async () => {
+  const triggerSync = useCallback(async (ignoreBackoff = false) => {
     if (!uidRef.current || isSyncInProgress()) return;
 
     setIsSyncing(true);
     try {
-      const result = await processSyncQueue(uidRef.current);
+      const result = await processSyncQueue(uidRef.current, ignoreBackoff);
       setLastSyncResult(result);
 
       // Refresh pending count
       const status = await getSyncStatus(uidRef.current);
-      setPendingCount(status.pending);
+      applyStatus(status);
+
+      // Come back when the earliest backed-off item is due
+      if (retryTimerRef.current) clearTimeout(retryTimerRef.current);
+      retryTimerRef.current = null;
+      if (status.nextRetryAt && navigator.onLine) {
+        retryTimerRef.current = setTimeout(
+          () => window.dispatchEvent(new Event('offline-sync')),
+          Math.max(status.nextRetryAt - Date.now(), 1000)
+        );
+      }
 
       return result;
     } catch {
@@ -44,7 +64,7 @@ export function useOffline() {
     } finally {
       setIsSyncing(false);
     }
-  }, []);
+  }, [applyStatus]);
 
   /**
    * Refresh the pending sync count
@@ -52,12 +72,11 @@ export function useOffline() {
   const refreshPendingCount = useCallback(async () => {
     if (!uidRef.current) return;
     try {
-      const status = await getSyncStatus(uidRef.current);
-      setPendingCount(status.pending);
+      applyStatus(await getSyncStatus(uidRef.current));
     } catch {
       // Silently ignore
     }
-  }, []);
+  }, [applyStatus]);
 
   // Register service worker (only once globally)
   useEffect(() => {
@@ -141,6 +160,7 @@ export function useOffline() {
       window.removeEventListener('online', handleOnline);
       window.removeEventListener('offline', handleOffline);
       window.removeEventListener('offline-sync', handleSync);
+      if (retryTimerRef.current) clearTimeout(retryTimerRef.current);
     };
   }, [triggerSync]);
 
@@ -160,6 +180,8 @@ export function useOffline() {
     swWaitingReady,
     isSyncing,
     pendingCount,
+    conflictCount,
+    deadLetterCount,
     lastSyncResult,
     updateSW,
     setUid,
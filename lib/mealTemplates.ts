@@ -11,33 +11,60 @@ import {
   orderBy,
   Timestamp,
 } from 'firebase/firestore';
+import { Meal, MealItem, Nutrients } from '@/lib/types/firestore';
 import { getErrorMessage } from './utils/errorMessages';
+import {
+  hasItemNutrition,
+  parseMealItems,
+  scaleNutrients,
+  serializeMealItems,
+  sumNutrients,
+} from './utils/mealItems';
 
+/**
+ * A saved meal. Fixed templates copy their totals into the logged meal;
+ * recipes (templates with `ingredients`) store per-serving totals computed
+ * from the ingredients and are logged as a number of servings.
+ */
 export interface MealTemplate {
   name: string;
-  items: string;
+  items: string; // display text; for recipes, a summary of the ingredients
   mealType: 'breakfast' | 'lunch' | 'dinner' | 'snack' | 'other';
-  calories: number;
+  calories: number; // per serving for recipes
   protein?: number;
   carbs?: number;
   fat?: number;
   notes?: string;
+  ingredients?: MealItem[]; // whole-recipe amounts
+  servings?: number; // recipe yield
   id: string;
   createdAt: Date;
   updatedAt: Date;
 }
 
+type MealTemplateInput = Omit<MealTemplate, 'id' | 'createdAt' | 'updatedAt'>;
+
+// Firestore rejects undefined values; cleared fields are stored as null
+function toTemplateDoc(data: Partial<MealTemplateInput>) {
+  return Object.fromEntries(
+    Object.entries(data).map(([key, value]) => [
+      key,
+      key === 'ingredients' && value ? serializeMealItems(value as MealItem[]) : (value ?? null),
+    ])
+  );
+}
+
 /**
  * Add a new meal template
  */
 export async function addMealTemplate(
   uid: string,
-  data: Omit<MealTemplate, 'id' | 'createdAt' | 'updatedAt'>
+  data: MealTemplateInput
 ): Promise<string> {
   try {
     const templatesRef = collection(db, 'users', uid, 'mealTemplates');
     const docRef = await addDoc(templatesRef, {
-      ...data,
+      ...toTemplateDoc(data),
       createdAt: Timestamp.now(),
       updatedAt: Timestamp.now(),
     });
@@ -65,10 +92,12 @@ export async function getMealTemplates(uid: string): Promise<MealTemplate[]> {
         items: data.items,
         mealType: data.mealType,
         calories: data.calories,
-        protein: data.protein,
-        carbs: data.carbs,
-        fat: data.fat,
-        notes: data.notes,
+        protein: data.protein ?? undefined,
+        carbs: data.carbs ?? undefined,
+        fat: data.fat ?? undefined,
+        notes: data.notes ?? undefined,
+        ingredients: data.ingredients ? parseMealItems(data.ingredients) : undefined,
+        servings: data.servings || undefined,
         createdAt: data.createdAt?.toDate() || new Date(),
         updatedAt: data.updatedAt?.toDate() || new Date(),
       };
@@ -93,13 +122,13 @@ export async function getMealTemplatesByType(
 /**
  * Get a single meal template
  */
-export async function getMealTemplate(uid: string, templateId: string): Promise<MealTemplate> {
+export async function getMealTemplate(uid: string, templateId: string): Promise<MealTemplate | null> {
   try {
     const templateRef = doc(db, 'users', uid, 'mealTemplates', templateId);
     const snapshot = await getDoc(templateRef);
 
     if (!snapshot.exists()) {
-      throw new Error('Meal template not found');
+      return null;
     }
 
     const data = snapshot.data();
@@ -109,10 +138,12 @@ export async function getMealTemplate(uid: string, templateId: string): Promise<
       items: data.items,
       mealType: data.mealType,
       calories: data.calories,
-      protein: data.protein,
-      carbs: data.carbs,
-      fat: data.fat,
-      notes: data.notes,
+      protein: data.protein ?? undefined,
+      carbs: data.carbs ?? undefined,
+      fat: data.fat ?? undefined,
+      notes: data.notes ?? undefined,
+      ingredients: data.ingredients ? parseMealItems(data.ingredients) : undefined,
+      servings: data.servings || undefined,
       createdAt: data.createdAt?.toDate() || new Date(),
       updatedAt: data.updatedAt?.toDate() || new Date(),
     };
@@ -128,12 +159,12 @@ export async function getMealTemplate(uid: string, templateId: string): Promise<
 export async function updateMealTemplate(
   uid: string,
   templateId: string,
-  updates: Partial<Omit<MealTemplate, 'id' | 'createdAt' | 'updatedAt'>>
+  updates: Partial<MealTemplateInput>
 ): Promise<void> {
   try {
     const templateRef = doc(db, 'users', uid, 'mealTemplates', templateId);
     await updateDoc(templateRef, {
-      ...updates,
+      ...toTemplateDoc(updates),
       updatedAt: Timestamp.now(),
     });
   } catch (error: any) {
@@ -155,17 +186,74 @@ export async function deleteMealTemplate(uid: string, templateId: string): Promi
   }
 }
 
+// ============================================================
+// RECIPES
+// ============================================================
+
+/** Whether a template is a recipe built from ingredients */
+export function isRecipe(template: Pick<MealTemplate, 'ingredients'>): boolean {
+  return !!template.ingredients?.length;
+}
+
+/**
+ * Per-serving nutrients for a recipe yielding `servings`, or null when an
+ * ingredient has no nutrition data
+ */
+export function getRecipeNutrition(ingredients: MealItem[], servings: number): Nutrients | null {
+  if (!hasItemNutrition(ingredients) || !(servings > 0)) return null;
+  const total = sumNutrients(ingredients.map((item) => item.nutrients as Nutrients));
+  return scaleNutrients(total, 1 / servings);
+}
+
 /**
  * Create a meal from a template
- * Returns data ready to be used with addMeal()
+ * Returns data ready to be used with addMeal(). Recipes are logged as one
+ * item of `servings` servings whose nutrients are copied from the recipe, so
+ * editing the recipe later doesn't change meals already logged.
  */
 export function templateToMeal(
   template: MealTemplate,
-  date: Date = new Date()
-): Omit<import('@/lib/types/firestore').Meal, 'id' | 'createdAt' | 'updatedAt'> {
+  date: Date = new Date(),
+  servings = 1
+): Omit<Meal, 'id' | 'createdAt' | 'updatedAt'> {
+  if (isRecipe(template)) {
+    const ingredients = template.ingredients as MealItem[];
+    const yieldServings = template.servings || 1;
+    const perServing = getRecipeNutrition(ingredients, yieldServings) || {
+      calories: template.calories,
+      protein: template.protein || 0,
+      carbs: template.carbs || 0,
+      fat: template.fat || 0,
+    };
+    const nutrients = scaleNutrients(perServing, servings);
+    const totalGrams = ingredients.reduce((sum, item) => sum + item.servingSize * item.quantity, 0);
+
+    return {
+      mealName: template.name,
+      items: [
+        {
+          name: template.name,
+          // Grams per serving lets the amount be edited like any other item
+          servingSize: Math.round(totalGrams / yieldServings) || 1,
+          quantity: servings,
+          unit: 'serving',
+          nutrients,
+          recipeId: template.id,
+        },
+      ],
+      mealType: template.mealType,
+      calories: nutrients.calories,
+      protein: nutrients.protein,
+      carbs: nutrients.carbs,
+      fat: nutrients.fat,
+      notes: template.notes,
+      date,
+    };
+  }
+
   return {
     mealName: template.name,
-    items: template.items,
+    items: parseMealItems(template.items),
     mealType: template.mealType,
     calories: template.calories,
     protein: template.protein,
@@ -16,6 +16,7 @@ import {
 import { Meal } from './types/firestore';
 import { getErrorMessage } from './utils/errorMessages';
 import { cachedFetch, cacheInvalidate } from './cache';
+import { parseMealItems, serializeMealItems, getMealNutrition, sumNutrients } from './utils/mealItems';
 
 /**
  * Meals Service Layer
@@ -47,18 +48,52 @@ const convertTimestamps = (data: any): Omit<Meal, 'id'> => {
   return {
     mealName: data.mealName?.trim() || '',
     mealType: data.mealType || 'other',
-    items: data.items?.trim() || '',
+    items: parseMealItems(data.items),
     calories: Number(data.calories) || 0,
     protein: data.protein ? Number(data.protein) : undefined,
     carbs: data.carbs ? Number(data.carbs) : undefined,
     fat: data.fat ? Number(data.fat) : undefined,
+    saturatedFat: data.saturatedFat ? Number(data.saturatedFat) : undefined,
+    fiber: data.fiber ? Number(data.fiber) : undefined,
+    sugar: data.sugar ? Number(data.sugar) : undefined,
+    sodium: data.sodium ? Number(data.sodium) : undefined,
     notes: data.notes?.trim() || undefined,
     date: parseDate(data.date),
+    planned: data.planned === true ? true : undefined,
+    fromPlan: data.fromPlan === true ? true : undefined,
     createdAt: parseDate(data.createdAt),
     updatedAt: parseDate(data.updatedAt),
   };
 };
 
+/**
+ * Firestore document for a new meal
+ */
+export function toMealDocument(mealData: Omit<Meal, 'id' | 'createdAt' | 'updatedAt'>) {
+  // Ensure date is a valid Date object
+  const dateValue = mealData.date instanceof Date ? mealData.date : new Date(mealData.date);
+
+  return {
+    mealName: mealData.mealName?.trim() || '',
+    mealType: mealData.mealType || 'other',
+    items: serializeMealItems(mealData.items || []),
+    calories: Number(mealData.calories) || 0,
+    protein: mealData.protein ? Number(mealData.protein) : null,
+    carbs: mealData.carbs ? Number(mealData.carbs) : null,
+    fat: mealData.fat ? Number(mealData.fat) : null,
+    saturatedFat: mealData.saturatedFat ? Number(mealData.saturatedFat) : null,
+    fiber: mealData.fiber ? Number(mealData.fiber) : null,
+    sugar: mealData.sugar ? Number(mealData.sugar) : null,
+    sodium: mealData.sodium ? Number(mealData.sodium) : null,
+    notes: mealData.notes?.trim() || null,
+    date: Timestamp.fromDate(dateValue),
+    planned: mealData.planned === true,
+    fromPlan: mealData.fromPlan === true,
+    createdAt: Timestamp.fromDate(new Date()),
+    updatedAt: Timestamp.fromDate(new Date()),
+  };
+}
+
 /**
  * Add a new meal
  */
@@ -68,23 +103,7 @@ export async function addMeal(
 ): Promise<string> {
   try {
     const mealsRef = collection(db, 'users', uid, 'meals');
-
-    // Ensure date is a valid Date object
-    const dateValue = mealData.date instanceof Date ? mealData.date : new Date(mealData.date);
-
-    const docRef = await addDoc(mealsRef, {
-      mealName: mealData.mealName?.trim() || '',
-      mealType: mealData.mealType || 'other',
-      items: mealData.items?.trim() || '',
-      calories: Number(mealData.calories) || 0,
-      protein: mealData.protein ? Number(mealData.protein) : null,
-      carbs: mealData.carbs ? Number(mealData.carbs) : null,
-      fat: mealData.fat ? Number(mealData.fat) : null,
-      notes: mealData.notes?.trim() || null,
-      date: Timestamp.fromDate(dateValue),
-      createdAt: Timestamp.fromDate(new Date()),
-      updatedAt: Timestamp.fromDate(new Date()),
-    });
+    const docRef = await addDoc(mealsRef, toMealDocument(mealData));
     cacheInvalidate(`meals:${uid}`, `stats:${uid}`, `recent:${uid}`);
     return docRef.id;
   } catch (error) {
@@ -93,7 +112,8 @@ export async function addMeal(
 }
 
 /**
- * Get all meals for a user (sorted by date, newest first)
+ * Get logged meals for a user (sorted by date, newest first)
+ * Planned meals are left out; they only show up in the diary.
  */
 export async function getMeals(uid: string, maxLimit = 100): Promise<Meal[]> {
   return cachedFetch(`meals:${uid}:${maxLimit}`, async () => {
@@ -102,13 +122,12 @@ export async function getMeals(uid: string, maxLimit = 100): Promise<Meal[]> {
       const q = query(mealsRef, orderBy('date', 'desc'), limit(maxLimit));
       const snapshot = await getDocs(q);
 
-      return snapshot.docs.map((doc) => {
-        const data = doc.data();
-        return {
+      return snapshot.docs
+        .map((doc) => ({
           id: doc.id,
-          ...convertTimestamps(data),
-        };
-      });
+          ...convertTimestamps(doc.data()),
+        }))
+        .filter((meal) => !meal.planned);
     } catch (error) {
       throw new Error(getErrorMessage(error, 'Failed to fetch meals'));
     }
@@ -138,9 +157,9 @@ export async function getMeal(uid: string, mealId: string): Promise<Meal | null>
 }
 
 /**
- * Get meals for a specific date
+ * Get meals for a specific date (planned meals only when asked for)
  */
-export async function getMealsByDate(uid: string, date: Date): Promise<Meal[]> {
+export async function getMealsByDate(uid: string, date: Date, includePlanned = false): Promise<Meal[]> {
   try {
     const mealsRef = collection(db, 'users', uid, 'meals');
     
@@ -159,13 +178,42 @@ export async function getMealsByDate(uid: string, date: Date): Promise<Meal[]> {
     );
     const snapshot = await getDocs(q);
 
-    return snapshot.docs.map((doc) => {
-      const data = doc.data();
-      return {
+    return snapshot.docs
+      .map((doc) => ({
         id: doc.id,
-        ...convertTimestamps(data),
-      };
-    });
+        ...convertTimestamps(doc.data()),
+      }))
+      .filter((meal) => includePlanned || !meal.planned);
+  } catch (error) {
+    throw new Error(getErrorMessage(error, 'Failed to fetch meals'));
+  }
+}
+
+/**
+ * Get meals within a date range (inclusive), oldest first
+ */
+export async function getMealsByDateRange(
+  uid: string,
+  startDate: Date,
+  endDate: Date,
+  includePlanned = false
+): Promise<Meal[]> {
+  try {
+    const mealsRef = collection(db, 'users', uid, 'meals');
+    const q = query(
+      mealsRef,
+      where('date', '>=', Timestamp.fromDate(startDate)),
+      where('date', '<=', Timestamp.fromDate(endDate)),
+      orderBy('date', 'asc')
+    );
+    const snapshot = await getDocs(q);
+
+    return snapshot.docs
+      .map((doc) => ({
+        id: doc.id,
+        ...convertTimestamps(doc.data()),
+      }))
+      .filter((meal) => includePlanned || !meal.planned);
   } catch (error) {
     throw new Error(getErrorMessage(error, 'Failed to fetch meals'));
   }
@@ -189,12 +237,20 @@ export async function updateMeal(
     // Map and validate each field
     if (updates.mealName !== undefined) updateData.mealName = updates.mealName?.trim() || '';
     if (updates.mealType !== undefined) updateData.mealType = updates.mealType || 'other';
-    if (updates.items !== undefined) updateData.items = updates.items?.trim() || '';
+    if (updates.items !== undefined) updateData.items = serializeMealItems(updates.items || []);
     if (updates.calories !== undefined) updateData.calories = Number(updates.calories) || 0;
     if (updates.protein !== undefined) updateData.protein = updates.protein ? Number(updates.protein) : null;
     if (updates.carbs !== undefined) updateData.carbs = updates.carbs ? Number(updates.carbs) : null;
     if (updates.fat !== undefined) updateData.fat = updates.fat ? Number(updates.fat) : null;
+    if (updates.saturatedFat !== undefined) {
+      updateData.saturatedFat = updates.saturatedFat ? Number(updates.saturatedFat) : null;
+    }
+    if (updates.fiber !== undefined) updateData.fiber = updates.fiber ? Number(updates.fiber) : null;
+    if (updates.sugar !== undefined) updateData.sugar = updates.sugar ? Number(updates.sugar) : null;
+    if (updates.sodium !== undefined) updateData.sodium = updates.sodium ? Number(updates.sodium) : null;
     if (updates.notes !== undefined) updateData.notes = updates.notes?.trim() || null;
+    if (updates.planned !== undefined) updateData.planned = updates.planned === true;
+    if (updates.fromPlan !== undefined) updateData.fromPlan = updates.fromPlan === true;
 
     // Convert date if provided
     if (updates.date) {
@@ -228,25 +284,66 @@ export async function deleteMeal(uid: string, mealId: string): Promise<void> {
 export async function getTodayCalories(uid: string, date: Date = new Date()): Promise<number> {
   try {
     const meals = await getMealsByDate(uid, date);
-    return meals.reduce((total, meal) => total + (meal.calories || 0), 0);
+    return meals.reduce((total, meal) => total + getMealNutrition(meal).calories, 0);
   } catch (error) {
     throw new Error(getErrorMessage(error, 'Failed to calculate calories'));
   }
 }
 
 /**
- * Get macro totals for a specific date
+ * Get macro and tracked micronutrient totals for a specific date
+ * Structured meals are summed from their items; legacy free-text meals
+ * use their typed totals. Micronutrients missing from every meal are 0.
  */
 export async function getDayMacros(uid: string, date: Date = new Date()) {
   try {
     const meals = await getMealsByDate(uid, date);
+    const totals = sumNutrients(meals.map(getMealNutrition));
     return {
-      calories: meals.reduce((total, meal) => total + (meal.calories || 0), 0),
-      protein: meals.reduce((total, meal) => total + (meal.protein || 0), 0),
-      carbs: meals.reduce((total, meal) => total + (meal.carbs || 0), 0),
-      fat: meals.reduce((total, meal) => total + (meal.fat || 0), 0),
+      calories: totals.calories,
+      protein: totals.protein,
+      carbs: totals.carbs,
+      fat: totals.fat,
+      saturatedFat: totals.saturatedFat ?? 0,
+      fiber: totals.fiber ?? 0,
+      sugar: totals.sugar ?? 0,
+      sodium: totals.sodium ?? 0,
     };
   } catch (error) {
     throw new Error(getErrorMessage(error, 'Failed to fetch macros'));
   }
 }
+
+/**
+ * A copy of a meal for another day, at the same time of day
+ * Copies to a future day are planned; anything else is logged.
+ */
+export function copyMealToDate(
+  meal: Meal,
+  date: Date,
+  now: Date = new Date()
+): Omit<Meal, 'id' | 'createdAt' | 'updatedAt'> {
+  const target = new Date(date);
+  const source = new Date(meal.date);
+  target.setHours(source.getHours(), source.getMinutes(), 0, 0);
+
+  const endOfToday = new Date(now);
+  endOfToday.setHours(23, 59, 59, 999);
+
+  return {
+    mealName: meal.mealName,
+    mealType: meal.mealType,
+    items: meal.items,
+    calories: meal.calories,
+    protein: meal.protein,
+    carbs: meal.carbs,
+    fat: meal.fat,
+    saturatedFat: meal.saturatedFat,
+    fiber: meal.fiber,
+    sugar: meal.sugar,
+    sodium: meal.sodium,
+    notes: meal.notes,
+    date: target,
+    planned: target > endOfToday ? true : undefined,
+  };
+}
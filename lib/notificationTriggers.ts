@@ -1,9 +1,10 @@
 import { createNotification, getNotifications } from './notifications';
-import { NotificationType } from './types/firestore';
+import { NotificationType, Workout } from './types/firestore';
 import { calculateStreaks, gatherAchievementStats } from './achievements';
-import { getWorkouts } from './workouts';
+import { getWorkouts, getWorkoutsBefore } from './workouts';
 import { getGoals } from './goals';
 import { UnitSystem, displayWeight } from './utils/units';
+import { detectRepRangePRs } from './strength';
 
 /**
  * Notification Triggers
@@ -48,11 +49,18 @@ async function hasNotificationToday(
 // WORKOUT TRIGGERS
 // ============================================================
 
+// Most sessions a new PR is compared with (the latest ones before it)
+const PR_HISTORY_LIMIT = 250;
+
 /**
- * Run after a workout is added/updated.
+ * Run after a workout is added.
  * Checks: streak milestones, workout count milestones, personal records.
  */
-export async function triggerWorkoutNotifications(uid: string, unitSystem: UnitSystem = 'metric'): Promise<void> {
+export async function triggerWorkoutNotifications(
+  uid: string,
+  workout: Workout,
+  unitSystem: UnitSystem = 'metric'
+): Promise<void> {
   try {
     const stats = await gatherAchievementStats(uid);
 
@@ -94,29 +102,42 @@ export async function triggerWorkoutNotifications(uid: string, unitSystem: UnitS
       }
     }
 
-    // Personal record check — heaviest lift across all exercises
-    if (stats.heaviestLift >= 100) {
-      const workouts = await getWorkouts(uid, 5);
-      const latest = workouts[0];
-      if (latest && latest.weight >= 100) {
-        const exists = await hasNotificationToday(uid, 'personal_record');
-        if (!exists) {
-          await createNotification(uid, {
-            type: 'personal_record',
-            title: 'New Personal Record! 🏅',
-            message: `${latest.exercise}: ${displayWeight(latest.weight, unitSystem)} — that's a new PR!`,
-            icon: '🏅',
-            read: false,
-            linkTo: '/workouts',
-          });
-        }
-      }
-    }
+    await triggerPersonalRecordNotifications(uid, workout, unitSystem);
   } catch (error) {
     console.error('Error triggering workout notifications:', error);
   }
 }
 
+/**
+ * Run after a workout is added or edited: rep-range PRs (1RM/3RM/5RM/10RM)
+ * set in `workout`, compared with the sessions logged before it
+ */
+export async function triggerPersonalRecordNotifications(
+  uid: string,
+  workout: Workout,
+  unitSystem: UnitSystem = 'metric'
+): Promise<void> {
+  try {
+    const earlier = await getWorkoutsBefore(uid, workout.date, PR_HISTORY_LIMIT);
+    // Skip first-time exercises: every set would otherwise be a "record"
+    const prs = detectRepRangePRs(earlier, workout).filter((pr) => pr.previousWeight !== null);
+    for (const pr of prs) {
+      const exists = await hasNotificationToday(uid, 'personal_record', pr.exercise);
+      if (exists) continue;
+      await createNotification(uid, {
+        type: 'personal_record',
+        title: `New ${pr.repRange}RM: ${pr.exercise} 🏅`,
+        message: `${displayWeight(pr.weight, unitSystem)} × ${pr.reps} — up from ${displayWeight(pr.previousWeight!, unitSystem)}. That's a new PR!`,
+        icon: '🏅',
+        read: false,
+        linkTo: '/progress',
+      });
+    }
+  } catch (error) {
+    console.error('Error triggering personal record notifications:', error);
+  }
+}
+
 // ============================================================
 // MEAL TRIGGERS
 // ============================================================
@@ -0,0 +1,231 @@
+import type { DocumentData } from 'firebase/firestore';
+import {
+  addToSyncQueue,
+  removeSyncConflict,
+  saveSyncConflict,
+  ConflictField,
+  SyncConflict,
+  SyncQueueItem,
+} from './offlineStore';
+import { getWorkout } from '@/lib/workouts';
+import { getMeal } from '@/lib/meals';
+import { getGoal } from '@/lib/goals';
+import { getWeightLog } from '@/lib/weightLogs';
+import { getMealTemplate } from '@/lib/mealTemplates';
+
+/**
+ * Sync Conflicts
+ * Detects offline changes made against an outdated copy of a document and
+ * settles them with the user's conflict policy before they are replayed.
+ */
+
+export type ConflictPolicy = 'last-writer-wins' | 'merge' | 'ask';
+
+export const CONFLICT_POLICIES: { value: ConflictPolicy; label: string; description: string }[] = [
+  {
+    value: 'ask',
+    label: 'Ask me',
+    description: 'Apply fields only one side changed; hold the rest until you pick',
+  },
+  {
+    value: 'merge',
+    label: 'Merge fields',
+    description: 'Apply fields only one side changed; the newer edit wins the rest',
+  },
+  {
+    value: 'last-writer-wins',
+    label: 'Newest edit wins',
+    description: 'Keep whichever whole edit was made last',
+  },
+];
+
+const POLICY_STORAGE_KEY = 'gymi-conflict-policy';
+
+// Bookkeeping fields that never take part in a field-level merge
+const META_FIELDS = new Set(['id', 'uid', 'syncStatus', 'createdAt', 'updatedAt']);
+
+/** Conflict policy chosen by the user (browser-local) */
+export function getConflictPolicy(): ConflictPolicy {
+  if (typeof window === 'undefined') return 'ask';
+  const saved = localStorage.getItem(POLICY_STORAGE_KEY);
+  return CONFLICT_POLICIES.some((p) => p.value === saved) ? (saved as ConflictPolicy) : 'ask';
+}
+
+export function saveConflictPolicy(policy: ConflictPolicy): void {
+  if (typeof window === 'undefined') return;
+  localStorage.setItem(POLICY_STORAGE_KEY, policy);
+}
+
+/** What to send to Firestore for a queued change */
+export type ReconciledChange =
+  | { action: 'apply'; data: DocumentData | null }
+  | { action: 'skip'; reason: string };
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Split an offline update against the current remote document: fields only
+ * this device changed can be applied, fields changed on both sides conflict.
+ */
+export function diffAgainstRemote(
+  local: DocumentData,
+  base: Record<string, unknown>,
+  remote: DocumentData
+): { apply: DocumentData; conflicts: ConflictField[] } {
+  const apply: DocumentData = {};
+  const conflicts: ConflictField[] = [];
+
+  for (const [field, value] of Object.entries(local)) {
+    if (META_FIELDS.has(field) || sameValue(value, remote[field])) continue;
+    if (sameValue(base[field], remote[field])) {
+      apply[field] = value;
+    } else {
+      conflicts.push({ field, base: base[field], local: value, remote: remote[field] });
+    }
+  }
+
+  return { apply, conflicts };
+}
+
+async function fetchRemote(
+  uid: string,
+  collection: SyncQueueItem['collection'],
+  docId: string
+): Promise<DocumentData | null> {
+  switch (collection) {
+    case 'workouts':
+      return getWorkout(uid, docId);
+    case 'meals':
+      return getMeal(uid, docId);
+    case 'goals':
+      return getGoal(uid, docId);
+    case 'weightLogs':
+      return getWeightLog(uid, docId);
+    case 'mealTemplates':
+      return getMealTemplate(uid, docId);
+    default:
+      return null;
+  }
+}
+
+/** Short name for a document, for the conflicts list */
+function describeDocument(collection: SyncQueueItem['collection'], doc: DocumentData): string {
+  switch (collection) {
+    case 'workouts':
+    case 'goals':
+      return doc.title || 'Untitled';
+    case 'meals':
+      return doc.mealName || 'Meal';
+    case 'mealTemplates':
+      return doc.name || 'Template';
+    case 'weightLogs':
+      return `Weigh-in on ${new Date(doc.date).toLocaleDateString()}`;
+    default:
+      return collection;
+  }
+}
+
+/**
+ * Check a queued update or delete against the remote document before it is
+ * replayed. Changes queued without the version they were made against
+ * (creates, older queue items) are applied as they are.
+ */
+export async function reconcileQueuedChange(
+  uid: string,
+  item: Pick<SyncQueueItem, 'type' | 'collection' | 'docId' | 'data' | 'timestamp' | 'baseUpdatedAt' | 'base'>,
+  policy: ConflictPolicy = getConflictPolicy()
+): Promise<ReconciledChange> {
+  if (item.type === 'create' || item.baseUpdatedAt === undefined || item.docId.startsWith('offline-')) {
+    return { action: 'apply', data: item.data };
+  }
+
+  const remote = await fetchRemote(uid, item.collection, item.docId);
+  if (!remote) {
+    return { action: 'skip', reason: 'document was deleted elsewhere' };
+  }
+
+  const remoteAt = new Date(remote.updatedAt).getTime();
+  if (!(remoteAt > item.baseUpdatedAt)) {
+    return { action: 'apply', data: item.data };
+  }
+
+  // Edited elsewhere since this device last saw it
+  const remoteIsNewer = remoteAt > item.timestamp;
+  const hold = (kind: SyncConflict['kind'], fields: ConflictField[]) =>
+    saveSyncConflict({
+      id: `conflict-${Date.now()}-${Math.random()}`,
+      uid,
+      collection: item.collection,
+      docId: item.docId,
+      kind,
+      label: describeDocument(item.collection, remote),
+      fields,
+      localAt: item.timestamp,
+      remoteAt,
+      detectedAt: Date.now(),
+    });
+
+  if (item.type === 'delete') {
+    if (policy === 'ask') {
+      await hold('delete', []);
+      return { action: 'skip', reason: 'held for review: edited elsewhere' };
+    }
+    return remoteIsNewer
+      ? { action: 'skip', reason: 'edited elsewhere after it was deleted here' }
+      : { action: 'apply', data: null };
+  }
+
+  if (policy === 'last-writer-wins') {
+    return remoteIsNewer
+      ? { action: 'skip', reason: 'a newer edit was made elsewhere' }
+      : { action: 'apply', data: item.data };
+  }
+
+  const { apply, conflicts } = diffAgainstRemote(item.data || {}, item.base || {}, remote);
+  if (conflicts.length > 0) {
+    if (policy === 'ask') {
+      await hold('update', conflicts);
+    } else if (!remoteIsNewer) {
+      for (const conflict of conflicts) apply[conflict.field] = conflict.local;
+    }
+  }
+
+  return Object.keys(apply).length > 0
+    ? { action: 'apply', data: apply }
+    : { action: 'skip', reason: conflicts.length > 0 ? 'held for review' : 'already up to date' };
+}
+
+/**
+ * Settle a held conflict. `choice` keeps one side entirely, or picks a side
+ * per field. The chosen local values are queued again against the remote
+ * version shown, so an edit made elsewhere in the meantime is caught too.
+ */
+export async function resolveSyncConflict(
+  conflict: SyncConflict,
+  choice: 'local' | 'remote' | Record<string, 'local' | 'remote'>
+): Promise<void> {
+  const pick = (field: string) => (typeof choice === 'string' ? choice : choice[field] || 'remote');
+  const remoteVersion = new Date(conflict.remoteAt);
+
+  if (conflict.kind === 'delete') {
+    if (choice === 'local') {
+      await addToSyncQueue(conflict.uid, 'delete', conflict.collection, conflict.docId, null, {
+        updatedAt: remoteVersion,
+      });
+    }
+  } else {
+    const kept = conflict.fields.filter((f) => pick(f.field) === 'local');
+    if (kept.length > 0) {
+      await addToSyncQueue(
+        conflict.uid,
+        'update',
+        conflict.collection,
+        conflict.docId,
+        Object.fromEntries(kept.map((f) => [f.field, f.local])),
+        { ...Object.fromEntries(kept.map((f) => [f.field, f.remote])), updatedAt: remoteVersion }
+      );
+    }
+  }
+
+  await removeSyncConflict(conflict.id);
+}
@@ -1,5 +1,95 @@
 import { openDB, DBSchema, IDBPDatabase } from 'idb';
-import { Workout, Meal, Goal, WeightLog } from '@/lib/types/firestore';
+import type { DocumentData } from 'firebase/firestore';
+import { Workout, Meal, Goal, WeightLog, WorkoutSet } from '@/lib/types/firestore';
+import { parseWorkoutExercises } from '@/lib/utils/workoutSets';
+import { parseMealItems } from '@/lib/utils/mealItems';
+import { Food } from '@/lib/data/foods';
+import type { MealTemplate } from '@/lib/mealTemplates';
+
+/** Firestore collections that offline changes are queued for */
+export type SyncCollection = 'workouts' | 'meals' | 'goals' | 'weightLogs' | 'mealTemplates' | 'notifications';
+
+export const SYNC_COLLECTION_LABELS: Record<SyncCollection, string> = {
+  workouts: 'Workout',
+  meals: 'Meal',
+  goals: 'Goal',
+  weightLogs: 'Weight log',
+  mealTemplates: 'Meal template',
+  notifications: 'Notification',
+};
+
+// Stores mirrored from Firestore, so records fetched online can be edited offline
+type MirroredStore = 'goals' | 'weightLogs' | 'mealTemplates';
+
+// Stores holding Firestore documents by id
+type DocumentStore = 'workouts' | 'meals' | MirroredStore;
+
+/** A copy of `record` without `fields`, e.g. offline bookkeeping before a record leaves the store */
+export function omitFields<T extends object, K extends keyof T>(record: T, fields: readonly K[]): Omit<T, K> {
+  const rest = { ...record };
+  for (const field of fields) delete rest[field];
+  return rest;
+}
+
+/**
+ * In-progress live workout, persisted so a reload or phone lock doesn't lose it
+ */
+export interface ActiveSessionSet extends WorkoutSet {
+  completed: boolean;
+}
+
+export interface ActiveWorkoutSession {
+  uid: string;
+  title: string;
+  startedAt: Date;
+  restSeconds: number; // default rest between sets
+  restEndsAt: number | null; // epoch ms while a rest countdown is running
+  exercises: Array<{ exercise: string; notes?: string; sets: ActiveSessionSet[] }>;
+  programDay?: { programId: string; key: string }; // set when started from a program
+  updatedAt: Date;
+}
+
+/**
+ * A field edited both offline on this device and elsewhere since the
+ * device last saw the document
+ */
+export interface ConflictField {
+  field: string;
+  base: unknown; // value the offline edit started from
+  local: unknown;
+  remote: unknown;
+}
+
+/**
+ * An offline change held back from Firestore until the user picks a side.
+ * Delete conflicts have no fields: the device deleted a document that was
+ * edited elsewhere.
+ */
+export interface SyncConflict {
+  id: string;
+  uid: string;
+  collection: SyncCollection;
+  docId: string;
+  kind: 'update' | 'delete';
+  label: string; // e.g. the workout title, for display
+  fields: ConflictField[];
+  localAt: number; // when the offline change was made (epoch ms)
+  remoteAt: number; // remote document's updatedAt (epoch ms)
+  detectedAt: number;
+}
+
+/** Outcome of one attempt to replay a queued change */
+export interface SyncHistoryEntry {
+  id: string;
+  uid: string;
+  queueItemId: string;
+  collection: SyncCollection;
+  type: 'create' | 'update' | 'delete';
+  docId: string;
+  outcome: 'synced' | 'skipped' | 'failed' | 'dead-letter';
+  message?: string; // skip reason or error
+  timestamp: number;
+}
 
 /**
  * IndexedDB Schema for offline data storage
@@ -25,24 +115,63 @@ interface GYMIDb extends DBSchema {
     value: WeightLog & { uid: string; syncStatus: 'pending' | 'synced' };
     indexes: { 'by-uid': string; 'by-date': number };
   };
+  mealTemplates: {
+    key: string;
+    value: MealTemplate & { uid: string; syncStatus: 'pending' | 'synced' };
+    indexes: { 'by-uid': string };
+  };
+  activeSessions: {
+    key: string;
+    value: ActiveWorkoutSession;
+  };
+  foods: {
+    key: string;
+    value: Food;
+    indexes: { 'by-barcode': string };
+  };
   syncQueue: {
     key: string;
     value: {
       id: string;
       uid: string;
       type: 'create' | 'update' | 'delete';
-      collection: 'workouts' | 'meals' | 'goals' | 'weightLogs';
+      collection: SyncCollection;
       docId: string;
-      data: any;
+      data: DocumentData | null; // null for deletes
       timestamp: number;
       retries: number;
       maxRetries: number;
       error?: string;
+      nextAttemptAt?: number; // backoff after a failed attempt (epoch ms)
+      baseUpdatedAt?: number; // updatedAt of the document the change was made against
+      base?: Record<string, unknown>; // its values for the fields being updated
+      revision?: number; // bumped each time a later edit is folded in
     };
     indexes: { 'by-uid': string; 'by-timestamp': number };
   };
+  syncConflicts: {
+    key: string;
+    value: SyncConflict;
+    indexes: { 'by-uid': string };
+  };
+  deadLetters: {
+    key: string;
+    value: GYMIDb['syncQueue']['value'] & { failedAt: number };
+    indexes: { 'by-uid': string };
+  };
+  syncHistory: {
+    key: string;
+    value: SyncHistoryEntry;
+    indexes: { 'by-uid': string };
+  };
 }
 
+export type SyncQueueItem = GYMIDb['syncQueue']['value'];
+export type DeadLetterItem = GYMIDb['deadLetters']['value'];
+
+// Sync history entries kept per user
+const SYNC_HISTORY_LIMIT = 200;
+
 let db: IDBPDatabase<GYMIDb> | null = null;
 
 /**
@@ -51,7 +180,7 @@ let db: IDBPDatabase<GYMIDb> | null = null;
 export async function initOfflineStore(): Promise<IDBPDatabase<GYMIDb>> {
   if (db) return db;
 
-  db = await openDB<GYMIDb>('gymi-offline', 1, {
+  db = await openDB<GYMIDb>('gymi-offline', 6, {
     upgrade(db) {
       // Workouts store
       if (!db.objectStoreNames.contains('workouts')) {
@@ -80,12 +209,47 @@ export async function initOfflineStore(): Promise<IDBPDatabase<GYMIDb>> {
         weightStore.createIndex('by-date', 'date');
       }
 
+      // Meal templates store
+      if (!db.objectStoreNames.contains('mealTemplates')) {
+        const templateStore = db.createObjectStore('mealTemplates', { keyPath: 'id' });
+        templateStore.createIndex('by-uid', 'uid');
+      }
+
+      // Active (in-progress) workout session store — one per user
+      if (!db.objectStoreNames.contains('activeSessions')) {
+        db.createObjectStore('activeSessions', { keyPath: 'uid' });
+      }
+
+      // Saved packaged products (shared by all users on this device)
+      if (!db.objectStoreNames.contains('foods')) {
+        const foodStore = db.createObjectStore('foods', { keyPath: 'id' });
+        foodStore.createIndex('by-barcode', 'barcode');
+      }
+
       // Sync queue store
       if (!db.objectStoreNames.contains('syncQueue')) {
         const queueStore = db.createObjectStore('syncQueue', { keyPath: 'id' });
         queueStore.createIndex('by-uid', 'uid');
         queueStore.createIndex('by-timestamp', 'timestamp');
       }
+
+      // Sync conflicts awaiting the user's choice
+      if (!db.objectStoreNames.contains('syncConflicts')) {
+        const conflictStore = db.createObjectStore('syncConflicts', { keyPath: 'id' });
+        conflictStore.createIndex('by-uid', 'uid');
+      }
+
+      // Queue items that ran out of retries, kept until retried or discarded
+      if (!db.objectStoreNames.contains('deadLetters')) {
+        const deadLetterStore = db.createObjectStore('deadLetters', { keyPath: 'id' });
+        deadLetterStore.createIndex('by-uid', 'uid');
+      }
+
+      // Per-item sync outcomes
+      if (!db.objectStoreNames.contains('syncHistory')) {
+        const historyStore = db.createObjectStore('syncHistory', { keyPath: 'id' });
+        historyStore.createIndex('by-uid', 'uid');
+      }
     },
   });
 
@@ -122,7 +286,10 @@ export async function getWorkoutsOffline(uid: string): Promise<Workout[]> {
   const workouts = await database.getAllFromIndex('workouts', 'by-uid', uid);
   return workouts
     .sort((a, b) => b.date.getTime() - a.date.getTime())
-    .map(({ syncStatus, ...w }) => w);
+    .map((record) => {
+      const w = omitFields(record, ['syncStatus']);
+      return { ...w, exercises: parseWorkoutExercises(w as unknown as Record<string, unknown>) };
+    });
 }
 
 export async function updateWorkoutOffline(
@@ -186,7 +353,7 @@ export async function getMealsOffline(uid: string): Promise<Meal[]> {
   const meals = await database.getAllFromIndex('meals', 'by-uid', uid);
   return meals
     .sort((a, b) => b.date.getTime() - a.date.getTime())
-    .map(({ syncStatus, ...m }) => m);
+    .map((m) => ({ ...omitFields(m, ['syncStatus']), items: parseMealItems(m.items) }));
 }
 
 export async function updateMealOffline(
@@ -250,22 +417,319 @@ export async function getWeightLogsOffline(uid: string): Promise<WeightLog[]> {
   const logs = await database.getAllFromIndex('weightLogs', 'by-uid', uid);
   return logs
     .sort((a, b) => b.date.getTime() - a.date.getTime())
-    .map(({ syncStatus, ...l }) => l);
+    .map((l) => omitFields(l, ['syncStatus']));
+}
+
+export async function updateWeightLogOffline(
+  uid: string,
+  logId: string,
+  updates: Partial<Omit<WeightLog, 'id' | 'createdAt' | 'updatedAt'>>
+): Promise<void> {
+  const database = await initOfflineStore();
+  const log = await database.get('weightLogs', logId);
+
+  if (!log || log.uid !== uid) {
+    throw new Error('Weight log not found');
+  }
+
+  await database.put('weightLogs', {
+    ...log,
+    ...updates,
+    updatedAt: new Date(),
+    syncStatus: 'pending',
+  });
+}
+
+export async function deleteWeightLogOffline(uid: string, logId: string): Promise<void> {
+  const database = await initOfflineStore();
+  const log = await database.get('weightLogs', logId);
+
+  if (!log || log.uid !== uid) {
+    throw new Error('Weight log not found');
+  }
+
+  await database.delete('weightLogs', logId);
+}
+
+// ============================================================
+// GOALS
+// ============================================================
+
+export async function addGoalOffline(
+  uid: string,
+  data: Omit<Goal, 'id' | 'createdAt' | 'updatedAt'>
+): Promise<string> {
+  const database = await initOfflineStore();
+  const id = `offline-${Date.now()}-${Math.random()}`;
+  const now = new Date();
+
+  const goal: Goal & { uid: string; syncStatus: 'pending' | 'synced' } = {
+    ...data,
+    id,
+    uid,
+    createdAt: now,
+    updatedAt: now,
+    syncStatus: 'pending',
+  };
+
+  await database.add('goals', goal);
+  return id;
+}
+
+export async function getGoalsOffline(uid: string, status?: Goal['status']): Promise<Goal[]> {
+  const database = await initOfflineStore();
+  const goals = await database.getAllFromIndex('goals', 'by-uid', uid);
+  return goals
+    .filter((g) => !status || g.status === status)
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+    .map((g) => omitFields(g, ['syncStatus']));
+}
+
+export async function updateGoalOffline(
+  uid: string,
+  goalId: string,
+  updates: Partial<Omit<Goal, 'id' | 'createdAt'>>
+): Promise<void> {
+  const database = await initOfflineStore();
+  const goal = await database.get('goals', goalId);
+
+  if (!goal || goal.uid !== uid) {
+    throw new Error('Goal not found');
+  }
+
+  await database.put('goals', {
+    ...goal,
+    ...updates,
+    updatedAt: new Date(),
+    syncStatus: 'pending',
+  });
+}
+
+export async function deleteGoalOffline(uid: string, goalId: string): Promise<void> {
+  const database = await initOfflineStore();
+  const goal = await database.get('goals', goalId);
+
+  if (!goal || goal.uid !== uid) {
+    throw new Error('Goal not found');
+  }
+
+  await database.delete('goals', goalId);
+}
+
+// ============================================================
+// MEAL TEMPLATES
+// ============================================================
+
+export async function addMealTemplateOffline(
+  uid: string,
+  data: Omit<MealTemplate, 'id' | 'createdAt' | 'updatedAt'>
+): Promise<string> {
+  const database = await initOfflineStore();
+  const id = `offline-${Date.now()}-${Math.random()}`;
+  const now = new Date();
+
+  const template: MealTemplate & { uid: string; syncStatus: 'pending' | 'synced' } = {
+    ...data,
+    id,
+    uid,
+    createdAt: now,
+    updatedAt: now,
+    syncStatus: 'pending',
+  };
+
+  await database.add('mealTemplates', template);
+  return id;
+}
+
+export async function getMealTemplatesOffline(uid: string): Promise<MealTemplate[]> {
+  const database = await initOfflineStore();
+  const templates = await database.getAllFromIndex('mealTemplates', 'by-uid', uid);
+  return templates
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map((t) => ({
+      ...omitFields(t, ['syncStatus']),
+      ingredients: t.ingredients ? parseMealItems(t.ingredients) : undefined,
+    }));
+}
+
+export async function updateMealTemplateOffline(
+  uid: string,
+  templateId: string,
+  updates: Partial<Omit<MealTemplate, 'id' | 'createdAt'>>
+): Promise<void> {
+  const database = await initOfflineStore();
+  const template = await database.get('mealTemplates', templateId);
+
+  if (!template || template.uid !== uid) {
+    throw new Error('Meal template not found');
+  }
+
+  await database.put('mealTemplates', {
+    ...template,
+    ...updates,
+    updatedAt: new Date(),
+    syncStatus: 'pending',
+  });
+}
+
+export async function deleteMealTemplateOffline(uid: string, templateId: string): Promise<void> {
+  const database = await initOfflineStore();
+  const template = await database.get('mealTemplates', templateId);
+
+  if (!template || template.uid !== uid) {
+    throw new Error('Meal template not found');
+  }
+
+  await database.delete('mealTemplates', templateId);
+}
+
+// ============================================================
+// MIRRORING
+// ============================================================
+
+/**
+ * Replace the synced copy of a collection with what was just fetched online.
+ * Records with unsynced offline changes are kept as they are.
+ */
+async function mirrorOffline<S extends MirroredStore>(
+  storeName: S,
+  uid: string,
+  records: GYMIDb[S]['value'][]
+): Promise<void> {
+  const database = await initOfflineStore();
+  const tx = database.transaction(storeName, 'readwrite');
+  const existing = (await tx.store.index('by-uid').getAll(IDBKeyRange.only(uid))) as GYMIDb[S]['value'][];
+  const pending = new Set(existing.filter((r) => r.syncStatus === 'pending').map((r) => r.id));
+  const fetched = new Set(records.map((r) => r.id));
+
+  for (const record of existing) {
+    if (!pending.has(record.id) && !fetched.has(record.id)) {
+      await tx.store.delete(record.id);
+    }
+  }
+  for (const record of records) {
+    if (!pending.has(record.id)) await tx.store.put(record);
+  }
+  await tx.done;
+}
+
+export async function cacheGoalsOffline(uid: string, goals: Goal[]): Promise<void> {
+  await mirrorOffline('goals', uid, goals.map((g) => ({ ...g, uid, syncStatus: 'synced' as const })));
+}
+
+export async function cacheWeightLogsOffline(uid: string, logs: WeightLog[]): Promise<void> {
+  await mirrorOffline('weightLogs', uid, logs.map((l) => ({ ...l, uid, syncStatus: 'synced' as const })));
+}
+
+export async function cacheMealTemplatesOffline(uid: string, templates: MealTemplate[]): Promise<void> {
+  await mirrorOffline(
+    'mealTemplates',
+    uid,
+    templates.map((t) => ({ ...t, uid, syncStatus: 'synced' as const }))
+  );
+}
+
+/** Mark a mirrored record synced once its queued update reached Firestore */
+export async function markOfflineRecordSynced(storeName: MirroredStore, docId: string): Promise<void> {
+  const database = await initOfflineStore();
+  const record = await database.get(storeName, docId);
+  if (record) {
+    await database.put(storeName, { ...record, syncStatus: 'synced' });
+  }
+}
+
+// ============================================================
+// ACTIVE WORKOUT SESSION
+// ============================================================
+
+export async function saveActiveSessionOffline(session: ActiveWorkoutSession): Promise<void> {
+  const database = await initOfflineStore();
+  await database.put('activeSessions', { ...session, updatedAt: new Date() });
+}
+
+export async function getActiveSessionOffline(uid: string): Promise<ActiveWorkoutSession | null> {
+  const database = await initOfflineStore();
+  return (await database.get('activeSessions', uid)) || null;
+}
+
+export async function clearActiveSessionOffline(uid: string): Promise<void> {
+  const database = await initOfflineStore();
+  await database.delete('activeSessions', uid);
+}
+
+// ============================================================
+// SAVED FOODS
+// ============================================================
+
+export async function saveFoodOffline(food: Food): Promise<void> {
+  const database = await initOfflineStore();
+  await database.put('foods', food);
+}
+
+export async function getSavedFoods(): Promise<Food[]> {
+  const database = await initOfflineStore();
+  const foods = await database.getAll('foods');
+  return foods.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function getSavedFoodByBarcode(barcode: string): Promise<Food | null> {
+  const database = await initOfflineStore();
+  return (await database.getFromIndex('foods', 'by-barcode', barcode)) || null;
 }
 
 // ============================================================
 // SYNC QUEUE
 // ============================================================
 
+/**
+ * Queue a change for sync. Pass the document as it was before an update or
+ * delete (`base`) so a newer edit made elsewhere is detected as a conflict
+ * instead of being overwritten.
+ */
 export async function addToSyncQueue(
   uid: string,
   type: 'create' | 'update' | 'delete',
-  collection: 'workouts' | 'meals' | 'goals' | 'weightLogs',
+  collection: SyncCollection,
   docId: string,
-  data: any
+  data: DocumentData | null,
+  base?: object
 ): Promise<string> {
   const database = await initOfflineStore();
   const id = `sync-${Date.now()}-${Math.random()}`;
+  const baseValues = base as Record<string, unknown> | undefined;
+
+  const tx = database.transaction('syncQueue', 'readwrite');
+  const queued = (await tx.store.index('by-uid').getAll(uid))
+    .filter((item) => item.collection === collection && item.docId === docId)
+    .sort((a, b) => a.timestamp - b.timestamp);
+  const queuedCreate = queued.find((item) => item.type === 'create');
+  const queuedUpdate = queued.find((item) => item.type === 'update');
+
+  // Fold an edit into the create or update already waiting for this document
+  if (type === 'update' && (queuedCreate || queuedUpdate)) {
+    const target = (queuedCreate || queuedUpdate)!;
+    const merged = { ...target, data: { ...target.data, ...data }, revision: (target.revision || 0) + 1 };
+    if (target.type === 'update' && baseValues) {
+      // The first edit's base is the version the whole chain was made against
+      const newBase = Object.fromEntries(Object.keys(data || {}).map((key) => [key, baseValues[key]]));
+      merged.base = { ...newBase, ...target.base };
+    }
+    await tx.store.put(merged);
+    await tx.done;
+    return target.id;
+  }
+
+  // A delete replaces everything queued for the document
+  if (type === 'delete' && queued.length > 0) {
+    for (const item of queued) {
+      await tx.store.delete(item.id);
+    }
+    if (queuedCreate) {
+      // Never reached Firestore, so there is nothing to delete there
+      await tx.done;
+      return queuedCreate.id;
+    }
+  }
 
   const queueItem: GYMIDb['syncQueue']['value'] = {
     id,
@@ -276,13 +740,52 @@ export async function addToSyncQueue(
     data,
     timestamp: Date.now(),
     retries: 0,
-    maxRetries: 3,
+    maxRetries: 5,
   };
 
-  await database.add('syncQueue', queueItem);
+  if (baseValues?.updatedAt && type !== 'create') {
+    queueItem.baseUpdatedAt = new Date(baseValues.updatedAt as Date).getTime();
+    if (type === 'update' && data && baseValues) {
+      queueItem.base = Object.fromEntries(Object.keys(data).map((key) => [key, baseValues[key]]));
+    }
+  }
+  if (type === 'delete' && queuedUpdate?.baseUpdatedAt !== undefined) {
+    queueItem.baseUpdatedAt = queuedUpdate.baseUpdatedAt;
+  }
+
+  await tx.store.add(queueItem);
+  await tx.done;
   return id;
 }
 
+/**
+ * Move an offline-created document to the id Firestore gave it: the local
+ * record is re-keyed as synced and queued changes are pointed at the new id.
+ */
+export async function remapOfflineId(
+  uid: string,
+  collection: SyncCollection,
+  oldId: string,
+  newId: string
+): Promise<void> {
+  const database = await initOfflineStore();
+
+  const queued = await database.getAllFromIndex('syncQueue', 'by-uid', uid);
+  for (const item of queued) {
+    if (item.collection === collection && item.docId === oldId) {
+      await database.put('syncQueue', { ...item, docId: newId });
+    }
+  }
+
+  if (collection === 'notifications') return;
+  const storeName: DocumentStore = collection;
+  const record = await database.get(storeName, oldId);
+  if (record) {
+    await database.delete(storeName, oldId);
+    await database.put(storeName, { ...record, id: newId, syncStatus: 'synced' });
+  }
+}
+
 export async function getSyncQueue(uid: string): Promise<GYMIDb['syncQueue']['value'][]> {
   const database = await initOfflineStore();
   return database.getAllFromIndex('syncQueue', 'by-uid', uid);
@@ -293,6 +796,76 @@ export async function removeSyncQueueItem(id: string): Promise<void> {
   await database.delete('syncQueue', id);
 }
 
+/**
+ * Take a queue item off the queue once it has been sent (or skipped), keeping
+ * whatever the user did to the document while it was in flight: edits folded
+ * into it stay queued, as an update of the new document if it was a create,
+ * and a delete that dropped an in-flight create is queued against the
+ * document the create made. Returns false when something is still queued.
+ */
+export async function completeSyncQueueItem(
+  sent: SyncQueueItem,
+  outcome: { createdId?: string; skipped?: string }
+): Promise<boolean> {
+  const database = await initOfflineStore();
+  const tx = database.transaction('syncQueue', 'readwrite');
+  const current = await tx.store.get(sent.id);
+  const sentAt = Date.now();
+  let settled = true;
+
+  if (current && (current.revision || 0) === (sent.revision || 0)) {
+    await tx.store.delete(sent.id);
+  } else if (current) {
+    settled = false;
+    if (!outcome.skipped) {
+      // The folded-in edits were made on top of what was just sent
+      const rest: SyncQueueItem = {
+        ...current,
+        type: 'update',
+        retries: 0,
+        error: undefined,
+        nextAttemptAt: undefined,
+      };
+      if (sent.type === 'create') {
+        // Nothing to conflict with on a document this device just created
+        rest.base = undefined;
+        rest.baseUpdatedAt = undefined;
+      } else {
+        const sentValues = (sent.data || {}) as Record<string, unknown>;
+        const overlap = Object.keys(current.data || {}).filter((key) => key in sentValues);
+        rest.base = { ...current.base, ...Object.fromEntries(overlap.map((key) => [key, sentValues[key]])) };
+        rest.baseUpdatedAt = sentAt;
+      }
+      await tx.store.put(rest);
+    }
+  } else if (sent.type === 'create' && outcome.createdId) {
+    // Deleted while the create was in flight, so the new document goes too
+    settled = false;
+    await tx.store.add({
+      id: `sync-${sentAt}-${Math.random()}`,
+      uid: sent.uid,
+      type: 'delete',
+      collection: sent.collection,
+      docId: outcome.createdId,
+      data: null,
+      timestamp: sentAt,
+      retries: 0,
+      maxRetries: 5,
+    });
+  } else if (sent.type === 'update' && !outcome.skipped) {
+    // A delete that replaced it mid-flight was made against the version just sent
+    const queued = await tx.store.index('by-uid').getAll(sent.uid);
+    for (const item of queued) {
+      if (item.type !== 'delete' || item.collection !== sent.collection || item.docId !== sent.docId) continue;
+      if (item.baseUpdatedAt !== undefined) await tx.store.put({ ...item, baseUpdatedAt: sentAt });
+      settled = false;
+    }
+  }
+
+  await tx.done;
+  return settled;
+}
+
 export async function updateSyncQueueItem(
   id: string,
   updates: Partial<GYMIDb['syncQueue']['value']>
@@ -312,6 +885,98 @@ export async function clearSyncQueue(uid: string): Promise<void> {
   }
 }
 
+// ============================================================
+// DEAD LETTERS & SYNC HISTORY
+// ============================================================
+
+/** Move a queue item that ran out of retries to the dead-letter store */
+export async function moveToDeadLetters(item: SyncQueueItem, error: string): Promise<void> {
+  const database = await initOfflineStore();
+  const tx = database.transaction(['syncQueue', 'deadLetters'], 'readwrite');
+  // Its stored copy may hold edits folded in since `item` was read; a delete may have dropped it
+  const current = await tx.objectStore('syncQueue').get(item.id);
+  if (current) {
+    const failed = { ...current, retries: item.retries, error, nextAttemptAt: undefined, failedAt: Date.now() };
+    await tx.objectStore('deadLetters').put(failed);
+    await tx.objectStore('syncQueue').delete(item.id);
+  }
+  await tx.done;
+}
+
+export async function getDeadLetters(uid: string): Promise<DeadLetterItem[]> {
+  const database = await initOfflineStore();
+  const items = await database.getAllFromIndex('deadLetters', 'by-uid', uid);
+  return items.sort((a, b) => b.failedAt - a.failedAt);
+}
+
+/**
+ * Put a dead letter back in the sync queue with fresh retries, optionally
+ * with edited data. It keeps its original timestamp and so its place in line.
+ */
+export async function requeueDeadLetter(id: string, data?: unknown): Promise<void> {
+  const database = await initOfflineStore();
+  const tx = database.transaction(['syncQueue', 'deadLetters'], 'readwrite');
+  const item = await tx.objectStore('deadLetters').get(id);
+  if (item) {
+    await tx.objectStore('syncQueue').put({
+      ...omitFields(item, ['failedAt']),
+      data: data === undefined ? item.data : data,
+      retries: 0,
+      error: undefined,
+      nextAttemptAt: undefined,
+    });
+    await tx.objectStore('deadLetters').delete(id);
+  }
+  await tx.done;
+}
+
+export async function removeDeadLetter(id: string): Promise<void> {
+  const database = await initOfflineStore();
+  await database.delete('deadLetters', id);
+}
+
+export async function addSyncHistory(entry: Omit<SyncHistoryEntry, 'id'>): Promise<void> {
+  const database = await initOfflineStore();
+  await database.add('syncHistory', { ...entry, id: `history-${Date.now()}-${Math.random()}` });
+}
+
+/** Most recent sync outcomes first */
+export async function getSyncHistory(uid: string, maxEntries = 50): Promise<SyncHistoryEntry[]> {
+  const database = await initOfflineStore();
+  const entries = await database.getAllFromIndex('syncHistory', 'by-uid', uid);
+  return entries.sort((a, b) => b.timestamp - a.timestamp).slice(0, maxEntries);
+}
+
+/** Drop the oldest history entries beyond the per-user limit */
+export async function pruneSyncHistory(uid: string): Promise<void> {
+  const database = await initOfflineStore();
+  const entries = await database.getAllFromIndex('syncHistory', 'by-uid', uid);
+  const stale = entries.sort((a, b) => b.timestamp - a.timestamp).slice(SYNC_HISTORY_LIMIT);
+  for (const entry of stale) {
+    await database.delete('syncHistory', entry.id);
+  }
+}
+
+// ============================================================
+// SYNC CONFLICTS
+// ============================================================
+
+export async function saveSyncConflict(conflict: SyncConflict): Promise<void> {
+  const database = await initOfflineStore();
+  await database.put('syncConflicts', conflict);
+}
+
+export async function getSyncConflicts(uid: string): Promise<SyncConflict[]> {
+  const database = await initOfflineStore();
+  const conflicts = await database.getAllFromIndex('syncConflicts', 'by-uid', uid);
+  return conflicts.sort((a, b) => b.detectedAt - a.detectedAt);
+}
+
+export async function removeSyncConflict(id: string): Promise<void> {
+  const database = await initOfflineStore();
+  await database.delete('syncConflicts', id);
+}
+
 // ============================================================
 // UTILITIES
 // ============================================================
@@ -334,6 +999,32 @@ export async function clearAllOfflineData(uid: string): Promise<void> {
     await database.delete('weightLogs', l.id);
   }
 
+  const goals = await database.getAllFromIndex('goals', 'by-uid', uid);
+  for (const g of goals) {
+    await database.delete('goals', g.id);
+  }
+
+  const templates = await database.getAllFromIndex('mealTemplates', 'by-uid', uid);
+  for (const t of templates) {
+    await database.delete('mealTemplates', t.id);
+  }
+
+  const conflicts = await database.getAllFromIndex('syncConflicts', 'by-uid', uid);
+  for (const c of conflicts) {
+    await database.delete('syncConflicts', c.id);
+  }
+
+  const deadLetters = await database.getAllFromIndex('deadLetters', 'by-uid', uid);
+  for (const d of deadLetters) {
+    await database.delete('deadLetters', d.id);
+  }
+
+  const history = await database.getAllFromIndex('syncHistory', 'by-uid', uid);
+  for (const h of history) {
+    await database.delete('syncHistory', h.id);
+  }
+
+  await clearActiveSessionOffline(uid);
   await clearSyncQueue(uid);
 }
 
@@ -0,0 +1,108 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  addToSyncQueue,
+  getDeadLetters,
+  getSyncHistory,
+  getSyncQueue,
+  removeDeadLetter,
+  requeueDeadLetter,
+} from '@/lib/offline/offlineStore';
+import { processSyncQueue } from '@/lib/offline/syncManager';
+
+const workouts = vi.hoisted(() => ({
+  addWorkout: vi.fn(),
+  updateWorkout: vi.fn(),
+  deleteWorkout: vi.fn(),
+  getWorkout: vi.fn(),
+}));
+
+vi.mock('@/lib/workouts', () => workouts);
+vi.mock('@/lib/meals', () => ({ addMeal: vi.fn(), updateMeal: vi.fn(), deleteMeal: vi.fn(), getMeal: vi.fn() }));
+vi.mock('@/lib/weightLogs', () => ({
+  addWeightLog: vi.fn(),
+  updateWeightLog: vi.fn(),
+  deleteWeightLog: vi.fn(),
+  getWeightLog: vi.fn(),
+}));
+vi.mock('@/lib/goals', () => ({ addGoal: vi.fn(), updateGoal: vi.fn(), deleteGoal: vi.fn(), getGoal: vi.fn() }));
+vi.mock('@/lib/mealTemplates', () => ({
+  addMealTemplate: vi.fn(),
+  updateMealTemplate: vi.fn(),
+  deleteMealTemplate: vi.fn(),
+  getMealTemplate: vi.fn(),
+}));
+vi.mock('@/lib/notifications', () => ({ markAsRead: vi.fn() }));
+
+const workout = { title: 'Push', exercises: [], date: new Date(2025, 2, 1, 18) };
+
+// Queue a workout created offline and fail its create until it is dead-lettered
+async function deadLetterCreate(uid: string, docId: string) {
+  workouts.addWorkout.mockRejectedValue(new Error('Invalid workout'));
+  await addToSyncQueue(uid, 'create', 'workouts', docId, workout);
+  const [create] = await getSyncQueue(uid);
+  for (let attempt = 0; attempt < create.maxRetries; attempt++) await processSyncQueue(uid, true);
+  return create;
+}
+
+describe('changes to a record whose create was dead-lettered', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('wait while the create is dead-lettered', async () => {
+    const create = await deadLetterCreate('u1', 'offline-1');
+    await addToSyncQueue('u1', 'update', 'workouts', 'offline-1', { title: 'Pull' });
+
+    const result = await processSyncQueue('u1', true);
+
+    expect(result.deferred).toBe(1);
+    expect(await getSyncQueue('u1')).toHaveLength(1);
+    expect((await getDeadLetters('u1')).map((d) => d.id)).toEqual([create.id]);
+  });
+
+  it('are sent to the new document when the create is retried', async () => {
+    const create = await deadLetterCreate('u2', 'offline-2');
+    await addToSyncQueue('u2', 'update', 'workouts', 'offline-2', { title: 'Pull' });
+
+    workouts.addWorkout.mockResolvedValue('real-2');
+    await requeueDeadLetter(create.id);
+    const result = await processSyncQueue('u2', true);
+
+    expect(result.synced).toBe(2);
+    expect(workouts.updateWorkout).toHaveBeenCalledWith('u2', 'real-2', { title: 'Pull' });
+    expect(await getSyncQueue('u2')).toEqual([]);
+  });
+
+  it('are dead-lettered, not dropped, when the create is discarded', async () => {
+    const create = await deadLetterCreate('u3', 'offline-3');
+    const updateId = await addToSyncQueue('u3', 'update', 'workouts', 'offline-3', { title: 'Pull' });
+
+    await removeDeadLetter(create.id);
+    const result = await processSyncQueue('u3', true);
+
+    expect(result).toMatchObject({ synced: 0, failed: 1 });
+    expect(workouts.updateWorkout).not.toHaveBeenCalled();
+    expect(await getSyncQueue('u3')).toEqual([]);
+    expect(await getDeadLetters('u3')).toEqual([
+      expect.objectContaining({
+        id: updateId,
+        data: { title: 'Pull' },
+        error: 'The new record this change belongs to was never saved',
+      }),
+    ]);
+  });
+
+  it('skip a delete when the create is discarded', async () => {
+    const create = await deadLetterCreate('u4', 'offline-4');
+    await addToSyncQueue('u4', 'delete', 'workouts', 'offline-4', null);
+
+    await removeDeadLetter(create.id);
+    await processSyncQueue('u4', true);
+
+    expect(workouts.deleteWorkout).not.toHaveBeenCalled();
+    expect(await getSyncQueue('u4')).toEqual([]);
+    expect(await getDeadLetters('u4')).toEqual([]);
+    expect((await getSyncHistory('u4'))[0]).toMatchObject({ type: 'delete', outcome: 'skipped' });
+  });
+});
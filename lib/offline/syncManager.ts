@@ -1,17 +1,35 @@
+import type { DocumentData } from 'firebase/firestore';
 import {
   getSyncQueue,
-  removeSyncQueueItem,
+  completeSyncQueueItem,
   updateSyncQueueItem,
   getWorkoutsOffline,
   getMealsOffline,
   getWeightLogsOffline,
   initOfflineStore,
+  markOfflineRecordSynced,
+  omitFields,
+  remapOfflineId,
+  getSyncConflicts,
+  moveToDeadLetters,
+  getDeadLetters,
+  addSyncHistory,
+  getSyncHistory,
+  pruneSyncHistory,
+  DeadLetterItem,
+  SyncHistoryEntry,
+  SyncQueueItem,
 } from './offlineStore';
+import { reconcileQueuedChange } from './conflicts';
+import { cacheRemapId } from '@/lib/cache';
 
 // Firebase service imports
 import { addWorkout, updateWorkout, deleteWorkout } from '@/lib/workouts';
 import { addMeal, updateMeal, deleteMeal } from '@/lib/meals';
-import { addWeightLog } from '@/lib/weightLogs';
+import { addWeightLog, updateWeightLog, deleteWeightLog } from '@/lib/weightLogs';
+import { addGoal, updateGoal, deleteGoal } from '@/lib/goals';
+import { addMealTemplate, updateMealTemplate, deleteMealTemplate } from '@/lib/mealTemplates';
+import { markAsRead } from '@/lib/notifications';
 
 /**
  * Sync Manager
@@ -23,23 +41,50 @@ export interface SyncResult {
   total: number;
   synced: number;
   failed: number;
+  deferred: number; // waiting out a retry delay
   errors: Array<{ id: string; error: string }>;
 }
 
+export interface SyncStatus {
+  pending: number;
+  failed: number;
+  conflicts: number;
+  lastError?: string;
+  nextRetryAt?: number; // earliest backed-off retry (epoch ms)
+  deadLetters: DeadLetterItem[];
+  history: SyncHistoryEntry[];
+}
+
+// Backoff between attempts: 30s, 1m, 2m, 4m… capped at 30 minutes
+const RETRY_BASE_DELAY = 30 * 1000;
+const RETRY_MAX_DELAY = 30 * 60 * 1000;
+
+// Why a change to a record whose create was discarded can't be sent
+const NEVER_SAVED = 'The new record this change belongs to was never saved';
+
 let isSyncing = false;
 
+/**
+ * Delay before the next attempt after `retries` failed ones
+ */
+export function getRetryDelay(retries: number): number {
+  return Math.min(RETRY_BASE_DELAY * 2 ** Math.max(retries - 1, 0), RETRY_MAX_DELAY);
+}
+
 /**
  * Process all pending sync queue items for a user
+ * Items still waiting out their retry delay are left for a later run unless
+ * `ignoreBackoff` is set (a manual "sync now").
  */
-export async function processSyncQueue(uid: string): Promise<SyncResult> {
+export async function processSyncQueue(uid: string, ignoreBackoff = false): Promise<SyncResult> {
   // Prevent concurrent syncs
   if (isSyncing) {
     console.log('[SyncManager] Sync already in progress, skipping...');
-    return { total: 0, synced: 0, failed: 0, errors: [] };
+    return { total: 0, synced: 0, failed: 0, deferred: 0, errors: [] };
   }
 
   isSyncing = true;
-  const result: SyncResult = { total: 0, synced: 0, failed: 0, errors: [] };
+  const result: SyncResult = { total: 0, synced: 0, failed: 0, deferred: 0, errors: [] };
 
   try {
     const queue = await getSyncQueue(uid);
@@ -55,11 +100,71 @@ export async function processSyncQueue(uid: string): Promise<SyncResult> {
 
     console.log(`[SyncManager] Processing ${queue.length} pending items...`);
 
-    for (const item of queue) {
+    // Documents with a change still waiting or dead-lettered; later changes to them wait too
+    const deadLetters = await getDeadLetters(uid);
+    const blocked = new Set(deadLetters.map((d) => `${d.collection}/${d.docId}`));
+    const record = (item: SyncQueueItem, outcome: SyncHistoryEntry['outcome'], message?: string) =>
+      addSyncHistory({
+        uid,
+        queueItemId: item.id,
+        collection: item.collection,
+        type: item.type,
+        docId: item.docId,
+        outcome,
+        message,
+        timestamp: Date.now(),
+      });
+
+    // Records created earlier in this run; later changes to them were remapped in the store, not in `queue`
+    const createdIds = new Map<string, string>();
+
+    for (const queued of queue) {
+      const remappedId = createdIds.get(`${queued.collection}/${queued.docId}`);
+      const item = remappedId ? { ...queued, docId: remappedId } : queued;
+      const docKey = `${item.collection}/${item.docId}`;
+      if (blocked.has(docKey) || (!ignoreBackoff && item.nextAttemptAt && item.nextAttemptAt > Date.now())) {
+        blocked.add(docKey);
+        result.deferred++;
+        continue;
+      }
+
+      // Its create is neither queued ahead of it nor dead-lettered, so it was discarded
+      if (item.type !== 'create' && item.docId.startsWith('offline-')) {
+        if (item.type === 'delete') {
+          // Nothing was saved to delete
+          await completeSyncQueueItem(item, { skipped: NEVER_SAVED });
+          result.synced++;
+          await record(item, 'skipped', NEVER_SAVED);
+        } else {
+          // Kept for the user to see rather than dropped
+          await moveToDeadLetters(item, NEVER_SAVED);
+          await record(item, 'dead-letter', NEVER_SAVED);
+          result.failed++;
+          result.errors.push({ id: item.id, error: NEVER_SAVED });
+          blocked.add(docKey);
+        }
+        continue;
+      }
+
       try {
-        await processQueueItem(uid, item);
-        await removeSyncQueueItem(item.id);
+        const outcome = await processQueueItem(uid, item);
+        const { createdId, skipped } = outcome;
+        // Only removed if no edit was folded into it while it was being sent
+        const settled = await completeSyncQueueItem(item, outcome);
+        if (createdId && createdId !== item.docId) {
+          // Later queue items, the local copy and cached lists now use the Firestore id
+          await remapOfflineId(uid, item.collection, item.docId, createdId);
+          cacheRemapId(item.docId, createdId);
+          createdIds.set(docKey, createdId);
+        } else if (
+          settled &&
+          item.type === 'update' &&
+          (item.collection === 'goals' || item.collection === 'weightLogs' || item.collection === 'mealTemplates')
+        ) {
+          await markOfflineRecordSynced(item.collection, item.docId);
+        }
         result.synced++;
+        await record(item, skipped ? 'skipped' : 'synced', skipped);
         console.log(`[SyncManager] ✅ Synced: ${item.collection}/${item.type} (${item.docId})`);
       } catch (error: any) {
         const errorMessage = error.message || 'Unknown sync error';
@@ -67,25 +172,30 @@ export async function processSyncQueue(uid: string): Promise<SyncResult> {
 
         // Increment retry count
         const retries = (item.retries || 0) + 1;
+        result.failed++;
 
         if (retries >= item.maxRetries) {
-          // Max retries reached — mark as failed and remove from queue
-          console.warn(`[SyncManager] Max retries reached for ${item.id}, removing from queue`);
-          await removeSyncQueueItem(item.id);
-          result.failed++;
+          // Max retries reached — keep it in the dead-letter store for the user to review
+          console.warn(`[SyncManager] Max retries reached for ${item.id}, moving to dead letters`);
+          await moveToDeadLetters({ ...item, retries }, errorMessage);
+          await record(item, 'dead-letter', errorMessage);
           result.errors.push({ id: item.id, error: `Max retries exceeded: ${errorMessage}` });
         } else {
-          // Update retry count and error message
+          // Back off before the next attempt
           await updateSyncQueueItem(item.id, {
             retries,
             error: errorMessage,
+            nextAttemptAt: Date.now() + getRetryDelay(retries),
           });
-          result.failed++;
+          await record(item, 'failed', errorMessage);
           result.errors.push({ id: item.id, error: errorMessage });
         }
+        blocked.add(docKey);
       }
     }
 
+    await pruneSyncHistory(uid);
+
     console.log(`[SyncManager] Sync complete: ${result.synced}/${result.total} synced, ${result.failed} failed`);
     return result;
   } finally {
@@ -95,40 +205,57 @@ export async function processSyncQueue(uid: string): Promise<SyncResult> {
 
 /**
  * Process a single sync queue item
+ * Returns the Firestore id when the item created a document, or why the
+ * change was not sent.
  */
 async function processQueueItem(
   uid: string,
-  item: {
-    type: 'create' | 'update' | 'delete';
-    collection: 'workouts' | 'meals' | 'goals' | 'weightLogs';
-    docId: string;
-    data: any;
-  }
-): Promise<void> {
+  item: SyncQueueItem
+): Promise<{ createdId?: string; skipped?: string }> {
   const { type, collection, docId, data } = item;
 
   // Ensure data has proper Date objects (IDB may store them as strings)
-  const parsedData = data ? parseDataDates(data) : data;
+  const queuedData = data ? parseDataDates(data) : data;
+
+  // Don't overwrite a newer edit made elsewhere; the conflict policy decides
+  const reconciled = await reconcileQueuedChange(uid, { ...item, data: queuedData });
+  if (reconciled.action === 'skip') {
+    console.log(`[SyncManager] Skipped ${collection}/${type} (${docId}): ${reconciled.reason}`);
+    return { skipped: reconciled.reason };
+  }
+  const parsedData = reconciled.data as DocumentData; // null for deletes
+
+  const createdId = await sendToFirestore(uid, item, parsedData);
+  return { createdId: createdId || undefined };
+}
+
+/**
+ * Replay a change against the matching Firebase service
+ */
+async function sendToFirestore(uid: string, item: SyncQueueItem, parsedData: DocumentData): Promise<string | void> {
+  const { type, collection, docId } = item;
 
   switch (collection) {
     case 'workouts':
-      await processWorkoutSync(uid, type, docId, parsedData);
-      break;
+      return processWorkoutSync(uid, type, docId, parsedData);
     case 'meals':
-      await processMealSync(uid, type, docId, parsedData);
-      break;
+      return processMealSync(uid, type, docId, parsedData);
     case 'weightLogs':
-      await processWeightLogSync(uid, type, docId, parsedData);
-      break;
+      return processWeightLogSync(uid, type, docId, parsedData);
     case 'goals':
-      // Goals sync not yet implemented — skip for now
-      console.warn('[SyncManager] Goals sync not implemented yet');
-      break;
+      return processGoalSync(uid, type, docId, parsedData);
+    case 'mealTemplates':
+      return processMealTemplateSync(uid, type, docId, parsedData);
+    case 'notifications':
+      return processNotificationSync(uid, type, docId);
     default:
       throw new Error(`Unknown collection: ${collection}`);
   }
 }
 
+// Offline bookkeeping and timestamps Firestore sets itself, stripped before sending
+const OFFLINE_FIELDS = ['id', 'uid', 'syncStatus', 'createdAt', 'updatedAt'];
+
 /**
  * Sync a workout operation to Firebase
  */
@@ -136,18 +263,16 @@ async function processWorkoutSync(
   uid: string,
   type: 'create' | 'update' | 'delete',
   docId: string,
-  data: any
-): Promise<void> {
+  data: DocumentData
+): Promise<string | void> {
   switch (type) {
     case 'create': {
-      // Strip offline metadata before sending to Firebase
-      const { id, uid: _uid, syncStatus, createdAt, updatedAt, ...workoutData } = data;
-      await addWorkout(uid, workoutData);
-      break;
+      const workoutData = omitFields(data, OFFLINE_FIELDS);
+      return addWorkout(uid, workoutData as Parameters<typeof addWorkout>[1]);
     }
     case 'update': {
       // For updates, only send the changed fields
-      const { id, uid: _uid, syncStatus, createdAt, ...updates } = data;
+      const updates = omitFields(data, OFFLINE_FIELDS);
       // Only sync if it's a real Firebase doc ID (not offline-prefixed)
       if (!docId.startsWith('offline-')) {
         await updateWorkout(uid, docId, updates);
@@ -170,16 +295,15 @@ async function processMealSync(
   uid: string,
   type: 'create' | 'update' | 'delete',
   docId: string,
-  data: any
-): Promise<void> {
+  data: DocumentData
+): Promise<string | void> {
   switch (type) {
     case 'create': {
-      const { id, uid: _uid, syncStatus, createdAt, updatedAt, ...mealData } = data;
-      await addMeal(uid, mealData);
-      break;
+      const mealData = omitFields(data, OFFLINE_FIELDS);
+      return addMeal(uid, mealData as Parameters<typeof addMeal>[1]);
     }
     case 'update': {
-      const { id, uid: _uid, syncStatus, createdAt, ...updates } = data;
+      const updates = omitFields(data, OFFLINE_FIELDS);
       if (!docId.startsWith('offline-')) {
         await updateMeal(uid, docId, updates);
       }
@@ -200,29 +324,108 @@ async function processWeightLogSync(
   uid: string,
   type: 'create' | 'update' | 'delete',
   docId: string,
-  data: any
-): Promise<void> {
+  data: DocumentData
+): Promise<string | void> {
+  switch (type) {
+    case 'create': {
+      const logData = omitFields(data, OFFLINE_FIELDS);
+      return addWeightLog(uid, logData as Parameters<typeof addWeightLog>[1]);
+    }
+    case 'update': {
+      const updates = omitFields(data, OFFLINE_FIELDS);
+      if (!docId.startsWith('offline-')) {
+        await updateWeightLog(uid, docId, updates);
+      }
+      break;
+    }
+    case 'delete':
+      if (!docId.startsWith('offline-')) {
+        await deleteWeightLog(uid, docId);
+      }
+      break;
+  }
+}
+
+/**
+ * Sync a goal operation to Firebase
+ */
+async function processGoalSync(
+  uid: string,
+  type: 'create' | 'update' | 'delete',
+  docId: string,
+  data: DocumentData
+): Promise<string | void> {
+  switch (type) {
+    case 'create': {
+      const goalData = omitFields(data, OFFLINE_FIELDS);
+      return addGoal(uid, goalData as Parameters<typeof addGoal>[1]);
+    }
+    case 'update': {
+      const updates = omitFields(data, OFFLINE_FIELDS);
+      if (!docId.startsWith('offline-')) {
+        await updateGoal(uid, docId, updates);
+      }
+      break;
+    }
+    case 'delete':
+      if (!docId.startsWith('offline-')) {
+        await deleteGoal(uid, docId);
+      }
+      break;
+  }
+}
+
+/**
+ * Sync a meal template operation to Firebase
+ */
+async function processMealTemplateSync(
+  uid: string,
+  type: 'create' | 'update' | 'delete',
+  docId: string,
+  data: DocumentData
+): Promise<string | void> {
   switch (type) {
     case 'create': {
-      const { id, uid: _uid, syncStatus, createdAt, updatedAt, ...logData } = data;
-      await addWeightLog(uid, logData);
+      const templateData = omitFields(data, OFFLINE_FIELDS);
+      return addMealTemplate(uid, templateData as Parameters<typeof addMealTemplate>[1]);
+    }
+    case 'update': {
+      const updates = omitFields(data, OFFLINE_FIELDS);
+      if (!docId.startsWith('offline-')) {
+        await updateMealTemplate(uid, docId, updates);
+      }
       break;
     }
-    case 'update':
     case 'delete':
-      // Weight logs are typically append-only; update/delete sync can be added later
-      console.warn(`[SyncManager] Weight log ${type} not fully implemented`);
+      if (!docId.startsWith('offline-')) {
+        await deleteMealTemplate(uid, docId);
+      }
       break;
   }
 }
 
+/**
+ * Sync a notification's read state to Firebase
+ * Notifications are created server-side; only marking them read is queued.
+ */
+async function processNotificationSync(
+  uid: string,
+  type: 'create' | 'update' | 'delete',
+  docId: string
+): Promise<void> {
+  if (type !== 'update') {
+    throw new Error(`Notification ${type} cannot be queued offline`);
+  }
+  await markAsRead(uid, docId);
+}
+
 /**
  * Ensure date fields are proper Date objects
  * IndexedDB may serialize dates as strings
  */
 function parseDataDates(data: any): any {
   const parsed = { ...data };
-  const dateFields = ['date', 'createdAt', 'updatedAt', 'startDate', 'targetDate', 'completedAt'];
+  const dateFields = ['date', 'createdAt', 'updatedAt', 'startDate', 'targetDate', 'completedAt', 'readAt'];
 
   for (const field of dateFields) {
     if (parsed[field] && !(parsed[field] instanceof Date)) {
@@ -236,20 +439,24 @@ function parseDataDates(data: any): any {
 /**
  * Get current sync status info
  */
-export async function getSyncStatus(uid: string): Promise<{
-  pending: number;
-  failed: number;
-  lastError?: string;
-}> {
+export async function getSyncStatus(uid: string): Promise<SyncStatus> {
   const queue = await getSyncQueue(uid);
+  const conflicts = await getSyncConflicts(uid);
+  const deadLetters = await getDeadLetters(uid);
+  const history = await getSyncHistory(uid);
 
   const failed = queue.filter((item) => item.retries > 0);
   const lastError = failed.length > 0 ? failed[failed.length - 1].error : undefined;
+  const retryTimes = queue.map((item) => item.nextAttemptAt).filter((at): at is number => !!at);
 
   return {
     pending: queue.length,
     failed: failed.length,
+    conflicts: conflicts.length,
     lastError,
+    nextRetryAt: retryTimes.length > 0 ? Math.min(...retryTimes) : undefined,
+    deadLetters,
+    history,
   };
 }
 
@@ -0,0 +1,253 @@
+import { db } from '@/lib/firebase';
+import {
+  collection,
+  addDoc,
+  getDocs,
+  updateDoc,
+  deleteDoc,
+  doc,
+  query,
+  orderBy,
+  writeBatch,
+  arrayUnion,
+  arrayRemove,
+  Timestamp,
+} from 'firebase/firestore';
+import { getErrorMessage } from './utils/errorMessages';
+
+/**
+ * Training Programs
+ * Multi-week schedules of workout templates (e.g. PPL, 5/3/1).
+ * Week 1 starts on the program's start date; days are matched by weekday.
+ */
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface ProgramDay {
+  week: number; // 1-based
+  dayOfWeek: number; // 0 = Sunday … 6 = Saturday
+  templateId: string;
+}
+
+export interface TrainingProgram {
+  name: string;
+  weeks: number;
+  schedule: ProgramDay[];
+  startDate: Date;
+  active: boolean;
+  completedDays: string[]; // keys from getProgramDayKey
+  notes?: string;
+  id: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ScheduledProgramDay extends ProgramDay {
+  programId: string;
+  key: string;
+  completed: boolean;
+}
+
+type RawDoc = Record<string, unknown>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toProgram(id: string, data: RawDoc): TrainingProgram {
+  const schedule = Array.isArray(data.schedule) ? (data.schedule as RawDoc[]) : [];
+  return {
+    id,
+    name: String(data.name || ''),
+    weeks: Math.max(Number(data.weeks) || 1, 1),
+    schedule: schedule.map((d) => ({
+      week: Number(d.week) || 1,
+      dayOfWeek: Number(d.dayOfWeek) || 0,
+      templateId: String(d.templateId || ''),
+    })),
+    startDate: (data.startDate as Timestamp | undefined)?.toDate() || new Date(),
+    active: data.active === true,
+    completedDays: Array.isArray(data.completedDays) ? data.completedDays.map(String) : [],
+    notes: typeof data.notes === 'string' && data.notes ? data.notes : undefined,
+    createdAt: (data.createdAt as Timestamp | undefined)?.toDate() || new Date(),
+    updatedAt: (data.updatedAt as Timestamp | undefined)?.toDate() || new Date(),
+  };
+}
+
+// ============================================================
+// SCHEDULE HELPERS
+// ============================================================
+
+/** Stable key for a program day, stored in completedDays */
+export function getProgramDayKey(week: number, dayOfWeek: number): string {
+  return `w${week}d${dayOfWeek}`;
+}
+
+const startOfDay = (date: Date) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+
+/**
+ * Program week (1-based) that a date falls in, or null outside the program
+ */
+export function getProgramWeek(program: TrainingProgram, date: Date = new Date()): number | null {
+  const days = Math.round((startOfDay(date) - startOfDay(program.startDate)) / DAY_MS);
+  if (days < 0) return null;
+  const week = Math.floor(days / 7) + 1;
+  return week <= program.weeks ? week : null;
+}
+
+/**
+ * The scheduled day for a date, or null on rest days and outside the program
+ */
+export function getProgramDay(
+  program: TrainingProgram,
+  date: Date = new Date()
+): ScheduledProgramDay | null {
+  const week = getProgramWeek(program, date);
+  if (week === null) return null;
+
+  const dayOfWeek = date.getDay();
+  const day = program.schedule.find((d) => d.week === week && d.dayOfWeek === dayOfWeek);
+  if (!day) return null;
+
+  const key = getProgramDayKey(week, dayOfWeek);
+  return { ...day, programId: program.id, key, completed: program.completedDays.includes(key) };
+}
+
+/** Completed vs total scheduled days */
+export function getProgramProgress(program: TrainingProgram): { completed: number; total: number } {
+  const keys = new Set(program.schedule.map((d) => getProgramDayKey(d.week, d.dayOfWeek)));
+  const completed = program.completedDays.filter((k) => keys.has(k)).length;
+  return { completed, total: keys.size };
+}
+
+// ============================================================
+// CRUD
+// ============================================================
+
+/**
+ * Add a new training program
+ */
+export async function addProgram(
+  uid: string,
+  data: Omit<TrainingProgram, 'id' | 'createdAt' | 'updatedAt' | 'completedDays'>
+): Promise<string> {
+  try {
+    const programsRef = collection(db, 'users', uid, 'programs');
+    const docRef = await addDoc(programsRef, {
+      name: data.name,
+      weeks: data.weeks,
+      schedule: data.schedule,
+      startDate: Timestamp.fromDate(data.startDate),
+      active: data.active,
+      completedDays: [],
+      notes: data.notes || null,
+      createdAt: Timestamp.now(),
+      updatedAt: Timestamp.now(),
+    });
+    if (data.active) await setActiveProgram(uid, docRef.id);
+    return docRef.id;
+  } catch (error) {
+    console.error('Error adding program:', error);
+    throw new Error(getErrorMessage(error, 'Failed to add program'));
+  }
+}
+
+/**
+ * Get all training programs for a user, newest first
+ */
+export async function getPrograms(uid: string): Promise<TrainingProgram[]> {
+  try {
+    const programsRef = collection(db, 'users', uid, 'programs');
+    const q = query(programsRef, orderBy('createdAt', 'desc'));
+    const snapshot = await getDocs(q);
+
+    return snapshot.docs.map((doc) => toProgram(doc.id, doc.data()));
+  } catch (error) {
+    console.error('Error fetching programs:', error);
+    throw new Error(getErrorMessage(error, 'Failed to fetch programs'));
+  }
+}
+
+/**
+ * Get the program the user is currently following, if any
+ */
+export async function getActiveProgram(uid: string): Promise<TrainingProgram | null> {
+  const programs = await getPrograms(uid);
+  return programs.find((p) => p.active) || null;
+}
+
+/**
+ * Update a training program
+ */
+export async function updateProgram(
+  uid: string,
+  programId: string,
+  updates: Partial<Omit<TrainingProgram, 'id' | 'createdAt' | 'updatedAt'>>
+): Promise<void> {
+  try {
+    const programRef = doc(db, 'users', uid, 'programs', programId);
+    const data: RawDoc = { ...updates, updatedAt: Timestamp.now() };
+    if (updates.startDate) data.startDate = Timestamp.fromDate(updates.startDate);
+    if ('notes' in updates) data.notes = updates.notes || null;
+    await updateDoc(programRef, data);
+  } catch (error) {
+    console.error('Error updating program:', error);
+    throw new Error(getErrorMessage(error, 'Failed to update program'));
+  }
+}
+
+/**
+ * Make one program active and deactivate the rest
+ */
+export async function setActiveProgram(uid: string, programId: string | null): Promise<void> {
+  try {
+    const programsRef = collection(db, 'users', uid, 'programs');
+    const snapshot = await getDocs(programsRef);
+    const batch = writeBatch(db);
+    snapshot.docs.forEach((programDoc) => {
+      const active = programDoc.id === programId;
+      if (programDoc.data().active !== active) {
+        batch.update(programDoc.ref, { active, updatedAt: Timestamp.now() });
+      }
+    });
+    await batch.commit();
+  } catch (error) {
+    console.error('Error activating program:', error);
+    throw new Error(getErrorMessage(error, 'Failed to activate program'));
+  }
+}
+
+/**
+ * Mark a program day as done (or undo it)
+ */
+export async function setProgramDayCompleted(
+  uid: string,
+  programId: string,
+  key: string,
+  completed = true
+): Promise<void> {
+  try {
+    const programRef = doc(db, 'users', uid, 'programs', programId);
+    await updateDoc(programRef, {
+      completedDays: completed ? arrayUnion(key) : arrayRemove(key),
+      updatedAt: Timestamp.now(),
+    });
+  } catch (error) {
+    console.error('Error updating program day:', error);
+    throw new Error(getErrorMessage(error, 'Failed to update program day'));
+  }
+}
+
+/**
+ * Delete a training program
+ */
+export async function deleteProgram(uid: string, programId: string): Promise<void> {
+  try {
+    const programRef = doc(db, 'users', uid, 'programs', programId);
+    await deleteDoc(programRef);
+  } catch (error) {
+    console.error('Error deleting program:', error);
+    throw new Error(getErrorMessage(error, 'Failed to delete program'));
+  }
+}
@@ -0,0 +1,315 @@
+import { Workout, WorkoutSet } from './types/firestore';
+import { findExerciseByName } from './data/exercises';
+import { UnitSystem, displayWeight, getWeightInUnit, weightToKg, weightUnit } from './utils/units';
+import { isWorkingSet } from './utils/workoutSets';
+import { estimateOneRepMax } from './strength';
+import { createExerciseKeyer } from './utils/exerciseResolver';
+
+/**
+ * Progressive Overload
+ * Suggests the next session's load and reps for an exercise from its logged
+ * history, using linear, double-progression or RPE-based rules.
+ */
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type ProgressionRule = 'linear' | 'double' | 'rpe';
+
+export interface ProgressionSettings {
+  rule: ProgressionRule;
+  increment: number; // in the user's display unit (kg or lbs)
+  repRange: [number, number]; // double progression bounds
+  targetRpe: number; // RPE rule target
+  stallSessions: number; // sessions without an e1RM gain before a deload
+  deloadPercent: number; // load reduction on deload, e.g. 10
+}
+
+export type OverloadAction = 'increase_weight' | 'increase_reps' | 'repeat' | 'deload';
+
+export interface OverloadSuggestion {
+  exercise: string;
+  rule: ProgressionRule;
+  action: OverloadAction;
+  sets: number;
+  reps: number;
+  weight: number; // kg
+  previousWeight: number; // kg, top working weight last session
+  previousReps: number; // lowest reps across those top sets
+  reason: string;
+}
+
+export const PROGRESSION_RULE_LABELS: Record<ProgressionRule, string> = {
+  linear: 'Linear',
+  double: 'Double progression',
+  rpe: 'RPE-based',
+};
+
+const RULES_STORAGE_KEY = 'gymi-progression-rules';
+
+// ============================================================
+// SETTINGS
+// ============================================================
+
+/**
+ * Default settings derived from the exercise's equipment and muscle groups.
+ * Barbell compounds progress linearly; everything else uses double progression.
+ */
+export function getDefaultProgressionSettings(
+  exercise: string,
+  unitSystem: UnitSystem = 'metric'
+): ProgressionSettings {
+  const meta = findExerciseByName(exercise);
+  const equipment = meta?.equipment ?? [];
+  const lowerBody = meta?.muscleGroups.some((m) => ['quads', 'hamstrings', 'glutes'].includes(m));
+  const barbell = equipment.includes('barbell');
+  const metric = unitSystem === 'metric';
+
+  let increment = metric ? 2.5 : 5;
+  if (barbell && lowerBody) increment = metric ? 5 : 10;
+  else if (equipment.includes('dumbbell')) increment = metric ? 2 : 5;
+
+  const compound = (meta?.muscleGroups.length ?? 0) >= 2;
+  return {
+    rule: barbell && compound ? 'linear' : 'double',
+    increment,
+    repRange: barbell && compound ? [5, 8] : [8, 12],
+    targetRpe: 8,
+    stallSessions: 3,
+    deloadPercent: 10,
+  };
+}
+
+/** Per-exercise rule overrides chosen by the user (browser-local) */
+export function getSavedProgressionRules(): Record<string, ProgressionRule> {
+  if (typeof window === 'undefined') return {};
+  try {
+    return JSON.parse(localStorage.getItem(RULES_STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+export function saveProgressionRule(exercise: string, rule: ProgressionRule | null): void {
+  if (typeof window === 'undefined') return;
+  const rules = getSavedProgressionRules();
+  const key = exercise.trim().toLowerCase();
+  if (rule) rules[key] = rule;
+  else delete rules[key];
+  localStorage.setItem(RULES_STORAGE_KEY, JSON.stringify(rules));
+}
+
+/** Default settings with the user's saved rule applied */
+export function getProgressionSettings(
+  exercise: string,
+  unitSystem: UnitSystem = 'metric'
+): ProgressionSettings {
+  const defaults = getDefaultProgressionSettings(exercise, unitSystem);
+  const saved = getSavedProgressionRules()[exercise.trim().toLowerCase()];
+  return saved ? { ...defaults, rule: saved } : defaults;
+}
+
+// ============================================================
+// SUGGESTIONS
+// ============================================================
+
+interface SessionSummary {
+  sets: WorkoutSet[]; // working sets at the top weight
+  weight: number; // kg
+  minReps: number;
+  rpe: number | null; // highest RPE logged on a top set
+  e1rm: number;
+}
+
+/**
+ * Working sets of an exercise per session, newest first. Entries logged
+ * under another name of the same library exercise count too.
+ */
+function summarizeSessions(workouts: Workout[], exercise: string): SessionSummary[] {
+  const ordered = [...workouts].sort(
+    (a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()
+  );
+  const summaries: SessionSummary[] = [];
+  const keyOf = createExerciseKeyer();
+  const key = keyOf({ exercise });
+
+  for (const workout of ordered) {
+    const sets = workout.exercises
+      .filter((e) => keyOf(e) === key)
+      .flatMap((e) => e.sets)
+      .filter((s) => isWorkingSet(s) && s.type !== 'drop' && s.reps > 0);
+    if (sets.length === 0) continue;
+
+    const weight = Math.max(...sets.map((s) => s.weight));
+    const top = sets.filter((s) => s.weight === weight);
+    const rpes = top.map((s) => s.rpe).filter((r): r is number => !!r);
+    summaries.push({
+      sets: top,
+      weight,
+      minReps: Math.min(...top.map((s) => s.reps)),
+      rpe: rpes.length ? Math.max(...rpes) : null,
+      e1rm: Math.max(...sets.map((s) => estimateOneRepMax(s.weight, s.reps))),
+    });
+  }
+
+  return summaries;
+}
+
+/** Round a kg load to the nearest increment in the display unit */
+function roundLoad(kg: number, increment: number, unitSystem: UnitSystem): number {
+  const display = getWeightInUnit(kg, unitSystem);
+  const rounded = Math.max(Math.round(display / increment) * increment, 0);
+  return weightToKg(rounded, unitSystem);
+}
+
+/**
+ * Suggest the next session for an exercise, or null without usable history.
+ * Cardio exercises are skipped.
+ */
+export function getOverloadSuggestion(
+  workouts: Workout[],
+  exercise: string,
+  unitSystem: UnitSystem = 'metric',
+  settings: ProgressionSettings = getProgressionSettings(exercise, unitSystem)
+): OverloadSuggestion | null {
+  if (findExerciseByName(exercise)?.category === 'cardio') return null;
+
+  const history = summarizeSessions(workouts, exercise);
+  const last = history[0];
+  if (!last) return null;
+
+  const fmt = (kg: number) => displayWeight(kg, unitSystem);
+  const fmtStep = (steps = 1) => `${settings.increment * steps} ${weightUnit(unitSystem)}`;
+  const stepKg = weightToKg(settings.increment, unitSystem);
+  const base = {
+    exercise,
+    rule: settings.rule,
+    sets: last.sets.length,
+    previousWeight: last.weight,
+    previousReps: last.minReps,
+  };
+  const increase = (reason: string, steps = 1): OverloadSuggestion => ({
+    ...base,
+    action: 'increase_weight',
+    weight: roundLoad(last.weight + stepKg * steps, settings.increment, unitSystem),
+    reps: settings.rule === 'double' ? settings.repRange[0] : last.minReps,
+    reason,
+  });
+
+  // Bodyweight movements progress by reps only
+  if (last.weight <= 0) {
+    return {
+      ...base,
+      action: 'increase_reps',
+      weight: 0,
+      reps: last.minReps + 1,
+      reason: `Hit ${last.sets.length}×${last.minReps} — aim for ${last.minReps + 1} reps per set`,
+    };
+  }
+
+  // Deload after several sessions without beating the earlier best e1RM
+  const recent = history.slice(0, settings.stallSessions);
+  const earlier = history.slice(settings.stallSessions);
+  if (recent.length === settings.stallSessions && earlier.length > 0) {
+    const recentBest = Math.max(...recent.map((s) => s.e1rm));
+    const earlierBest = Math.max(...earlier.map((s) => s.e1rm));
+    if (recentBest <= earlierBest) {
+      const weight = roundLoad(
+        last.weight * (1 - settings.deloadPercent / 100),
+        settings.increment,
+        unitSystem
+      );
+      return {
+        ...base,
+        action: 'deload',
+        weight,
+        reps: last.minReps,
+        reason: `No progress in ${settings.stallSessions} sessions — deload to ${fmt(weight)} and build back up`,
+      };
+    }
+  }
+
+  const repeat = (reason: string, reps = last.minReps): OverloadSuggestion => ({
+    ...base,
+    action: 'repeat',
+    weight: last.weight,
+    reps,
+    reason,
+  });
+
+  const rule = settings.rule === 'rpe' && last.rpe === null ? 'double' : settings.rule;
+
+  if (rule === 'linear') {
+    // Success = every top set matched the first one's reps
+    const target = last.sets[0].reps;
+    return last.minReps >= target
+      ? increase(`Completed ${last.sets.length}×${target} at ${fmt(last.weight)} — add ${fmtStep()}`)
+      : repeat(`Missed reps at ${fmt(last.weight)} — repeat ${last.sets.length}×${target}`, target);
+  }
+
+  if (rule === 'rpe') {
+    const rpe = last.rpe as number;
+    const gap = settings.targetRpe - rpe;
+    if (gap >= 2) {
+      return increase(`RPE ${rpe} is well under target ${settings.targetRpe} — add ${fmtStep(2)}`, 2);
+    }
+    if (gap >= 1) {
+      return increase(`RPE ${rpe} is under target ${settings.targetRpe} — add ${fmtStep()}`);
+    }
+    if (gap <= -2) {
+      const weight = roundLoad(last.weight - stepKg, settings.increment, unitSystem);
+      return {
+        ...base,
+        action: 'deload',
+        weight,
+        reps: last.minReps,
+        reason: `RPE ${rpe} overshot target ${settings.targetRpe} — drop to ${fmt(weight)}`,
+      };
+    }
+    return repeat(`RPE ${rpe} is on target — repeat ${fmt(last.weight)} × ${last.minReps}`);
+  }
+
+  // Double progression: add reps up to the top of the range, then add load
+  const [minReps, maxReps] = settings.repRange;
+  if (last.minReps >= maxReps) {
+    return increase(`All sets reached ${maxReps} reps — add ${fmtStep()} and restart at ${minReps}`);
+  }
+  const reps = Math.max(Math.min(last.minReps + 1, maxReps), minReps);
+  return {
+    ...base,
+    action: 'increase_reps',
+    weight: last.weight,
+    reps,
+    reason: `Stay at ${fmt(last.weight)} and aim for ${reps} reps (range ${minReps}–${maxReps})`,
+  };
+}
+
+/**
+ * Suggestions for exercises trained within the last `days`, most recent first
+ */
+export function getOverloadSuggestions(
+  workouts: Workout[],
+  unitSystem: UnitSystem = 'metric',
+  days = 14
+): OverloadSuggestion[] {
+  const cutoff = Date.now() - days * 24 * 60 * 60 * 1000;
+  const recent = workouts
+    .filter((w) => new Date(w.date).getTime() >= cutoff)
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+
+  const seen = new Set<string>();
+  const suggestions: OverloadSuggestion[] = [];
+  const keyOf = createExerciseKeyer();
+  for (const workout of recent) {
+    for (const entry of workout.exercises) {
+      if (!entry.exercise.trim()) continue;
+      const key = keyOf(entry);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      const suggestion = getOverloadSuggestion(workouts, entry.exercise, unitSystem);
+      if (suggestion) suggestions.push(suggestion);
+    }
+  }
+  return suggestions;
+}
@@ -1,10 +1,22 @@
 import { getWorkouts, getWorkoutsByDateRange } from './workouts';
-import { getMeals } from './meals';
-import { getWeightLogs } from './weightLogs';
-import { getActiveGoals } from './goals';
+import { getMeals, getMealsByDateRange } from './meals';
+import { getWeightLogs, getWeightLogsByDateRange } from './weightLogs';
+import { getActiveGoals, calculateGoalProgress } from './goals';
 import { calculateStreaks } from './achievements';
-import { Workout, Meal, WeightLog, Goal } from './types/firestore';
+import { Workout, WorkoutSet, Meal, WeightLog, Goal } from './types/firestore';
 import { UnitSystem, displayWeightChange } from './utils/units';
+import {
+  getExerciseNames,
+  getSetCount,
+  getRepCount,
+  getWorkoutVolume,
+  isWorkingSet,
+} from './utils/workoutSets';
+import { createExerciseKeyer, resolveWorkoutExercise } from './utils/exerciseResolver';
+import { CardioTotals, getCardioTotals } from './utils/cardio';
+import { MuscleGroup } from './data/exercises';
+import { getOverloadSuggestions } from './progression';
+import { E1RMPoint, getE1RMHistory } from './strength';
 
 /**
  * Reports & Insights Service
@@ -22,7 +34,8 @@ export interface WeeklyWorkoutReport {
   totalWorkouts: number;
   totalSets: number;
   totalReps: number;
-  totalVolume: number; // sets × reps × weight
+  totalVolume: number; // Σ reps × weight over working sets
+  cardio: CardioTotals; // distance in km, duration in seconds
   favoriteExercise: string | null;
   exerciseBreakdown: Record<string, number>;
   averagePerDay: number;
@@ -41,6 +54,15 @@ export interface WeeklyNutritionReport {
   avgFat: number;
   mealTypeBreakdown: Record<string, number>;
   daysLogged: number;
+  plannedVsActual?: PlannedVsActualDay[]; // weekly report only
+  pendingPlannedMeals?: number; // planned meals not confirmed yet
+}
+
+/** Calories planned ahead for a day (pending or confirmed) vs calories logged */
+export interface PlannedVsActualDay {
+  date: Date;
+  plannedCalories: number;
+  actualCalories: number;
 }
 
 export interface MonthlyReport {
@@ -52,9 +74,55 @@ export interface MonthlyReport {
   streakInfo: { current: number; longest: number };
 }
 
+export type ReportPeriod = 'week' | 'month';
+
+/** Best estimated 1RM of an exercise within a report period */
+export interface ReportTopLift {
+  exercise: string;
+  e1rm: number; // kg
+  weight: number; // kg, set that produced it
+  reps: number;
+  previousE1rm: number | null; // kg, best before the period (null when first logged)
+}
+
+/** A week or calendar month in full, as printed in the PDF report */
+export interface PeriodReport extends MonthlyReport {
+  kind: ReportPeriod;
+  startDate: Date;
+  endDate: Date;
+  dailyVolume: Array<{ date: Date; volume: number }>; // kg, every day of the period
+  weightLogs: Array<{ date: Date; weight: number }>; // kg, oldest first
+  topLifts: ReportTopLift[];
+}
+
+export interface MuscleGroupVolume {
+  muscle: MuscleGroup;
+  hardSets: number; // primary muscle counts 1 per set, secondary muscles 0.5
+  tonnage: number; // Σ reps × weight (kg), weighted the same way
+  exercises: string[];
+}
+
+export type MuscleImbalanceKind = 'push_pull' | 'quad_hamstring' | 'undertrained';
+
+export interface MuscleImbalance {
+  kind: MuscleImbalanceKind;
+  message: string;
+  muscles: MuscleGroup[]; // the lagging side
+}
+
+export interface WeeklyMuscleReport {
+  period: string;
+  startDate: Date;
+  endDate: Date;
+  muscles: MuscleGroupVolume[]; // every tracked group, most sets first
+  totalHardSets: number;
+  unmappedSets: number; // hard sets of exercises not found in the library
+  imbalances: MuscleImbalance[];
+}
+
 export interface Insight {
   id: string;
-  type: 'streak' | 'milestone' | 'trend' | 'recommendation' | 'alert';
+  type: 'streak' | 'milestone' | 'trend' | 'recommendation' | 'alert' | 'progression';
   icon: string;
   message: string;
   priority: number; // 1 = highest
@@ -89,44 +157,7 @@ export async function getWeeklyWorkoutReport(uid: string): Promise<WeeklyWorkout
     (w) => new Date(w.date) >= prevStart && new Date(w.date) <= prevEnd
   );
 
-  // Exercise breakdown
-  const exerciseBreakdown: Record<string, number> = {};
-  let totalSets = 0;
-  let totalReps = 0;
-  let totalVolume = 0;
-
-  for (const w of thisWeek) {
-    exerciseBreakdown[w.exercise] = (exerciseBreakdown[w.exercise] || 0) + 1;
-    totalSets += w.sets;
-    totalReps += w.reps;
-    totalVolume += w.sets * w.reps * w.weight;
-  }
-
-  const favoriteExercise =
-    Object.keys(exerciseBreakdown).length > 0
-      ? Object.entries(exerciseBreakdown).sort((a, b) => b[1] - a[1])[0][0]
-      : null;
-
-  const comparedToLastWeek =
-    lastWeek.length > 0
-      ? Math.round(((thisWeek.length - lastWeek.length) / lastWeek.length) * 100)
-      : thisWeek.length > 0
-      ? 100
-      : 0;
-
-  return {
-    period: `${formatDate(startOfWeek)} - ${formatDate(endOfWeek)}`,
-    startDate: startOfWeek,
-    endDate: endOfWeek,
-    totalWorkouts: thisWeek.length,
-    totalSets,
-    totalReps,
-    totalVolume,
-    favoriteExercise,
-    exerciseBreakdown,
-    averagePerDay: Math.round((thisWeek.length / 7) * 10) / 10,
-    comparedToLastWeek,
-  };
+  return summarizeWorkouts(thisWeek, startOfWeek, endOfWeek, lastWeek);
 }
 
 /**
@@ -139,46 +170,214 @@ export async function getWeeklyNutritionReport(uid: string): Promise<WeeklyNutri
   endOfWeek.setDate(endOfWeek.getDate() + 6);
   endOfWeek.setHours(23, 59, 59, 999);
 
-  const allMeals = await getMeals(uid, 500);
+  const weekMeals = await getMealsByDateRange(uid, startOfWeek, endOfWeek, true);
+  const thisWeek = weekMeals.filter((m) => !m.planned);
+
+  // Days with nothing planned still show what was logged
+  const plannedVsActual: PlannedVsActualDay[] = [];
+  for (let i = 0; i < 7; i++) {
+    const day = new Date(startOfWeek);
+    day.setDate(day.getDate() + i);
+    const key = toDateString(day);
+    const dayMeals = weekMeals.filter((m) => toDateString(m.date) === key);
+    plannedVsActual.push({
+      date: day,
+      plannedCalories: dayMeals
+        .filter((m) => m.planned || m.fromPlan)
+        .reduce((sum, m) => sum + m.calories, 0),
+      actualCalories: dayMeals.filter((m) => !m.planned).reduce((sum, m) => sum + m.calories, 0),
+    });
+  }
+
+  return {
+    ...summarizeMeals(thisWeek, startOfWeek, endOfWeek),
+    plannedVsActual,
+    pendingPlannedMeals: weekMeals.length - thisWeek.length,
+  };
+}
+
+// ============================================================
+// MUSCLE GROUP VOLUME
+// ============================================================
+
+/** Muscle groups shown in the weekly report (cardio/full-body excluded) */
+export const TRACKED_MUSCLE_GROUPS: MuscleGroup[] = [
+  'chest',
+  'back',
+  'shoulders',
+  'biceps',
+  'triceps',
+  'forearms',
+  'abs',
+  'obliques',
+  'quads',
+  'hamstrings',
+  'glutes',
+  'calves',
+];
+
+/** Commonly recommended weekly hard sets per muscle group */
+export const WEEKLY_SET_TARGET = { min: 10, max: 20 };
+
+// Groups expected to get meaningful direct work each week
+const MAJOR_MUSCLE_GROUPS: MuscleGroup[] = [
+  'chest',
+  'back',
+  'shoulders',
+  'quads',
+  'hamstrings',
+  'glutes',
+];
+const PUSH_MUSCLES: MuscleGroup[] = ['chest', 'shoulders', 'triceps'];
+const PULL_MUSCLES: MuscleGroup[] = ['back', 'biceps'];
+
+const SECONDARY_MUSCLE_SHARE = 0.5;
+const MIN_HARD_SET_RPE = 6; // logged sets easier than this aren't hard sets
+
+/** Working, drop and failure sets that weren't logged as easy */
+function isHardSet(set: WorkoutSet): boolean {
+  return isWorkingSet(set) && !(set.rpe && set.rpe < MIN_HARD_SET_RPE);
+}
 
-  const thisWeek = allMeals.filter(
-    (m) => new Date(m.date) >= startOfWeek && new Date(m.date) <= endOfWeek
+/**
+ * Hard sets and tonnage per muscle group for workouts in [start, end].
+ * An exercise's first muscle group is its primary mover (full credit);
+ * the rest get half credit.
+ */
+export function getMuscleGroupVolume(
+  workouts: Workout[],
+  start: Date,
+  end: Date
+): { muscles: MuscleGroupVolume[]; unmappedSets: number } {
+  const volume = new Map<MuscleGroup, MuscleGroupVolume>(
+    TRACKED_MUSCLE_GROUPS.map((muscle) => [muscle, { muscle, hardSets: 0, tonnage: 0, exercises: [] }])
   );
+  let unmappedSets = 0;
+
+  for (const workout of workouts) {
+    const date = new Date(workout.date);
+    if (date < start || date > end) continue;
+
+    for (const entry of workout.exercises) {
+      const hardSets = entry.sets.filter(isHardSet);
+      if (hardSets.length === 0) continue;
+
+      const exercise = resolveWorkoutExercise(entry);
+      if (!exercise) {
+        unmappedSets += hardSets.length;
+        continue;
+      }
+      if (exercise.category === 'cardio') continue;
+
+      const tonnage = hardSets.reduce((sum, set) => sum + set.reps * set.weight, 0);
+      exercise.muscleGroups.forEach((muscle, index) => {
+        const group = volume.get(muscle);
+        if (!group) return;
+        const share = index === 0 ? 1 : SECONDARY_MUSCLE_SHARE;
+        group.hardSets += hardSets.length * share;
+        group.tonnage += tonnage * share;
+        if (!group.exercises.includes(exercise.name)) group.exercises.push(exercise.name);
+      });
+    }
+  }
 
-  const mealTypeBreakdown: Record<string, number> = {};
-  let totalCalories = 0;
-  let totalProtein = 0;
-  let totalCarbs = 0;
-  let totalFat = 0;
+  return {
+    muscles: Array.from(volume.values()).sort((a, b) => b.hardSets - a.hardSets),
+    unmappedSets,
+  };
+}
 
-  const uniqueDays = new Set<string>();
+const sumSets = (muscles: MuscleGroupVolume[], groups: MuscleGroup[]) =>
+  muscles.filter((m) => groups.includes(m.muscle)).reduce((sum, m) => sum + m.hardSets, 0);
 
-  for (const m of thisWeek) {
-    mealTypeBreakdown[m.mealType] = (mealTypeBreakdown[m.mealType] || 0) + 1;
-    totalCalories += m.calories;
-    totalProtein += m.protein || 0;
-    totalCarbs += m.carbs || 0;
-    totalFat += m.fat || 0;
-    uniqueDays.add(toDateString(m.date));
+const formatMuscle = (muscle: MuscleGroup) => muscle.charAt(0).toUpperCase() + muscle.slice(1);
+
+/**
+ * Flag push/pull and quad/hamstring imbalances and undertrained major groups.
+ * Nothing is flagged for a week with too little training to judge.
+ */
+export function getMuscleImbalances(muscles: MuscleGroupVolume[]): MuscleImbalance[] {
+  const total = muscles.reduce((sum, m) => sum + m.hardSets, 0);
+  if (total < WEEKLY_SET_TARGET.min) return [];
+
+  const imbalances: MuscleImbalance[] = [];
+
+  const push = sumSets(muscles, PUSH_MUSCLES);
+  const pull = sumSets(muscles, PULL_MUSCLES);
+  if (push > pull * 1.5 && push - pull >= 4) {
+    imbalances.push({
+      kind: 'push_pull',
+      message: `Push volume (${push} sets) is well ahead of pull (${pull}). Add rows or pull-ups to protect your shoulders.`,
+      muscles: PULL_MUSCLES,
+    });
+  } else if (pull > push * 1.5 && pull - push >= 4) {
+    imbalances.push({
+      kind: 'push_pull',
+      message: `Pull volume (${pull} sets) is well ahead of push (${push}). Add some pressing work.`,
+      muscles: PUSH_MUSCLES,
+    });
   }
 
-  const daysLogged = uniqueDays.size;
+  const quads = sumSets(muscles, ['quads']);
+  const hamstrings = sumSets(muscles, ['hamstrings']);
+  if (quads > hamstrings * 2 && quads - hamstrings >= 3) {
+    imbalances.push({
+      kind: 'quad_hamstring',
+      message: `Quads got ${quads} sets vs ${hamstrings} for hamstrings. Add hinges or leg curls.`,
+      muscles: ['hamstrings'],
+    });
+  } else if (hamstrings > quads * 2 && hamstrings - quads >= 3) {
+    imbalances.push({
+      kind: 'quad_hamstring',
+      message: `Hamstrings got ${hamstrings} sets vs ${quads} for quads. Add squats or lunges.`,
+      muscles: ['quads'],
+    });
+  }
+
+  const undertrained = muscles
+    .filter((m) => MAJOR_MUSCLE_GROUPS.includes(m.muscle) && m.hardSets < WEEKLY_SET_TARGET.min / 2)
+    .map((m) => m.muscle);
+  if (undertrained.length > 0) {
+    imbalances.push({
+      kind: 'undertrained',
+      message: `${undertrained.map(formatMuscle).join(', ')} got fewer than ${WEEKLY_SET_TARGET.min / 2} hard sets.`,
+      muscles: undertrained,
+    });
+  }
+
+  return imbalances;
+}
+
+/**
+ * Weekly sets-per-muscle report for the week containing `date` (Monday start)
+ */
+export function buildWeeklyMuscleReport(workouts: Workout[], date: Date = new Date()): WeeklyMuscleReport {
+  const startDate = getStartOfWeek(date);
+  const endDate = new Date(startDate);
+  endDate.setDate(endDate.getDate() + 6);
+  endDate.setHours(23, 59, 59, 999);
+
+  const { muscles, unmappedSets } = getMuscleGroupVolume(workouts, startDate, endDate);
 
   return {
-    period: `${formatDate(startOfWeek)} - ${formatDate(endOfWeek)}`,
-    startDate: startOfWeek,
-    endDate: endOfWeek,
-    totalMeals: thisWeek.length,
-    totalCalories,
-    avgCaloriesPerDay: daysLogged > 0 ? Math.round(totalCalories / daysLogged) : 0,
-    avgProtein: daysLogged > 0 ? Math.round(totalProtein / daysLogged) : 0,
-    avgCarbs: daysLogged > 0 ? Math.round(totalCarbs / daysLogged) : 0,
-    avgFat: daysLogged > 0 ? Math.round(totalFat / daysLogged) : 0,
-    mealTypeBreakdown,
-    daysLogged,
+    period: `${formatDate(startDate)} - ${formatDate(endDate)}`,
+    startDate,
+    endDate,
+    muscles,
+    totalHardSets: muscles.reduce((sum, m) => sum + m.hardSets, 0),
+    unmappedSets,
+    imbalances: getMuscleImbalances(muscles),
   };
 }
 
+/**
+ * Generate this week's sets-per-muscle report
+ */
+export async function getWeeklyMuscleReport(uid: string): Promise<WeeklyMuscleReport> {
+  const allWorkouts = await getWorkouts(uid, 500);
+  return buildWeeklyMuscleReport(allWorkouts);
+}
+
 // ============================================================
 // MONTHLY REPORT
 // ============================================================
@@ -205,33 +404,6 @@ export async function getMonthlyReport(uid: string): Promise<MonthlyReport> {
     (m) => new Date(m.date) >= startOfMonth && new Date(m.date) <= endOfMonth
   );
 
-  // Workout summary
-  const exerciseBreakdown: Record<string, number> = {};
-  let totalSets = 0, totalReps = 0, totalVolume = 0;
-  for (const w of monthWorkouts) {
-    exerciseBreakdown[w.exercise] = (exerciseBreakdown[w.exercise] || 0) + 1;
-    totalSets += w.sets;
-    totalReps += w.reps;
-    totalVolume += w.sets * w.reps * w.weight;
-  }
-  const favoriteExercise = Object.keys(exerciseBreakdown).length > 0
-    ? Object.entries(exerciseBreakdown).sort((a, b) => b[1] - a[1])[0][0]
-    : null;
-
-  // Nutrition summary
-  const mealTypeBreakdown: Record<string, number> = {};
-  let totalCalories = 0, totalProtein = 0, totalCarbs = 0, totalFat = 0;
-  const mealDays = new Set<string>();
-  for (const m of monthMeals) {
-    mealTypeBreakdown[m.mealType] = (mealTypeBreakdown[m.mealType] || 0) + 1;
-    totalCalories += m.calories;
-    totalProtein += m.protein || 0;
-    totalCarbs += m.carbs || 0;
-    totalFat += m.fat || 0;
-    mealDays.add(toDateString(m.date));
-  }
-  const daysLogged = mealDays.size;
-
   // Weight change
   const monthWeights = weightLogs
     .filter((l) => new Date(l.date) >= startOfMonth && new Date(l.date) <= endOfMonth)
@@ -252,39 +424,153 @@ export async function getMonthlyReport(uid: string): Promise<MonthlyReport> {
     progress: g.currentValue ? Math.round((g.currentValue / getGoalTarget(g)) * 100) : 0,
   }));
 
-  const daysInMonth = endOfMonth.getDate();
-
   return {
     period: `${now.toLocaleString('default', { month: 'long' })} ${now.getFullYear()}`,
-    workout: {
-      period: `${formatDate(startOfMonth)} - ${formatDate(endOfMonth)}`,
-      startDate: startOfMonth,
-      endDate: endOfMonth,
-      totalWorkouts: monthWorkouts.length,
-      totalSets,
-      totalReps,
-      totalVolume,
-      favoriteExercise,
-      exerciseBreakdown,
-      averagePerDay: Math.round((monthWorkouts.length / daysInMonth) * 10) / 10,
-      comparedToLastWeek: 0,
-    },
-    nutrition: {
-      period: `${formatDate(startOfMonth)} - ${formatDate(endOfMonth)}`,
-      startDate: startOfMonth,
-      endDate: endOfMonth,
-      totalMeals: monthMeals.length,
-      totalCalories,
-      avgCaloriesPerDay: daysLogged > 0 ? Math.round(totalCalories / daysLogged) : 0,
-      avgProtein: daysLogged > 0 ? Math.round(totalProtein / daysLogged) : 0,
-      avgCarbs: daysLogged > 0 ? Math.round(totalCarbs / daysLogged) : 0,
-      avgFat: daysLogged > 0 ? Math.round(totalFat / daysLogged) : 0,
-      mealTypeBreakdown,
-      daysLogged,
-    },
+    workout: summarizeWorkouts(monthWorkouts, startOfMonth, endOfMonth),
+    nutrition: summarizeMeals(monthMeals, startOfMonth, endOfMonth),
+    weightChange,
+    goalsProgress,
+    streakInfo: { current: currentStreak, longest: longestStreak },
+  };
+}
+
+// ============================================================
+// PERIOD REPORT (PDF)
+// ============================================================
+
+/** Lifts listed in the report, strongest first */
+const TOP_LIFT_COUNT = 5;
+
+/**
+ * First and last moment of the week (Monday start) or calendar month
+ * containing `date`
+ */
+export function getReportRange(period: ReportPeriod, date: Date = new Date()): { startDate: Date; endDate: Date } {
+  if (period === 'month') {
+    return {
+      startDate: new Date(date.getFullYear(), date.getMonth(), 1),
+      endDate: new Date(date.getFullYear(), date.getMonth() + 1, 0, 23, 59, 59, 999),
+    };
+  }
+  const startDate = getStartOfWeek(date);
+  const endDate = new Date(startDate);
+  endDate.setDate(endDate.getDate() + 6);
+  endDate.setHours(23, 59, 59, 999);
+  return { startDate, endDate };
+}
+
+/**
+ * Best estimated 1RM of each exercise trained in [start, end], strongest
+ * first, next to the best from before the period
+ */
+export function getTopLifts(workouts: Workout[], start: Date, end: Date, count = TOP_LIFT_COUNT): ReportTopLift[] {
+  const names = new Map<string, string>(); // exercise key → library name, or name as logged
+  const keyOf = createExerciseKeyer();
+  for (const w of workouts) {
+    const date = new Date(w.date);
+    if (date < start || date > end) continue;
+    for (const entry of w.exercises) {
+      if (!entry.exercise || names.has(keyOf(entry))) continue;
+      names.set(keyOf(entry), resolveWorkoutExercise(entry)?.name || entry.exercise);
+    }
+  }
+
+  const lifts: ReportTopLift[] = [];
+  for (const exercise of names.values()) {
+    let best: E1RMPoint | null = null;
+    let previousE1rm: number | null = null;
+    for (const point of getE1RMHistory(workouts, exercise)) {
+      if (point.date < start) previousE1rm = Math.max(previousE1rm ?? 0, point.e1rm);
+      else if (point.date <= end && (!best || point.e1rm > best.e1rm)) best = point;
+    }
+    if (best) {
+      lifts.push({ exercise, e1rm: best.e1rm, weight: best.weight, reps: best.reps, previousE1rm });
+    }
+  }
+
+  return lifts.sort((a, b) => b.e1rm - a.e1rm).slice(0, count);
+}
+
+/**
+ * Everything the PDF report shows for the week or month containing `date`.
+ * Goal progress is measured against the period's own averages and its last
+ * weigh-in.
+ */
+export async function getPeriodReport(
+  uid: string,
+  period: ReportPeriod,
+  date: Date = new Date()
+): Promise<PeriodReport> {
+  const { startDate, endDate } = getReportRange(period, date);
+  const prevEnd = new Date(startDate);
+  prevEnd.setMilliseconds(-1);
+  const prevStart = getReportRange(period, prevEnd).startDate;
+
+  const [allWorkouts, meals, weightLogs, goals] = await Promise.all([
+    getWorkouts(uid, 1000),
+    getMealsByDateRange(uid, startDate, endDate),
+    getWeightLogsByDateRange(uid, startDate, endDate),
+    getActiveGoals(uid),
+  ]);
+
+  const between = (value: Date, start: Date, end: Date) => new Date(value) >= start && new Date(value) <= end;
+  const workouts = allWorkouts.filter((w) => between(w.date, startDate, endDate));
+  const previous = allWorkouts.filter((w) => between(w.date, prevStart, prevEnd));
+
+  const workout = summarizeWorkouts(workouts, startDate, endDate, previous);
+  const nutrition = summarizeMeals(meals, startDate, endDate);
+
+  // One bar per day, rest days included
+  const dailyVolume: PeriodReport['dailyVolume'] = [];
+  for (const day = new Date(startDate); day <= endDate; day.setDate(day.getDate() + 1)) {
+    const key = toDateString(day);
+    dailyVolume.push({
+      date: new Date(day),
+      volume: workouts
+        .filter((w) => toDateString(w.date) === key)
+        .reduce((sum, w) => sum + getWorkoutVolume(w), 0),
+    });
+  }
+
+  const weights = weightLogs
+    .map((l) => ({ date: new Date(l.date), weight: l.weight }))
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+  const weightChange = weights.length >= 2 ? weights[weights.length - 1].weight - weights[0].weight : 0;
+
+  const weeks = dailyVolume.length / 7;
+  const goalsProgress = await Promise.all(
+    goals.map(async (g) => ({
+      title: g.title,
+      type: g.type,
+      progress: Math.round(
+        await calculateGoalProgress(uid, g, {
+          currentWeight: weights[weights.length - 1]?.weight,
+          weeklyWorkouts: workouts.length / weeks,
+          dailyCalories: nutrition.avgCaloriesPerDay,
+          dailyMacros: { protein: nutrition.avgProtein, carbs: nutrition.avgCarbs, fat: nutrition.avgFat },
+        })
+      ),
+    }))
+  );
+
+  const { currentStreak, longestStreak } = calculateStreaks(allWorkouts.map((w) => w.date));
+
+  return {
+    kind: period,
+    period:
+      period === 'month'
+        ? `${startDate.toLocaleString('default', { month: 'long' })} ${startDate.getFullYear()}`
+        : `${formatDate(startDate)} - ${formatDate(endDate)}, ${endDate.getFullYear()}`,
+    startDate,
+    endDate,
+    workout,
+    nutrition,
     weightChange,
     goalsProgress,
     streakInfo: { current: currentStreak, longest: longestStreak },
+    dailyVolume,
+    weightLogs: weights,
+    topLifts: getTopLifts(allWorkouts, startDate, endDate),
   };
 }
 
@@ -390,7 +676,9 @@ export async function getInsights(uid: string, unitSystem: UnitSystem = 'metric'
   if (allWorkouts.length >= 5) {
     const exerciseCounts: Record<string, number> = {};
     for (const w of allWorkouts) {
-      exerciseCounts[w.exercise] = (exerciseCounts[w.exercise] || 0) + 1;
+      for (const name of getExerciseNames(w)) {
+        exerciseCounts[name] = (exerciseCounts[name] || 0) + 1;
+      }
     }
     const [favExercise, count] = Object.entries(exerciseCounts).sort(
       (a, b) => b[1] - a[1]
@@ -422,6 +710,38 @@ export async function getInsights(uid: string, unitSystem: UnitSystem = 'metric'
     });
   }
 
+  // ── Progressive Overload ──
+  // Only actionable changes; "add a rep" advice belongs in the workout form
+  const overload = getOverloadSuggestions(allWorkouts, unitSystem).filter(
+    (s) => s.action === 'increase_weight' || s.action === 'deload'
+  );
+  for (const suggestion of overload.slice(0, 2)) {
+    insights.push({
+      id: `progression-${suggestion.exercise.toLowerCase()}`,
+      type: 'progression',
+      icon: suggestion.action === 'deload' ? '🔄' : '⬆️',
+      message: `${suggestion.exercise}: ${suggestion.reason}.`,
+      priority: suggestion.action === 'deload' ? 2 : 3,
+    });
+  }
+
+  // ── Muscle Balance ──
+  // Judge the last full week; the current one is still in progress
+  const lastWeek = new Date(now);
+  lastWeek.setDate(lastWeek.getDate() - 7);
+  const balance = buildWeeklyMuscleReport(allWorkouts, lastWeek).imbalances.filter(
+    (i) => i.kind !== 'undertrained'
+  );
+  for (const imbalance of balance) {
+    insights.push({
+      id: `balance-${imbalance.kind}`,
+      type: 'recommendation',
+      icon: '⚖️',
+      message: imbalance.message,
+      priority: 3,
+    });
+  }
+
   // ── Macro Balance ──
   const recentMeals = allMeals.slice(0, 14); // last 14 meals
   if (recentMeals.length >= 5) {
@@ -447,6 +767,98 @@ export async function getInsights(uid: string, unitSystem: UnitSystem = 'metric'
 // HELPERS
 // ============================================================
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Workout totals for sessions in [start, end]. With `previous` (the sessions
+ * of the period before), `comparedToLastWeek` is the change in session count.
+ */
+function summarizeWorkouts(
+  workouts: Workout[],
+  start: Date,
+  end: Date,
+  previous?: Workout[]
+): WeeklyWorkoutReport {
+  const exerciseBreakdown: Record<string, number> = {};
+  let totalSets = 0;
+  let totalReps = 0;
+  let totalVolume = 0;
+
+  for (const w of workouts) {
+    for (const name of getExerciseNames(w)) {
+      exerciseBreakdown[name] = (exerciseBreakdown[name] || 0) + 1;
+    }
+    totalSets += getSetCount(w);
+    totalReps += getRepCount(w);
+    totalVolume += getWorkoutVolume(w);
+  }
+
+  const favoriteExercise =
+    Object.keys(exerciseBreakdown).length > 0
+      ? Object.entries(exerciseBreakdown).sort((a, b) => b[1] - a[1])[0][0]
+      : null;
+
+  let comparedToLastWeek = 0;
+  if (previous && previous.length > 0) {
+    comparedToLastWeek = Math.round(((workouts.length - previous.length) / previous.length) * 100);
+  } else if (previous && workouts.length > 0) {
+    comparedToLastWeek = 100;
+  }
+
+  const days = Math.round((end.getTime() - start.getTime()) / DAY_MS);
+
+  return {
+    period: `${formatDate(start)} - ${formatDate(end)}`,
+    startDate: start,
+    endDate: end,
+    totalWorkouts: workouts.length,
+    totalSets,
+    totalReps,
+    totalVolume,
+    cardio: getCardioTotals(workouts),
+    favoriteExercise,
+    exerciseBreakdown,
+    averagePerDay: Math.round((workouts.length / days) * 10) / 10,
+    comparedToLastWeek,
+  };
+}
+
+/** Nutrition totals and per-day averages for logged meals in [start, end] */
+function summarizeMeals(meals: Meal[], start: Date, end: Date): WeeklyNutritionReport {
+  const mealTypeBreakdown: Record<string, number> = {};
+  let totalCalories = 0;
+  let totalProtein = 0;
+  let totalCarbs = 0;
+  let totalFat = 0;
+
+  const uniqueDays = new Set<string>();
+
+  for (const m of meals) {
+    mealTypeBreakdown[m.mealType] = (mealTypeBreakdown[m.mealType] || 0) + 1;
+    totalCalories += m.calories;
+    totalProtein += m.protein || 0;
+    totalCarbs += m.carbs || 0;
+    totalFat += m.fat || 0;
+    uniqueDays.add(toDateString(m.date));
+  }
+
+  const daysLogged = uniqueDays.size;
+
+  return {
+    period: `${formatDate(start)} - ${formatDate(end)}`,
+    startDate: start,
+    endDate: end,
+    totalMeals: meals.length,
+    totalCalories,
+    avgCaloriesPerDay: daysLogged > 0 ? Math.round(totalCalories / daysLogged) : 0,
+    avgProtein: daysLogged > 0 ? Math.round(totalProtein / daysLogged) : 0,
+    avgCarbs: daysLogged > 0 ? Math.round(totalCarbs / daysLogged) : 0,
+    avgFat: daysLogged > 0 ? Math.round(totalFat / daysLogged) : 0,
+    mealTypeBreakdown,
+    daysLogged,
+  };
+}
+
 function getStartOfWeek(date: Date): Date {
   const d = new Date(date);
   const day = d.getDay();
@@ -478,6 +890,8 @@ function getGoalTarget(goal: Goal): number {
       return goal.targetCaloriesPerDay || 1;
     case 'macros':
       return goal.targetProtein || 1;
+    case 'hydration':
+      return goal.targetWaterPerDay || 1;
     default:
       return 1;
   }
@@ -0,0 +1,156 @@
+/**
+ * Product Catalog Service
+ * Looks up packaged products by barcode. Products found once are saved to
+ * IndexedDB as reusable foods, so repeat scans work offline. Catalog sources
+ * are pluggable; the bundled JSON catalog is the default.
+ */
+
+import { Food, FoodCategory, FoodServing, setUserFoods } from '@/lib/data/foods';
+import { Nutrients } from '@/lib/types/firestore';
+import { isValidBarcode, normalizeBarcode } from '@/lib/utils/barcode';
+import { getSavedFoodByBarcode, getSavedFoods, saveFoodOffline } from '@/lib/offline/offlineStore';
+import bundledCatalog from '@/lib/data/productCatalog.json';
+
+export interface ProductCatalogProvider {
+  id: string;
+  label: string;
+  /** Resolve a normalized (13- or 8-digit) barcode; null when unknown */
+  lookup(barcode: string): Promise<Food | null>;
+}
+
+export interface ProductLookupResult {
+  food: Food | null;
+  source: string | null; // 'saved' or the id of the provider that answered
+}
+
+export interface CustomProductInput {
+  barcode: string;
+  name: string;
+  brand?: string;
+  category?: FoodCategory;
+  per100g: Nutrients;
+  servings?: FoodServing[];
+}
+
+interface CatalogEntry {
+  barcode: string;
+  name: string;
+  brand?: string;
+  category: string;
+  per100g: Nutrients;
+  servings?: FoodServing[];
+}
+
+const productId = (barcode: string) => `barcode-${barcode}`;
+
+// ============================================================
+// PROVIDERS
+// ============================================================
+
+/** Bundled catalog (lib/data/productCatalog.json), available offline */
+export const localCatalogProvider: ProductCatalogProvider = {
+  id: 'local',
+  label: 'Bundled catalog',
+  async lookup(barcode) {
+    const entry = (bundledCatalog as CatalogEntry[]).find((p) => normalizeBarcode(p.barcode) === barcode);
+    if (!entry) return null;
+    return {
+      id: productId(barcode),
+      name: entry.name,
+      brand: entry.brand,
+      barcode,
+      category: entry.category as FoodCategory,
+      per100g: entry.per100g,
+      servings: entry.servings || [],
+    };
+  },
+};
+
+let providers: ProductCatalogProvider[] = [localCatalogProvider];
+
+/**
+ * Add a catalog source (e.g. a remote product API). Providers are asked in
+ * registration order after the saved products; replaces one with the same id.
+ */
+export function registerCatalogProvider(provider: ProductCatalogProvider): void {
+  providers = [...providers.filter((p) => p.id !== provider.id), provider];
+}
+
+export function getCatalogProviders(): ProductCatalogProvider[] {
+  return providers;
+}
+
+// ============================================================
+// LOOKUP
+// ============================================================
+
+/**
+ * Load products saved on this device into the food library so they show up
+ * in food search. Returns the saved products.
+ */
+export async function loadSavedProducts(): Promise<Food[]> {
+  try {
+    const foods = await getSavedFoods();
+    setUserFoods(foods);
+    return foods;
+  } catch (error) {
+    console.error('Failed to load saved products:', error);
+    return [];
+  }
+}
+
+/**
+ * Find a product by barcode: saved products first, then each provider.
+ * Provider hits are saved as reusable foods. Provider failures (e.g. no
+ * network) are logged and the next provider is tried.
+ */
+export async function lookupProduct(code: string): Promise<ProductLookupResult> {
+  const barcode = normalizeBarcode(code);
+  if (!isValidBarcode(barcode)) {
+    throw new Error('Invalid barcode');
+  }
+
+  const saved = await getSavedFoodByBarcode(barcode);
+  if (saved) return { food: saved, source: 'saved' };
+
+  for (const provider of providers) {
+    try {
+      const food = await provider.lookup(barcode);
+      if (food) {
+        const product = { ...food, id: productId(barcode), barcode };
+        await saveFoodOffline(product);
+        await loadSavedProducts();
+        return { food: product, source: provider.id };
+      }
+    } catch (error) {
+      console.error(`Product lookup failed (${provider.label}):`, error);
+    }
+  }
+
+  return { food: null, source: null };
+}
+
+/** Save a product the user entered by hand for an unknown barcode */
+export async function saveCustomProduct(input: CustomProductInput): Promise<Food> {
+  const barcode = normalizeBarcode(input.barcode);
+  if (!isValidBarcode(barcode)) {
+    throw new Error('Invalid barcode');
+  }
+  if (!input.name.trim()) {
+    throw new Error('Product name is required');
+  }
+
+  const product: Food = {
+    id: productId(barcode),
+    name: input.name.trim(),
+    brand: input.brand?.trim() || undefined,
+    barcode,
+    category: input.category || 'snacks',
+    per100g: input.per100g,
+    servings: input.servings || [],
+    isCustom: true,
+  };
+  await saveFoodOffline(product);
+  await loadSavedProducts();
+  return product;
+}
@@ -14,6 +14,8 @@ import { getMeals, getMealsByDate, getDayMacros } from './meals';
 import { getErrorMessage } from './utils/errorMessages';
 import { cachedFetch } from './cache';
 import { UnitSystem, displayWeight } from './utils/units';
+import { getSetCount, getHeaviestSet, getWorkoutTitle } from './utils/workoutSets';
+import { getCanonicalExerciseNames, getExerciseKey } from './utils/exerciseResolver';
 
 /**
  * Stats Service Layer
@@ -68,10 +70,12 @@ export async function getFavoriteExercises(uid: string, limit: number = 5) {
   try {
     const allWorkouts = await getWorkouts(uid, 1000); // Get all workouts
 
-    // Count exercise frequency
+    // Count exercise frequency (aliases of one exercise count together)
     const exerciseCounts: Record<string, number> = {};
     allWorkouts.forEach((workout) => {
-      exerciseCounts[workout.exercise] = (exerciseCounts[workout.exercise] || 0) + 1;
+      for (const name of getCanonicalExerciseNames(workout)) {
+        exerciseCounts[name] = (exerciseCounts[name] || 0) + 1;
+      }
     });
 
     // Sort by frequency and return top N
@@ -99,14 +103,17 @@ export async function getRecentEntries(uid: string, count: number = 5, unitSyste
 
     // Combine and sort by date
     const entries = [
-      ...workouts.map((w) => ({
-        type: 'workout' as const,
-        id: w.id,
-        title: w.exercise,
-        subtitle: `${w.sets}x${w.reps}${w.weight ? ` @ ${displayWeight(w.weight, unitSystem)}` : ''}`,
-        date: w.date,
-        icon: '💪',
-      })),
+      ...workouts.map((w) => {
+        const heaviest = getHeaviestSet(w);
+        return {
+          type: 'workout' as const,
+          id: w.id,
+          title: getWorkoutTitle(w),
+          subtitle: `${getSetCount(w)} sets${heaviest ? ` • top ${displayWeight(heaviest.set.weight, unitSystem)}` : ''}`,
+          date: w.date,
+          icon: '💪',
+        };
+      }),
       ...meals.map((m) => ({
         type: 'meal' as const,
         id: m.id,
@@ -217,7 +224,9 @@ export async function getMonthlyStats(uid: string) {
       totalCalories,
       avgCaloriesPerDay,
       weeklyWorkouts: weeklyCount,
-      uniqueExercises: new Set(workouts.map((w) => w.exercise)).size,
+      uniqueExercises: new Set(
+        workouts.flatMap((w) => w.exercises.filter((e) => e.exercise).map(getExerciseKey))
+      ).size,
     };
   } catch (error) {
     throw new Error(getErrorMessage(error, 'Failed to get monthly stats'));
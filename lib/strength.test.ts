@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { Workout, WorkoutExercise } from '@/lib/types/firestore';
+import { detectRepRangePRs, getE1RMHistory, getRepRangeRecords } from '@/lib/strength';
+import { getOverloadSuggestion } from '@/lib/progression';
+
+const created = new Date('2025-03-01T00:00:00Z');
+
+const workout = (id: string, day: number, exercises: WorkoutExercise[]): Workout => ({
+  id,
+  exercises,
+  date: new Date(2025, 2, day, 18),
+  createdAt: created,
+  updatedAt: created,
+});
+
+const lift = (exercise: string, weight: number, reps = 5): WorkoutExercise => ({
+  exercise,
+  sets: [{ reps, weight, type: 'working' }],
+});
+
+// The same lift logged under three names
+const workouts = [
+  workout('w1', 1, [lift('Barbell Bench Press', 80)]),
+  workout('w2', 3, [lift('Bench', 82.5)]),
+  workout('w3', 5, [lift('bench press', 85), lift('Squat', 100)]),
+];
+
+describe('exercise matching', () => {
+  it('builds one e1RM history across names of the same exercise', () => {
+    expect(getE1RMHistory(workouts, 'Bench').map((point) => point.workoutId)).toEqual(['w1', 'w2', 'w3']);
+    expect(getE1RMHistory(workouts, 'Squat').map((point) => point.workoutId)).toEqual(['w3']);
+  });
+
+  it('keeps rep-range records across names', () => {
+    expect(getRepRangeRecords(workouts.slice(0, 2), 'Barbell Bench Press')[5]).toMatchObject({
+      weight: 82.5,
+      workoutId: 'w2',
+    });
+  });
+
+  it('compares a PR with sessions logged under another name', () => {
+    const prs = detectRepRangePRs(workouts, workouts[2]);
+    expect(prs.find((pr) => pr.exercise === 'bench press')).toMatchObject({ repRange: 5, previousWeight: 82.5 });
+    expect(prs.find((pr) => pr.exercise === 'Squat')).toMatchObject({ previousWeight: null });
+  });
+
+  it('reports an exercise once when a session logs it under two names', () => {
+    const session = workout('w4', 7, [lift('Bench', 90), lift('Barbell Bench Press', 87.5)]);
+    const prs = detectRepRangePRs([...workouts, session], session).filter((pr) => pr.repRange === 5);
+    expect(prs).toEqual([{ exercise: 'Bench', repRange: 5, weight: 90, reps: 5, previousWeight: 85 }]);
+  });
+
+  it('suggests the next load from sessions under any name', () => {
+    expect(getOverloadSuggestion(workouts, 'Bench')?.previousWeight).toBe(85);
+  });
+
+  it('matches unresolved names by their normalized name only', () => {
+    const custom = [workout('c1', 1, [lift('Landmine Thing', 40)]), workout('c2', 2, [lift('landmine thing ', 45)])];
+    expect(getE1RMHistory(custom, 'Landmine thing')).toHaveLength(2);
+    expect(getE1RMHistory(custom, 'Landmine')).toHaveLength(0);
+  });
+});
@@ -0,0 +1,211 @@
+import { Workout, WorkoutSet } from './types/firestore';
+import { isWorkingSet } from './utils/workoutSets';
+import { ExerciseKeyer, createExerciseKeyer } from './utils/exerciseResolver';
+
+/**
+ * Strength Analytics
+ * Estimated one-rep max, e1RM progression and rep-range personal records.
+ * Warm-up sets are ignored throughout.
+ */
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type OneRepMaxFormula = 'epley' | 'brzycki';
+
+/** Rep ranges tracked for personal records (1RM, 3RM, 5RM, 10RM) */
+export const PR_REP_RANGES = [1, 3, 5, 10] as const;
+export type RepRange = (typeof PR_REP_RANGES)[number];
+
+export interface E1RMPoint {
+  date: Date;
+  workoutId: string;
+  e1rm: number; // kg, best estimate of the session
+  weight: number; // kg, set that produced it
+  reps: number;
+}
+
+export interface RepRangeRecord {
+  repRange: RepRange;
+  weight: number; // kg
+  reps: number; // reps actually performed (>= repRange)
+  date: Date;
+  workoutId: string;
+}
+
+export interface RepRangePR {
+  exercise: string;
+  repRange: RepRange;
+  weight: number; // kg
+  reps: number;
+  previousWeight: number | null; // kg, null when first ever
+}
+
+// ============================================================
+// ESTIMATION
+// ============================================================
+
+/** Brzycki breaks down near 37 reps; estimates beyond this are noise */
+const MAX_ESTIMATION_REPS = 30;
+
+/**
+ * Estimate a one-rep max from a set.
+ * Epley: w × (1 + r/30). Brzycki: w × 36 / (37 − r).
+ */
+export function estimateOneRepMax(
+  weight: number,
+  reps: number,
+  formula: OneRepMaxFormula = 'epley'
+): number {
+  if (weight <= 0 || reps <= 0) return 0;
+  if (reps === 1) return weight;
+
+  const r = Math.min(reps, MAX_ESTIMATION_REPS);
+  const estimate = formula === 'brzycki' ? (weight * 36) / (37 - r) : weight * (1 + r / 30);
+  return Math.round(estimate * 10) / 10;
+}
+
+/**
+ * Loaded working sets of an exercise within a session. Entries match by
+ * exercise key, so "Bench" and "Barbell Bench Press" share one history.
+ */
+function exerciseSets(workout: Workout, key: string, keyOf: ExerciseKeyer): WorkoutSet[] {
+  return workout.exercises
+    .filter((e) => keyOf(e) === key)
+    .flatMap((e) => e.sets)
+    .filter((s) => isWorkingSet(s) && s.weight > 0 && s.reps > 0);
+}
+
+/**
+ * Best estimated 1RM per session for an exercise, oldest first
+ */
+export function getE1RMHistory(
+  workouts: Workout[],
+  exercise: string,
+  formula: OneRepMaxFormula = 'epley'
+): E1RMPoint[] {
+  const points: E1RMPoint[] = [];
+  const keyOf = createExerciseKeyer();
+  const key = keyOf({ exercise });
+
+  for (const workout of workouts) {
+    let best: E1RMPoint | null = null;
+    for (const set of exerciseSets(workout, key, keyOf)) {
+      const e1rm = estimateOneRepMax(set.weight, set.reps, formula);
+      if (!best || e1rm > best.e1rm) {
+        best = {
+          date: new Date(workout.date),
+          workoutId: workout.id,
+          e1rm,
+          weight: set.weight,
+          reps: set.reps,
+        };
+      }
+    }
+    if (best) points.push(best);
+  }
+
+  return points.sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+// ============================================================
+// REP-RANGE RECORDS
+// ============================================================
+
+/**
+ * Heaviest weight moved for at least N reps, for each tracked rep range.
+ * A set of 100 kg × 5 also counts toward the 3RM and 1RM records.
+ */
+export function getRepRangeRecords(
+  workouts: Workout[],
+  exercise: string
+): Record<RepRange, RepRangeRecord | null> {
+  const keyOf = createExerciseKeyer();
+  return repRangeRecordsFor(workouts, keyOf({ exercise }), keyOf);
+}
+
+function repRangeRecordsFor(
+  workouts: Workout[],
+  key: string,
+  keyOf: ExerciseKeyer
+): Record<RepRange, RepRangeRecord | null> {
+  const records = Object.fromEntries(PR_REP_RANGES.map((r) => [r, null])) as Record<
+    RepRange,
+    RepRangeRecord | null
+  >;
+
+  // Oldest first so ties keep the date the weight was first achieved
+  const ordered = [...workouts].sort(
+    (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
+  );
+
+  for (const workout of ordered) {
+    for (const set of exerciseSets(workout, key, keyOf)) {
+      for (const repRange of PR_REP_RANGES) {
+        if (set.reps < repRange) continue;
+        const current = records[repRange];
+        if (!current || set.weight > current.weight) {
+          records[repRange] = {
+            repRange,
+            weight: set.weight,
+            reps: set.reps,
+            date: new Date(workout.date),
+            workoutId: workout.id,
+          };
+        }
+      }
+    }
+  }
+
+  return records;
+}
+
+/**
+ * Rep-range PRs set in a given session, compared with every earlier session.
+ * When one weight beats several records (e.g. a 5RM PR that is also a 3RM
+ * PR) only the largest rep range is reported.
+ */
+export function detectRepRangePRs(workouts: Workout[], session: Workout): RepRangePR[] {
+  const sessionTime = new Date(session.date).getTime();
+  const earlier = workouts.filter(
+    (w) => w.id !== session.id && new Date(w.date).getTime() < sessionTime
+  );
+  const prs: RepRangePR[] = [];
+  const keyOf = createExerciseKeyer();
+
+  // One check per exercise, named as first logged in the session
+  const exercises = new Map<string, string>();
+  for (const entry of session.exercises) {
+    if (!exercises.has(keyOf(entry))) exercises.set(keyOf(entry), entry.exercise);
+  }
+  for (const [key, exercise] of exercises) {
+    const before = repRangeRecordsFor(earlier, key, keyOf);
+    const now = repRangeRecordsFor([session], key, keyOf);
+
+    // Largest rep range first so a heavy set for many reps is credited once
+    const beaten = [...PR_REP_RANGES]
+      .reverse()
+      .filter((repRange) => {
+        const record = now[repRange];
+        const previous = before[repRange];
+        return record && (!previous || record.weight > previous.weight);
+      });
+
+    const reportedWeights = new Set<number>();
+    for (const repRange of beaten) {
+      const record = now[repRange]!;
+      if (reportedWeights.has(record.weight)) continue;
+      reportedWeights.add(record.weight);
+      prs.push({
+        exercise,
+        repRange,
+        weight: record.weight,
+        reps: record.reps,
+        previousWeight: before[repRange]?.weight ?? null,
+      });
+    }
+  }
+
+  return prs;
+}
@@ -0,0 +1,403 @@
+import { getMealsByDateRange } from './meals';
+import { getWeightLogsByDateRange } from './weightLogs';
+import { addGoal, getActiveGoals, updateGoal } from './goals';
+import { Goal, Meal, WeightLog } from './types/firestore';
+import { getMealNutrition } from './utils/mealItems';
+
+/**
+ * Adaptive TDEE Estimation
+ * Estimates energy expenditure from logged intake against the smoothed
+ * weight trend, then proposes calorie and macro targets that move the
+ * trend toward the active weight goal.
+ *
+ *   TDEE ≈ average intake − Δtrend × 7700 kcal/kg ÷ days
+ */
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface WeightTrendPoint {
+  date: Date; // local midnight
+  weight: number | null; // kg, average scale reading that day
+  trend: number; // kg, exponentially smoothed
+}
+
+export interface TdeeWindow {
+  start: Date;
+  end: Date;
+  days: number;
+  loggedDays: number; // days with at least one meal
+  weighIns: number; // days with a scale reading
+  avgIntake: number; // kcal/day over logged days
+  trendStart: number; // kg
+  trendEnd: number; // kg
+  storedEnergy: number; // kcal/day going into (+) or out of (−) body mass
+  tdee: number; // kcal/day
+}
+
+export type EstimateConfidence = 'low' | 'medium' | 'high';
+
+export interface TdeeEstimate {
+  tdee: number;
+  window: TdeeWindow; // most recent window
+  history: TdeeWindow[]; // weekly rolling windows, oldest first
+  weeklyRate: number; // kg/week trend change over the window
+  confidence: EstimateConfidence;
+}
+
+export type ProposalLimit = 'rate' | 'floor' | 'step';
+
+export interface TargetProposal {
+  goalId: string;
+  targetWeight: number; // kg
+  targetDate: Date;
+  currentTrend: number; // kg
+  daysLeft: number;
+  requiredRate: number; // kg/week to arrive exactly on the target date
+  plannedRate: number; // kg/week after the safety limit
+  dailyDelta: number; // kcal/day relative to TDEE
+  recommendedCalories: number; // TDEE + delta
+  currentTarget: number | null; // active calorie goal
+  proposedCalories: number; // this week's target
+  protein: number; // g
+  carbs: number; // g
+  fat: number; // g
+  limits: ProposalLimit[]; // what held the proposal back
+}
+
+export interface TdeeReport {
+  estimate: TdeeEstimate | null;
+  proposal: TargetProposal | null;
+  status: 'ok' | 'not_enough_data' | 'no_weight_goal' | 'goal_date_passed';
+}
+
+// ============================================================
+// CONSTANTS
+// ============================================================
+
+/** Approximate energy in a kg of body mass change */
+export const KCAL_PER_KG = 7700;
+
+/** Daily smoothing factor for the weight trend (10% of each new reading) */
+export const TREND_SMOOTHING = 0.1;
+
+/** Rolling window length; shorter windows are dominated by water weight */
+export const TDEE_WINDOW_DAYS = 28;
+
+/** Rolling windows kept for the history (one per week) */
+const HISTORY_WEEKS = 6;
+
+/** Extra days of weigh-ins before the first window to settle the trend */
+const TREND_SEED_DAYS = 14;
+
+const MIN_LOGGED_DAYS = 10;
+const MIN_WEIGH_INS = 4;
+
+/** Largest weekly change as a share of body weight */
+const MAX_LOSS_RATE = 0.01;
+const MAX_GAIN_RATE = 0.005;
+
+/** Intake floor for proposed targets */
+export const MIN_CALORIE_TARGET = 1200;
+
+/** Largest change to an existing calorie target per week */
+export const MAX_WEEKLY_ADJUSTMENT = 150;
+
+/** Protein per kg of trend weight; higher in a deficit to protect muscle */
+const PROTEIN_PER_KG = { deficit: 2.0, other: 1.8 };
+const FAT_CALORIE_SHARE = 0.25;
+
+/** Within this distance of the target weight the goal is to maintain */
+const MAINTENANCE_RANGE_KG = 0.5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================
+// INPUT SERIES
+// ============================================================
+
+const startOfDay = (date: Date) => {
+  const d = new Date(date);
+  d.setHours(0, 0, 0, 0);
+  return d;
+};
+
+const addDays = (date: Date, days: number) => {
+  const d = new Date(date);
+  d.setDate(d.getDate() + days);
+  return d;
+};
+
+const dayKey = (date: Date) => startOfDay(date).toDateString();
+
+/** Calories eaten per local day; days without meals are absent */
+export function getDailyIntake(meals: Meal[]): Map<string, number> {
+  const intake = new Map<string, number>();
+  for (const meal of meals) {
+    const key = dayKey(new Date(meal.date));
+    intake.set(key, (intake.get(key) || 0) + getMealNutrition(meal).calories);
+  }
+  return intake;
+}
+
+/**
+ * Daily exponentially smoothed weight from the first weigh-in through `end`.
+ * Days without a reading keep the previous trend value.
+ */
+export function getWeightTrend(logs: WeightLog[], end: Date = new Date()): WeightTrendPoint[] {
+  if (logs.length === 0) return [];
+
+  const readings = new Map<string, number[]>();
+  for (const log of logs) {
+    const key = dayKey(new Date(log.date));
+    readings.set(key, [...(readings.get(key) || []), log.weight]);
+  }
+
+  const first = startOfDay(new Date(Math.min(...logs.map((l) => new Date(l.date).getTime()))));
+  const last = startOfDay(end);
+  const points: WeightTrendPoint[] = [];
+  let trend: number | null = null;
+
+  for (let day = first; day <= last; day = addDays(day, 1)) {
+    const values = readings.get(day.toDateString());
+    const weight = values ? values.reduce((a, b) => a + b, 0) / values.length : null;
+    if (weight !== null) {
+      trend = trend === null ? weight : trend + TREND_SMOOTHING * (weight - trend);
+    }
+    points.push({ date: day, weight, trend: Math.round((trend as number) * 100) / 100 });
+  }
+  return points;
+}
+
+// ============================================================
+// ESTIMATION
+// ============================================================
+
+/**
+ * Estimate TDEE over the `days` ending on `end`, or null without enough
+ * logged days and weigh-ins
+ */
+export function estimateTdeeWindow(
+  intake: Map<string, number>,
+  trend: WeightTrendPoint[],
+  end: Date,
+  days: number = TDEE_WINDOW_DAYS
+): TdeeWindow | null {
+  const endDay = startOfDay(end);
+  const startDay = addDays(endDay, -(days - 1));
+  const trendByDay = new Map(trend.map((p) => [p.date.toDateString(), p]));
+
+  // Trend on the day before the window opens (first day as a fallback)
+  const before = trendByDay.get(addDays(startDay, -1).toDateString()) || trendByDay.get(startDay.toDateString());
+  const after = trendByDay.get(endDay.toDateString());
+  if (!before || !after) return null;
+
+  let loggedDays = 0;
+  let totalIntake = 0;
+  let weighIns = 0;
+  for (let day = startDay; day <= endDay; day = addDays(day, 1)) {
+    const key = day.toDateString();
+    const calories = intake.get(key);
+    if (calories) {
+      loggedDays++;
+      totalIntake += calories;
+    }
+    const point = trendByDay.get(key);
+    if (point && point.weight !== null) weighIns++;
+  }
+  if (loggedDays < Math.min(MIN_LOGGED_DAYS, days) || weighIns < MIN_WEIGH_INS) return null;
+
+  // Unlogged days are assumed to look like the logged ones
+  const avgIntake = totalIntake / loggedDays;
+  const storedEnergy = ((after.trend - before.trend) * KCAL_PER_KG) / days;
+
+  return {
+    start: startDay,
+    end: endDay,
+    days,
+    loggedDays,
+    weighIns,
+    avgIntake: Math.round(avgIntake),
+    trendStart: before.trend,
+    trendEnd: after.trend,
+    storedEnergy: Math.round(storedEnergy),
+    tdee: Math.round(avgIntake - storedEnergy),
+  };
+}
+
+function getConfidence(window: TdeeWindow): EstimateConfidence {
+  const logged = window.loggedDays / window.days;
+  const weighed = window.weighIns / window.days;
+  if (logged >= 0.85 && weighed >= 0.4) return 'high';
+  if (logged >= 0.6 && weighed >= 0.2) return 'medium';
+  return 'low';
+}
+
+/**
+ * Current TDEE estimate plus weekly rolling estimates for the last
+ * few weeks, or null when the latest window lacks data
+ */
+export function estimateTdee(meals: Meal[], logs: WeightLog[], date: Date = new Date()): TdeeEstimate | null {
+  const intake = getDailyIntake(meals);
+  const trend = getWeightTrend(logs, date);
+
+  const history: TdeeWindow[] = [];
+  for (let week = HISTORY_WEEKS - 1; week >= 0; week--) {
+    const window = estimateTdeeWindow(intake, trend, addDays(date, -7 * week));
+    if (window) history.push(window);
+  }
+
+  const window = estimateTdeeWindow(intake, trend, date);
+  if (!window) return null;
+
+  return {
+    tdee: window.tdee,
+    window,
+    history,
+    weeklyRate: Math.round(((window.trendEnd - window.trendStart) / window.days) * 7 * 100) / 100,
+    confidence: getConfidence(window),
+  };
+}
+
+// ============================================================
+// TARGETS
+// ============================================================
+
+const roundTo = (value: number, step: number) => Math.round(value / step) * step;
+
+/**
+ * Calorie and macro targets that move the weight trend toward a weight
+ * goal by its target date. The weekly rate is capped (1%/week loss,
+ * 0.5%/week gain), the target never drops below the intake floor, and an
+ * existing calorie target moves by at most MAX_WEEKLY_ADJUSTMENT per week.
+ */
+export function proposeTargets(
+  estimate: TdeeEstimate,
+  weightGoal: Goal,
+  currentTarget: number | null,
+  date: Date = new Date()
+): TargetProposal | null {
+  if (!weightGoal.targetWeight) return null;
+  const daysLeft = Math.ceil((startOfDay(weightGoal.targetDate).getTime() - startOfDay(date).getTime()) / DAY_MS);
+  if (daysLeft <= 0) return null;
+
+  const currentTrend = estimate.window.trendEnd;
+  const remaining = weightGoal.targetWeight - currentTrend;
+  const limits: ProposalLimit[] = [];
+
+  let requiredRate = 0;
+  let plannedRate = 0;
+  if (Math.abs(remaining) > MAINTENANCE_RANGE_KG) {
+    requiredRate = (remaining / daysLeft) * 7;
+    const maxRate = currentTrend * (remaining < 0 ? MAX_LOSS_RATE : MAX_GAIN_RATE);
+    plannedRate = Math.sign(requiredRate) * Math.min(Math.abs(requiredRate), maxRate);
+    if (Math.abs(requiredRate) > maxRate) limits.push('rate');
+  }
+
+  const dailyDelta = Math.round((plannedRate * KCAL_PER_KG) / 7);
+  let recommendedCalories = roundTo(estimate.tdee + dailyDelta, 10);
+  if (recommendedCalories < MIN_CALORIE_TARGET) {
+    recommendedCalories = MIN_CALORIE_TARGET;
+    limits.push('floor');
+  }
+
+  let proposedCalories = recommendedCalories;
+  if (currentTarget) {
+    const low = currentTarget - MAX_WEEKLY_ADJUSTMENT;
+    const high = currentTarget + MAX_WEEKLY_ADJUSTMENT;
+    if (proposedCalories < low || proposedCalories > high) {
+      proposedCalories = Math.min(Math.max(proposedCalories, low), high);
+      limits.push('step');
+    }
+  }
+
+  const protein = Math.round(currentTrend * (plannedRate < 0 ? PROTEIN_PER_KG.deficit : PROTEIN_PER_KG.other));
+  const fat = Math.round((proposedCalories * FAT_CALORIE_SHARE) / 9);
+  const carbs = Math.max(0, Math.round((proposedCalories - protein * 4 - fat * 9) / 4));
+
+  return {
+    goalId: weightGoal.id,
+    targetWeight: weightGoal.targetWeight,
+    targetDate: weightGoal.targetDate,
+    currentTrend,
+    daysLeft,
+    requiredRate: Math.round(requiredRate * 100) / 100,
+    plannedRate: Math.round(plannedRate * 100) / 100,
+    dailyDelta,
+    recommendedCalories,
+    currentTarget,
+    proposedCalories,
+    protein,
+    carbs,
+    fat,
+    limits,
+  };
+}
+
+/** Build the report from already-fetched data */
+export function buildTdeeReport(
+  meals: Meal[],
+  logs: WeightLog[],
+  goals: Goal[],
+  date: Date = new Date()
+): TdeeReport {
+  const estimate = estimateTdee(meals, logs, date);
+  if (!estimate) return { estimate: null, proposal: null, status: 'not_enough_data' };
+
+  const weightGoal = goals.find((g) => g.status === 'active' && g.type === 'weight' && g.targetWeight);
+  if (!weightGoal) return { estimate, proposal: null, status: 'no_weight_goal' };
+
+  const calorieGoal = goals.find((g) => g.status === 'active' && g.type === 'calories');
+  const proposal = proposeTargets(estimate, weightGoal, calorieGoal?.targetCaloriesPerDay || null, date);
+  return { estimate, proposal, status: proposal ? 'ok' : 'goal_date_passed' };
+}
+
+/**
+ * Fetch intake, weigh-ins and goals, and build the TDEE report
+ */
+export async function getTdeeReport(uid: string, date: Date = new Date()): Promise<TdeeReport> {
+  const end = new Date(date);
+  end.setHours(23, 59, 59, 999);
+  const mealsStart = startOfDay(addDays(date, -(TDEE_WINDOW_DAYS + (HISTORY_WEEKS - 1) * 7)));
+  const logsStart = addDays(mealsStart, -TREND_SEED_DAYS);
+
+  const [meals, logs, goals] = await Promise.all([
+    getMealsByDateRange(uid, mealsStart, end),
+    getWeightLogsByDateRange(uid, logsStart, end),
+    getActiveGoals(uid),
+  ]);
+  return buildTdeeReport(meals, logs, goals, date);
+}
+
+/**
+ * Apply a proposal: update the active calorie goal (or create one running
+ * to the weight goal's date) and any active macro goal
+ */
+export async function applyTargetProposal(uid: string, proposal: TargetProposal): Promise<void> {
+  const goals = await getActiveGoals(uid);
+  const calorieGoal = goals.find((g) => g.status === 'active' && g.type === 'calories');
+  const macroGoal = goals.find((g) => g.status === 'active' && g.type === 'macros');
+
+  if (calorieGoal) {
+    await updateGoal(uid, calorieGoal.id, { targetCaloriesPerDay: proposal.proposedCalories });
+  } else {
+    await addGoal(uid, {
+      type: 'calories',
+      title: 'Daily calories',
+      description: 'Adjusted weekly from your weight trend',
+      targetCaloriesPerDay: proposal.proposedCalories,
+      startDate: new Date(),
+      targetDate: proposal.targetDate,
+      status: 'active',
+    });
+  }
+
+  if (macroGoal) {
+    await updateGoal(uid, macroGoal.id, {
+      targetProtein: proposal.protein,
+      targetCarbs: proposal.carbs,
+      targetFat: proposal.fat,
+    });
+  }
+}
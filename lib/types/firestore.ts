@@ -23,13 +23,44 @@ export interface UserProfile {
   updatedAt: Date;
 }
 
-/** Workout Entry - stored at /users/{uid}/workouts/{workoutId} */
-export interface Workout {
-  // Exercise Info
-  exercise: string; // e.g., "Bench Press", "Deadlift"
-  sets: number;
+/** Set classification within an exercise */
+export type SetType = 'warmup' | 'working' | 'drop' | 'failure';
+
+/** A single logged set */
+export interface WorkoutSet {
   reps: number;
   weight: number; // kg
+  rpe?: number; // 1-10 rate of perceived exertion
+  type: SetType;
+}
+
+/** Distance-based activity logged instead of sets (runs, rows, rides) */
+export interface CardioData {
+  distance?: number; // km (always stored in metric)
+  duration?: number; // seconds
+  avgHeartRate?: number; // bpm
+  elevationGain?: number; // m
+  calories?: number; // kcal burned
+}
+
+/** An exercise within a workout session, with its sets in performed order */
+export interface WorkoutExercise {
+  exercise: string; // e.g., "Bench Press", "Deadlift"
+  exerciseId?: string; // canonical library exercise (built-in or custom), when resolved
+  sets: WorkoutSet[]; // empty for cardio entries
+  cardio?: CardioData;
+  notes?: string;
+}
+
+/**
+ * Workout Session - stored at /users/{uid}/workouts/{workoutId}
+ * Legacy documents stored a single flat `exercise`/`sets`/`reps`/`weight`
+ * entry; readers convert them into a one-exercise session.
+ */
+export interface Workout {
+  // Session Info
+  title?: string; // e.g., "Push Day"
+  exercises: WorkoutExercise[];
   
   // Additional Info
   duration?: number; // minutes
@@ -42,22 +73,63 @@ export interface Workout {
   updatedAt: Date;
 }
 
-/** Meal Entry - stored at /users/{uid}/meals/{mealId} */
+/**
+ * Nutrient amounts. Macros, fiber and sugar in g; minerals and vitamin C
+ * in mg; vitamin D in µg.
+ */
+export interface Nutrients {
+  calories: number; // kcal
+  protein: number;
+  carbs: number;
+  fat: number;
+  saturatedFat?: number;
+  fiber?: number;
+  sugar?: number;
+  sodium?: number; // mg
+  potassium?: number;
+  calcium?: number;
+  iron?: number;
+  vitaminC?: number;
+  vitaminD?: number;
+}
+
+/** A food within a meal */
+export interface MealItem {
+  foodId?: string; // bundled food database id; absent for free-text items
+  name: string;
+  servingSize: number; // grams per unit (0 when unknown)
+  quantity: number;
+  unit: string; // 'g' or a serving label such as 'cup', 'slice'
+  nutrients?: Nutrients; // totals for quantity × servingSize; absent for free-text items
+  recipeId?: string; // meal template logged as servings; nutrients are a snapshot of the recipe
+}
+
+/**
+ * Meal Entry - stored at /users/{uid}/meals/{mealId}
+ * Legacy documents stored `items` as a comma-separated string; readers
+ * convert them into name-only items and keep the typed macro totals.
+ */
 export interface Meal {
   // Meal Info
   mealName: string; // e.g., "Breakfast", "Lunch"
-  items: string; // comma-separated or free text food items
+  items: MealItem[];
   mealType: 'breakfast' | 'lunch' | 'dinner' | 'snack' | 'other';
   
-  // Macros
+  // Macros (computed from items when every item has nutrients)
   calories: number;
   protein?: number; // grams (optional)
   carbs?: number; // grams (optional)
   fat?: number; // grams (optional)
+  saturatedFat?: number; // grams (optional)
+  fiber?: number; // grams (optional)
+  sugar?: number; // grams (optional)
+  sodium?: number; // mg (optional)
 
   // Additional Info
   notes?: string;
   date: Date;
+  planned?: boolean; // planned ahead; not counted in totals until confirmed
+  fromPlan?: boolean; // logged by confirming a planned meal
 
   // Metadata
   id: string;
@@ -76,7 +148,7 @@ export interface UserStats {
 /** Goal - stored at /users/{uid}/goals/{goalId} */
 export interface Goal {
   // Goal Info
-  type: 'weight' | 'workout_frequency' | 'calories' | 'macros';
+  type: 'weight' | 'workout_frequency' | 'calories' | 'macros' | 'hydration';
   title: string;
   description?: string;
   
@@ -87,6 +159,11 @@ export interface Goal {
   targetProtein?: number; // g (for macro goals)
   targetCarbs?: number; // g (for macro goals)
   targetFat?: number; // g (for macro goals)
+  targetFiber?: number; // g, minimum (for macro goals)
+  targetSugar?: number; // g, maximum (for macro goals)
+  targetSaturatedFat?: number; // g, maximum (for macro goals)
+  targetSodium?: number; // mg, maximum (for macro goals)
+  targetWaterPerDay?: number; // ml (for hydration goals)
   
   // Timeline
   startDate: Date;
@@ -105,6 +182,16 @@ export interface Goal {
   updatedAt: Date;
 }
 
+/** Water Log - stored at /users/{uid}/waterLogs/{logId} */
+export interface WaterLog {
+  amount: number; // ml
+  date: Date;
+
+  // Metadata
+  id: string;
+  createdAt: Date;
+}
+
 /** Weight Log - stored at /users/{uid}/weightLogs/{logId} */
 export interface WeightLog {
   weight: number; // kg
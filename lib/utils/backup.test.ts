@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { readBackup } from '@/lib/utils/backup';
+
+// The earlier workouts/meals/goals/weight-log JSON export
+const v1 = {
+  version: '1.0',
+  exportDate: '2024-06-01T10:00:00.000Z',
+  user: { name: 'Sam', goal: 'strength' },
+  workouts: [
+    {
+      id: 'flat',
+      exercise: 'Bench Press',
+      sets: 3,
+      reps: 5,
+      weight: 80,
+      duration: 45,
+      date: '2024-05-01T18:00:00.000Z',
+      createdAt: '2024-05-01T19:00:00.000Z',
+    },
+    {
+      id: 'listed',
+      exercises: [{ exercise: 'Squat', sets: [{ reps: 5, weight: 100, type: 'working' }] }],
+      date: '2024-05-03T18:00:00.000Z',
+    },
+  ],
+  meals: [],
+  goals: [],
+  weightLogs: [{ id: 'log', weight: 82, date: '2024-05-02T07:00:00.000Z' }],
+};
+
+describe('readBackup', () => {
+  it('restores flat workouts from a version 1 backup', () => {
+    const { backup, fromVersion, errors } = readBackup(v1);
+
+    expect(fromVersion).toBe(1);
+    expect(errors).toEqual([]);
+    expect(backup.collections.workouts).toHaveLength(2);
+
+    const flat = backup.collections.workouts![0];
+    expect(flat).toEqual({
+      id: 'flat',
+      duration: 45,
+      date: { $date: '2024-05-01T18:00:00.000Z' },
+      createdAt: { $date: '2024-05-01T19:00:00.000Z' },
+      exercises: [
+        {
+          exercise: 'Bench Press',
+          exerciseId: expect.any(String),
+          notes: null,
+          sets: Array.from({ length: 3 }, () => ({ reps: 5, weight: 80, rpe: null, type: 'working' })),
+          cardio: null,
+        },
+      ],
+    });
+  });
+
+  it('keeps version 1 workouts that already list their exercises', () => {
+    const { backup } = readBackup(v1);
+    expect(backup.collections.workouts![1].exercises).toEqual(v1.workouts[1].exercises);
+  });
+});
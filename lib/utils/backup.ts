@@ -0,0 +1,315 @@
+import type { ExportData } from '@/lib/utils/export';
+import { parseWorkoutExercises, serializeWorkoutExercises } from '@/lib/utils/workoutSets';
+
+/**
+ * Account Backup Format
+ * A versioned JSON snapshot of everything stored for an account: the profile
+ * document, every per-user collection and the browser-side preferences.
+ * Documents keep their Firestore ids and shape; timestamps are written as
+ * `{ "$date": ISO string }` so they come back as timestamps on restore.
+ * Older backups are upgraded step by step through MIGRATIONS before they
+ * are validated.
+ */
+
+export const BACKUP_FORMAT = 'gymi-backup';
+export const BACKUP_VERSION = 2;
+
+export const BACKUP_COLLECTIONS = [
+  'workouts',
+  'meals',
+  'weightLogs',
+  'waterLogs',
+  'goals',
+  'achievements',
+  'mealTemplates',
+  'workoutTemplates',
+  'programs',
+  'customExercises',
+  'exerciseAliases',
+  'notifications',
+] as const;
+
+export type BackupCollection = (typeof BACKUP_COLLECTIONS)[number];
+
+export const BACKUP_COLLECTION_LABELS: Record<BackupCollection, string> = {
+  workouts: 'Workouts',
+  meals: 'Meals',
+  weightLogs: 'Weight logs',
+  waterLogs: 'Water logs',
+  goals: 'Goals',
+  achievements: 'Achievements',
+  mealTemplates: 'Meal templates',
+  workoutTemplates: 'Workout templates',
+  programs: 'Programs',
+  customExercises: 'Custom exercises',
+  exerciseAliases: 'Exercise mappings',
+  notifications: 'Notifications',
+};
+
+/** A Firestore document in backup form, with its id */
+export type BackupDocument = { id: string } & Record<string, unknown>;
+
+export interface AccountBackup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportDate: string; // ISO
+  profile: Record<string, unknown> | null; // the users/{uid} document
+  collections: Partial<Record<BackupCollection, BackupDocument[]>>; // absent = not in this backup
+  preferences: Record<string, string>; // browser settings by localStorage key
+}
+
+export interface BackupValidation {
+  backup: AccountBackup; // invalid documents removed
+  fromVersion: number; // version of the file before migration
+  errors: string[];
+}
+
+/** Tagged timestamp as stored in a backup */
+export interface BackupDate {
+  $date: string;
+}
+
+export const isBackupDate = (value: unknown): value is BackupDate =>
+  !!value && typeof value === 'object' && typeof (value as BackupDate).$date === 'string';
+
+// ============================================================
+// PREFERENCES
+// ============================================================
+
+// localStorage keys owned by other modules (theme, sidebar, rest timer,
+// progression rules, conflict policy, import mappings, plate calculator)
+export const BACKUP_PREFERENCE_KEYS = [
+  'gymi-theme',
+  'gymi-sidebar-collapsed',
+  'gymi-rest-seconds',
+  'gymi-progression-rules',
+  'gymi-conflict-policy',
+  'gymi-import-profiles',
+  'gymi-plate-settings',
+];
+
+export function readBackupPreferences(): Record<string, string> {
+  if (typeof window === 'undefined') return {};
+  const preferences: Record<string, string> = {};
+  for (const key of BACKUP_PREFERENCE_KEYS) {
+    const value = localStorage.getItem(key);
+    if (value !== null) preferences[key] = value;
+  }
+  return preferences;
+}
+
+/**
+ * Write backed-up preferences to this browser. Without `overwrite`, settings
+ * already made here are kept. Returns how many were written.
+ */
+export function applyBackupPreferences(preferences: Record<string, string>, overwrite: boolean): number {
+  if (typeof window === 'undefined') return 0;
+  let written = 0;
+  for (const [key, value] of Object.entries(preferences)) {
+    if (!overwrite && localStorage.getItem(key) !== null) continue;
+    localStorage.setItem(key, value);
+    written++;
+  }
+  return written;
+}
+
+// ============================================================
+// MIGRATIONS
+// ============================================================
+
+type RawBackup = Record<string, unknown>;
+
+// Fields the version 1 export wrote as plain ISO strings
+const LEGACY_DATE_FIELDS = ['date', 'startDate', 'targetDate', 'completedAt', 'createdAt', 'updatedAt', 'achievedAt'];
+
+function legacyDocuments(records: unknown, collection: BackupCollection): BackupDocument[] | undefined {
+  if (!Array.isArray(records)) return undefined;
+  return records.map((record, index) => {
+    const { id, ...fields } = (record && typeof record === 'object' ? record : {}) as Record<string, unknown>;
+    for (const field of LEGACY_DATE_FIELDS) {
+      const value = fields[field];
+      if ((typeof value === 'string' || typeof value === 'number') && !isNaN(new Date(value).getTime())) {
+        fields[field] = { $date: new Date(value).toISOString() };
+      }
+    }
+    // Ids are kept so restoring the same file twice doesn't duplicate anything
+    return { ...fields, id: typeof id === 'string' && id ? id : `${collection}-${index + 1}` };
+  });
+}
+
+// Flat single-exercise workouts (`exercise`, `sets`, `reps`, `weight`) become an `exercises` list
+function legacyWorkout(document: BackupDocument): BackupDocument {
+  if (Array.isArray(document.exercises)) return document;
+  const { exercise, sets, reps, weight, ...fields } = document;
+  return { ...fields, exercises: serializeWorkoutExercises(parseWorkoutExercises({ exercise, sets, reps, weight })) };
+}
+
+/** Version 1: the workouts/meals/goals/weight-log export (`ExportData`) */
+function migrateFromV1(data: RawBackup): RawBackup {
+  const legacy = data as Partial<ExportData>;
+  const collections: Partial<Record<BackupCollection, BackupDocument[]>> = {};
+  for (const name of ['workouts', 'meals', 'goals', 'weightLogs'] as const) {
+    const documents = legacyDocuments(legacy[name], name);
+    if (documents) collections[name] = name === 'workouts' ? documents.map(legacyWorkout) : documents;
+  }
+  return {
+    format: BACKUP_FORMAT,
+    version: 2,
+    exportDate: legacy.exportDate || new Date().toISOString(),
+    profile: legacy.user ? { name: legacy.user.name, goal: legacy.user.goal } : null,
+    collections,
+    preferences: {},
+  };
+}
+
+// Each entry upgrades a backup from that version to the next one
+const MIGRATIONS: Record<number, (data: RawBackup) => RawBackup> = {
+  1: migrateFromV1,
+};
+
+/** Version of a parsed backup file; the old export only has a "1.0"-style string */
+export function getBackupVersion(data: RawBackup): number {
+  if (data.format === BACKUP_FORMAT) return Number(data.version);
+  if (typeof data.version === 'string' && Array.isArray(data.workouts)) return parseInt(data.version, 10) || 1;
+  return NaN;
+}
+
+// ============================================================
+// VALIDATION
+// ============================================================
+
+type FieldType = 'string' | 'number' | 'boolean' | 'array' | 'date';
+
+// Fields every document of a collection needs to be restored
+const DOCUMENT_SCHEMAS: Record<BackupCollection, Record<string, FieldType>> = {
+  workouts: { date: 'date', exercises: 'array' },
+  meals: { date: 'date', mealName: 'string', calories: 'number' },
+  weightLogs: { date: 'date', weight: 'number' },
+  waterLogs: { date: 'date', amount: 'number' },
+  goals: { type: 'string', title: 'string', status: 'string', startDate: 'date', targetDate: 'date' },
+  achievements: { type: 'string', title: 'string', achievedAt: 'date' },
+  mealTemplates: { name: 'string', calories: 'number' },
+  workoutTemplates: { name: 'string', exercises: 'array' },
+  programs: { name: 'string', startDate: 'date' },
+  customExercises: { name: 'string' },
+  exerciseAliases: { name: 'string', exerciseId: 'string' },
+  notifications: { type: 'string', title: 'string', createdAt: 'date' },
+};
+
+const PROFILE_SCHEMA: Record<string, FieldType> = { name: 'string', goal: 'string' };
+
+function fieldError(value: unknown, type: FieldType): string | null {
+  if (value === undefined || value === null) return 'is missing';
+  switch (type) {
+    case 'array':
+      return Array.isArray(value) ? null : 'must be a list';
+    case 'date':
+      return isBackupDate(value) && !isNaN(new Date(value.$date).getTime()) ? null : 'must be a date';
+    case 'number':
+      return typeof value === 'number' && isFinite(value) ? null : 'must be a number';
+    default:
+      return typeof value === type ? null : `must be a ${type}`;
+  }
+}
+
+function schemaErrors(record: Record<string, unknown>, schema: Record<string, FieldType>): string[] {
+  return Object.entries(schema).flatMap(([field, type]) => {
+    const error = fieldError(record[field], type);
+    return error ? [`${field} ${error}`] : [];
+  });
+}
+
+const asRecord = (value: unknown) =>
+  (value && typeof value === 'object' && !Array.isArray(value) ? value : {}) as Record<string, unknown>;
+
+const validId = (id: unknown): id is string => typeof id === 'string' && id.length > 0 && !id.includes('/');
+
+/**
+ * Upgrade a parsed backup file to the current version and check it against
+ * the schema. Documents that fail are dropped and listed in `errors`; a file
+ * that isn't a backup at all, or comes from a newer version, throws.
+ */
+export function readBackup(json: unknown): BackupValidation {
+  if (!json || typeof json !== 'object' || Array.isArray(json)) throw new Error('Invalid backup file format');
+
+  let data = json as RawBackup;
+  const fromVersion = getBackupVersion(data);
+  if (!Number.isInteger(fromVersion) || fromVersion < 1) throw new Error('Invalid backup file format');
+  if (fromVersion > BACKUP_VERSION) {
+    throw new Error(`This backup is version ${fromVersion}; update GYMI to restore it`);
+  }
+  for (let version = fromVersion; version < BACKUP_VERSION; version++) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(`Backups from version ${version} can no longer be restored`);
+    data = migrate(data);
+  }
+
+  const errors: string[] = [];
+  const rawCollections = asRecord(data.collections);
+  const collections: AccountBackup['collections'] = {};
+
+  for (const name of BACKUP_COLLECTIONS) {
+    const records = rawCollections[name];
+    if (records === undefined) continue;
+    if (!Array.isArray(records)) {
+      errors.push(`${BACKUP_COLLECTION_LABELS[name]}: not a list`);
+      continue;
+    }
+    const seen = new Set<string>();
+    collections[name] = records.filter((record, index): record is BackupDocument => {
+      const where = `${BACKUP_COLLECTION_LABELS[name]} #${index + 1}`;
+      if (!record || typeof record !== 'object') {
+        errors.push(`${where}: not a document`);
+        return false;
+      }
+      const { id } = record as Record<string, unknown>;
+      const problems = [
+        ...(validId(id) ? [] : ['id is missing or invalid']),
+        ...(validId(id) && seen.has(id) ? ['id appears twice'] : []),
+        ...schemaErrors(record as Record<string, unknown>, DOCUMENT_SCHEMAS[name]),
+      ];
+      if (validId(id)) seen.add(id);
+      if (problems.length > 0) errors.push(`${where}: ${problems.join(', ')}`);
+      return problems.length === 0;
+    });
+  }
+
+  let profile: Record<string, unknown> | null = null;
+  if (data.profile && typeof data.profile === 'object') {
+    const problems = schemaErrors(data.profile as Record<string, unknown>, PROFILE_SCHEMA);
+    if (problems.length > 0) errors.push(`Profile: ${problems.join(', ')}`);
+    else profile = data.profile as Record<string, unknown>;
+  }
+
+  const preferences = Object.fromEntries(
+    Object.entries(asRecord(data.preferences)).filter(
+      ([key, value]) => BACKUP_PREFERENCE_KEYS.includes(key) && typeof value === 'string'
+    )
+  ) as Record<string, string>;
+
+  return {
+    backup: {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      exportDate: typeof data.exportDate === 'string' ? data.exportDate : '',
+      profile,
+      collections,
+      preferences,
+    },
+    fromVersion,
+    errors,
+  };
+}
+
+/**
+ * Read and check a backup file chosen by the user
+ */
+export async function parseBackupFile(file: File): Promise<BackupValidation> {
+  let json: unknown;
+  try {
+    json = JSON.parse(await file.text());
+  } catch {
+    throw new Error('Failed to parse JSON file');
+  }
+  return readBackup(json);
+}
@@ -0,0 +1,242 @@
+/**
+ * Barcode decoding
+ * EAN-13, EAN-8 and UPC-A decoding from camera frames. Uses the native
+ * BarcodeDetector where the browser has one, otherwise a scanline decoder
+ * over a few rows through the middle of the frame.
+ */
+
+// Module widths (space, bar, space, bar) for left-hand odd-parity digits.
+// Even-parity (G) codes are the reverse; right-hand codes share these
+// widths starting with a bar.
+const L_PATTERNS = [
+  [3, 2, 1, 1],
+  [2, 2, 2, 1],
+  [2, 1, 2, 2],
+  [1, 4, 1, 1],
+  [1, 1, 3, 2],
+  [1, 2, 3, 1],
+  [1, 1, 1, 4],
+  [1, 3, 1, 2],
+  [1, 2, 1, 3],
+  [3, 1, 1, 2],
+];
+const G_PATTERNS = L_PATTERNS.map((p) => [...p].reverse());
+
+// Left-half parity (L/G) sequence → EAN-13 leading digit
+const FIRST_DIGIT_PARITY = [
+  'LLLLLL',
+  'LLGLGG',
+  'LLGGLG',
+  'LLGGGL',
+  'LGLLGG',
+  'LGGLLG',
+  'LGGGLL',
+  'LGLGLG',
+  'LGLGGL',
+  'LGGLGL',
+];
+
+// Summed per-element deviation (in modules) allowed for a digit match
+const MAX_DIGIT_VARIANCE = 1.6;
+
+// Frame rows sampled by the fallback decoder (fractions of the height)
+const SCAN_ROWS = [0.5, 0.45, 0.55, 0.4, 0.6, 0.35, 0.65, 0.3, 0.7];
+
+// ============================================================
+// VALIDATION
+// ============================================================
+
+/** Whether a code is a digit string with a valid EAN/UPC check digit */
+export function isValidBarcode(code: string): boolean {
+  if (!/^(\d{8}|\d{12}|\d{13})$/.test(code)) return false;
+  const digits = code.split('').map(Number);
+  const check = digits.pop() as number;
+  const sum = digits
+    .reverse()
+    .reduce((total, digit, i) => total + digit * (i % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10 === check;
+}
+
+/** Canonical form for lookups: UPC-A codes become 13-digit EAN */
+export function normalizeBarcode(code: string): string {
+  const digits = code.replace(/\D/g, '');
+  return digits.length === 12 ? `0${digits}` : digits;
+}
+
+// ============================================================
+// SCANLINE DECODER
+// ============================================================
+
+interface Runs {
+  widths: number[];
+  dark: boolean[];
+}
+
+/** Binarize a luminance row (midpoint threshold) into alternating runs */
+function toRuns(row: ArrayLike<number>): Runs {
+  let min = 255;
+  let max = 0;
+  for (let i = 0; i < row.length; i++) {
+    min = Math.min(min, row[i]);
+    max = Math.max(max, row[i]);
+  }
+  const widths: number[] = [];
+  const dark: boolean[] = [];
+  if (max - min < 40) return { widths, dark }; // no contrast
+
+  const threshold = (min + max) / 2;
+  for (let i = 0; i < row.length; i++) {
+    const isDark = row[i] < threshold;
+    if (dark.length > 0 && dark[dark.length - 1] === isDark) {
+      widths[widths.length - 1]++;
+    } else {
+      widths.push(1);
+      dark.push(isDark);
+    }
+  }
+  return { widths, dark };
+}
+
+function isGuard(widths: number[], start: number, count: number, moduleWidth: number): boolean {
+  for (let i = start; i < start + count; i++) {
+    if (widths[i] < moduleWidth * 0.5 || widths[i] > moduleWidth * 1.6) return false;
+  }
+  return true;
+}
+
+/** Best-matching digit for four run widths, or null if nothing is close */
+function matchDigit(widths: number[], patterns: number[][]): { digit: number; variance: number } | null {
+  const unit = widths.reduce((a, b) => a + b, 0) / 7;
+  let best: { digit: number; variance: number } | null = null;
+  for (let digit = 0; digit < patterns.length; digit++) {
+    const variance = patterns[digit].reduce((sum, p, i) => sum + Math.abs(widths[i] / unit - p), 0);
+    if (!best || variance < best.variance) best = { digit, variance };
+  }
+  return best && best.variance <= MAX_DIGIT_VARIANCE ? best : null;
+}
+
+function decodeEAN13At(widths: number[], start: number): string | null {
+  if (start + 59 > widths.length) return null;
+  const moduleWidth = (widths[start] + widths[start + 1] + widths[start + 2]) / 3;
+  if (!isGuard(widths, start, 3, moduleWidth)) return null;
+  if (start > 0 && widths[start - 1] < moduleWidth * 3) return null; // quiet zone
+
+  const digits: number[] = [];
+  let parity = '';
+  for (let d = 0; d < 6; d++) {
+    const segment = widths.slice(start + 3 + d * 4, start + 7 + d * 4);
+    const l = matchDigit(segment, L_PATTERNS);
+    const g = matchDigit(segment, G_PATTERNS);
+    if (!l && !g) return null;
+    const match = g && (!l || g.variance < l.variance) ? g : l;
+    digits.push(match!.digit);
+    parity += match === g ? 'G' : 'L';
+  }
+  if (!isGuard(widths, start + 27, 5, moduleWidth)) return null;
+  for (let d = 0; d < 6; d++) {
+    const match = matchDigit(widths.slice(start + 32 + d * 4, start + 36 + d * 4), L_PATTERNS);
+    if (!match) return null;
+    digits.push(match.digit);
+  }
+  if (!isGuard(widths, start + 56, 3, moduleWidth)) return null;
+
+  const first = FIRST_DIGIT_PARITY.indexOf(parity);
+  if (first === -1) return null;
+  const code = `${first}${digits.join('')}`;
+  return isValidBarcode(code) ? code : null;
+}
+
+function decodeEAN8At(widths: number[], start: number): string | null {
+  if (start + 43 > widths.length) return null;
+  const moduleWidth = (widths[start] + widths[start + 1] + widths[start + 2]) / 3;
+  if (!isGuard(widths, start, 3, moduleWidth)) return null;
+  if (start > 0 && widths[start - 1] < moduleWidth * 3) return null;
+
+  const digits: number[] = [];
+  for (let d = 0; d < 8; d++) {
+    const offset = d < 4 ? start + 3 + d * 4 : start + 24 + (d - 4) * 4;
+    if (d === 4 && !isGuard(widths, start + 19, 5, moduleWidth)) return null;
+    const match = matchDigit(widths.slice(offset, offset + 4), L_PATTERNS);
+    if (!match) return null;
+    digits.push(match.digit);
+  }
+  if (!isGuard(widths, start + 40, 3, moduleWidth)) return null;
+
+  const code = digits.join('');
+  return isValidBarcode(code) ? code : null;
+}
+
+/**
+ * Decode an EAN-13/UPC-A/EAN-8 barcode from one row of luminance values
+ * (0–255), in either reading direction
+ */
+export function decodeBarcodeRow(row: ArrayLike<number>): string | null {
+  const forward = Array.from(row);
+  for (const values of [forward, [...forward].reverse()]) {
+    const { widths, dark } = toRuns(values);
+    for (let i = 1; i < widths.length; i++) {
+      if (!dark[i]) continue;
+      const code = decodeEAN13At(widths, i) || decodeEAN8At(widths, i);
+      if (code) return code;
+    }
+  }
+  return null;
+}
+
+/** Decode a barcode from a video frame by sampling rows around the middle */
+export function decodeBarcodeImage(image: ImageData): string | null {
+  const { width, height, data } = image;
+  const row = new Uint8ClampedArray(width);
+  for (const fraction of SCAN_ROWS) {
+    const y = Math.floor(height * fraction);
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      row[x] = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+    }
+    const code = decodeBarcodeRow(row);
+    if (code) return code;
+  }
+  return null;
+}
+
+// ============================================================
+// NATIVE DETECTOR
+// ============================================================
+
+// Minimal shape of the Shape Detection API (not yet in the DOM typings)
+interface NativeBarcodeDetector {
+  detect(source: CanvasImageSource): Promise<Array<{ rawValue: string }>>;
+}
+
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => NativeBarcodeDetector;
+
+export type BarcodeReader = (canvas: HTMLCanvasElement) => Promise<string | null>;
+
+/**
+ * A frame reader that prefers the native BarcodeDetector and falls back
+ * to the scanline decoder. Only valid EAN/UPC codes are returned.
+ */
+export function createBarcodeReader(): BarcodeReader {
+  const Detector =
+    typeof window !== 'undefined'
+      ? (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector
+      : undefined;
+  const native = Detector ? new Detector({ formats: ['ean_13', 'ean_8', 'upc_a', 'upc_e'] }) : null;
+
+  return async (canvas) => {
+    if (native) {
+      try {
+        const found = await native.detect(canvas);
+        // The native detector verifies check digits itself (incl. UPC-E)
+        const code = found.map((b) => b.rawValue).find((value) => /^\d{8,13}$/.test(value));
+        if (code) return normalizeBarcode(code);
+      } catch {
+        // Fall through to the scanline decoder
+      }
+    }
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx || canvas.width === 0) return null;
+    const code = decodeBarcodeImage(ctx.getImageData(0, 0, canvas.width, canvas.height));
+    return code ? normalizeBarcode(code) : null;
+  };
+}
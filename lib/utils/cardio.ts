@@ -0,0 +1,85 @@
+import { CardioData, Workout, WorkoutExercise } from '@/lib/types/firestore';
+import { resolveExercise } from '@/lib/utils/exerciseResolver';
+import { UnitSystem, getPaceInUnit, paceUnit } from '@/lib/utils/units';
+
+/**
+ * Cardio helpers
+ * Distance/time entries logged instead of sets. Stored values are metric
+ * (km, m) with durations in seconds; convert via lib/utils/units for display.
+ */
+
+export interface CardioTotals {
+  sessions: number; // cardio entries logged
+  distance: number; // km
+  duration: number; // seconds
+  elevationGain: number; // m
+  calories: number; // kcal
+}
+
+/** Whether an exercise is tracked by distance/time (library category `cardio`) */
+export function isCardioExercise(exercise: string): boolean {
+  const match = resolveExercise(exercise, { fuzzy: false });
+  return match?.exercise.category === 'cardio';
+}
+
+/** Whether a logged entry carries cardio data instead of sets */
+export function isCardioEntry(entry: WorkoutExercise): boolean {
+  return !!entry.cardio && (!!entry.cardio.distance || !!entry.cardio.duration);
+}
+
+/** Format seconds as "m:ss" or "h:mm:ss" */
+export function formatDuration(seconds: number): string {
+  const total = Math.round(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  const ss = String(s).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${ss}` : `${m}:${ss}`;
+}
+
+/**
+ * Parse "mm:ss", "h:mm:ss" or plain minutes into seconds.
+ * Returns null for empty or malformed input.
+ */
+export function parseDuration(input: string): number | null {
+  const value = input.trim();
+  if (!value) return null;
+  if (!value.includes(':')) {
+    const minutes = Number(value);
+    return Number.isFinite(minutes) && minutes > 0 ? Math.round(minutes * 60) : null;
+  }
+
+  const parts = value.split(':').map(Number);
+  if (parts.length > 3 || parts.some((p) => !Number.isFinite(p) || p < 0)) return null;
+  const seconds = parts.reduce((sum, part) => sum * 60 + part, 0);
+  return seconds > 0 ? Math.round(seconds) : null;
+}
+
+/** Average pace in seconds per km, or null without both distance and time */
+export function getPace(cardio: CardioData): number | null {
+  if (!cardio.distance || !cardio.duration) return null;
+  return cardio.duration / cardio.distance;
+}
+
+/** Pace formatted in the user's unit, e.g. "5:12 /km" */
+export function formatPace(cardio: CardioData, unit: UnitSystem): string | null {
+  const pace = getPace(cardio);
+  return pace === null ? null : `${formatDuration(getPaceInUnit(pace, unit))} ${paceUnit(unit)}`;
+}
+
+/** Sum cardio entries across workouts */
+export function getCardioTotals(workouts: Workout[]): CardioTotals {
+  const totals: CardioTotals = { sessions: 0, distance: 0, duration: 0, elevationGain: 0, calories: 0 };
+  for (const workout of workouts) {
+    for (const entry of workout.exercises) {
+      if (!entry.cardio || !isCardioEntry(entry)) continue;
+      totals.sessions++;
+      totals.distance += entry.cardio.distance || 0;
+      totals.duration += entry.cardio.duration || 0;
+      totals.elevationGain += entry.cardio.elevationGain || 0;
+      totals.calories += entry.cardio.calories || 0;
+    }
+  }
+  totals.distance = Math.round(totals.distance * 100) / 100;
+  return totals;
+}
@@ -0,0 +1,327 @@
+import { describe, expect, it } from 'vitest';
+import { Meal, WeightLog, Workout } from '@/lib/types/firestore';
+import { convertMealsToCSV, convertWeightLogsToCSV, convertWorkoutsToCSV } from '@/lib/utils/export';
+import { formatMealItems } from '@/lib/utils/mealItems';
+import { getWeightInUnit } from '@/lib/utils/units';
+import {
+  createCSVParser,
+  detectDelimiter,
+  formatCSVRow,
+  parseCSV,
+  readCSVRows,
+  streamCSVFile,
+  toCSV,
+} from '@/lib/utils/csv';
+
+const created = new Date('2025-03-01T00:00:00Z');
+const pushDate = new Date(2025, 2, 1, 18, 30);
+const legDate = new Date(2025, 2, 3, 7, 5);
+
+const workouts: Workout[] = [
+  {
+    id: 'w1',
+    title: 'Push, "heavy" day',
+    exercises: [
+      {
+        exercise: 'Bench Press',
+        sets: [
+          { reps: 5, weight: 100, rpe: 8, type: 'working' },
+          { reps: 3, weight: 102.5, type: 'failure' },
+        ],
+      },
+      { exercise: 'Treadmill', sets: [], cardio: { distance: 5, duration: 1500, avgHeartRate: 150 } },
+    ],
+    duration: 75,
+    notes: 'Felt strong\nleft shoulder "ok", rested 3 min',
+    date: pushDate,
+    createdAt: created,
+    updatedAt: created,
+  },
+  {
+    id: 'w2',
+    exercises: [{ exercise: 'Squat', sets: [{ reps: 10, weight: 0, type: 'warmup' }] }],
+    date: legDate,
+    createdAt: created,
+    updatedAt: created,
+  },
+];
+
+const meals: Meal[] = [
+  {
+    id: 'm1',
+    mealName: 'Oats; berries',
+    mealType: 'breakfast',
+    items: [
+      { name: 'Oats', servingSize: 1, quantity: 60, unit: 'g' },
+      { name: 'Blueberries, "wild"', servingSize: 0, quantity: 1, unit: 'cup' },
+    ],
+    calories: 410,
+    protein: 14,
+    fiber: 9,
+    notes: 'Tab\there',
+    date: pushDate,
+    createdAt: created,
+    updatedAt: created,
+  },
+  {
+    id: 'm2',
+    mealName: 'Snack',
+    mealType: 'snack',
+    items: [],
+    calories: 0,
+    date: legDate,
+    createdAt: created,
+    updatedAt: created,
+  },
+];
+
+const weightLogs: WeightLog[] = [
+  { id: 'l1', weight: 82.4, notes: 'Morning,\r\nafter run', date: pushDate, createdAt: created, updatedAt: created },
+  { id: 'l2', weight: 81.9, date: legDate, createdAt: created, updatedAt: created },
+];
+
+// Each exporter's output with the table it should read back as
+const exports: { name: string; csv: string; table: string[][] }[] = [
+  {
+    name: 'workouts',
+    csv: convertWorkoutsToCSV(workouts, 'metric'),
+    table: [
+      [
+        'Date',
+        'Workout',
+        'Exercise',
+        'Set',
+        'Set Type',
+        'Reps',
+        'Weight (kg)',
+        'RPE',
+        'Distance (km)',
+        'Time',
+        'Avg HR (bpm)',
+        'Elevation (m)',
+        'Calories Burned',
+        'Duration (min)',
+        'Notes',
+      ],
+      [
+        pushDate.toISOString(),
+        'Push, "heavy" day',
+        'Bench Press',
+        '1',
+        'working',
+        '5',
+        '100',
+        '8',
+        '',
+        '',
+        '',
+        '',
+        '',
+        '75',
+        'Felt strong\nleft shoulder "ok", rested 3 min',
+      ],
+      [
+        pushDate.toISOString(),
+        'Push, "heavy" day',
+        'Bench Press',
+        '2',
+        'failure',
+        '3',
+        '102.5',
+        '',
+        '',
+        '',
+        '',
+        '',
+        '',
+        '75',
+        'Felt strong\nleft shoulder "ok", rested 3 min',
+      ],
+      [
+        pushDate.toISOString(),
+        'Push, "heavy" day',
+        'Treadmill',
+        '',
+        '',
+        '',
+        '',
+        '',
+        '5',
+        '25:00',
+        '150',
+        '',
+        '',
+        '75',
+        'Felt strong\nleft shoulder "ok", rested 3 min',
+      ],
+      [legDate.toISOString(), '', 'Squat', '1', 'warmup', '10', '0', '', '', '', '', '', '', '', ''],
+    ],
+  },
+  {
+    name: 'meals',
+    csv: convertMealsToCSV(meals),
+    table: [
+      [
+        'Date',
+        'Meal Name',
+        'Type',
+        'Items',
+        'Calories',
+        'Protein (g)',
+        'Carbs (g)',
+        'Fat (g)',
+        'Saturated Fat (g)',
+        'Fiber (g)',
+        'Sugar (g)',
+        'Sodium (mg)',
+        'Notes',
+      ],
+      [
+        pushDate.toISOString(),
+        'Oats; berries',
+        'breakfast',
+        formatMealItems(meals[0].items),
+        '410',
+        '14',
+        '',
+        '',
+        '',
+        '9',
+        '',
+        '',
+        'Tab\there',
+      ],
+      [legDate.toISOString(), 'Snack', 'snack', '', '0', '', '', '', '', '', '', '', ''],
+    ],
+  },
+  {
+    name: 'weight logs',
+    csv: convertWeightLogsToCSV(weightLogs, 'imperial'),
+    table: [
+      ['Date', 'Weight (lbs)', 'Notes'],
+      [pushDate.toISOString(), getWeightInUnit(82.4, 'imperial').toString(), 'Morning,\r\nafter run'],
+      [legDate.toISOString(), getWeightInUnit(81.9, 'imperial').toString(), ''],
+    ],
+  },
+];
+
+// Feed `text` to an incremental parser in the given pieces
+function parseInPieces(pieces: string[]): string[][] {
+  const parser = createCSVParser();
+  const rows = pieces.flatMap((piece) => parser.push(piece));
+  return [...rows, ...parser.end()];
+}
+
+describe('CSV exports round-trip', () => {
+  describe.each(exports)('$name', ({ csv, table }) => {
+    it('reads back every cell', () => {
+      expect(parseCSV(csv)).toEqual(table);
+    });
+
+    it('ends records with CRLF and leaves plain fields unquoted', () => {
+      expect(csv.endsWith('\r\n')).toBe(true);
+      expect(csv.split('\r\n')[0]).toBe(table[0].join(','));
+    });
+
+    it('reads back with a byte-order mark', () => {
+      expect(parseCSV(`\uFEFF${csv}`)).toEqual(table);
+    });
+
+    it('reads back with LF line endings', () => {
+      const lf = table.map((row) => formatCSVRow(row)).join('\n');
+      expect(parseCSV(lf)).toEqual(table);
+    });
+
+    it.each([';', '\t'] as const)('reads back re-written with %j as the delimiter', (delimiter) => {
+      const text = toCSV(table[0], table.slice(1), delimiter);
+      expect(detectDelimiter(text)).toBe(delimiter);
+      expect(parseCSV(text)).toEqual(table);
+    });
+
+    it('reads back when split into chunks at any position', () => {
+      for (let i = 0; i <= csv.length; i++) {
+        expect(parseInPieces([csv.slice(0, i), csv.slice(i)])).toEqual(table);
+      }
+    });
+
+    it('reads back one character at a time', () => {
+      expect(parseInPieces(Array.from(`\uFEFF${csv}`))).toEqual(table);
+    });
+  });
+});
+
+describe('parseCSV', () => {
+  it('unescapes doubled quotes and keeps empty fields', () => {
+    expect(parseCSV('a,b,c\r\n"say ""hi""",,""\r\n,,\r\n')).toEqual([
+      ['a', 'b', 'c'],
+      ['say "hi"', '', ''],
+      ['', '', ''],
+    ]);
+  });
+
+  it('keeps line breaks inside quoted fields', () => {
+    expect(parseCSV('a,b\n"one\r\ntwo","x\ny"\n')).toEqual([
+      ['a', 'b'],
+      ['one\r\ntwo', 'x\ny'],
+    ]);
+  });
+
+  it('reads a last row with no line ending and skips empty lines', () => {
+    expect(parseCSV('a;b\r\n\r\n1;2')).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+    ]);
+  });
+
+  it('uses the delimiter it is given', () => {
+    expect(parseCSV('a;b,c\n1;2,3', { delimiter: ',' })).toEqual([
+      ['a;b', 'c'],
+      ['1;2', '3'],
+    ]);
+  });
+});
+
+describe('streamCSVFile', () => {
+  // Spans two 1 MB slices, with multi-byte characters throughout for the edges to fall inside
+  const rowCount = 40000;
+  const header = ['Date', 'Meal Name', 'Notes'];
+  const rows = Array.from({ length: rowCount }, (_, i) => [
+    `2025-03-0${(i % 9) + 1}`,
+    `Crème brûlée ${i}`,
+    'a,"b"\nc 🍮',
+  ]);
+  const file = new Blob([`\uFEFF${toCSV(header, rows)}`]);
+
+  it('reads a file larger than one slice', async () => {
+    const read: string[][] = [];
+    let chunks = 0;
+    const progress: number[] = [];
+    const { delimiter } = await streamCSVFile(
+      file,
+      (chunk) => {
+        chunks++;
+        for (const row of chunk) read.push(row);
+      },
+      { onProgress: (bytesRead) => progress.push(bytesRead) }
+    );
+
+    expect(file.size).toBeGreaterThan(1024 * 1024);
+    expect(chunks).toBeGreaterThan(1);
+    expect(delimiter).toBe(',');
+    expect(read).toEqual([header, ...rows]);
+    expect(progress[progress.length - 1]).toBe(file.size);
+  });
+
+  it('stops reading when onRows returns false', async () => {
+    let chunks = 0;
+    await streamCSVFile(file, () => {
+      chunks++;
+      return false;
+    });
+    expect(chunks).toBe(1);
+  });
+
+  it('reads just the first rows', async () => {
+    expect(await readCSVRows(file, 2)).toEqual([header, rows[0]]);
+  });
+});
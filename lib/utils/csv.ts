@@ -0,0 +1,245 @@
+/**
+ * CSV reader/writer (RFC 4180)
+ * Shared by every export and import. The reader is incremental: text goes in
+ * chunk by chunk and complete rows come out, so files are read in slices
+ * rather than as one string. Quoted fields may hold delimiters, doubled
+ * quotes ("") and line breaks; CRLF, LF and bare CR all end a row.
+ */
+
+export type CSVDelimiter = ',' | ';' | '\t' | '|';
+
+export interface CSVReadOptions {
+  delimiter?: CSVDelimiter; // detected from the header row when omitted
+}
+
+export interface CSVStreamOptions extends CSVReadOptions {
+  onProgress?: (bytesRead: number, totalBytes: number) => void;
+}
+
+export interface CSVParser {
+  /** Feed the next piece of text; returns the rows it completed */
+  push: (chunk: string) => string[][];
+  /** Flush the last row once the input is done */
+  end: () => string[][];
+  /** Delimiter in use (null until the header row has been seen) */
+  delimiter: () => CSVDelimiter | null;
+}
+
+const DELIMITERS: CSVDelimiter[] = [',', ';', '\t', '|'];
+const BOM = '\uFEFF';
+
+// Bytes read from a file per slice
+const READ_CHUNK_SIZE = 1024 * 1024;
+
+/**
+ * Delimiter used by the first row of `text`: whichever candidate appears
+ * most often outside quotes (comma when none do)
+ */
+export function detectDelimiter(text: string): CSVDelimiter {
+  const counts = new Map<string, number>();
+  let inQuotes = false;
+  for (const ch of text) {
+    if (ch === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && (ch === '\n' || ch === '\r')) break;
+    else if (!inQuotes) counts.set(ch, (counts.get(ch) || 0) + 1);
+  }
+  return DELIMITERS.reduce((best, d) => ((counts.get(d) || 0) > (counts.get(best) || 0) ? d : best), ',');
+}
+
+// Whether `text` holds a line break outside quotes, i.e. a whole first row
+function hasCompleteRow(text: string): boolean {
+  let inQuotes = false;
+  for (const ch of text) {
+    if (ch === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && (ch === '\n' || ch === '\r')) return true;
+  }
+  return false;
+}
+
+/**
+ * Incremental CSV parser. Lines that are entirely empty are skipped; quotes
+ * that don't follow RFC 4180 (a stray `"` mid-field, text after a closing
+ * quote) are kept as literal characters rather than rejected.
+ */
+export function createCSVParser(options: CSVReadOptions = {}): CSVParser {
+  let delimiter: CSVDelimiter | null = options.delimiter || null;
+  let pending = ''; // text held back until the delimiter is known
+  let started = false;
+
+  let row: string[] = [];
+  let field = '';
+  let quoted = false; // current field started with a quote
+  let inQuotes = false;
+  let quoteSeen = false; // a quote inside a quoted field: closing, or the first of ""
+  let skipLineFeed = false; // previous row ended on \r
+  let rowHadQuotes = false; // keeps a row holding just "" from counting as blank
+
+  const endField = () => {
+    row.push(field);
+    field = '';
+    quoted = false;
+  };
+
+  const endRow = (rows: string[][]) => {
+    endField();
+    if (row.length > 1 || row[0] !== '' || rowHadQuotes) rows.push(row);
+    row = [];
+    rowHadQuotes = false;
+  };
+
+  const parse = (text: string): string[][] => {
+    const rows: string[][] = [];
+    for (let i = 0; i < text.length; i++) {
+      const ch = text[i];
+
+      if (skipLineFeed) {
+        skipLineFeed = false;
+        if (ch === '\n') continue;
+      }
+
+      if (quoteSeen) {
+        quoteSeen = false;
+        if (ch === '"') {
+          field += '"';
+          continue;
+        }
+        inQuotes = false; // that quote closed the field; handle `ch` normally
+      }
+
+      if (inQuotes) {
+        if (ch === '"') quoteSeen = true;
+        else field += ch;
+        continue;
+      }
+
+      if (ch === '"' && field === '' && !quoted) {
+        inQuotes = true;
+        quoted = true;
+        rowHadQuotes = true;
+      } else if (ch === delimiter) {
+        endField();
+      } else if (ch === '\n' || ch === '\r') {
+        endRow(rows);
+        skipLineFeed = ch === '\r';
+      } else {
+        field += ch;
+      }
+    }
+    return rows;
+  };
+
+  return {
+    push(chunk) {
+      let text = chunk;
+      if (!started) {
+        if (!text) return [];
+        started = true;
+        if (text.startsWith(BOM)) text = text.slice(1);
+      }
+      if (!delimiter) {
+        pending += text;
+        if (!hasCompleteRow(pending)) return [];
+        delimiter = detectDelimiter(pending);
+        text = pending;
+        pending = '';
+      }
+      return parse(text);
+    },
+    end() {
+      const rows: string[][] = [];
+      if (!delimiter) {
+        delimiter = detectDelimiter(pending);
+        rows.push(...parse(pending));
+        pending = '';
+      }
+      // An unterminated quote runs to the end of the input
+      quoteSeen = false;
+      inQuotes = false;
+      if (field !== '' || row.length > 0 || quoted) endRow(rows);
+      return rows;
+    },
+    delimiter: () => delimiter,
+  };
+}
+
+/** Parse CSV text held in memory */
+export function parseCSV(text: string, options: CSVReadOptions = {}): string[][] {
+  const parser = createCSVParser(options);
+  return [...parser.push(text), ...parser.end()];
+}
+
+/**
+ * Read a CSV file slice by slice, handing over rows as they complete. Only
+ * one slice of text is in memory at a time; `onRows` decides what to keep,
+ * and returning `false` from it stops reading.
+ */
+export async function streamCSVFile(
+  file: Blob,
+  onRows: (rows: string[][]) => boolean | void,
+  options: CSVStreamOptions = {}
+): Promise<{ delimiter: CSVDelimiter }> {
+  const parser = createCSVParser(options);
+  const decoder = new TextDecoder('utf-8'); // also drops a leading byte-order mark
+
+  for (let offset = 0; offset < file.size; offset += READ_CHUNK_SIZE) {
+    const bytes = await file.slice(offset, offset + READ_CHUNK_SIZE).arrayBuffer();
+    const rows = parser.push(decoder.decode(bytes, { stream: true }));
+    options.onProgress?.(Math.min(offset + READ_CHUNK_SIZE, file.size), file.size);
+    if (rows.length > 0 && onRows(rows) === false) return { delimiter: parser.delimiter() || ',' };
+  }
+  const rows = [...parser.push(decoder.decode()), ...parser.end()];
+  if (rows.length > 0) onRows(rows);
+
+  return { delimiter: parser.delimiter() || ',' };
+}
+
+/** The first `count` rows of a CSV file (header included), reading no further than needed */
+export async function readCSVRows(file: Blob, count: number, options: CSVReadOptions = {}): Promise<string[][]> {
+  const head: string[][] = [];
+  await streamCSVFile(
+    file,
+    (rows) => {
+      for (let i = 0; i < rows.length && head.length < count; i++) head.push(rows[i]);
+      return head.length < count;
+    },
+    options
+  );
+  return head;
+}
+
+// ============================================================
+// WRITER
+// ============================================================
+
+/**
+ * One CSV cell. Quoted only when it has to be: it holds the delimiter, a
+ * quote or a line break, or starts/ends with whitespace a reader could trim.
+ */
+export function formatCSVField(value: unknown, delimiter: CSVDelimiter = ','): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  const needsQuotes = text.includes(delimiter) || /["\r\n]/.test(text) || (text !== '' && text.trim() !== text);
+  return needsQuotes ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** One CSV record, without the line break */
+export function formatCSVRow(cells: unknown[], delimiter: CSVDelimiter = ','): string {
+  return cells.map((cell) => formatCSVField(cell, delimiter)).join(delimiter);
+}
+
+/**
+ * CSV records one at a time, each ending in CRLF as RFC 4180 asks. Rows can
+ * come from a generator, so a large export is never built as one string.
+ */
+export function* csvLines(
+  headers: string[],
+  rows: Iterable<unknown[]>,
+  delimiter: CSVDelimiter = ','
+): Generator<string> {
+  yield `${formatCSVRow(headers, delimiter)}\r\n`;
+  for (const row of rows) yield `${formatCSVRow(row, delimiter)}\r\n`;
+}
+
+/** Whole CSV document as a string */
+export function toCSV(headers: string[], rows: Iterable<unknown[]>, delimiter: CSVDelimiter = ','): string {
+  return Array.from(csvLines(headers, rows, delimiter)).join('');
+}
@@ -0,0 +1,261 @@
+import {
+  Exercise,
+  getAllExercises,
+  getExerciseById,
+  findExerciseByName,
+  normalizeExerciseName,
+} from '@/lib/data/exercises';
+import { Workout, WorkoutExercise } from '@/lib/types/firestore';
+
+/**
+ * Exercise name resolution
+ * Maps free-text workout entries onto canonical library exercises so
+ * "Bench press", "bench" and "BB Bench Press" count as one exercise.
+ */
+
+export type ExerciseMatchType = 'id' | 'exact' | 'alias' | 'fuzzy';
+
+export interface ExerciseMatch {
+  exercise: Exercise;
+  type: ExerciseMatchType;
+  score: number; // 0–1, 1 for id/exact/alias matches
+}
+
+export interface ResolveOptions {
+  library?: Exercise[];
+  aliases?: Record<string, string>; // user aliases: normalized name → exercise id
+  fuzzy?: boolean; // include similarity matches (default true)
+}
+
+/** Minimum similarity for a fuzzy match */
+const FUZZY_THRESHOLD = 0.6;
+
+// Common gym shorthand → built-in exercise id (keys in canonical token form)
+const COMMON_ALIASES: Record<string, string> = {
+  bench: 'bench-press',
+  'flat bench': 'bench-press',
+  'barbell bench': 'bench-press',
+  'barbell bench press': 'bench-press',
+  'press up': 'push-up',
+  'chest fly': 'dumbbell-fly',
+  dl: 'deadlift',
+  'conventional deadlift': 'deadlift',
+  'barbell deadlift': 'deadlift',
+  'bent over row': 'barbell-row',
+  'bent over barbell row': 'barbell-row',
+  ohp: 'overhead-press',
+  'military press': 'overhead-press',
+  'shoulder press': 'overhead-press',
+  'standing press': 'overhead-press',
+  'side raise': 'lateral-raise',
+  'side lateral raise': 'lateral-raise',
+  'dumbbell lateral raise': 'lateral-raise',
+  curl: 'barbell-curl',
+  'bicep curl': 'barbell-curl',
+  dip: 'tricep-dip',
+  'back squat': 'squat',
+  'barbell squat': 'squat',
+  'walking lunge': 'lunges',
+  run: 'running',
+  jog: 'running',
+  jogging: 'running',
+};
+
+// Token-level shorthand expanded before matching
+const TOKEN_SYNONYMS: Record<string, string> = {
+  bb: 'barbell',
+  db: 'dumbbell',
+  kb: 'kettlebell',
+  flye: 'fly',
+  pushup: 'push up',
+  pullup: 'pull up',
+};
+
+function singularize(token: string): string {
+  if (token.length > 4 && token.endsWith('ies')) return `${token.slice(0, -3)}y`;
+  if (token.length > 2 && token.endsWith('s') && !token.endsWith('ss')) return token.slice(0, -1);
+  return token;
+}
+
+/** Lowercase, punctuation-free, singular tokens with shorthand expanded */
+export function tokenizeExerciseName(name: string): string[] {
+  return normalizeExerciseName(name)
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter(Boolean)
+    .map(singularize)
+    .flatMap((token) => (TOKEN_SYNONYMS[token] || token).split(' '));
+}
+
+function levenshtein(a: string, b: string): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= b.length; j++) {
+      curr[j] = Math.min(
+        prev[j] + 1,
+        curr[j - 1] + 1,
+        prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    prev = curr;
+  }
+  return prev[b.length];
+}
+
+/**
+ * Similarity of two exercise names (0–1): the better of token overlap
+ * (Dice coefficient) and character edit distance, so both "bench" vs
+ * "bench press" and typos like "deadlfit" score well.
+ */
+export function exerciseNameSimilarity(a: string, b: string): number {
+  const ta = tokenizeExerciseName(a);
+  const tb = tokenizeExerciseName(b);
+  if (ta.length === 0 || tb.length === 0) return 0;
+
+  const ca = ta.join('');
+  const cb = tb.join('');
+  if (ca === cb) return 1;
+
+  const setB = new Set(tb);
+  const shared = new Set(ta.filter((t) => setB.has(t))).size;
+  const dice = (2 * shared) / (new Set(ta).size + setB.size);
+  const edit = 1 - levenshtein(ca, cb) / Math.max(ca.length, cb.length);
+
+  return Math.max(dice, edit);
+}
+
+/**
+ * Resolve a free-text exercise name to a library exercise.
+ * Order: exact name → user alias → common shorthand → fuzzy similarity.
+ * Fuzzy matches are rejected when two exercises tie for the best score.
+ */
+export function resolveExercise(name: string, options: ResolveOptions = {}): ExerciseMatch | null {
+  const { library = getAllExercises(), aliases, fuzzy = true } = options;
+  if (!normalizeExerciseName(name)) return null;
+
+  const direct = findExerciseByName(name, library, aliases);
+  if (direct) {
+    const exact = normalizeExerciseName(direct.name) === normalizeExerciseName(name);
+    return { exercise: direct, type: exact ? 'exact' : 'alias', score: 1 };
+  }
+
+  const key = tokenizeExerciseName(name).join(' ');
+  const compact = key.replace(/ /g, '');
+  const sameTokens = library.find(
+    (ex) => tokenizeExerciseName(ex.name).join('') === compact
+  );
+  if (sameTokens) return { exercise: sameTokens, type: 'exact', score: 1 };
+
+  const commonId = COMMON_ALIASES[key];
+  const common = commonId ? getExerciseById(commonId, library) : undefined;
+  if (common) return { exercise: common, type: 'alias', score: 1 };
+
+  if (!fuzzy) return null;
+
+  let best: ExerciseMatch | null = null;
+  let tied = false;
+  for (const exercise of library) {
+    const score = exerciseNameSimilarity(name, exercise.name);
+    if (score < FUZZY_THRESHOLD) continue;
+    if (!best || score > best.score) {
+      best = { exercise, type: 'fuzzy', score };
+      tied = false;
+    } else if (score === best.score) {
+      tied = true;
+    }
+  }
+  return tied ? null : best;
+}
+
+/**
+ * Library exercise for a workout entry: its stored `exerciseId` first,
+ * then a non-fuzzy name lookup
+ */
+export function resolveWorkoutExercise(
+  entry: WorkoutExercise,
+  library: Exercise[] = getAllExercises()
+): Exercise | undefined {
+  const byId = entry.exerciseId ? getExerciseById(entry.exerciseId, library) : undefined;
+  return byId || resolveExercise(entry.exercise, { library, fuzzy: false })?.exercise;
+}
+
+/** Grouping key for an entry: the exercise id, or its normalized name if unresolved */
+export function getExerciseKey(entry: WorkoutExercise): string {
+  return resolveWorkoutExercise(entry)?.id || `name:${normalizeExerciseName(entry.exercise)}`;
+}
+
+export type ExerciseKeyer = (entry: Pick<WorkoutExercise, 'exercise' | 'exerciseId'>) => string;
+
+/**
+ * `getExerciseKey` that resolves each distinct name (and id) only once, for
+ * loops over a whole workout history
+ */
+export function createExerciseKeyer(): ExerciseKeyer {
+  const keys = new Map<string, string>();
+  return ({ exercise, exerciseId }) => {
+    const cacheKey = `${exerciseId || ''}|${exercise}`;
+    let key = keys.get(cacheKey);
+    if (key === undefined) {
+      key = getExerciseKey({ exercise, exerciseId, sets: [] });
+      keys.set(cacheKey, key);
+    }
+    return key;
+  };
+}
+
+/** Unique canonical exercise names in session order */
+export function getCanonicalExerciseNames(workout: Workout): string[] {
+  const names = workout.exercises
+    .filter((e) => e.exercise)
+    .map((e) => resolveWorkoutExercise(e)?.name || e.exercise);
+  return Array.from(new Set(names));
+}
+
+// ============================================================
+// HISTORY MIGRATION
+// ============================================================
+
+export interface ExerciseMergeProposal {
+  key: string; // normalized logged name
+  name: string; // logged name as first written
+  entries: number; // workout entries using it
+  match: ExerciseMatch | null;
+}
+
+/**
+ * Logged names in history that are not yet linked to their canonical
+ * exercise, with the best proposed match for each (most used first)
+ */
+export function getExerciseMergeProposals(
+  workouts: Workout[],
+  options: Omit<ResolveOptions, 'fuzzy'> = {}
+): ExerciseMergeProposal[] {
+  const { library = getAllExercises(), aliases } = options;
+  const groups = new Map<string, ExerciseMergeProposal>();
+
+  for (const workout of workouts) {
+    for (const entry of workout.exercises) {
+      if (!entry.exercise) continue;
+      const linked = entry.exerciseId ? getExerciseById(entry.exerciseId, library) : undefined;
+      if (linked && linked.name === entry.exercise) continue;
+
+      const key = normalizeExerciseName(entry.exercise);
+      const group = groups.get(key);
+      if (group) {
+        group.entries++;
+      } else {
+        groups.set(key, {
+          key,
+          name: entry.exercise,
+          entries: 1,
+          match: linked
+            ? { exercise: linked, type: 'id', score: 1 }
+            : resolveExercise(entry.exercise, { library, aliases }),
+        });
+      }
+    }
+  }
+
+  return Array.from(groups.values()).sort((a, b) => b.entries - a.entries);
+}
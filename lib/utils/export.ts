@@ -1,7 +1,18 @@
 import { Workout, Meal, UserProfile } from '@/lib/types/firestore';
 import { Goal } from '@/lib/types/firestore';
 import { WeightLog } from '@/lib/types/firestore';
-import { UnitSystem, weightUnit, getWeightInUnit } from '@/lib/utils/units';
+import {
+  UnitSystem,
+  weightUnit,
+  getWeightInUnit,
+  distanceUnit,
+  getDistanceInUnit,
+  elevationUnit,
+  getElevationInUnit,
+} from '@/lib/utils/units';
+import { formatDuration } from '@/lib/utils/cardio';
+import { TypedMicronutrient, formatMealItems } from '@/lib/utils/mealItems';
+import { CSVStreamOptions, csvLines, streamCSVFile, toCSV } from '@/lib/utils/csv';
 
 /**
  * Export data types
@@ -19,34 +30,89 @@ export interface ExportData {
   weightLogs?: WeightLog[];
 }
 
+// Header row and data rows, shared by the convert* strings and the downloads
+type CSVTable = [headers: string[], rows: string[][]];
+
+// ISO 8601 in UTC, so a file reads back the same whatever locale wrote or imports it
+const csvDate = (date: Date) => new Date(date).toISOString();
+
 /**
- * Convert data to CSV format
+ * Convert data to CSV format (one row per logged set; cardio entries get a
+ * single row with the distance/time columns filled instead)
  */
 export function convertWorkoutsToCSV(workouts: Workout[], unitSystem: UnitSystem = 'metric'): string {
-  const wu = weightUnit(unitSystem);
-  const headers = ['Date', 'Exercise', 'Sets', 'Reps', `Weight (${wu})`, 'Duration (min)', 'Notes'];
-  const rows = workouts.map((w) => [
-    new Date(w.date).toLocaleString(),
-    w.exercise,
-    w.sets.toString(),
-    w.reps.toString(),
-    getWeightInUnit(w.weight, unitSystem).toString(),
-    w.duration?.toString() || '',
-    w.notes || '',
-  ]);
-
-  const csvContent = [
-    headers.join(','),
-    ...rows.map((row) => row.map((cell) => `"${cell}"`).join(',')),
-  ].join('\n');
+  return toCSV(...workoutCSVTable(workouts, unitSystem));
+}
 
-  return csvContent;
+function workoutCSVTable(workouts: Workout[], unitSystem: UnitSystem): CSVTable {
+  const wu = weightUnit(unitSystem);
+  const headers = [
+    'Date',
+    'Workout',
+    'Exercise',
+    'Set',
+    'Set Type',
+    'Reps',
+    `Weight (${wu})`,
+    'RPE',
+    `Distance (${distanceUnit(unitSystem)})`,
+    'Time',
+    'Avg HR (bpm)',
+    `Elevation (${elevationUnit(unitSystem)})`,
+    'Calories Burned',
+    'Duration (min)',
+    'Notes',
+  ];
+  const rows = workouts.flatMap((w) =>
+    w.exercises.flatMap((entry) => {
+      const session = [csvDate(w.date), w.title || '', entry.exercise];
+      const trailing = [w.duration?.toString() || '', w.notes || ''];
+      const cardio = entry.cardio;
+      const cardioCells = cardio
+        ? [
+            cardio.distance ? getDistanceInUnit(cardio.distance, unitSystem).toString() : '',
+            cardio.duration ? formatDuration(cardio.duration) : '',
+            cardio.avgHeartRate?.toString() || '',
+            cardio.elevationGain ? getElevationInUnit(cardio.elevationGain, unitSystem).toString() : '',
+            cardio.calories?.toString() || '',
+          ]
+        : ['', '', '', '', ''];
+
+      if (entry.sets.length === 0) {
+        return cardio ? [[...session, '', '', '', '', '', ...cardioCells, ...trailing]] : [];
+      }
+      return entry.sets.map((set, index) => [
+        ...session,
+        (index + 1).toString(),
+        set.type,
+        set.reps.toString(),
+        getWeightInUnit(set.weight, unitSystem).toString(),
+        set.rpe?.toString() || '',
+        ...(index === 0 ? cardioCells : ['', '', '', '', '']),
+        ...trailing,
+      ]);
+    })
+  );
+
+  return [headers, rows];
 }
 
+// Optional nutrient columns, between Fat and Notes
+const MEAL_MICRONUTRIENT_COLUMNS: { key: TypedMicronutrient; header: string }[] = [
+  { key: 'saturatedFat', header: 'Saturated Fat (g)' },
+  { key: 'fiber', header: 'Fiber (g)' },
+  { key: 'sugar', header: 'Sugar (g)' },
+  { key: 'sodium', header: 'Sodium (mg)' },
+];
+
 /**
  * Convert meals to CSV format
  */
 export function convertMealsToCSV(meals: Meal[]): string {
+  return toCSV(...mealCSVTable(meals));
+}
+
+function mealCSVTable(meals: Meal[]): CSVTable {
   const headers = [
     'Date',
     'Meal Name',
@@ -56,46 +122,42 @@ export function convertMealsToCSV(meals: Meal[]): string {
     'Protein (g)',
     'Carbs (g)',
     'Fat (g)',
+    ...MEAL_MICRONUTRIENT_COLUMNS.map((c) => c.header),
     'Notes',
   ];
   const rows = meals.map((m) => [
-    new Date(m.date).toLocaleString(),
+    csvDate(m.date),
     m.mealName,
     m.mealType,
-    m.items,
+    formatMealItems(m.items),
     m.calories.toString(),
     m.protein?.toString() || '',
     m.carbs?.toString() || '',
     m.fat?.toString() || '',
+    ...MEAL_MICRONUTRIENT_COLUMNS.map((c) => m[c.key]?.toString() || ''),
     m.notes || '',
   ]);
 
-  const csvContent = [
-    headers.join(','),
-    ...rows.map((row) => row.map((cell) => `"${cell}"`).join(',')),
-  ].join('\n');
-
-  return csvContent;
+  return [headers, rows];
 }
 
 /**
  * Convert weight logs to CSV format
  */
 export function convertWeightLogsToCSV(logs: WeightLog[], unitSystem: UnitSystem = 'metric'): string {
+  return toCSV(...weightLogCSVTable(logs, unitSystem));
+}
+
+function weightLogCSVTable(logs: WeightLog[], unitSystem: UnitSystem): CSVTable {
   const wu = weightUnit(unitSystem);
   const headers = ['Date', `Weight (${wu})`, 'Notes'];
   const rows = logs.map((log) => [
-    new Date(log.date).toLocaleString(),
+    csvDate(log.date),
     getWeightInUnit(log.weight, unitSystem).toString(),
     log.notes || '',
   ]);
 
-  const csvContent = [
-    headers.join(','),
-    ...rows.map((row) => row.map((cell) => `"${cell}"`).join(',')),
-  ].join('\n');
-
-  return csvContent;
+  return [headers, rows];
 }
 
 /**
@@ -106,10 +168,11 @@ export function exportDataAsJSON(data: ExportData): string {
 }
 
 /**
- * Download file to user's device
+ * Download file to user's device. `content` may be a list of parts (such as
+ * CSV lines) so large exports aren't joined into one string first.
  */
-export function downloadFile(content: string, filename: string, mimeType: string): void {
-  const blob = new Blob([content], { type: mimeType });
+export function downloadFile(content: string | BlobPart[], filename: string, mimeType: string): void {
+  const blob = new Blob(typeof content === 'string' ? [content] : content, { type: mimeType });
   const url = URL.createObjectURL(blob);
   const link = document.createElement('a');
   link.href = url;
@@ -120,31 +183,35 @@ export function downloadFile(content: string, filename: string, mimeType: string
   URL.revokeObjectURL(url);
 }
 
+// Leading byte-order mark so spreadsheet apps open the file as UTF-8
+const UTF8_BOM = '\uFEFF';
+
+function downloadCSV([headers, rows]: CSVTable, filename: string): void {
+  downloadFile([UTF8_BOM, ...csvLines(headers, rows)], filename, 'text/csv;charset=utf-8');
+}
+
 /**
  * Export workouts as CSV
  */
 export function exportWorkoutsCSV(workouts: Workout[], unitSystem: UnitSystem = 'metric'): void {
-  const csv = convertWorkoutsToCSV(workouts, unitSystem);
   const filename = `gymi-workouts-${new Date().toISOString().split('T')[0]}.csv`;
-  downloadFile(csv, filename, 'text/csv');
+  downloadCSV(workoutCSVTable(workouts, unitSystem), filename);
 }
 
 /**
  * Export meals as CSV
  */
 export function exportMealsCSV(meals: Meal[]): void {
-  const csv = convertMealsToCSV(meals);
   const filename = `gymi-meals-${new Date().toISOString().split('T')[0]}.csv`;
-  downloadFile(csv, filename, 'text/csv');
+  downloadCSV(mealCSVTable(meals), filename);
 }
 
 /**
  * Export weight logs as CSV
  */
 export function exportWeightLogsCSV(logs: WeightLog[], unitSystem: UnitSystem = 'metric'): void {
-  const csv = convertWeightLogsToCSV(logs, unitSystem);
   const filename = `gymi-weight-logs-${new Date().toISOString().split('T')[0]}.csv`;
-  downloadFile(csv, filename, 'text/csv');
+  downloadCSV(weightLogCSVTable(logs, unitSystem), filename);
 }
 
 /**
@@ -157,34 +224,27 @@ export function exportAllDataJSON(data: ExportData): void {
 }
 
 /**
- * Parse CSV file
+ * Parse CSV file (any RFC 4180 file: quoted fields, CRLF, BOM, and comma,
+ * semicolon or tab delimiters). Every row is kept in memory; imports use
+ * `previewCSVFile` instead, which handles large files a chunk at a time.
  */
-export async function parseCSVFile(file: File): Promise<string[][]> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-
-    reader.onload = (e) => {
-      const text = e.target?.result as string;
-      const lines = text.split('\n').filter((line) => line.trim());
-      const data = lines.map((line) => {
-        // Handle quoted fields
-        const regex = /"([^"]*)"|([^,]+)/g;
-        const fields: string[] = [];
-        let match;
-
-        while ((match = regex.exec(line)) !== null) {
-          fields.push(match[1] || match[2] || '');
-        }
-
-        return fields;
-      });
-
-      resolve(data);
-    };
-
-    reader.onerror = () => reject(new Error('Failed to read file'));
-    reader.readAsText(file);
-  });
+export async function parseCSVFile(
+  file: File,
+  options: CSVStreamOptions = {}
+): Promise<string[][]> {
+  const data: string[][] = [];
+  try {
+    await streamCSVFile(
+      file,
+      (rows) => {
+        for (const row of rows) data.push(row);
+      },
+      options
+    );
+  } catch {
+    throw new Error('Failed to read file');
+  }
+  return data;
 }
 
 /**
@@ -199,6 +259,12 @@ export async function parseJSONFile(file: File): Promise<ExportData> {
         const text = e.target?.result as string;
         const data = JSON.parse(text) as ExportData;
 
+        // Full account backups have their own restore path
+        if ((data as { format?: string }).format === 'gymi-backup') {
+          reject(new Error('This is a full account backup; restore it under Backup & Restore'));
+          return;
+        }
+
         // Validate structure
         if (!data.version || !data.workouts || !data.meals) {
           reject(new Error('Invalid backup file format'));
@@ -218,45 +284,66 @@ export async function parseJSONFile(file: File): Promise<ExportData> {
 
 /**
  * Validate workout CSV data
+ * Accepts the per-set export layout as well as the legacy
+ * one-row-per-exercise layout with a `Sets` column.
  */
 export function validateWorkoutCSV(data: string[][]): { valid: boolean; errors: string[] } {
   const errors: string[] = [];
   const headers = data[0];
 
   // Check required headers
-  const requiredHeaders = ['Date', 'Exercise', 'Sets', 'Reps', 'Weight (kg)'];
+  const requiredHeaders = ['Date', 'Exercise', 'Reps'];
   for (const header of requiredHeaders) {
     if (!headers.includes(header)) {
       errors.push(`Missing required column: ${header}`);
     }
   }
+  const weightIndex = headers.findIndex((h) => h.startsWith('Weight ('));
+  if (weightIndex === -1) {
+    errors.push('Missing required column: Weight (kg)');
+  }
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  const dateIndex = headers.indexOf('Date');
+  const exerciseIndex = headers.indexOf('Exercise');
+  const setsIndex = headers.indexOf('Sets');
+  const repsIndex = headers.indexOf('Reps');
+  const distanceIndex = headers.findIndex((h) => h.startsWith('Distance ('));
+  const timeIndex = headers.indexOf('Time');
 
   // Validate data rows
   for (let i = 1; i < data.length; i++) {
     const row = data[i];
-    if (row.length < 5) {
+    if (row.length < headers.length) {
       errors.push(`Row ${i + 1}: Insufficient data`);
       continue;
     }
 
     // Validate date
-    if (!row[0] || isNaN(new Date(row[0]).getTime())) {
+    if (!row[dateIndex] || isNaN(new Date(row[dateIndex]).getTime())) {
       errors.push(`Row ${i + 1}: Invalid date`);
     }
 
     // Validate exercise name
-    if (!row[1] || row[1].trim().length === 0) {
+    if (!row[exerciseIndex] || row[exerciseIndex].trim().length === 0) {
       errors.push(`Row ${i + 1}: Missing exercise name`);
     }
 
+    // Cardio rows carry distance/time instead of sets
+    const isCardioRow =
+      (distanceIndex !== -1 && !!row[distanceIndex]) || (timeIndex !== -1 && !!row[timeIndex]);
+    if (isCardioRow && !row[repsIndex]) continue;
+
     // Validate numbers
-    if (isNaN(parseInt(row[2])) || parseInt(row[2]) <= 0) {
+    if (setsIndex !== -1 && (isNaN(parseInt(row[setsIndex])) || parseInt(row[setsIndex]) <= 0)) {
       errors.push(`Row ${i + 1}: Invalid sets value`);
     }
-    if (isNaN(parseInt(row[3])) || parseInt(row[3]) <= 0) {
+    if (isNaN(parseInt(row[repsIndex])) || parseInt(row[repsIndex]) <= 0) {
       errors.push(`Row ${i + 1}: Invalid reps value`);
     }
-    if (isNaN(parseFloat(row[4])) || parseFloat(row[4]) < 0) {
+    if (isNaN(parseFloat(row[weightIndex])) || parseFloat(row[weightIndex]) < 0) {
       errors.push(`Row ${i + 1}: Invalid weight value`);
     }
   }
@@ -279,6 +366,11 @@ export function validateMealCSV(data: string[][]): { valid: boolean; errors: str
     }
   }
 
+  // Nutrient columns are optional; older exports don't have them
+  const nutrientColumns = ['Protein (g)', 'Carbs (g)', 'Fat (g)', ...MEAL_MICRONUTRIENT_COLUMNS.map((c) => c.header)]
+    .map((header) => ({ header, index: headers.indexOf(header) }))
+    .filter((column) => column.index !== -1);
+
   // Validate data rows
   for (let i = 1; i < data.length; i++) {
     const row = data[i];
@@ -296,6 +388,14 @@ export function validateMealCSV(data: string[][]): { valid: boolean; errors: str
     if (isNaN(parseInt(row[4])) || parseInt(row[4]) <= 0) {
       errors.push(`Row ${i + 1}: Invalid calories value`);
     }
+
+    // Blank nutrient cells are fine; anything else must be a non-negative number
+    for (const { header, index } of nutrientColumns) {
+      const cell = row[index]?.trim();
+      if (cell && !(parseFloat(cell) >= 0)) {
+        errors.push(`Row ${i + 1}: Invalid ${header} value`);
+      }
+    }
   }
 
   return { valid: errors.length === 0, errors };
@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import { WeightLog, Workout } from '@/lib/types/firestore';
+import { convertWeightLogsToCSV, convertWorkoutsToCSV } from '@/lib/utils/export';
+import { parseCSV } from '@/lib/utils/csv';
+import {
+  autoMapColumns,
+  columnMapper,
+  detectImportUnits,
+  parseImportDate,
+  previewCSVFile,
+  previewCSVImport,
+} from '@/lib/utils/import';
+import { IMPORT_ADAPTERS } from '@/lib/utils/importAdapters';
+
+const created = new Date('2025-03-01T00:00:00Z');
+
+const workouts: Workout[] = Array.from({ length: 8000 }, (_, i) => ({
+  id: `w${i}`,
+  title: i % 2 ? 'Push, "A"' : 'Pull',
+  exercises: [
+    {
+      exercise: 'Bench Press',
+      sets: [
+        { reps: 5, weight: 100, rpe: 8, type: 'working' },
+        { reps: 5, weight: 102.5, type: 'working' },
+        { reps: 12, weight: 60, type: 'drop' },
+      ],
+    },
+    { exercise: 'Row', sets: [{ reps: 10, weight: 70, type: 'warmup' }] },
+  ],
+  duration: 60,
+  notes: `Session ${i}\nfelt good`,
+  date: new Date(2024, 0, 1 + i, 18, 30),
+  createdAt: created,
+  updatedAt: created,
+}));
+
+const weightLogs: WeightLog[] = [
+  {
+    id: 'l1',
+    weight: 82.4,
+    notes: 'Morning, fasted',
+    date: new Date(2025, 2, 1, 7),
+    createdAt: created,
+    updatedAt: created,
+  },
+  { id: 'l2', weight: 81.9, date: new Date(2025, 2, 8, 7), createdAt: created, updatedAt: created },
+];
+
+const units = { weight: 'metric', distance: 'metric' } as const;
+
+describe('previewCSVFile', () => {
+  it('imports a workout export back, across read slices', async () => {
+    const csv = convertWorkoutsToCSV(workouts, 'metric');
+    const headers = parseCSV(csv.slice(0, csv.indexOf('\r\n')))[0];
+    const file = new Blob([csv]);
+    expect(file.size).toBeGreaterThan(1024 * 1024);
+
+    const preview = await previewCSVFile(file, 'workouts', columnMapper(autoMapColumns('workouts', headers)), units);
+
+    expect(preview.errors).toEqual([]);
+    expect(preview.rowCount).toBe(workouts.length * 4);
+    expect(preview.records).toEqual(
+      workouts.map((w) => ({
+        title: w.title,
+        exercises: w.exercises,
+        duration: w.duration,
+        notes: w.notes,
+        date: w.date,
+      }))
+    );
+  });
+
+  it('matches the in-memory dry run, including line numbers of bad rows', async () => {
+    const csv = convertWorkoutsToCSV(workouts.slice(0, 3), 'metric').replace(',12,60,', ',twelve,60,');
+    const data = parseCSV(csv);
+    const mapping = autoMapColumns('workouts', data[0]);
+
+    const streamed = await previewCSVFile(new Blob([csv]), 'workouts', columnMapper(mapping), units);
+    const inMemory = previewCSVImport('workouts', data, mapping, units);
+
+    expect(streamed.errors).toEqual([{ row: 4, message: 'Invalid reps value' }]);
+    expect(streamed).toEqual({ ...inMemory, unmapped: [] });
+  });
+
+  it('converts weight logs from the units in the header', async () => {
+    const csv = convertWeightLogsToCSV(weightLogs, 'imperial');
+    const headers = parseCSV(csv)[0];
+    const mapping = autoMapColumns('weightLogs', headers);
+    const detected = detectImportUnits('weightLogs', headers, mapping, 'metric');
+    expect(detected.units.weight).toBe('imperial');
+
+    const preview = await previewCSVFile(new Blob([csv]), 'weightLogs', columnMapper(mapping), detected.units);
+
+    expect(preview.records.map((log) => log.weight)).toEqual([82.4, 81.9]);
+    expect(preview.records[0].notes).toBe('Morning, fasted');
+  });
+
+  it('keeps adapter state and reports unmapped rows', async () => {
+    const csv = [
+      'Date,Workout Name,Duration,Exercise Name,Set Order,Weight,Reps,Distance,Seconds,Notes,Workout Notes,RPE',
+      '2025-01-01 10:00:00,A,1h,Bench Press (Barbell),W,40,10,,,,,',
+      '2025-01-01 10:00:00,A,1h,Bench Press (Barbell),1,60,5,,,,,',
+      '2025-01-01 10:00:00,A,1h,Bench Press (Barbell),Rest Timer,,,,90,,,',
+    ].join('\n');
+    const strong = IMPORT_ADAPTERS.find((adapter) => adapter.id === 'strong')!;
+    const headers = parseCSV(csv)[0];
+
+    const preview = await previewCSVFile(new Blob([csv]), 'workouts', strong.createReader(headers, units), units);
+
+    expect(preview.records).toHaveLength(1);
+    expect(preview.records[0].exercises[0].sets.map((set) => set.type)).toEqual(['warmup', 'working']);
+    expect(preview.unmapped.map((row) => row.row)).toEqual([4]);
+  });
+});
+
+describe('parseImportDate', () => {
+  it('runs under a non-US locale', () => {
+    expect(new Date(2025, 2, 13).toLocaleDateString()).toBe('13.3.2025');
+  });
+
+  it('reads exported timestamps as the instant they name', () => {
+    const date = new Date(2025, 2, 13, 18, 30, 15, 250);
+    expect(parseImportDate(date.toISOString())).toEqual(date);
+    expect(parseImportDate('2025-03-13T18:30:00+01:00')).toEqual(new Date(Date.UTC(2025, 2, 13, 17, 30)));
+    expect(parseImportDate('2025-03-13 18:30-0530')).toEqual(new Date(Date.UTC(2025, 2, 14, 0, 0)));
+  });
+
+  it('reads dates without a zone as local time', () => {
+    expect(parseImportDate('2025-03-01')).toEqual(new Date(2025, 2, 1));
+    expect(parseImportDate('2025-03-01 18:30')).toEqual(new Date(2025, 2, 1, 18, 30));
+  });
+
+  it('rejects what is not a date', () => {
+    expect(parseImportDate('')).toBeNull();
+    expect(parseImportDate('soon')).toBeNull();
+  });
+});
@@ -0,0 +1,658 @@
+import { Workout, WorkoutExercise, WorkoutSet, SetType, CardioData, Meal, WeightLog } from '@/lib/types/firestore';
+import { normalizeExerciseName } from '@/lib/data/exercises';
+import { UnitSystem, weightToKg, distanceToKm, elevationToM } from '@/lib/utils/units';
+import { parseDuration } from '@/lib/utils/cardio';
+import { parseMealItems } from '@/lib/utils/mealItems';
+import { CSVStreamOptions, streamCSVFile } from '@/lib/utils/csv';
+import type { ExportData } from '@/lib/utils/export';
+
+/**
+ * Data Import
+ * Turns parsed CSV rows or a JSON backup into records ready to be written:
+ * column mapping, unit detection, row-level validation and duplicate keys.
+ */
+
+export type ImportKind = 'workouts' | 'meals' | 'weightLogs';
+
+export type WorkoutDraft = Omit<Workout, 'id' | 'createdAt' | 'updatedAt'>;
+export type MealDraft = Omit<Meal, 'id' | 'createdAt' | 'updatedAt'>;
+export type WeightLogDraft = Omit<WeightLog, 'id' | 'createdAt' | 'updatedAt'>;
+
+/** Records to import, by collection */
+export interface ImportDrafts {
+  workouts: WorkoutDraft[];
+  meals: MealDraft[];
+  weightLogs: WeightLogDraft[];
+}
+
+export type ImportDraft<K extends ImportKind = ImportKind> = ImportDrafts[K][number];
+
+export const IMPORT_KIND_LABELS: Record<ImportKind, string> = {
+  workouts: 'Workouts',
+  meals: 'Meals',
+  weightLogs: 'Weight logs',
+};
+
+export interface ImportField {
+  key: string;
+  label: string;
+  required?: boolean;
+  aliases: string[]; // normalized header names that map to this field
+}
+
+/** Fields each import accepts; aliases cover GYMI's own exports */
+export const IMPORT_FIELDS: Record<ImportKind, ImportField[]> = {
+  workouts: [
+    { key: 'date', label: 'Date', required: true, aliases: ['date', 'workout date'] },
+    { key: 'title', label: 'Workout name', aliases: ['workout', 'workout name', 'title'] },
+    { key: 'exercise', label: 'Exercise', required: true, aliases: ['exercise', 'exercise name'] },
+    { key: 'set', label: 'Set number', aliases: ['set', 'set number', 'set order'] },
+    { key: 'setType', label: 'Set type', aliases: ['set type'] },
+    { key: 'sets', label: 'Sets (one row per exercise)', aliases: ['sets'] },
+    { key: 'reps', label: 'Reps', aliases: ['reps'] },
+    { key: 'weight', label: 'Weight', aliases: ['weight'] },
+    { key: 'rpe', label: 'RPE', aliases: ['rpe'] },
+    { key: 'distance', label: 'Distance', aliases: ['distance'] },
+    { key: 'time', label: 'Time', aliases: ['time'] },
+    { key: 'avgHeartRate', label: 'Avg heart rate', aliases: ['avg hr', 'average heart rate', 'heart rate'] },
+    { key: 'elevation', label: 'Elevation gain', aliases: ['elevation', 'elevation gain'] },
+    { key: 'calories', label: 'Calories burned', aliases: ['calories burned'] },
+    { key: 'duration', label: 'Duration (min)', aliases: ['duration'] },
+    { key: 'notes', label: 'Notes', aliases: ['notes'] },
+  ],
+  meals: [
+    { key: 'date', label: 'Date', required: true, aliases: ['date'] },
+    { key: 'mealName', label: 'Meal name', required: true, aliases: ['meal name', 'name'] },
+    { key: 'mealType', label: 'Meal type', aliases: ['type', 'meal type', 'meal'] },
+    { key: 'items', label: 'Items', aliases: ['items', 'foods'] },
+    { key: 'calories', label: 'Calories', required: true, aliases: ['calories', 'energy'] },
+    { key: 'protein', label: 'Protein (g)', aliases: ['protein'] },
+    { key: 'carbs', label: 'Carbs (g)', aliases: ['carbs', 'carbohydrates'] },
+    { key: 'fat', label: 'Fat (g)', aliases: ['fat'] },
+    { key: 'saturatedFat', label: 'Saturated fat (g)', aliases: ['saturated fat'] },
+    { key: 'fiber', label: 'Fiber (g)', aliases: ['fiber', 'fibre'] },
+    { key: 'sugar', label: 'Sugar (g)', aliases: ['sugar'] },
+    { key: 'sodium', label: 'Sodium (mg)', aliases: ['sodium'] },
+    { key: 'notes', label: 'Notes', aliases: ['notes'] },
+  ],
+  weightLogs: [
+    { key: 'date', label: 'Date', required: true, aliases: ['date'] },
+    { key: 'weight', label: 'Weight', required: true, aliases: ['weight', 'body weight', 'bodyweight'] },
+    { key: 'notes', label: 'Notes', aliases: ['notes'] },
+  ],
+};
+
+/** Field key → column index; -1 leaves the field out */
+export type ColumnMapping = Record<string, number>;
+
+/** Units of the weight and distance columns (elevation follows distance) */
+export interface ImportUnits {
+  weight: UnitSystem;
+  distance: UnitSystem;
+}
+
+/** A row that could not be imported; `row` is the 1-based line in the file */
+export interface ImportRowError {
+  row: number;
+  message: string;
+}
+
+export interface ImportPreview<K extends ImportKind = ImportKind> {
+  kind: K;
+  records: ImportDraft<K>[];
+  errors: ImportRowError[];
+  rowCount: number; // data rows read (blank rows excluded)
+  unmapped?: ImportRowError[]; // rows a format adapter recognized but has no GYMI equivalent for
+  unresolvedExercises?: { name: string; suggestion?: string }[];
+}
+
+/** A data row as field values (keys from IMPORT_FIELDS), with its 1-based line in the file */
+export interface ImportRow {
+  line: number;
+  values: Record<string, string>;
+}
+
+// "Weight (lbs)" → "weight", "Set_Type" → "set type"
+export const normalizeHeader = (header: string) =>
+  header
+    .toLowerCase()
+    .replace(/\(.*?\)/g, '')
+    .replace(/[_\s]+/g, ' ')
+    .trim();
+
+/**
+ * Guess which collection a CSV holds from its header row
+ */
+export function detectImportKind(headers: string[]): ImportKind | null {
+  const names = headers.map(normalizeHeader);
+  if (names.includes('exercise') || names.includes('exercise name')) return 'workouts';
+  if (names.includes('calories') || names.includes('meal name')) return 'meals';
+  if (names.some((name) => name === 'weight' || name === 'body weight')) return 'weightLogs';
+  return null;
+}
+
+/**
+ * Map each field to the first header matching one of its aliases
+ */
+export function autoMapColumns(kind: ImportKind, headers: string[]): ColumnMapping {
+  const names = headers.map(normalizeHeader);
+  return Object.fromEntries(
+    IMPORT_FIELDS[kind].map((field) => [field.key, names.findIndex((name) => field.aliases.includes(name))])
+  );
+}
+
+/**
+ * Read the unit a column is in from its header, e.g. "Weight (lbs)".
+ * Returns null when the header doesn't say.
+ */
+export function detectUnitFromHeader(header: string | undefined, quantity: 'weight' | 'distance'): UnitSystem | null {
+  if (!header) return null;
+  const text = header.toLowerCase();
+  if (quantity === 'weight') {
+    if (/\b(lbs?|pounds?)\b/.test(text)) return 'imperial';
+    if (/\b(kgs?|kilo(gram)?s?)\b/.test(text)) return 'metric';
+  } else {
+    if (/\b(mi|miles?)\b/.test(text)) return 'imperial';
+    if (/\b(km|kilomet(er|re)s?)\b/.test(text)) return 'metric';
+  }
+  return null;
+}
+
+/**
+ * Units of the mapped columns, falling back to `fallback` (the user's unit
+ * system) for headers that don't name one
+ */
+export function detectImportUnits(
+  kind: ImportKind,
+  headers: string[],
+  mapping: ColumnMapping,
+  fallback: UnitSystem
+): { units: ImportUnits; detected: { weight: boolean; distance: boolean } } {
+  const weight = mapping.weight >= 0 ? detectUnitFromHeader(headers[mapping.weight], 'weight') : null;
+  const distance =
+    kind === 'workouts' && mapping.distance >= 0 ? detectUnitFromHeader(headers[mapping.distance], 'distance') : null;
+  return {
+    units: { weight: weight || fallback, distance: distance || fallback },
+    detected: { weight: !!weight, distance: !!distance },
+  };
+}
+
+/**
+ * Parse a date cell: ISO dates ("2025-03-01", "2025-03-01 18:30") are read as
+ * local time unless they carry a zone ("2025-03-01T18:30:00.000Z", as GYMI
+ * exports them, or "+01:00"); anything else goes through the Date constructor
+ */
+export function parseImportDate(value: string): Date | null {
+  const text = value.trim();
+  if (!text) return null;
+
+  const iso = text.match(
+    /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2})(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/i
+  );
+  if (iso) {
+    const [, year, month, day, hour = '0', minute = '0', second = '0', fraction, zone] = iso;
+    const ms = Math.round(Number(fraction || 0) * 1000);
+    const fields = [+year, +month - 1, +day, +hour, +minute, +second, ms] as const;
+    let date: Date;
+    if (zone) {
+      const sign = zone.startsWith('-') ? -1 : 1;
+      const offset = /z/i.test(zone) ? 0 : sign * (Number(zone.slice(1, 3)) * 60 + Number(zone.slice(-2)));
+      date = new Date(Date.UTC(...fields) - offset * 60000);
+    } else {
+      date = new Date(...fields);
+    }
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  const date = new Date(text);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// Blank → undefined, otherwise a number (NaN when malformed)
+const parseNumberCell = (value: string): number | undefined => {
+  const text = value.trim();
+  return text ? Number(text) : undefined;
+};
+
+const SET_TYPE_ALIASES: Record<string, SetType> = {
+  working: 'working',
+  normal: 'working',
+  warmup: 'warmup',
+  'warm-up': 'warmup',
+  'warm up': 'warmup',
+  w: 'warmup',
+  drop: 'drop',
+  dropset: 'drop',
+  'drop set': 'drop',
+  d: 'drop',
+  failure: 'failure',
+  f: 'failure',
+};
+
+const MEAL_TYPES: Meal['mealType'][] = ['breakfast', 'lunch', 'dinner', 'snack', 'other'];
+
+type RowReader = (key: string) => string;
+
+const rowReader =
+  (row: ImportRow): RowReader =>
+  (key) =>
+    (row.values[key] ?? '').trim();
+
+/** One CSV row as a set (or cardio entry) of a session, or why it can't be read */
+function readWorkoutRow(
+  cell: RowReader,
+  units: ImportUnits
+): { errors: string[]; date?: Date; exercise?: string; sets?: WorkoutSet[]; cardio?: CardioData; setNumber?: number } {
+  const errors: string[] = [];
+  const date = parseImportDate(cell('date'));
+  if (!date) errors.push('Invalid date');
+  const exercise = cell('exercise');
+  if (!exercise) errors.push('Missing exercise name');
+
+  // Cardio columns
+  const distance = parseNumberCell(cell('distance'));
+  const time = cell('time') ? parseDuration(cell('time')) : undefined;
+  const avgHeartRate = parseNumberCell(cell('avgHeartRate'));
+  const elevation = parseNumberCell(cell('elevation'));
+  const burned = parseNumberCell(cell('calories'));
+  if (distance !== undefined && !(distance >= 0)) errors.push('Invalid distance');
+  if (time === null) errors.push('Invalid time');
+  if (avgHeartRate !== undefined && !(avgHeartRate > 0)) errors.push('Invalid heart rate');
+  if (elevation !== undefined && isNaN(elevation)) errors.push('Invalid elevation');
+  if (burned !== undefined && !(burned >= 0)) errors.push('Invalid calories burned');
+
+  const cardio: CardioData | undefined =
+    distance || time || avgHeartRate || elevation || burned
+      ? {
+          distance: distance ? distanceToKm(distance, units.distance) : undefined,
+          duration: time || undefined,
+          avgHeartRate: avgHeartRate || undefined,
+          elevationGain: elevation ? elevationToM(elevation, units.distance) : undefined,
+          calories: burned || undefined,
+        }
+      : undefined;
+
+  // Strength columns
+  const reps = parseNumberCell(cell('reps'));
+  const weight = parseNumberCell(cell('weight'));
+  const rpe = parseNumberCell(cell('rpe'));
+  const setCount = parseNumberCell(cell('sets'));
+  const setNumber = parseNumberCell(cell('set'));
+  const typeCell = cell('setType').toLowerCase();
+  const type = typeCell ? SET_TYPE_ALIASES[typeCell] : 'working';
+
+  let sets: WorkoutSet[] = [];
+  if (reps !== undefined) {
+    if (!(reps > 0) || !Number.isInteger(reps)) errors.push('Invalid reps value');
+    if (weight !== undefined && !(weight >= 0)) errors.push('Invalid weight value');
+    if (rpe !== undefined && !(rpe >= 1 && rpe <= 10)) errors.push('RPE must be between 1 and 10');
+    if (setCount !== undefined && !(setCount > 0 && Number.isInteger(setCount))) errors.push('Invalid sets value');
+    if (!type) errors.push(`Unknown set type "${cell('setType')}"`);
+
+    const set: WorkoutSet = {
+      reps: reps || 0,
+      weight: weight ? Math.round(weightToKg(weight, units.weight) * 100) / 100 : 0,
+      rpe: rpe || undefined,
+      type: type || 'working',
+    };
+    sets = Array.from({ length: setCount || 1 }, () => ({ ...set }));
+  } else if (!cardio) {
+    errors.push('No reps or cardio data');
+  }
+
+  return errors.length > 0
+    ? { errors }
+    : { errors, date: date!, exercise, sets, cardio, setNumber: setNumber || undefined };
+}
+
+/** Converts rows one at a time, so a file can be fed through in chunks */
+interface RecordBuilder<T> {
+  add: (row: ImportRow, errors: ImportRowError[]) => void;
+  records: () => T[];
+}
+
+function workoutBuilder(units: ImportUnits): RecordBuilder<WorkoutDraft> {
+  const sessions = new Map<string, WorkoutDraft>();
+
+  const add = (row: ImportRow, errors: ImportRowError[]) => {
+    const cell = rowReader(row);
+    const parsed = readWorkoutRow(cell, units);
+    if (parsed.errors.length > 0) {
+      for (const message of parsed.errors) errors.push({ row: row.line, message });
+      return;
+    }
+
+    // Rows with the same date and workout name belong to one session
+    const title = cell('title');
+    const key = `${parsed.date!.getTime()}|${title}`;
+    let session = sessions.get(key);
+    if (!session) {
+      const duration = parseNumberCell(cell('duration'));
+      session = {
+        title: title || undefined,
+        exercises: [],
+        duration: duration && duration > 0 ? duration : undefined,
+        notes: cell('notes') || undefined,
+        date: parsed.date!,
+      };
+      sessions.set(key, session);
+    }
+
+    // Consecutive rows for an exercise are its sets; set 1 starts a new entry
+    const last: WorkoutExercise | undefined = session.exercises[session.exercises.length - 1];
+    if (!last || last.exercise !== parsed.exercise || (parsed.setNumber === 1 && last.sets.length > 0)) {
+      session.exercises.push({ exercise: parsed.exercise!, sets: parsed.sets!, cardio: parsed.cardio });
+    } else {
+      last.sets.push(...parsed.sets!);
+      if (parsed.cardio && !last.cardio) last.cardio = parsed.cardio;
+    }
+  };
+
+  return { add, records: () => [...sessions.values()] };
+}
+
+function mealBuilder(): RecordBuilder<MealDraft> {
+  const records: MealDraft[] = [];
+  const optional = ['protein', 'carbs', 'fat', 'saturatedFat', 'fiber', 'sugar', 'sodium'] as const;
+
+  const add = (row: ImportRow, errors: ImportRowError[]) => {
+    const cell = rowReader(row);
+    const rowErrors: string[] = [];
+
+    const date = parseImportDate(cell('date'));
+    if (!date) rowErrors.push('Invalid date');
+    const mealName = cell('mealName');
+    if (!mealName) rowErrors.push('Missing meal name');
+    const calories = parseNumberCell(cell('calories'));
+    if (calories === undefined || !(calories >= 0)) rowErrors.push('Invalid calories value');
+
+    const nutrients: Partial<Record<(typeof optional)[number], number>> = {};
+    for (const key of optional) {
+      const value = parseNumberCell(cell(key));
+      if (value === undefined) continue;
+      if (value >= 0) nutrients[key] = value;
+      else rowErrors.push(`Invalid ${key} value`);
+    }
+
+    const typeCell = cell('mealType').toLowerCase() as Meal['mealType'];
+    if (rowErrors.length > 0) {
+      for (const message of rowErrors) errors.push({ row: row.line, message });
+      return;
+    }
+
+    records.push({
+      mealName,
+      mealType: MEAL_TYPES.includes(typeCell) ? typeCell : 'other',
+      items: parseMealItems(cell('items')),
+      calories: Math.round(calories!),
+      ...nutrients,
+      notes: cell('notes') || undefined,
+      date: date!,
+    });
+  };
+
+  return { add, records: () => records };
+}
+
+function weightLogBuilder(units: ImportUnits): RecordBuilder<WeightLogDraft> {
+  const records: WeightLogDraft[] = [];
+
+  const add = (row: ImportRow, errors: ImportRowError[]) => {
+    const cell = rowReader(row);
+    const rowErrors: string[] = [];
+
+    const date = parseImportDate(cell('date'));
+    if (!date) rowErrors.push('Invalid date');
+    const weight = parseNumberCell(cell('weight'));
+    if (weight === undefined || !(weight > 0)) rowErrors.push('Invalid weight value');
+
+    if (rowErrors.length > 0) {
+      for (const message of rowErrors) errors.push({ row: row.line, message });
+      return;
+    }
+
+    records.push({
+      weight: Math.round(weightToKg(weight!, units.weight) * 100) / 100,
+      notes: cell('notes') || undefined,
+      date: date!,
+    });
+  };
+
+  return { add, records: () => records };
+}
+
+/** A dry run fed in chunks of rows; `finish` returns the preview so far */
+export interface ImportPreviewBuilder<K extends ImportKind = ImportKind> {
+  add: (rows: ImportRow[]) => void;
+  finish: () => ImportPreview<K>;
+}
+
+/**
+ * Dry run over rows already keyed by field, a chunk at a time: converts every
+ * row with the given units, collecting row-level errors instead of stopping
+ * at the first. Workout rows of one session may span chunks.
+ */
+export function createImportPreview<K extends ImportKind>(kind: K, units: ImportUnits): ImportPreviewBuilder<K> {
+  const builder: RecordBuilder<ImportDraft> =
+    kind === 'workouts' ? workoutBuilder(units) : kind === 'meals' ? mealBuilder() : weightLogBuilder(units);
+  const errors: ImportRowError[] = [];
+  let rowCount = 0;
+
+  return {
+    add(rows) {
+      rowCount += rows.length;
+      for (const row of rows) builder.add(row, errors);
+    },
+    finish: () => ({ kind, records: builder.records() as ImportDraft<K>[], errors, rowCount }),
+  };
+}
+
+/**
+ * Dry run over rows already keyed by field, all at once
+ */
+export function previewImportRows<K extends ImportKind>(kind: K, rows: ImportRow[], units: ImportUnits): ImportPreview<K> {
+  const preview = createImportPreview(kind, units);
+  preview.add(rows);
+  return preview.finish();
+}
+
+/** Keys a chunk of CSV data rows (no header) by field; `firstLine` is the 1-based line of the first */
+export type DataRowMapper = (
+  dataRows: string[][],
+  firstLine: number
+) => { rows: ImportRow[]; unmapped: ImportRowError[] };
+
+/**
+ * Row mapper for a column mapping. Blank rows are skipped but the rest keep
+ * their line numbers.
+ */
+export function columnMapper(mapping: ColumnMapping): DataRowMapper {
+  const mapped = Object.entries(mapping).filter(([, index]) => index >= 0);
+  return (dataRows, firstLine) => ({
+    rows: dataRows.flatMap((cells, i) =>
+      cells.some((c) => c.trim())
+        ? [{ line: firstLine + i, values: Object.fromEntries(mapped.map(([key, index]) => [key, cells[index] ?? ''])) }]
+        : []
+    ),
+    unmapped: [],
+  });
+}
+
+/**
+ * Key CSV data rows by field with a column mapping. `data[0]` is the header row.
+ */
+export function mapCSVRows(data: string[][], mapping: ColumnMapping): ImportRow[] {
+  return columnMapper(mapping)(data.slice(1), 2).rows;
+}
+
+/** Errors for required fields the mapping leaves out, reported against the header row */
+export function missingColumnErrors(kind: ImportKind, mapping: ColumnMapping): ImportRowError[] {
+  return IMPORT_FIELDS[kind]
+    .filter((field) => field.required && !(mapping[field.key] >= 0))
+    .map((field) => ({ row: 1, message: `Missing required column: ${field.label}` }));
+}
+
+/**
+ * Dry run of a CSV import with the chosen column mapping and units
+ */
+export function previewCSVImport<K extends ImportKind>(
+  kind: K,
+  data: string[][],
+  mapping: ColumnMapping,
+  units: ImportUnits
+): ImportPreview<K> {
+  const missing = missingColumnErrors(kind, mapping);
+  if (missing.length > 0) return { kind, records: [], errors: missing, rowCount: 0 };
+  return previewImportRows(kind, mapCSVRows(data, mapping), units);
+}
+
+/**
+ * Dry run straight from a CSV file. Rows are mapped, validated and converted
+ * chunk by chunk as the file is read, so only the resulting records are held
+ * in memory, never the whole file or its rows. `unmapped` collects the rows
+ * `mapRows` recognized but could not import.
+ */
+export async function previewCSVFile<K extends ImportKind>(
+  file: Blob,
+  kind: K,
+  mapRows: DataRowMapper,
+  units: ImportUnits,
+  options: CSVStreamOptions = {}
+): Promise<ImportPreview<K> & { unmapped: ImportRowError[] }> {
+  const preview = createImportPreview(kind, units);
+  const unmapped: ImportRowError[] = [];
+  let linesRead = 0;
+
+  try {
+    await streamCSVFile(
+      file,
+      (rows) => {
+        // The first row of the file is the header
+        const dataRows = linesRead === 0 ? rows.slice(1) : rows;
+        const mapped = mapRows(dataRows, linesRead === 0 ? 2 : linesRead + 1);
+        linesRead += rows.length;
+        preview.add(mapped.rows);
+        for (const row of mapped.unmapped) unmapped.push(row);
+      },
+      options
+    );
+  } catch {
+    throw new Error('Failed to read file');
+  }
+
+  return { ...preview.finish(), unmapped };
+}
+
+// JSON dates arrive as ISO strings
+const reviveDate = (value: unknown): Date | null => {
+  if (value instanceof Date) return value;
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * Dry run of a JSON backup: one preview per collection it contains.
+ * Error rows are 1-based positions in the backup's lists.
+ */
+export function previewBackupImport(data: ExportData): { [K in ImportKind]: ImportPreview<K> } {
+  const preview = <K extends ImportKind>(
+    kind: K,
+    entries: unknown[] | undefined,
+    convert: (entry: Record<string, unknown>, date: Date) => ImportDraft<K> | string
+  ): ImportPreview<K> => {
+    const records: ImportDraft<K>[] = [];
+    const errors: ImportRowError[] = [];
+    (entries || []).forEach((raw, index) => {
+      const entry = (raw || {}) as Record<string, unknown>;
+      const date = reviveDate(entry.date);
+      const result = date ? convert(entry, date) : 'Invalid date';
+      if (typeof result === 'string') errors.push({ row: index + 1, message: result });
+      else records.push(result);
+    });
+    return { kind, records, errors, rowCount: entries?.length || 0 };
+  };
+
+  return {
+    workouts: preview('workouts', data.workouts, (entry, date) => {
+      const exercises = Array.isArray(entry.exercises) ? (entry.exercises as WorkoutExercise[]) : [];
+      if (exercises.length === 0) return 'No exercises';
+      return {
+        title: typeof entry.title === 'string' ? entry.title : undefined,
+        exercises: exercises.map((e) => ({
+          exercise: String(e.exercise || '').trim(),
+          exerciseId: e.exerciseId,
+          sets: Array.isArray(e.sets) ? e.sets : [],
+          cardio: e.cardio,
+          notes: e.notes,
+        })),
+        duration: Number(entry.duration) || undefined,
+        notes: typeof entry.notes === 'string' ? entry.notes : undefined,
+        date,
+      };
+    }),
+    meals: preview('meals', data.meals, (entry, date) => {
+      if (typeof entry.mealName !== 'string' || !entry.mealName.trim()) return 'Missing meal name';
+      const calories = Number(entry.calories);
+      if (!(calories >= 0)) return 'Invalid calories value';
+      return {
+        mealName: entry.mealName,
+        mealType: MEAL_TYPES.includes(entry.mealType as Meal['mealType'])
+          ? (entry.mealType as Meal['mealType'])
+          : 'other',
+        items: parseMealItems(entry.items),
+        calories,
+        protein: Number(entry.protein) || undefined,
+        carbs: Number(entry.carbs) || undefined,
+        fat: Number(entry.fat) || undefined,
+        saturatedFat: Number(entry.saturatedFat) || undefined,
+        fiber: Number(entry.fiber) || undefined,
+        sugar: Number(entry.sugar) || undefined,
+        sodium: Number(entry.sodium) || undefined,
+        notes: typeof entry.notes === 'string' ? entry.notes : undefined,
+        date,
+        planned: entry.planned === true ? true : undefined,
+      };
+    }),
+    weightLogs: preview('weightLogs', data.weightLogs, (entry, date) => {
+      const weight = Number(entry.weight);
+      if (!(weight > 0)) return 'Invalid weight value';
+      return { weight, notes: typeof entry.notes === 'string' ? entry.notes : undefined, date };
+    }),
+  };
+}
+
+/**
+ * Key used to spot a record that already exists: same minute plus the
+ * exercises (workouts), name and calories (meals) or weight (weigh-ins)
+ */
+export function importFingerprint(kind: ImportKind, record: ImportDraft): string {
+  const minute = Math.floor(new Date(record.date).getTime() / 60000);
+  switch (kind) {
+    case 'workouts': {
+      const names = (record as WorkoutDraft).exercises.map((e) => normalizeExerciseName(e.exercise)).sort();
+      return `${minute}|${names.join(',')}`;
+    }
+    case 'meals': {
+      const meal = record as MealDraft;
+      return `${minute}|${meal.mealName.trim().toLowerCase()}|${Math.round(meal.calories)}`;
+    }
+    case 'weightLogs':
+      return `${minute}|${(record as WeightLogDraft).weight.toFixed(1)}`;
+  }
+}
+
+/**
+ * Indexes of records matching an existing fingerprint or an earlier record
+ * in the same file
+ */
+export function findDuplicateRecords(kind: ImportKind, records: ImportDraft[], existing: Set<string>): Set<number> {
+  const seen = new Set(existing);
+  const duplicates = new Set<number>();
+  records.forEach((record, index) => {
+    const key = importFingerprint(kind, record);
+    if (seen.has(key)) duplicates.add(index);
+    seen.add(key);
+  });
+  return duplicates;
+}
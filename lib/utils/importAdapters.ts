@@ -0,0 +1,506 @@
+import { UnitSystem, weightToKg, getWeightInUnit, distanceToKm, getDistanceInUnit } from '@/lib/utils/units';
+import { formatDuration } from '@/lib/utils/cardio';
+import { normalizeExerciseName } from '@/lib/data/exercises';
+import { resolveExercise, ResolveOptions } from '@/lib/utils/exerciseResolver';
+import {
+  ColumnMapping,
+  DataRowMapper,
+  ImportKind,
+  ImportPreview,
+  ImportUnits,
+  WorkoutDraft,
+  normalizeHeader,
+  previewImportRows,
+} from '@/lib/utils/import';
+
+/**
+ * Import Format Adapters
+ * Recognize CSV exports from other fitness apps and rewrite their rows into
+ * GYMI import fields, plus saved column-mapping profiles for anything else.
+ */
+
+export interface ImportAdapter {
+  id: 'strong' | 'hevy' | 'myfitnesspal-nutrition' | 'myfitnesspal-exercise';
+  label: string;
+  kind: ImportKind;
+  quantities: (keyof ImportUnits)[]; // unit choices the file needs
+  detect: (headers: string[]) => boolean;
+  /** Units the file itself states; the rest come from the user */
+  statedUnits?: (headers: string[]) => Partial<ImportUnits>;
+  /**
+   * Mapper from the file's data rows to rows keyed by import field, plus rows
+   * with no GYMI equivalent. It keeps state across chunks, so use a new one
+   * per file.
+   */
+  createReader: (headers: string[], units: ImportUnits) => DataRowMapper;
+}
+
+// Column lookup by normalized header ("Weight (kg)" → "weight")
+function columnsOf(headers: string[]) {
+  const names = headers.map(normalizeHeader);
+  return (...aliases: string[]) => names.findIndex((name) => aliases.includes(name));
+}
+
+const hasColumns = (headers: string[], ...names: string[]) => {
+  const normalized = headers.map(normalizeHeader);
+  return names.every((name) => normalized.includes(name));
+};
+
+// Mapper visiting non-blank data rows with their 1-based line in the file
+function eachDataRow(
+  visit: (get: (index: number) => string, line: number, out: ReturnType<DataRowMapper>) => void
+): DataRowMapper {
+  return (dataRows, firstLine) => {
+    const out: ReturnType<DataRowMapper> = { rows: [], unmapped: [] };
+    dataRows.forEach((cells, i) => {
+      if (cells.every((c) => !c.trim())) return;
+      visit((index) => (index >= 0 ? (cells[index] ?? '').trim() : ''), firstLine + i, out);
+    });
+    return out;
+  };
+}
+
+const positive = (value: string) => Number(value) > 0;
+
+/** Re-express a weight typed in `from` units in `to` units */
+function convertWeight(value: string, from: UnitSystem, to: UnitSystem): string {
+  if (!value || from === to || isNaN(Number(value))) return value;
+  return String(Math.round(getWeightInUnit(weightToKg(Number(value), from), to) * 100) / 100);
+}
+
+function convertDistance(value: string, from: UnitSystem, to: UnitSystem): string {
+  if (!value || from === to || isNaN(Number(value))) return value;
+  return String(Math.round(getDistanceInUnit(distanceToKm(Number(value), from), to) * 1000) / 1000);
+}
+
+// Per-row unit cells: "kg", "lbs", "km", "mi"
+const unitOf = (text: string): UnitSystem | null => {
+  if (/^(lbs?|pounds?|mi|miles?)$/i.test(text)) return 'imperial';
+  if (/^(kgs?|km)$/i.test(text)) return 'metric';
+  return null;
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+const toIsoMinute = (date: Date) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+
+// ============================================================
+// STRONG
+// ============================================================
+
+const STRONG_SET_TYPES: Record<string, string> = { W: 'warmup', D: 'drop', F: 'failure' };
+
+/** Strong durations look like "1h 5m", "45m" or "50s" */
+function parseStrongDuration(value: string): string {
+  if (!value) return '';
+  if (/^\d+(\.\d+)?$/.test(value)) return value;
+  const part = (unit: string) => Number(value.match(new RegExp(`(\\d+)\\s*${unit}`))?.[1] || 0);
+  const minutes = part('h') * 60 + part('m') + part('s') / 60;
+  return minutes > 0 ? String(Math.round(minutes)) : '';
+}
+
+const strongAdapter: ImportAdapter = {
+  id: 'strong',
+  label: 'Strong',
+  kind: 'workouts',
+  quantities: ['weight', 'distance'],
+  detect: (headers) => hasColumns(headers, 'workout name', 'exercise name', 'set order'),
+  createReader(headers, units) {
+    const col = columnsOf(headers);
+    const c = {
+      date: col('date'),
+      title: col('workout name'),
+      duration: col('duration'),
+      exercise: col('exercise name'),
+      order: col('set order'),
+      weight: col('weight'),
+      weightUnit: col('weight unit'),
+      reps: col('reps'),
+      distance: col('distance'),
+      distanceUnit: col('distance unit'),
+      seconds: col('seconds'),
+      rpe: col('rpe'),
+      notes: col('workout notes'),
+    };
+    // Warm-ups carry "W" instead of a number, so sets are renumbered per exercise block
+    let block = '';
+    let setInBlock = 0;
+    let numbered = false;
+
+    return eachDataRow((get, line, { rows, unmapped }) => {
+      const order = get(c.order);
+      if (/rest timer/i.test(order) || /rest timer/i.test(get(c.exercise))) {
+        unmapped.push({ row: line, message: 'Rest timer entry' });
+        return;
+      }
+      const reps = get(c.reps);
+      const seconds = get(c.seconds);
+      const distance = get(c.distance);
+      if (!positive(reps) && !positive(seconds) && !positive(distance)) {
+        unmapped.push({ row: line, message: `${get(c.exercise) || 'Set'} has no reps, distance or time` });
+        return;
+      }
+
+      const key = [get(c.date), get(c.title), get(c.exercise)].join('|');
+      if (key !== block || (order === '1' && numbered)) {
+        block = key;
+        setInBlock = 0;
+        numbered = false;
+      }
+      setInBlock++;
+      numbered ||= /^\d+$/.test(order);
+
+      // Older exports name the unit on every row
+      const weightFrom = unitOf(get(c.weightUnit)) || units.weight;
+      const distanceFrom = unitOf(get(c.distanceUnit)) || units.distance;
+      rows.push({
+        line,
+        values: {
+          date: get(c.date),
+          title: get(c.title),
+          duration: parseStrongDuration(get(c.duration)),
+          exercise: get(c.exercise),
+          set: String(setInBlock),
+          setType: STRONG_SET_TYPES[order.toUpperCase()] || '',
+          reps: positive(reps) ? reps : '',
+          weight: positive(reps) ? convertWeight(get(c.weight), weightFrom, units.weight) : '',
+          rpe: positive(get(c.rpe)) ? get(c.rpe) : '',
+          distance: positive(distance) ? convertDistance(distance, distanceFrom, units.distance) : '',
+          time: positive(seconds) ? formatDuration(Number(seconds)) : '',
+          notes: get(c.notes),
+        },
+      });
+    });
+  },
+};
+
+// ============================================================
+// HEVY
+// ============================================================
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/** Hevy writes "15 Jan 2023, 08:30"; anything else is left to the generic parser */
+function parseHevyDate(value: string): Date | null {
+  const match = value.match(/^(\d{1,2}) (\w{3})\w* (\d{4}),? (\d{1,2}):(\d{2})/);
+  const month = match ? MONTHS.indexOf(match[2].toLowerCase()) : -1;
+  if (!match || month === -1) return null;
+  return new Date(+match[3], month, +match[1], +match[4], +match[5]);
+}
+
+const hevyAdapter: ImportAdapter = {
+  id: 'hevy',
+  label: 'Hevy',
+  kind: 'workouts',
+  quantities: ['weight', 'distance'],
+  detect: (headers) => hasColumns(headers, 'exercise title', 'set index', 'start time'),
+  statedUnits: (headers) => {
+    const col = columnsOf(headers);
+    return {
+      weight: col('weight kg') >= 0 ? 'metric' : col('weight lbs') >= 0 ? 'imperial' : undefined,
+      distance: col('distance km') >= 0 ? 'metric' : col('distance miles') >= 0 ? 'imperial' : undefined,
+    };
+  },
+  createReader(headers) {
+    const col = columnsOf(headers);
+    const c = {
+      title: col('title'),
+      start: col('start time'),
+      end: col('end time'),
+      notes: col('description'),
+      exercise: col('exercise title'),
+      index: col('set index'),
+      type: col('set type'),
+      weight: col('weight kg', 'weight lbs'),
+      reps: col('reps'),
+      distance: col('distance km', 'distance miles'),
+      seconds: col('duration seconds'),
+      rpe: col('rpe'),
+    };
+
+    return eachDataRow((get, line, { rows, unmapped }) => {
+      const reps = get(c.reps);
+      const seconds = get(c.seconds);
+      const distance = get(c.distance);
+      if (!positive(reps) && !positive(seconds) && !positive(distance)) {
+        unmapped.push({ row: line, message: `${get(c.exercise) || 'Set'} has no reps, distance or time` });
+        return;
+      }
+
+      const start = parseHevyDate(get(c.start));
+      const end = parseHevyDate(get(c.end));
+      const minutes = start && end ? Math.round((end.getTime() - start.getTime()) / 60000) : 0;
+      const index = get(c.index);
+      rows.push({
+        line,
+        values: {
+          date: start ? toIsoMinute(start) : get(c.start),
+          title: get(c.title),
+          duration: minutes > 0 ? String(minutes) : '',
+          exercise: get(c.exercise),
+          set: /^\d+$/.test(index) ? String(Number(index) + 1) : '',
+          setType: get(c.type),
+          reps: positive(reps) ? reps : '',
+          weight: positive(reps) ? get(c.weight) : '',
+          rpe: positive(get(c.rpe)) ? get(c.rpe) : '',
+          distance: positive(distance) ? distance : '',
+          time: positive(seconds) ? formatDuration(Number(seconds)) : '',
+          notes: get(c.notes),
+        },
+      });
+    });
+  },
+};
+
+// ============================================================
+// MYFITNESSPAL
+// ============================================================
+
+// MyFitnessPal logs meals per day; each slot gets a typical time of day
+const MFP_MEALS: Record<string, { type: string; time: string }> = {
+  breakfast: { type: 'breakfast', time: '08:00' },
+  lunch: { type: 'lunch', time: '12:30' },
+  dinner: { type: 'dinner', time: '19:00' },
+  snacks: { type: 'snack', time: '15:30' },
+  snack: { type: 'snack', time: '15:30' },
+};
+
+const mfpNutritionAdapter: ImportAdapter = {
+  id: 'myfitnesspal-nutrition',
+  label: 'MyFitnessPal nutrition',
+  kind: 'meals',
+  quantities: [],
+  detect: (headers) => hasColumns(headers, 'date', 'meal', 'calories', 'carbohydrates'),
+  createReader(headers) {
+    const col = columnsOf(headers);
+    const c = {
+      date: col('date'),
+      meal: col('meal'),
+      calories: col('calories'),
+      fat: col('fat'),
+      saturatedFat: col('saturated fat'),
+      sodium: col('sodium'),
+      carbs: col('carbohydrates'),
+      fiber: col('fiber'),
+      sugar: col('sugar'),
+      protein: col('protein'),
+      notes: col('note', 'notes'),
+    };
+
+    return eachDataRow((get, line, { rows, unmapped }) => {
+      const meal = get(c.meal);
+      if (!positive(get(c.calories))) {
+        unmapped.push({ row: line, message: `${meal || 'Meal'} has no calories logged` });
+        return;
+      }
+      const slot = MFP_MEALS[meal.toLowerCase()] || { type: 'other', time: '12:00' };
+      const day = get(c.date);
+      rows.push({
+        line,
+        values: {
+          date: /^\d{4}-\d{2}-\d{2}$/.test(day) ? `${day} ${slot.time}` : day,
+          mealName: meal || 'Meal',
+          mealType: slot.type,
+          calories: get(c.calories),
+          protein: get(c.protein),
+          carbs: get(c.carbs),
+          fat: get(c.fat),
+          saturatedFat: get(c.saturatedFat),
+          fiber: get(c.fiber),
+          sugar: get(c.sugar),
+          sodium: get(c.sodium),
+          notes: get(c.notes),
+        },
+      });
+    });
+  },
+};
+
+const mfpExerciseAdapter: ImportAdapter = {
+  id: 'myfitnesspal-exercise',
+  label: 'MyFitnessPal exercise',
+  kind: 'workouts',
+  quantities: ['weight'],
+  detect: (headers) => hasColumns(headers, 'exercise name', 'exercise calories'),
+  statedUnits: (headers) => (columnsOf(headers)('pounds') >= 0 ? { weight: 'imperial' } : {}),
+  createReader(headers) {
+    const col = columnsOf(headers);
+    const c = {
+      date: col('date'),
+      exercise: col('exercise name'),
+      type: col('type'),
+      calories: col('exercise calories'),
+      minutes: col('exercise minutes'),
+      sets: col('sets'),
+      reps: col('reps per set'),
+      weight: col('pounds'),
+      notes: col('note', 'notes'),
+    };
+
+    return eachDataRow((get, line, { rows, unmapped }) => {
+      const strength = /strength/i.test(get(c.type)) || positive(get(c.sets));
+      const minutes = get(c.minutes);
+      if (strength ? !positive(get(c.reps)) : !positive(minutes)) {
+        const missing = strength ? 'reps' : 'minutes';
+        unmapped.push({ row: line, message: `${get(c.exercise) || 'Entry'} has no ${missing}` });
+        return;
+      }
+      // One session per day, exercises in file order
+      rows.push({
+        line,
+        values: {
+          date: get(c.date),
+          exercise: get(c.exercise),
+          sets: strength ? get(c.sets) || '1' : '',
+          reps: strength ? get(c.reps) : '',
+          weight: strength ? get(c.weight) : '',
+          time: strength ? '' : minutes,
+          calories: strength ? '' : get(c.calories),
+          notes: get(c.notes),
+        },
+      });
+    });
+  },
+};
+
+/** Known export formats, checked in order */
+export const IMPORT_ADAPTERS: ImportAdapter[] = [strongAdapter, hevyAdapter, mfpNutritionAdapter, mfpExerciseAdapter];
+
+export function detectImportAdapter(headers: string[]): ImportAdapter | null {
+  return IMPORT_ADAPTERS.find((adapter) => adapter.detect(headers)) || null;
+}
+
+/**
+ * Dry run of a recognized export: the adapter's rows go through the same
+ * conversion as GYMI's own CSVs, and rows it couldn't map are reported
+ */
+export function previewAdapterImport(adapter: ImportAdapter, data: string[][], units: ImportUnits): ImportPreview {
+  const { rows, unmapped } = adapter.createReader(data[0], units)(data.slice(1), 2);
+  return { ...previewImportRows(adapter.kind, rows, units), unmapped };
+}
+
+/**
+ * Strong and Hevy put equipment in parentheses ("Bench Press (Dumbbell)");
+ * the library puts it in front, and leaves it off barbell lifts
+ */
+function candidateNames(name: string): string[] {
+  const match = name.match(/^(.+?)\s*\(([^)]+)\)$/);
+  if (!match) return [name];
+  const [, base, equipment] = match;
+  return /^barbell$/i.test(equipment) ? [name, `${equipment} ${base}`, base] : [name, `${equipment} ${base}`];
+}
+
+/**
+ * Link imported exercise names to library exercises. Exact, alias and
+ * shorthand matches take the library name and id; names with only a fuzzy
+ * match (or none) are kept as written and reported with the closest match.
+ */
+export function resolveImportedExercises(
+  workouts: WorkoutDraft[],
+  options: ResolveOptions = {},
+): {
+  workouts: WorkoutDraft[];
+  unresolved: { name: string; suggestion?: string }[];
+} {
+  const unresolved = new Map<string, { name: string; suggestion?: string }>();
+
+  const resolved = workouts.map((workout) => ({
+    ...workout,
+    exercises: workout.exercises.map((entry) => {
+      if (entry.exerciseId) return entry;
+      const matches = candidateNames(entry.exercise).map((name) => resolveExercise(name, options));
+      const match = matches.find((m) => m && m.type !== 'fuzzy') || matches[0];
+      if (match && match.type !== 'fuzzy') {
+        return { ...entry, exercise: match.exercise.name, exerciseId: match.exercise.id };
+      }
+      const key = normalizeExerciseName(entry.exercise);
+      if (!unresolved.has(key)) unresolved.set(key, { name: entry.exercise, suggestion: match?.exercise.name });
+      return entry;
+    }),
+  }));
+
+  return { workouts: resolved, unresolved: [...unresolved.values()] };
+}
+
+// ============================================================
+// MAPPING PROFILES
+// ============================================================
+
+/** A saved column mapping for a CSV layout GYMI doesn't know (browser-local) */
+export interface MappingProfile {
+  id: string;
+  name: string;
+  kind: ImportKind;
+  columns: Record<string, string>; // field key → header name
+  units: ImportUnits;
+}
+
+const PROFILES_STORAGE_KEY = 'gymi-import-profiles';
+
+export function getMappingProfiles(): MappingProfile[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const saved = JSON.parse(localStorage.getItem(PROFILES_STORAGE_KEY) || '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Save the current mapping under `name`, replacing a profile of the same name
+ */
+export function saveMappingProfile(
+  name: string,
+  kind: ImportKind,
+  headers: string[],
+  mapping: ColumnMapping,
+  units: ImportUnits,
+): MappingProfile[] {
+  const profile: MappingProfile = {
+    id: `profile-${Date.now()}`,
+    name: name.trim(),
+    kind,
+    columns: Object.fromEntries(
+      Object.entries(mapping)
+        .filter(([, index]) => index >= 0 && headers[index])
+        .map(([key, index]) => [key, headers[index]]),
+    ),
+    units,
+  };
+  const profiles = [...getMappingProfiles().filter((p) => p.name !== profile.name), profile];
+  localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+  return profiles;
+}
+
+export function deleteMappingProfile(id: string): MappingProfile[] {
+  const profiles = getMappingProfiles().filter((p) => p.id !== id);
+  localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+  return profiles;
+}
+
+/**
+ * Column mapping for `headers` from a profile, or null when the file is
+ * missing one of the profile's columns
+ */
+export function applyMappingProfile(profile: MappingProfile, headers: string[]): ColumnMapping | null {
+  const mapping: ColumnMapping = {};
+  for (const [key, header] of Object.entries(profile.columns)) {
+    const index = headers.indexOf(header);
+    if (index === -1) return null;
+    mapping[key] = index;
+  }
+  return mapping;
+}
+
+/** First saved profile whose columns are all in `headers` */
+export function findMappingProfile(
+  headers: string[],
+  profiles: MappingProfile[] = getMappingProfiles(),
+): { profile: MappingProfile; mapping: ColumnMapping } | null {
+  for (const profile of profiles) {
+    const mapping = applyMappingProfile(profile, headers);
+    if (mapping) return { profile, mapping };
+  }
+  return null;
+}
@@ -0,0 +1,191 @@
+import { Meal, MealItem, Nutrients } from '@/lib/types/firestore';
+import { Food, calculateNutrients, getFoodById } from '@/lib/data/foods';
+
+/**
+ * Meal item helpers
+ * Normalizes stored meal items and derives nutrient totals.
+ */
+
+type RawDoc = Record<string, unknown>;
+
+const NUTRIENT_KEYS: (keyof Nutrients)[] = [
+  'calories',
+  'protein',
+  'carbs',
+  'fat',
+  'saturatedFat',
+  'fiber',
+  'sugar',
+  'sodium',
+  'potassium',
+  'calcium',
+  'iron',
+  'vitaminC',
+  'vitaminD',
+];
+
+// Nutrients beyond the macros that meals also carry as typed totals
+export const MICRONUTRIENT_FIELDS = [
+  { key: 'saturatedFat', label: 'Sat. fat', unit: 'g' },
+  { key: 'fiber', label: 'Fiber', unit: 'g' },
+  { key: 'sugar', label: 'Sugar', unit: 'g' },
+  { key: 'sodium', label: 'Sodium', unit: 'mg' },
+] as const;
+export type TypedMicronutrient = (typeof MICRONUTRIENT_FIELDS)[number]['key'];
+
+function parseNutrients(raw: unknown): Nutrients | undefined {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const data = raw as RawDoc;
+  const nutrients: Nutrients = {
+    calories: Number(data.calories) || 0,
+    protein: Number(data.protein) || 0,
+    carbs: Number(data.carbs) || 0,
+    fat: Number(data.fat) || 0,
+  };
+  for (const key of NUTRIENT_KEYS.slice(4)) {
+    const value = Number(data[key]);
+    if (data[key] !== null && data[key] !== undefined && Number.isFinite(value)) nutrients[key] = value;
+  }
+  return nutrients;
+}
+
+/**
+ * Read the items of a stored meal.
+ * Legacy free-text strings become name-only items (split on commas and
+ * new lines) without nutrients.
+ */
+export function parseMealItems(raw: unknown): MealItem[] {
+  if (typeof raw === 'string') {
+    return raw
+      .split(/[,\n]/)
+      .map((name) => name.trim())
+      .filter(Boolean)
+      .map((name) => ({ name, servingSize: 0, quantity: 1, unit: 'serving' }));
+  }
+  if (!Array.isArray(raw)) return [];
+
+  return raw
+    .map((entry) => {
+      const data = (entry || {}) as RawDoc;
+      return {
+        foodId: typeof data.foodId === 'string' && data.foodId ? data.foodId : undefined,
+        name: String(data.name || '').trim(),
+        servingSize: Number(data.servingSize) || 0,
+        quantity: Number(data.quantity) || 1,
+        unit: typeof data.unit === 'string' && data.unit ? data.unit : 'serving',
+        nutrients: parseNutrients(data.nutrients),
+        recipeId: typeof data.recipeId === 'string' && data.recipeId ? data.recipeId : undefined,
+      };
+    })
+    .filter((item) => item.name);
+}
+
+/** Strip undefined values so items can be written to Firestore */
+export function serializeMealItems(items: MealItem[]) {
+  return items.map((item) => ({
+    foodId: item.foodId || null,
+    name: item.name.trim(),
+    servingSize: Number(item.servingSize) || 0,
+    quantity: Number(item.quantity) || 1,
+    unit: item.unit || 'serving',
+    nutrients: item.nutrients
+      ? Object.fromEntries(NUTRIENT_KEYS.map((key) => [key, item.nutrients?.[key] ?? null]))
+      : null,
+    recipeId: item.recipeId || null,
+  }));
+}
+
+/** A meal item for `quantity` units of a food ('g' or one of its serving labels) */
+export function createMealItem(food: Food, quantity: number, unit = 'g'): MealItem {
+  const serving = food.servings.find((s) => s.label === unit);
+  const servingSize = serving ? serving.grams : 1;
+  return {
+    foodId: food.id,
+    name: food.name,
+    servingSize,
+    quantity,
+    unit: serving ? unit : 'g',
+    nutrients: calculateNutrients(food, servingSize * quantity),
+  };
+}
+
+/** Nutrients multiplied by a factor, rounded like the food calculations */
+export function scaleNutrients(nutrients: Nutrients, factor: number): Nutrients {
+  const scaled = { ...nutrients };
+  for (const key of NUTRIENT_KEYS) {
+    const value = scaled[key];
+    if (value !== undefined) scaled[key] = Math.round(value * factor * 10) / 10;
+  }
+  scaled.calories = Math.round(nutrients.calories * factor);
+  return scaled;
+}
+
+/**
+ * The same item with a new amount. Database foods are recalculated (any
+ * serving label); other items scale their stored nutrients.
+ */
+export function setMealItemAmount(item: MealItem, quantity: number, unit = item.unit): MealItem {
+  const food = item.foodId ? getFoodById(item.foodId) : undefined;
+  if (food) return createMealItem(food, quantity, unit);
+  if (!item.nutrients || !item.quantity) return { ...item, quantity };
+  return { ...item, quantity, nutrients: scaleNutrients(item.nutrients, quantity / item.quantity) };
+}
+
+/** Whether every item carries nutrients, so totals can be computed */
+export function hasItemNutrition(items: MealItem[]): boolean {
+  return items.length > 0 && items.every((item) => item.nutrients);
+}
+
+/** Sum nutrient amounts; optional nutrients are kept only when some input has them */
+export function sumNutrients(list: Nutrients[]): Nutrients {
+  const total: Nutrients = { calories: 0, protein: 0, carbs: 0, fat: 0 };
+  for (const nutrients of list) {
+    for (const key of NUTRIENT_KEYS) {
+      const value = nutrients[key];
+      if (value !== undefined) total[key] = (total[key] || 0) + value;
+    }
+  }
+  for (const key of NUTRIENT_KEYS) {
+    if (total[key] !== undefined) total[key] = Math.round((total[key] as number) * 10) / 10;
+  }
+  total.calories = Math.round(total.calories);
+  return total;
+}
+
+/**
+ * Nutrient totals for a meal: summed from its items when all of them
+ * have nutrients, otherwise the typed totals (legacy/free-text meals)
+ */
+export function getMealNutrition(
+  meal: Pick<Meal, 'items' | 'calories' | 'protein' | 'carbs' | 'fat'> & Partial<Pick<Meal, TypedMicronutrient>>
+): Nutrients {
+  if (hasItemNutrition(meal.items)) {
+    return sumNutrients(meal.items.map((item) => item.nutrients as Nutrients));
+  }
+  const nutrients: Nutrients = {
+    calories: meal.calories || 0,
+    protein: meal.protein || 0,
+    carbs: meal.carbs || 0,
+    fat: meal.fat || 0,
+  };
+  for (const { key } of MICRONUTRIENT_FIELDS) {
+    if (meal[key] !== undefined) nutrients[key] = meal[key];
+  }
+  return nutrients;
+}
+
+/** Amount label for an item, e.g. "150 g" or "2 slice" */
+export function formatItemAmount(item: MealItem): string {
+  if (!item.servingSize) return item.quantity === 1 ? '' : `×${item.quantity}`;
+  return `${item.quantity} ${item.unit}`;
+}
+
+/** Display text: "Chicken Breast (150 g), Rice (1 cup)"; legacy items show names only */
+export function formatMealItems(items: MealItem[]): string {
+  return items
+    .map((item) => {
+      const amount = formatItemAmount(item);
+      return amount ? `${item.name} (${amount})` : item.name;
+    })
+    .join(', ');
+}
@@ -0,0 +1,250 @@
+/**
+ * Minimal PDF writer (PDF 1.4)
+ * Enough to lay out a printable report in the browser without a library:
+ * text in the standard Helvetica fonts, lines, rectangles, polylines and
+ * dots. Coordinates are points (1/72 in) from the top-left corner of the
+ * page; text is positioned by its baseline. Text is encoded as WinAnsi
+ * (Latin-1 plus curly quotes, dashes and the like); other characters
+ * print as "?".
+ */
+
+/** Hex color such as '#18181b' */
+export type PDFColor = string;
+
+export interface PDFTextOptions {
+  size?: number; // pt, default 10
+  bold?: boolean;
+  color?: PDFColor;
+  align?: 'left' | 'center' | 'right'; // relative to x
+}
+
+export interface PDFShapeOptions {
+  fill?: PDFColor;
+  stroke?: PDFColor;
+  lineWidth?: number; // pt, default 1
+}
+
+export interface PDFDocumentOptions {
+  title?: string;
+  width?: number; // pt, default A4
+  height?: number;
+}
+
+export interface PDFDocument {
+  width: number;
+  height: number;
+  /** Start a new page and draw on it */
+  addPage: () => void;
+  /** Number of pages so far */
+  pageCount: () => number;
+  /** Draw on an earlier page (0-based), e.g. to add "page x of y" footers */
+  setPage: (index: number) => void;
+  text: (text: string, x: number, y: number, options?: PDFTextOptions) => void;
+  line: (x1: number, y1: number, x2: number, y2: number, options?: PDFShapeOptions) => void;
+  rect: (x: number, y: number, width: number, height: number, options: PDFShapeOptions) => void;
+  polyline: (points: Array<[number, number]>, options?: PDFShapeOptions) => void;
+  circle: (x: number, y: number, radius: number, options: PDFShapeOptions) => void;
+  /** Width of `text` in pt */
+  measureText: (text: string, size?: number, bold?: boolean) => number;
+  /** The finished file */
+  toBlob: () => Blob;
+}
+
+const A4 = { width: 595.28, height: 841.89 };
+const DEFAULT_FONT_SIZE = 10;
+
+// Advance widths (1/1000 em) of characters 32–126, from the standard AFM files
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667,
+  556, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556,
+  556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722,
+  500, 500, 500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722,
+  611, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556, 333, 556,
+  611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778,
+  556, 556, 500, 389, 280, 389, 584,
+];
+
+// WinAnsi codes 128–159 for characters outside Latin-1, with their widths
+const WIN_ANSI_EXTRAS: Record<string, [code: number, width: number]> = {
+  '€': [0x80, 556],
+  '‚': [0x82, 222],
+  '„': [0x84, 333],
+  '…': [0x85, 1000],
+  '‘': [0x91, 222],
+  '’': [0x92, 222],
+  '“': [0x93, 333],
+  '”': [0x94, 333],
+  '•': [0x95, 350],
+  '–': [0x96, 556],
+  '—': [0x97, 1000],
+  '™': [0x99, 1000],
+};
+
+// Look-alikes for common characters WinAnsi lacks
+const SUBSTITUTES: Record<string, string> = { '−': '-', '→': '->', '←': '<-', '≈': '~', '\t': ' ', '\n': ' ' };
+
+function charWidth(ch: string, bold: boolean): number {
+  const code = ch.charCodeAt(0);
+  if (code >= 32 && code <= 126) return (bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS)[code - 32];
+  return WIN_ANSI_EXTRAS[ch]?.[1] ?? 556;
+}
+
+/** `text` as WinAnsi characters (still a JS string, one char per byte) */
+function toWinAnsi(text: string): string {
+  let out = '';
+  for (const ch of text) {
+    const substitute = SUBSTITUTES[ch];
+    if (substitute) {
+      out += substitute;
+      continue;
+    }
+    const code = ch.codePointAt(0) ?? 63;
+    if ((code >= 32 && code <= 126) || (code >= 160 && code <= 255)) out += ch;
+    else if (WIN_ANSI_EXTRAS[ch]) out += String.fromCharCode(WIN_ANSI_EXTRAS[ch][0]);
+    else out += '?';
+  }
+  return out;
+}
+
+/** PDF literal string; bytes above 126 are octal-escaped so the file stays ASCII */
+function pdfString(text: string): string {
+  let out = '(';
+  for (const ch of text) {
+    const code = ch.charCodeAt(0);
+    if (ch === '(' || ch === ')' || ch === '\\') out += `\\${ch}`;
+    else if (code > 126) out += `\\${code.toString(8).padStart(3, '0')}`;
+    else out += ch;
+  }
+  return `${out})`;
+}
+
+const num = (n: number) => String(Math.round(n * 100) / 100);
+
+function colorOperands(color: PDFColor): string {
+  const hex = color.replace('#', '');
+  const full = hex.length === 3 ? hex.replace(/./g, (c) => c + c) : hex;
+  return [0, 2, 4].map((i) => num(parseInt(full.slice(i, i + 2), 16) / 255)).join(' ');
+}
+
+function pdfDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `D:${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}${pad(date.getHours())}${pad(
+    date.getMinutes()
+  )}${pad(date.getSeconds())}`;
+}
+
+/**
+ * Start a PDF document with one empty page
+ */
+export function createPDF(options: PDFDocumentOptions = {}): PDFDocument {
+  const width = options.width ?? A4.width;
+  const height = options.height ?? A4.height;
+  const pages: string[][] = [[]];
+  let current = 0;
+
+  const draw = (operators: string) => pages[current].push(operators);
+  const flipY = (y: number) => num(height - y);
+
+  // Path painting operator for the fill/stroke combination
+  const paint = ({ fill, stroke, lineWidth }: PDFShapeOptions, path: string) => {
+    if (!fill && !stroke) return;
+    const state = [
+      fill ? `${colorOperands(fill)} rg` : '',
+      stroke ? `${colorOperands(stroke)} RG ${num(lineWidth ?? 1)} w` : '',
+    ].filter(Boolean);
+    const operator = fill && stroke ? 'B' : fill ? 'f' : 'S';
+    draw(`q ${state.join(' ')} ${path} ${operator} Q`);
+  };
+
+  const measureText = (text: string, size = DEFAULT_FONT_SIZE, bold = false) => {
+    let units = 0;
+    for (const ch of toWinAnsi(text)) units += charWidth(ch, bold);
+    return (units * size) / 1000;
+  };
+
+  return {
+    width,
+    height,
+    addPage() {
+      pages.push([]);
+      current = pages.length - 1;
+    },
+    pageCount: () => pages.length,
+    setPage(index) {
+      if (index < 0 || index >= pages.length) throw new Error(`Page ${index + 1} does not exist`);
+      current = index;
+    },
+    text(text, x, y, { size = DEFAULT_FONT_SIZE, bold = false, color = '#000000', align = 'left' } = {}) {
+      const offset =
+        align === 'left' ? 0 : align === 'center' ? measureText(text, size, bold) / 2 : measureText(text, size, bold);
+      const font = `/${bold ? 'F2' : 'F1'} ${num(size)} Tf`;
+      const position = `${num(x - offset)} ${flipY(y)} Td`;
+      draw(`BT ${colorOperands(color)} rg ${font} ${position} ${pdfString(toWinAnsi(text))} Tj ET`);
+    },
+    line(x1, y1, x2, y2, options = {}) {
+      paint({ stroke: '#000000', ...options, fill: undefined }, `${num(x1)} ${flipY(y1)} m ${num(x2)} ${flipY(y2)} l`);
+    },
+    rect(x, y, w, h, options) {
+      paint(options, `${num(x)} ${flipY(y + h)} ${num(w)} ${num(h)} re`);
+    },
+    polyline(points, options = {}) {
+      if (points.length < 2) return;
+      const path = points.map(([x, y], i) => `${num(x)} ${flipY(y)} ${i === 0 ? 'm' : 'l'}`).join(' ');
+      paint({ stroke: '#000000', ...options, fill: undefined }, path);
+    },
+    circle(x, y, r, options) {
+      // Four Bézier quarter arcs
+      const k = r * 0.5523;
+      const cy = height - y;
+      const path = [
+        `${num(x + r)} ${num(cy)} m`,
+        `${num(x + r)} ${num(cy + k)} ${num(x + k)} ${num(cy + r)} ${num(x)} ${num(cy + r)} c`,
+        `${num(x - k)} ${num(cy + r)} ${num(x - r)} ${num(cy + k)} ${num(x - r)} ${num(cy)} c`,
+        `${num(x - r)} ${num(cy - k)} ${num(x - k)} ${num(cy - r)} ${num(x)} ${num(cy - r)} c`,
+        `${num(x + k)} ${num(cy - r)} ${num(x + r)} ${num(cy - k)} ${num(x + r)} ${num(cy)} c h`,
+      ].join(' ');
+      paint(options, path);
+    },
+    measureText,
+    toBlob() {
+      // Objects: 1 catalog, 2 page tree, 3–4 fonts, 5 info, then a page and its content per page
+      const pageIds = pages.map((_, i) => 6 + i * 2);
+      const objects: string[] = [
+        '<< /Type /Catalog /Pages 2 0 R >>',
+        `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+        '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+        '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+        `<< /Title ${pdfString(toWinAnsi(options.title || ''))} /Producer (GYMI) /CreationDate (${pdfDate(
+          new Date()
+        )}) >>`,
+      ];
+      pages.forEach((operators, i) => {
+        const content = operators.join('\n');
+        objects.push(
+          `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(width)} ${num(height)}] ` +
+            `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`,
+          `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+        );
+      });
+
+      // Everything is ASCII, so string lengths are byte offsets
+      let pdf = '%PDF-1.4\n';
+      const offsets = objects.map((body, i) => {
+        const offset = pdf.length;
+        pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+        return offset;
+      });
+      const xref = pdf.length;
+      pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+      pdf += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+      pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+      return new Blob([pdf], { type: 'application/pdf' });
+    },
+  };
+}
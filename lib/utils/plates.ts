@@ -0,0 +1,187 @@
+import { UnitSystem } from '@/lib/utils/units';
+import { resolveExercise } from '@/lib/utils/exerciseResolver';
+
+/**
+ * Plate calculator
+ * Works out per-side barbell loading from the user's bar and plate
+ * inventory. All weights here are in the display unit (kg or lbs) so
+ * entered values like 225 lbs aren't distorted by kg round-tripping.
+ */
+
+export type BarbellId = 'olympic-20kg' | 'womens-15kg' | 'standard-45lb' | 'trap-bar';
+
+export interface Barbell {
+  id: BarbellId;
+  label: string;
+  weight: Record<UnitSystem, number>;
+}
+
+export interface PlateCount {
+  weight: number; // display unit
+  pairs: number; // plates available per side
+}
+
+export interface PlateSettings {
+  barId: BarbellId;
+  plates: Record<UnitSystem, PlateCount[]>;
+}
+
+export interface PlateLoadout {
+  bar: number; // bar weight
+  perSide: number[]; // plates on each side, heaviest first
+  total: number; // bar + plates actually loaded
+  target: number;
+  difference: number; // total − target (negative when the target can't be reached)
+}
+
+export const BARBELLS: Barbell[] = [
+  { id: 'olympic-20kg', label: 'Olympic bar (20 kg)', weight: { metric: 20, imperial: 44.1 } },
+  { id: 'womens-15kg', label: "Women's bar (15 kg)", weight: { metric: 15, imperial: 33.1 } },
+  { id: 'standard-45lb', label: 'Standard bar (45 lb)', weight: { metric: 20.4, imperial: 45 } },
+  { id: 'trap-bar', label: 'Trap bar (25 kg / 55 lb)', weight: { metric: 25, imperial: 55 } },
+];
+
+export const DEFAULT_PLATE_SETTINGS: PlateSettings = {
+  barId: 'olympic-20kg',
+  plates: {
+    metric: [
+      { weight: 25, pairs: 4 },
+      { weight: 20, pairs: 2 },
+      { weight: 15, pairs: 2 },
+      { weight: 10, pairs: 2 },
+      { weight: 5, pairs: 2 },
+      { weight: 2.5, pairs: 2 },
+      { weight: 1.25, pairs: 2 },
+    ],
+    imperial: [
+      { weight: 45, pairs: 4 },
+      { weight: 35, pairs: 2 },
+      { weight: 25, pairs: 2 },
+      { weight: 10, pairs: 2 },
+      { weight: 5, pairs: 2 },
+      { weight: 2.5, pairs: 2 },
+    ],
+  },
+};
+
+const SETTINGS_STORAGE_KEY = 'gymi-plate-settings';
+
+// Loads below this difference count as exact (display unit)
+const TOLERANCE = 0.05;
+
+// Work in hundredths to keep 1.25/2.5 plate sums exact
+const toUnits = (value: number) => Math.round(value * 100);
+const fromUnits = (units: number) => units / 100;
+
+// ============================================================
+// SETTINGS
+// ============================================================
+
+/** The user's bar and plate inventory (browser-local) */
+export function getPlateSettings(): PlateSettings {
+  if (typeof window === 'undefined') return DEFAULT_PLATE_SETTINGS;
+  try {
+    const saved = JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) || '{}');
+    return {
+      barId: BARBELLS.some((b) => b.id === saved.barId) ? saved.barId : DEFAULT_PLATE_SETTINGS.barId,
+      plates: { ...DEFAULT_PLATE_SETTINGS.plates, ...saved.plates },
+    };
+  } catch {
+    return DEFAULT_PLATE_SETTINGS;
+  }
+}
+
+export function savePlateSettings(settings: PlateSettings): void {
+  if (typeof window === 'undefined') return;
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+}
+
+/** Bar weight in the display unit */
+export function getBarWeight(barId: BarbellId, unitSystem: UnitSystem): number {
+  const bar = BARBELLS.find((b) => b.id === barId) || BARBELLS[0];
+  return bar.weight[unitSystem];
+}
+
+// ============================================================
+// CALCULATION
+// ============================================================
+
+/**
+ * Every per-side plate sum the inventory can make, mapped to the plates
+ * used. Heavier plates are tried first so each sum keeps its fewest-plate
+ * combination.
+ */
+function getPerSideCombinations(plates: PlateCount[]): Map<number, number[]> {
+  const combos = new Map<number, number[]>([[0, []]]);
+  const sorted = [...plates].filter((p) => p.weight > 0 && p.pairs > 0).sort((a, b) => b.weight - a.weight);
+
+  for (const plate of sorted) {
+    const step = toUnits(plate.weight);
+    for (const [sum, used] of Array.from(combos.entries())) {
+      for (let count = 1; count <= plate.pairs; count++) {
+        const next = sum + step * count;
+        if (!combos.has(next)) {
+          combos.set(next, [...used, ...Array<number>(count).fill(plate.weight)]);
+        }
+      }
+    }
+  }
+  return combos;
+}
+
+/**
+ * Plates per side for a target weight. When the exact weight can't be
+ * loaded, returns the heaviest loadable weight below it.
+ */
+export function calculatePlates(
+  target: number,
+  unitSystem: UnitSystem,
+  settings: PlateSettings = getPlateSettings()
+): PlateLoadout {
+  const bar = getBarWeight(settings.barId, unitSystem);
+  const perSideTarget = toUnits((target - bar) / 2 + TOLERANCE / 2);
+
+  let best = 0;
+  const combos = getPerSideCombinations(settings.plates[unitSystem]);
+  for (const sum of combos.keys()) {
+    if (sum <= perSideTarget && sum > best) best = sum;
+  }
+
+  const perSide = combos.get(best) || [];
+  const total = Math.round((bar + fromUnits(best) * 2) * 100) / 100;
+  const difference = Math.round((total - target) * 100) / 100;
+  return { bar, perSide, total, target, difference: Math.abs(difference) < TOLERANCE ? 0 : difference };
+}
+
+/** All loadable totals (bar + pairs of plates), lightest first */
+export function getLoadableWeights(
+  unitSystem: UnitSystem,
+  settings: PlateSettings = getPlateSettings()
+): number[] {
+  const bar = getBarWeight(settings.barId, unitSystem);
+  return Array.from(getPerSideCombinations(settings.plates[unitSystem]).keys())
+    .map((sum) => Math.round((bar + fromUnits(sum) * 2) * 100) / 100)
+    .sort((a, b) => a - b);
+}
+
+/**
+ * Round a weight (e.g. a percentage of 1RM) to the nearest loadable
+ * weight; ties round down
+ */
+export function roundToLoadable(
+  target: number,
+  unitSystem: UnitSystem,
+  settings: PlateSettings = getPlateSettings()
+): number {
+  const loadable = getLoadableWeights(unitSystem, settings);
+  return loadable.reduce(
+    (best, weight) => (Math.abs(weight - target) < Math.abs(best - target) ? weight : best),
+    loadable[0]
+  );
+}
+
+/** Whether an exercise is loaded on a barbell (built-in or custom metadata) */
+export function isBarbellExercise(exercise: string): boolean {
+  const match = resolveExercise(exercise, { fuzzy: false });
+  return !!match && match.exercise.equipment.includes('barbell');
+}
@@ -0,0 +1,315 @@
+import type { PeriodReport } from '@/lib/reports';
+import { PDFDocument, createPDF } from '@/lib/utils/pdf';
+import { formatDuration } from '@/lib/utils/cardio';
+import {
+  UnitSystem,
+  displayWeight,
+  displayWeightChange,
+  distanceUnit,
+  getDistanceInUnit,
+  getWeightInUnit,
+  weightUnit,
+} from '@/lib/utils/units';
+
+/**
+ * Printable progress report
+ * Lays out a weekly or monthly PeriodReport as an A4 PDF to hand to a coach
+ * or dietitian: summary stats, weight and volume charts, goal progress and
+ * top lifts. Colors are fixed (dark text on white) whatever theme the app
+ * is in, and every weight and distance is shown in the user's unit system.
+ */
+
+export interface ReportPDFOptions {
+  unitSystem: UnitSystem;
+  name?: string | null; // printed under the title
+}
+
+const MARGIN = 40;
+const FOOTER_HEIGHT = 24;
+const SECTION_GAP = 20;
+
+const COLORS = {
+  ink: '#18181b',
+  muted: '#71717a',
+  rule: '#e4e4e7',
+  panel: '#f4f4f5',
+  weight: '#3b82f6',
+  volume: '#10b981',
+  goal: '#2563eb',
+};
+
+const TILE_HEIGHT = 52;
+const WEIGHT_CHART_HEIGHT = 130;
+const VOLUME_CHART_HEIGHT = 110;
+const AXIS_WIDTH = 36; // y-axis labels
+const AXIS_HEIGHT = 14; // x-axis labels
+const ROW_HEIGHT = 20;
+
+const formatNumber = (n: number) => Math.round(n).toLocaleString('en-US');
+
+const shortDate = (date: Date) => date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+// 12 500 → "12.5k"
+const compactNumber = (n: number) => (n >= 1000 ? `${Math.round(n / 100) / 10}k` : String(Math.round(n)));
+
+/** Cut `text` with an ellipsis so it fits in `maxWidth` */
+function fitText(doc: PDFDocument, text: string, maxWidth: number, size: number, bold = false): string {
+  if (doc.measureText(text, size, bold) <= maxWidth) return text;
+  let fitted = text;
+  while (fitted.length > 1 && doc.measureText(`${fitted}…`, size, bold) > maxWidth) fitted = fitted.slice(0, -1);
+  return `${fitted.trimEnd()}…`;
+}
+
+/** File name such as gymi-weekly-report-2026-10-12.pdf */
+export function reportFileName(report: PeriodReport): string {
+  const start = report.startDate;
+  const date = `${start.getFullYear()}-${String(start.getMonth() + 1).padStart(2, '0')}-${String(
+    start.getDate()
+  ).padStart(2, '0')}`;
+  return `gymi-${report.kind === 'week' ? 'weekly' : 'monthly'}-report-${date}.pdf`;
+}
+
+/**
+ * Render a period report as a PDF file
+ */
+export function buildReportPDF(report: PeriodReport, { unitSystem, name }: ReportPDFOptions): Blob {
+  const title = report.kind === 'week' ? 'Weekly report' : 'Monthly report';
+  const doc = createPDF({ title: `GYMI ${title} – ${report.period}` });
+  const left = MARGIN;
+  const right = doc.width - MARGIN;
+  const contentWidth = right - left;
+  const unit = weightUnit(unitSystem);
+  let y = MARGIN;
+
+  // Move to a new page when the next block won't fit on this one
+  const ensureSpace = (blockHeight: number) => {
+    if (y + blockHeight > doc.height - MARGIN - FOOTER_HEIGHT) {
+      doc.addPage();
+      y = MARGIN;
+    }
+  };
+
+  const heading = (text: string, blockHeight: number) => {
+    ensureSpace(blockHeight + 22);
+    doc.text(text, left, y + 12, { size: 12, bold: true, color: COLORS.ink });
+    y += 22;
+  };
+
+  const emptyNote = (text: string) => {
+    doc.text(text, left, y + 12, { size: 9, color: COLORS.muted });
+    y += 20;
+  };
+
+  // ── Header ──
+  doc.text('GYMI', left, y + 9, { size: 9, bold: true, color: COLORS.goal });
+  doc.text(`Generated ${shortDate(new Date())}, ${new Date().getFullYear()}`, right, y + 9, {
+    size: 8,
+    color: COLORS.muted,
+    align: 'right',
+  });
+  doc.text(`Weights in ${unit}, distances in ${distanceUnit(unitSystem)}`, right, y + 20, {
+    size: 8,
+    color: COLORS.muted,
+    align: 'right',
+  });
+  doc.text(title, left, y + 34, { size: 20, bold: true, color: COLORS.ink });
+  doc.text(name ? `${report.period} · ${name}` : report.period, left, y + 52, { size: 10, color: COLORS.muted });
+  y += 64;
+  doc.line(left, y, right, y, { stroke: COLORS.rule });
+  y += SECTION_GAP;
+
+  // ── Summary ──
+  const { workout, nutrition } = report;
+  const days = report.dailyVolume.length;
+  const change = workout.comparedToLastWeek;
+  const tiles: Array<{ label: string; value: string; note: string }> = [
+    {
+      label: 'Workouts',
+      value: String(workout.totalWorkouts),
+      note: `${change > 0 ? '+' : ''}${change}% vs previous ${report.kind}`,
+    },
+    { label: 'Sets', value: formatNumber(workout.totalSets), note: `${formatNumber(workout.totalReps)} reps` },
+    {
+      label: 'Volume',
+      value: `${formatNumber(getWeightInUnit(workout.totalVolume, unitSystem))} ${unit}`,
+      note: workout.favoriteExercise ? `Most trained: ${workout.favoriteExercise}` : 'No lifts logged',
+    },
+    {
+      label: 'Cardio',
+      value: `${getDistanceInUnit(workout.cardio.distance, unitSystem).toFixed(1)} ${distanceUnit(unitSystem)}`,
+      note: `${workout.cardio.sessions} sessions · ${formatDuration(workout.cardio.duration)}`,
+    },
+    {
+      label: 'Calories per day',
+      value: `${formatNumber(nutrition.avgCaloriesPerDay)} kcal`,
+      note: `${nutrition.daysLogged} of ${days} days logged`,
+    },
+    {
+      label: 'Protein per day',
+      value: `${nutrition.avgProtein} g`,
+      note: `Carbs ${nutrition.avgCarbs} g · Fat ${nutrition.avgFat} g`,
+    },
+    {
+      label: 'Weight change',
+      value: report.weightLogs.length >= 2 ? displayWeightChange(report.weightChange, unitSystem) : '—',
+      note: `${report.weightLogs.length} weigh-in${report.weightLogs.length === 1 ? '' : 's'}`,
+    },
+    {
+      label: 'Streak',
+      value: `${report.streakInfo.current} days`,
+      note: `Longest ${report.streakInfo.longest} days`,
+    },
+  ];
+
+  const tileGap = 8;
+  const tileWidth = (contentWidth - tileGap * 3) / 4;
+  heading('Summary', TILE_HEIGHT * 2 + tileGap);
+  tiles.forEach((tile, i) => {
+    const x = left + (i % 4) * (tileWidth + tileGap);
+    const top = y + Math.floor(i / 4) * (TILE_HEIGHT + tileGap);
+    const inner = tileWidth - 16;
+    doc.rect(x, top, tileWidth, TILE_HEIGHT, { fill: COLORS.panel });
+    doc.text(tile.label, x + 8, top + 14, { size: 8, color: COLORS.muted });
+    doc.text(fitText(doc, tile.value, inner, 14, true), x + 8, top + 32, { size: 14, bold: true, color: COLORS.ink });
+    doc.text(fitText(doc, tile.note, inner, 7), x + 8, top + 44, { size: 7, color: COLORS.muted });
+  });
+  y += TILE_HEIGHT * 2 + tileGap + SECTION_GAP;
+
+  // ── Body weight ──
+  heading(`Body weight (${unit})`, WEIGHT_CHART_HEIGHT);
+  if (report.weightLogs.length === 0) {
+    emptyNote('No weigh-ins logged in this period');
+  } else {
+    const values = report.weightLogs.map((l) => getWeightInUnit(l.weight, unitSystem));
+    let min = Math.min(...values);
+    let max = Math.max(...values);
+    const padding = Math.max((max - min) * 0.15, 1);
+    min -= padding;
+    max += padding;
+
+    const plotLeft = left + AXIS_WIDTH;
+    const plotWidth = right - plotLeft;
+    const plotHeight = WEIGHT_CHART_HEIGHT - AXIS_HEIGHT;
+    const span = report.endDate.getTime() - report.startDate.getTime();
+    const toX = (date: Date) => plotLeft + ((date.getTime() - report.startDate.getTime()) / span) * plotWidth;
+    const toY = (value: number) => y + plotHeight - ((value - min) / (max - min)) * plotHeight;
+
+    for (const value of [min, (min + max) / 2, max]) {
+      doc.line(plotLeft, toY(value), right, toY(value), { stroke: COLORS.rule, lineWidth: 0.5 });
+      doc.text(value.toFixed(1), plotLeft - 6, toY(value) + 3, { size: 7, color: COLORS.muted, align: 'right' });
+    }
+
+    const points = report.weightLogs.map((l, i): [number, number] => [toX(l.date), toY(values[i])]);
+    doc.polyline(points, { stroke: COLORS.weight, lineWidth: 1.5 });
+    for (const [x, pointY] of points) doc.circle(x, pointY, 2, { fill: '#ffffff', stroke: COLORS.weight });
+
+    const labelY = y + WEIGHT_CHART_HEIGHT;
+    doc.text(shortDate(report.startDate), plotLeft, labelY, { size: 7, color: COLORS.muted });
+    doc.text(shortDate(report.endDate), right, labelY, { size: 7, color: COLORS.muted, align: 'right' });
+    y += WEIGHT_CHART_HEIGHT + SECTION_GAP;
+  }
+
+  // ── Training volume ──
+  heading(`Training volume per day (${unit})`, VOLUME_CHART_HEIGHT);
+  const volumes = report.dailyVolume.map((d) => getWeightInUnit(d.volume, unitSystem));
+  const maxVolume = Math.max(...volumes, 0);
+  if (maxVolume === 0) {
+    emptyNote('No training volume logged in this period');
+  } else {
+    const plotLeft = left + AXIS_WIDTH;
+    const plotHeight = VOLUME_CHART_HEIGHT - AXIS_HEIGHT;
+    const slot = (right - plotLeft) / volumes.length;
+    const barWidth = Math.min(slot * 0.7, 36);
+
+    for (const value of [maxVolume / 2, maxVolume]) {
+      const lineY = y + plotHeight - (value / maxVolume) * plotHeight;
+      doc.line(plotLeft, lineY, right, lineY, { stroke: COLORS.rule, lineWidth: 0.5 });
+      doc.text(compactNumber(value), plotLeft - 6, lineY + 3, { size: 7, color: COLORS.muted, align: 'right' });
+    }
+    doc.line(plotLeft, y + plotHeight, right, y + plotHeight, { stroke: COLORS.muted, lineWidth: 0.5 });
+
+    report.dailyVolume.forEach((day, i) => {
+      const center = plotLeft + slot * i + slot / 2;
+      const barHeight = (volumes[i] / maxVolume) * plotHeight;
+      if (barHeight > 0) {
+        doc.rect(center - barWidth / 2, y + plotHeight - barHeight, barWidth, barHeight, { fill: COLORS.volume });
+      }
+      const dayOfMonth = day.date.getDate();
+      const label =
+        report.kind === 'week'
+          ? day.date.toLocaleDateString('en-US', { weekday: 'short' })
+          : dayOfMonth === 1 || dayOfMonth % 5 === 0
+            ? String(dayOfMonth)
+            : '';
+      if (label) {
+        doc.text(label, center, y + VOLUME_CHART_HEIGHT, { size: 7, color: COLORS.muted, align: 'center' });
+      }
+    });
+    y += VOLUME_CHART_HEIGHT + SECTION_GAP;
+  }
+
+  // ── Goals ──
+  heading('Goal progress', Math.max(report.goalsProgress.length, 1) * ROW_HEIGHT);
+  if (report.goalsProgress.length === 0) {
+    emptyNote('No active goals');
+  } else {
+    const barLeft = left + 210;
+    const barWidth = right - 44 - barLeft;
+    for (const goal of report.goalsProgress) {
+      ensureSpace(ROW_HEIGHT);
+      const progress = Math.max(0, Math.min(goal.progress, 100));
+      doc.text(fitText(doc, goal.title, 200, 9), left, y + 12, { size: 9, color: COLORS.ink });
+      doc.rect(barLeft, y + 6, barWidth, 6, { fill: COLORS.rule });
+      if (progress > 0) doc.rect(barLeft, y + 6, (barWidth * progress) / 100, 6, { fill: COLORS.goal });
+      doc.text(`${Math.max(0, goal.progress)}%`, right, y + 12, {
+        size: 9,
+        bold: true,
+        color: COLORS.ink,
+        align: 'right',
+      });
+      y += ROW_HEIGHT;
+    }
+    y += SECTION_GAP;
+  }
+
+  // ── Top lifts ──
+  heading('Top lifts (estimated 1RM)', (report.topLifts.length + 1) * ROW_HEIGHT);
+  if (report.topLifts.length === 0) {
+    emptyNote('No weighted lifts logged in this period');
+  } else {
+    const columns = { set: left + 230, e1rm: left + 340 };
+    const header = { size: 8, bold: true, color: COLORS.muted };
+    doc.text('Exercise', left, y + 10, header);
+    doc.text('Best set', columns.set, y + 10, header);
+    doc.text('Est. 1RM', columns.e1rm, y + 10, header);
+    doc.text(`vs before this ${report.kind}`, right, y + 10, { ...header, align: 'right' });
+    y += 16;
+
+    for (const lift of report.topLifts) {
+      ensureSpace(ROW_HEIGHT);
+      doc.line(left, y, right, y, { stroke: COLORS.rule, lineWidth: 0.5 });
+      const row = { size: 9, color: COLORS.ink };
+      doc.text(fitText(doc, lift.exercise, 220, 9), left, y + 13, row);
+      doc.text(`${displayWeight(lift.weight, unitSystem)} × ${lift.reps}`, columns.set, y + 13, row);
+      doc.text(displayWeight(lift.e1rm, unitSystem), columns.e1rm, y + 13, { ...row, bold: true });
+      doc.text(
+        lift.previousE1rm === null ? 'New' : displayWeightChange(lift.e1rm - lift.previousE1rm, unitSystem),
+        right,
+        y + 13,
+        { ...row, align: 'right' }
+      );
+      y += ROW_HEIGHT;
+    }
+  }
+
+  // ── Footers ──
+  const pageCount = doc.pageCount();
+  for (let i = 0; i < pageCount; i++) {
+    doc.setPage(i);
+    const footerY = doc.height - MARGIN + 10;
+    doc.text(`GYMI ${title.toLowerCase()} · ${report.period}`, left, footerY, { size: 7, color: COLORS.muted });
+    doc.text(`Page ${i + 1} of ${pageCount}`, right, footerY, { size: 7, color: COLORS.muted, align: 'right' });
+  }
+
+  return doc.toBlob();
+}
@@ -1,16 +1,20 @@
 import { Workout } from '@/lib/types/firestore';
 import { Meal } from '@/lib/types/firestore';
 import { FilterOptions } from '@/components/features/FilterPanel';
+import { getExerciseNames } from '@/lib/utils/workoutSets';
+import { getCanonicalExerciseNames } from '@/lib/utils/exerciseResolver';
 
 /**
- * Search workouts by exercise name
+ * Search workouts by session title or exercise name
  */
 export function searchWorkouts(workouts: Workout[], query: string): Workout[] {
   if (!query.trim()) return workouts;
 
   const lowerQuery = query.toLowerCase();
-  return workouts.filter((workout) =>
-    workout.exercise.toLowerCase().includes(lowerQuery)
+  return workouts.filter(
+    (workout) =>
+      workout.title?.toLowerCase().includes(lowerQuery) ||
+      getExerciseNames(workout).some((name) => name.toLowerCase().includes(lowerQuery))
   );
 }
 
@@ -24,7 +28,7 @@ export function searchMeals(meals: Meal[], query: string): Meal[] {
   return meals.filter(
     (meal) =>
       meal.mealName.toLowerCase().includes(lowerQuery) ||
-      meal.items.toLowerCase().includes(lowerQuery)
+      meal.items.some((item) => item.name.toLowerCase().includes(lowerQuery))
   );
 }
 
@@ -151,10 +155,11 @@ export function searchAndFilterMeals(
 }
 
 /**
- * Get unique exercise names from workouts (for autocomplete)
+ * Get unique exercise names from workouts (for autocomplete).
+ * Entries linked to a library exercise are listed under its canonical name.
  */
 export function getUniqueExercises(workouts: Workout[]): string[] {
-  const exercises = new Set(workouts.map((w) => w.exercise));
+  const exercises = new Set(workouts.flatMap((w) => getCanonicalExerciseNames(w)));
   return Array.from(exercises).sort();
 }
 
@@ -78,6 +78,85 @@ export function heightUnit(unit: UnitSystem): string {
   return unit === 'imperial' ? 'ft/in' : 'cm';
 }
 
+// ── Distance Conversions ──
+
+const KM_TO_MILES = 0.621371;
+const M_TO_FT = 3.28084;
+
+/** Convert km to miles */
+export function kmToMiles(km: number): number {
+  return Math.round(km * KM_TO_MILES * 100) / 100;
+}
+
+/** Convert miles to km */
+export function milesToKm(miles: number): number {
+  return Math.round((miles / KM_TO_MILES) * 1000) / 1000;
+}
+
+/** Get distance value in user's unit system (number only) */
+export function getDistanceInUnit(km: number, unit: UnitSystem): number {
+  return unit === 'imperial' ? kmToMiles(km) : Math.round(km * 100) / 100;
+}
+
+/** Convert user input distance to km for storage */
+export function distanceToKm(value: number, unit: UnitSystem): number {
+  return unit === 'imperial' ? milesToKm(value) : value;
+}
+
+/** Display distance in user's unit system */
+export function displayDistance(km: number, unit: UnitSystem): string {
+  return `${getDistanceInUnit(km, unit)} ${distanceUnit(unit)}`;
+}
+
+/** Get the distance unit label */
+export function distanceUnit(unit: UnitSystem): string {
+  return unit === 'imperial' ? 'mi' : 'km';
+}
+
+/** Get elevation value in user's unit system (m or ft, whole numbers) */
+export function getElevationInUnit(m: number, unit: UnitSystem): number {
+  return Math.round(unit === 'imperial' ? m * M_TO_FT : m);
+}
+
+/** Convert user input elevation to m for storage */
+export function elevationToM(value: number, unit: UnitSystem): number {
+  return unit === 'imperial' ? Math.round((value / M_TO_FT) * 10) / 10 : value;
+}
+
+/** Get the elevation unit label */
+export function elevationUnit(unit: UnitSystem): string {
+  return unit === 'imperial' ? 'ft' : 'm';
+}
+
+/** Seconds per km converted to seconds per km or mile */
+export function getPaceInUnit(secondsPerKm: number, unit: UnitSystem): number {
+  return unit === 'imperial' ? secondsPerKm / KM_TO_MILES : secondsPerKm;
+}
+
+/** Get the pace unit label */
+export function paceUnit(unit: UnitSystem): string {
+  return `/${distanceUnit(unit)}`;
+}
+
+// ── Volume Conversions ──
+
+const ML_PER_FL_OZ = 29.5735;
+
+/** Get a volume in user's unit system (ml or fl oz, whole numbers) */
+export function getVolumeInUnit(ml: number, unit: UnitSystem): number {
+  return Math.round(unit === 'imperial' ? ml / ML_PER_FL_OZ : ml);
+}
+
+/** Convert user input volume to ml for storage */
+export function volumeToMl(value: number, unit: UnitSystem): number {
+  return Math.round(unit === 'imperial' ? value * ML_PER_FL_OZ : value);
+}
+
+/** Get the volume unit label */
+export function volumeUnit(unit: UnitSystem): string {
+  return unit === 'imperial' ? 'fl oz' : 'ml';
+}
+
 // ── Change / Difference Display ──
 
 /** Display a weight change with sign */
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { WorkoutExercise } from '@/lib/types/firestore';
+import { serializeWorkoutExercises } from '@/lib/utils/workoutSets';
+
+const entry = (exercise: string, exerciseId?: string): WorkoutExercise => ({
+  exercise,
+  exerciseId,
+  sets: [{ reps: 5, weight: 100, type: 'working' }],
+});
+
+const linkOf = (exercise: WorkoutExercise) => serializeWorkoutExercises([exercise])[0].exerciseId;
+
+describe('serializeWorkoutExercises', () => {
+  it('links a name that resolves to the library exercise it names', () => {
+    expect(linkOf(entry('Squat'))).toBe('squat');
+    expect(linkOf(entry('Squat', 'bench-press'))).toBe('squat');
+  });
+
+  it('keeps the entry id when the name does not resolve', () => {
+    expect(linkOf(entry('Grandma Carry', 'custom-1'))).toBe('custom-1');
+  });
+
+  it('keeps an unresolved name unlinked', () => {
+    expect(linkOf(entry('Grandma Carry'))).toBeNull();
+  });
+});
@@ -0,0 +1,173 @@
+import { CardioData, Workout, WorkoutExercise, WorkoutSet, SetType } from '@/lib/types/firestore';
+import { resolveExercise } from '@/lib/utils/exerciseResolver';
+
+/**
+ * Workout session helpers
+ * Normalizes stored workout documents and derives per-session totals.
+ */
+
+const SET_TYPES: SetType[] = ['warmup', 'working', 'drop', 'failure'];
+
+type RawDoc = Record<string, unknown>;
+
+function parseSet(raw: unknown): WorkoutSet {
+  const data = (raw || {}) as RawDoc;
+  const rpe = Number(data.rpe);
+  return {
+    reps: Number(data.reps) || 0,
+    weight: Number(data.weight) || 0,
+    rpe: rpe > 0 ? rpe : undefined,
+    type: SET_TYPES.includes(data.type as SetType) ? (data.type as SetType) : 'working',
+  };
+}
+
+const CARDIO_FIELDS: (keyof CardioData)[] = [
+  'distance',
+  'duration',
+  'avgHeartRate',
+  'elevationGain',
+  'calories',
+];
+
+function parseCardio(raw: unknown): CardioData | undefined {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const data = raw as RawDoc;
+  const cardio: CardioData = {};
+  for (const field of CARDIO_FIELDS) {
+    const value = Number(data[field]);
+    if (value > 0) cardio[field] = value;
+  }
+  return Object.keys(cardio).length > 0 ? cardio : undefined;
+}
+
+/**
+ * Read the ordered exercises of a stored workout.
+ * Legacy flat documents (`exercise`, `sets`, `reps`, `weight`) become a
+ * single exercise with `sets` identical working sets.
+ */
+export function parseWorkoutExercises(data: RawDoc): WorkoutExercise[] {
+  if (Array.isArray(data.exercises)) {
+    return data.exercises.map((raw) => {
+      const entry = (raw || {}) as RawDoc;
+      return {
+        exercise: String(entry.exercise || '').trim(),
+        exerciseId:
+          typeof entry.exerciseId === 'string' && entry.exerciseId ? entry.exerciseId : undefined,
+        sets: Array.isArray(entry.sets) ? entry.sets.map(parseSet) : [],
+        cardio: parseCardio(entry.cardio),
+        notes: typeof entry.notes === 'string' && entry.notes.trim() ? entry.notes.trim() : undefined,
+      };
+    });
+  }
+
+  const exercise = typeof data.exercise === 'string' ? data.exercise.trim() : '';
+  if (!exercise) return [];
+
+  const setCount = Math.max(Number(data.sets) || 0, 1);
+  const legacySet = parseSet({ reps: data.reps, weight: data.weight, type: 'working' });
+  return [
+    {
+      exercise,
+      sets: Array.from({ length: setCount }, () => ({ ...legacySet })),
+    },
+  ];
+}
+
+/**
+ * Strip undefined values so exercises can be written to Firestore.
+ * `exerciseId` is re-resolved from the name when it names a library
+ * exercise; otherwise the entry's own id is kept (a custom exercise before
+ * the user's library has loaded, or an alias since removed). Callers clear
+ * `exerciseId` when an entry is renamed, as the workout form does, or the
+ * old link is kept for a name that doesn't resolve.
+ */
+export function serializeWorkoutExercises(exercises: WorkoutExercise[]) {
+  return exercises.map((entry) => ({
+    exercise: entry.exercise?.trim() || '',
+    exerciseId:
+      resolveExercise(entry.exercise || '', { fuzzy: false })?.exercise.id ||
+      entry.exerciseId ||
+      null,
+    notes: entry.notes?.trim() || null,
+    sets: entry.sets.map((set) => ({
+      reps: Number(set.reps) || 0,
+      weight: Number(set.weight) || 0,
+      rpe: set.rpe ? Number(set.rpe) : null,
+      type: set.type || 'working',
+    })),
+    cardio: entry.cardio
+      ? Object.fromEntries(CARDIO_FIELDS.map((field) => [field, Number(entry.cardio?.[field]) || null]))
+      : null,
+  }));
+}
+
+/** Whether a set counts toward volume (warm-ups are excluded) */
+export function isWorkingSet(set: WorkoutSet): boolean {
+  return set.type !== 'warmup';
+}
+
+/** Unique exercise names in session order */
+export function getExerciseNames(workout: Workout): string[] {
+  return Array.from(new Set(workout.exercises.map((e) => e.exercise).filter(Boolean)));
+}
+
+/** Display title: explicit session title, or the exercises performed */
+export function getWorkoutTitle(workout: Workout): string {
+  if (workout.title) return workout.title;
+  const names = getExerciseNames(workout);
+  if (names.length === 0) return 'Workout';
+  if (names.length <= 2) return names.join(' & ');
+  return `${names[0]} +${names.length - 1} more`;
+}
+
+/** Total sets logged in a session (including warm-ups) */
+export function getSetCount(workout: Workout): number {
+  return workout.exercises.reduce((sum, e) => sum + e.sets.length, 0);
+}
+
+/** Total reps across working sets */
+export function getRepCount(workout: Workout): number {
+  return workout.exercises.reduce(
+    (sum, e) => sum + e.sets.filter(isWorkingSet).reduce((s, set) => s + set.reps, 0),
+    0
+  );
+}
+
+/** Volume of one exercise: Σ reps × weight over working sets (kg) */
+export function getExerciseVolume(entry: WorkoutExercise): number {
+  return entry.sets.filter(isWorkingSet).reduce((sum, set) => sum + set.reps * set.weight, 0);
+}
+
+/** Session volume: Σ reps × weight over working sets (kg) */
+export function getWorkoutVolume(workout: Workout): number {
+  return workout.exercises.reduce((sum, e) => sum + getExerciseVolume(e), 0);
+}
+
+/**
+ * Sets from the most recent session that included an exercise
+ * (case-insensitive name match). Expects workouts sorted newest first.
+ */
+export function getLastPerformance(workouts: Workout[], exercise: string): WorkoutSet[] | null {
+  const name = exercise.trim().toLowerCase();
+  if (!name) return null;
+  for (const workout of workouts) {
+    const entry = workout.exercises.find((e) => e.exercise.toLowerCase() === name);
+    if (entry && entry.sets.length > 0) return entry.sets;
+  }
+  return null;
+}
+
+/** Heaviest set in the session, or null if nothing was loaded */
+export function getHeaviestSet(
+  workout: Workout
+): { exercise: string; set: WorkoutSet } | null {
+  let best: { exercise: string; set: WorkoutSet } | null = null;
+  for (const entry of workout.exercises) {
+    for (const set of entry.sets) {
+      if (set.weight > 0 && (!best || set.weight > best.set.weight)) {
+        best = { exercise: entry.exercise, set };
+      }
+    }
+  }
+  return best;
+}
@@ -0,0 +1,93 @@
+import { db } from './firebase';
+import {
+  collection,
+  doc,
+  addDoc,
+  getDocs,
+  deleteDoc,
+  query,
+  orderBy,
+  where,
+  Timestamp,
+  DocumentData,
+} from 'firebase/firestore';
+import { WaterLog } from './types/firestore';
+import { getErrorMessage } from './utils/errorMessages';
+import { cacheInvalidate } from './cache';
+
+/**
+ * Water Logs Service Layer
+ * Hydration is logged as separate drinks so a day's total is their sum
+ */
+
+const convertTimestamps = (data: DocumentData): Omit<WaterLog, 'id'> => ({
+  amount: Number(data.amount) || 0,
+  date: data.date?.toDate ? data.date.toDate() : new Date(data.date),
+  createdAt: data.createdAt?.toDate ? data.createdAt.toDate() : new Date(),
+});
+
+/**
+ * Log a drink
+ */
+export async function addWaterLog(uid: string, amount: number, date: Date = new Date()): Promise<string> {
+  try {
+    const logsRef = collection(db, 'users', uid, 'waterLogs');
+    const docRef = await addDoc(logsRef, {
+      amount: Math.round(amount),
+      date: Timestamp.fromDate(date),
+      createdAt: Timestamp.now(),
+    });
+
+    cacheInvalidate(`water:${uid}`);
+    return docRef.id;
+  } catch (error) {
+    throw new Error(getErrorMessage(error, 'Failed to log water'));
+  }
+}
+
+/**
+ * Get water logs for a specific date, oldest first
+ */
+export async function getWaterLogsByDate(uid: string, date: Date): Promise<WaterLog[]> {
+  try {
+    const startOfDay = new Date(date);
+    startOfDay.setHours(0, 0, 0, 0);
+    const endOfDay = new Date(date);
+    endOfDay.setHours(23, 59, 59, 999);
+
+    const logsRef = collection(db, 'users', uid, 'waterLogs');
+    const q = query(
+      logsRef,
+      where('date', '>=', Timestamp.fromDate(startOfDay)),
+      where('date', '<=', Timestamp.fromDate(endOfDay)),
+      orderBy('date', 'asc')
+    );
+    const snapshot = await getDocs(q);
+
+    return snapshot.docs.map((doc) => ({
+      id: doc.id,
+      ...convertTimestamps(doc.data()),
+    }));
+  } catch (error) {
+    throw new Error(getErrorMessage(error, 'Failed to fetch water logs'));
+  }
+}
+
+/**
+ * Delete a water log (e.g. to undo a mistaken tap)
+ */
+export async function deleteWaterLog(uid: string, logId: string): Promise<void> {
+  try {
+    await deleteDoc(doc(db, 'users', uid, 'waterLogs', logId));
+    cacheInvalidate(`water:${uid}`);
+  } catch (error) {
+    throw new Error(getErrorMessage(error, 'Failed to delete water log'));
+  }
+}
+
+/**
+ * Total water (ml) for a list of logs
+ */
+export function getTotalWater(logs: WaterLog[]): number {
+  return logs.reduce((total, log) => total + log.amount, 0);
+}
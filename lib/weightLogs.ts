@@ -26,6 +26,20 @@ const convertTimestamps = (data: any): any => {
   return converted;
 };
 
+/**
+ * Firestore document for a new weight log entry
+ */
+export function toWeightLogDocument(data: Omit<WeightLog, 'id' | 'createdAt' | 'updatedAt'>) {
+  const now = Timestamp.now();
+  return {
+    weight: data.weight,
+    notes: data.notes || null,
+    date: Timestamp.fromDate(data.date),
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
 /**
  * Add a new weight log entry
  */
@@ -35,15 +49,7 @@ export async function addWeightLog(
 ): Promise<string> {
   try {
     const logsRef = collection(db, 'users', uid, 'weightLogs');
-    const now = Timestamp.now();
-
-    const docRef = await addDoc(logsRef, {
-      weight: data.weight,
-      notes: data.notes || null,
-      date: Timestamp.fromDate(data.date),
-      createdAt: now,
-      updatedAt: now,
-    });
+    const docRef = await addDoc(logsRef, toWeightLogDocument(data));
 
     cacheInvalidate(`weightLogs:${uid}`);
     return docRef.id;
@@ -102,6 +108,28 @@ export async function getWeightLogsByDateRange(
   }
 }
 
+/**
+ * Get a single weight log by ID
+ */
+export async function getWeightLog(uid: string, logId: string): Promise<WeightLog | null> {
+  try {
+    const docRef = doc(db, 'users', uid, 'weightLogs', logId);
+    const docSnap = await getDoc(docRef);
+
+    if (!docSnap.exists()) {
+      return null;
+    }
+
+    return {
+      ...convertTimestamps(docSnap.data()),
+      id: docSnap.id,
+    } as WeightLog;
+  } catch (error) {
+    console.error('Error fetching weight log:', error);
+    throw new Error(getErrorMessage(error, 'Failed to fetch weight log'));
+  }
+}
+
 /**
  * Get the most recent weight log
  */
@@ -144,6 +172,10 @@ export async function updateWeightLog(
     if (updates.date) {
       updateData.date = Timestamp.fromDate(updates.date);
     }
+    // Firestore rejects undefined values; a cleared note is stored as null
+    if ('notes' in updates) {
+      updateData.notes = updates.notes || null;
+    }
 
     await updateDoc(docRef, updateData);
     cacheInvalidate(`weightLogs:${uid}`);
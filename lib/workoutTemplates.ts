@@ -0,0 +1,186 @@
+import { db } from '@/lib/firebase';
+import {
+  collection,
+  addDoc,
+  getDocs,
+  getDoc,
+  updateDoc,
+  deleteDoc,
+  doc,
+  query,
+  orderBy,
+  Timestamp,
+} from 'firebase/firestore';
+import { WorkoutExercise } from '@/lib/types/firestore';
+import { getErrorMessage } from './utils/errorMessages';
+
+export interface WorkoutTemplateExercise {
+  exercise: string;
+  targetSets: number;
+  targetReps: number;
+  targetWeight?: number; // kg, omitted for bodyweight or "pick on the day"
+  notes?: string;
+}
+
+export interface WorkoutTemplate {
+  name: string;
+  exercises: WorkoutTemplateExercise[];
+  notes?: string;
+  id: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+type RawDoc = Record<string, unknown>;
+
+function parseTemplateExercises(raw: unknown): WorkoutTemplateExercise[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.map((entry) => {
+    const data = (entry || {}) as RawDoc;
+    const targetWeight = Number(data.targetWeight);
+    return {
+      exercise: String(data.exercise || '').trim(),
+      targetSets: Math.max(Number(data.targetSets) || 1, 1),
+      targetReps: Number(data.targetReps) || 0,
+      targetWeight: targetWeight > 0 ? targetWeight : undefined,
+      notes: typeof data.notes === 'string' && data.notes ? data.notes : undefined,
+    };
+  });
+}
+
+/** Strip undefined values so template exercises can be written to Firestore */
+function serializeTemplateExercises(exercises: WorkoutTemplateExercise[]) {
+  return exercises.map((entry) => ({
+    exercise: entry.exercise.trim(),
+    targetSets: Math.max(Number(entry.targetSets) || 1, 1),
+    targetReps: Number(entry.targetReps) || 0,
+    targetWeight: entry.targetWeight ? Number(entry.targetWeight) : null,
+    notes: entry.notes?.trim() || null,
+  }));
+}
+
+function toTemplate(id: string, data: RawDoc): WorkoutTemplate {
+  return {
+    id,
+    name: String(data.name || ''),
+    exercises: parseTemplateExercises(data.exercises),
+    notes: typeof data.notes === 'string' && data.notes ? data.notes : undefined,
+    createdAt: (data.createdAt as Timestamp | undefined)?.toDate() || new Date(),
+    updatedAt: (data.updatedAt as Timestamp | undefined)?.toDate() || new Date(),
+  };
+}
+
+/**
+ * Add a new workout template
+ */
+export async function addWorkoutTemplate(
+  uid: string,
+  data: Omit<WorkoutTemplate, 'id' | 'createdAt' | 'updatedAt'>
+): Promise<string> {
+  try {
+    const templatesRef = collection(db, 'users', uid, 'workoutTemplates');
+    const docRef = await addDoc(templatesRef, {
+      name: data.name,
+      exercises: serializeTemplateExercises(data.exercises),
+      notes: data.notes || null,
+      createdAt: Timestamp.now(),
+      updatedAt: Timestamp.now(),
+    });
+    return docRef.id;
+  } catch (error) {
+    console.error('Error adding workout template:', error);
+    throw new Error(getErrorMessage(error, 'Failed to add workout template'));
+  }
+}
+
+/**
+ * Get all workout templates for a user
+ */
+export async function getWorkoutTemplates(uid: string): Promise<WorkoutTemplate[]> {
+  try {
+    const templatesRef = collection(db, 'users', uid, 'workoutTemplates');
+    const q = query(templatesRef, orderBy('name', 'asc'));
+    const snapshot = await getDocs(q);
+
+    return snapshot.docs.map((doc) => toTemplate(doc.id, doc.data()));
+  } catch (error) {
+    console.error('Error fetching workout templates:', error);
+    throw new Error(getErrorMessage(error, 'Failed to fetch workout templates'));
+  }
+}
+
+/**
+ * Get a single workout template
+ */
+export async function getWorkoutTemplate(
+  uid: string,
+  templateId: string
+): Promise<WorkoutTemplate> {
+  try {
+    const templateRef = doc(db, 'users', uid, 'workoutTemplates', templateId);
+    const snapshot = await getDoc(templateRef);
+
+    if (!snapshot.exists()) {
+      throw new Error('Workout template not found');
+    }
+
+    return toTemplate(snapshot.id, snapshot.data());
+  } catch (error) {
+    console.error('Error fetching workout template:', error);
+    throw new Error(getErrorMessage(error, 'Failed to fetch workout template'));
+  }
+}
+
+/**
+ * Update a workout template
+ */
+export async function updateWorkoutTemplate(
+  uid: string,
+  templateId: string,
+  updates: Partial<Omit<WorkoutTemplate, 'id' | 'createdAt' | 'updatedAt'>>
+): Promise<void> {
+  try {
+    const templateRef = doc(db, 'users', uid, 'workoutTemplates', templateId);
+    const data: RawDoc = { updatedAt: Timestamp.now() };
+    if (updates.name !== undefined) data.name = updates.name;
+    if ('notes' in updates) data.notes = updates.notes || null;
+    if (updates.exercises !== undefined) {
+      data.exercises = serializeTemplateExercises(updates.exercises);
+    }
+    await updateDoc(templateRef, data);
+  } catch (error) {
+    console.error('Error updating workout template:', error);
+    throw new Error(getErrorMessage(error, 'Failed to update workout template'));
+  }
+}
+
+/**
+ * Delete a workout template
+ */
+export async function deleteWorkoutTemplate(uid: string, templateId: string): Promise<void> {
+  try {
+    const templateRef = doc(db, 'users', uid, 'workoutTemplates', templateId);
+    await deleteDoc(templateRef);
+  } catch (error) {
+    console.error('Error deleting workout template:', error);
+    throw new Error(getErrorMessage(error, 'Failed to delete workout template'));
+  }
+}
+
+/**
+ * Expand a template into session exercises with its target sets
+ * Returns exercises ready to pre-populate a live session or WorkoutForm
+ */
+export function templateToExercises(template: WorkoutTemplate): WorkoutExercise[] {
+  return template.exercises
+    .filter((e) => e.exercise)
+    .map((e) => ({
+      exercise: e.exercise,
+      notes: e.notes,
+      sets: Array.from({ length: e.targetSets }, () => ({
+        reps: e.targetReps,
+        weight: e.targetWeight ?? 0,
+        type: 'working' as const,
+      })),
+    }));
+}
@@ -12,14 +12,18 @@ import {
   limit,
   where,
   Timestamp,
+  deleteField,
+  writeBatch,
 } from 'firebase/firestore';
 import { Workout } from './types/firestore';
+import { Exercise, normalizeExerciseName } from './data/exercises';
 import { getErrorMessage } from './utils/errorMessages';
 import { cachedFetch, cacheInvalidate } from './cache';
+import { parseWorkoutExercises, serializeWorkoutExercises } from './utils/workoutSets';
 
 /**
  * Workout Service Layer
- * Handles all CRUD operations for workouts
+ * Handles all CRUD operations for workout sessions
  */
 
 // Helper to convert Firestore timestamp to Date
@@ -45,10 +49,8 @@ const convertTimestamps = (data: any): Omit<Workout, 'id'> => {
   };
 
   return {
-    exercise: data.exercise?.trim() || '',
-    sets: Number(data.sets) || 0,
-    reps: Number(data.reps) || 0,
-    weight: Number(data.weight) || 0,
+    title: data.title?.trim() || undefined,
+    exercises: parseWorkoutExercises(data),
     duration: data.duration ? Number(data.duration) : undefined,
     notes: data.notes?.trim() || undefined,
     date: parseDate(data.date),
@@ -58,7 +60,25 @@ const convertTimestamps = (data: any): Omit<Workout, 'id'> => {
 };
 
 /**
- * Add a new workout
+ * Firestore document for a new workout session
+ */
+export function toWorkoutDocument(workoutData: Omit<Workout, 'id' | 'createdAt' | 'updatedAt'>) {
+  // Ensure date is a valid Date object
+  const dateValue = workoutData.date instanceof Date ? workoutData.date : new Date(workoutData.date);
+
+  return {
+    title: workoutData.title?.trim() || null,
+    exercises: serializeWorkoutExercises(workoutData.exercises || []),
+    duration: workoutData.duration ? Number(workoutData.duration) : null,
+    notes: workoutData.notes?.trim() || null,
+    date: Timestamp.fromDate(dateValue),
+    createdAt: Timestamp.fromDate(new Date()),
+    updatedAt: Timestamp.fromDate(new Date()),
+  };
+}
+
+/**
+ * Add a new workout session
  */
 export async function addWorkout(
   uid: string,
@@ -66,21 +86,7 @@ export async function addWorkout(
 ): Promise<string> {
   try {
     const workoutsRef = collection(db, 'users', uid, 'workouts');
-    
-    // Ensure date is a valid Date object
-    const dateValue = workoutData.date instanceof Date ? workoutData.date : new Date(workoutData.date);
-    
-    const docRef = await addDoc(workoutsRef, {
-      exercise: workoutData.exercise?.trim() || '',
-      sets: Number(workoutData.sets) || 0,
-      reps: Number(workoutData.reps) || 0,
-      weight: Number(workoutData.weight) || 0,
-      duration: workoutData.duration ? Number(workoutData.duration) : null,
-      notes: workoutData.notes?.trim() || null,
-      date: Timestamp.fromDate(dateValue),
-      createdAt: Timestamp.fromDate(new Date()),
-      updatedAt: Timestamp.fromDate(new Date()),
-    });
+    const docRef = await addDoc(workoutsRef, toWorkoutDocument(workoutData));
     cacheInvalidate(`workouts:${uid}`, `stats:${uid}`, `recent:${uid}`);
     return docRef.id;
   } catch (error) {
@@ -149,10 +155,15 @@ export async function updateWorkout(
     };
 
     // Map and validate each field
-    if (updates.exercise !== undefined) updateData.exercise = updates.exercise?.trim() || '';
-    if (updates.sets !== undefined) updateData.sets = Number(updates.sets) || 0;
-    if (updates.reps !== undefined) updateData.reps = Number(updates.reps) || 0;
-    if (updates.weight !== undefined) updateData.weight = Number(updates.weight) || 0;
+    if (updates.title !== undefined) updateData.title = updates.title?.trim() || null;
+    if (updates.exercises !== undefined) {
+      updateData.exercises = serializeWorkoutExercises(updates.exercises);
+      // Drop legacy flat fields once the document is rewritten as a session
+      updateData.exercise = deleteField();
+      updateData.sets = deleteField();
+      updateData.reps = deleteField();
+      updateData.weight = deleteField();
+    }
     if (updates.duration !== undefined) updateData.duration = updates.duration ? Number(updates.duration) : null;
     if (updates.notes !== undefined) updateData.notes = updates.notes?.trim() || null;
     
@@ -182,6 +193,49 @@ export async function deleteWorkout(uid: string, workoutId: string): Promise<voi
   }
 }
 
+// Firestore allows at most 500 writes per batch
+const BATCH_LIMIT = 450;
+
+/**
+ * Rename logged exercises across past sessions onto canonical library
+ * exercises and link their `exerciseId`. `merges` maps a normalized logged
+ * name to its target exercise. Returns the number of sessions rewritten.
+ */
+export async function mergeWorkoutExercises(
+  uid: string,
+  workouts: Workout[],
+  merges: Record<string, Exercise>
+): Promise<number> {
+  try {
+    const target = (name: string) => merges[normalizeExerciseName(name)];
+    const changed = workouts.filter((w) => w.exercises.some((e) => target(e.exercise)));
+
+    for (let i = 0; i < changed.length; i += BATCH_LIMIT) {
+      const batch = writeBatch(db);
+      for (const workout of changed.slice(i, i + BATCH_LIMIT)) {
+        const exercises = workout.exercises.map((entry) => {
+          const exercise = target(entry.exercise);
+          return exercise ? { ...entry, exercise: exercise.name, exerciseId: exercise.id } : entry;
+        });
+        batch.update(doc(db, 'users', uid, 'workouts', workout.id), {
+          exercises: serializeWorkoutExercises(exercises),
+          exercise: deleteField(),
+          sets: deleteField(),
+          reps: deleteField(),
+          weight: deleteField(),
+          updatedAt: Timestamp.fromDate(new Date()),
+        });
+      }
+      await batch.commit();
+    }
+
+    cacheInvalidate(`workouts:${uid}`, `stats:${uid}`, `recent:${uid}`);
+    return changed.length;
+  } catch (error) {
+    throw new Error(getErrorMessage(error, 'Failed to merge exercises'));
+  }
+}
+
 /**
  * Get workouts for a specific date range
  */
@@ -212,6 +266,32 @@ export async function getWorkoutsByDateRange(
   }
 }
 
+/**
+ * Get the last N workouts dated before `date` (newest first)
+ */
+export async function getWorkoutsBefore(uid: string, date: Date, count = 100): Promise<Workout[]> {
+  try {
+    const workoutsRef = collection(db, 'users', uid, 'workouts');
+    const q = query(
+      workoutsRef,
+      where('date', '<', Timestamp.fromDate(new Date(date))),
+      orderBy('date', 'desc'),
+      limit(count)
+    );
+    const snapshot = await getDocs(q);
+
+    return snapshot.docs.map((doc) => {
+      const data = doc.data();
+      return {
+        id: doc.id,
+        ...convertTimestamps(data),
+      };
+    });
+  } catch (error) {
+    throw new Error(getErrorMessage(error, 'Failed to fetch workouts'));
+  }
+}
+
 /**
  * Get recent workouts (last N entries)
  */
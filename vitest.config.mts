@@ -0,0 +1,17 @@
+import { dirname } from "node:path";
+import { fileURLToPath } from "node:url";
+import { defineConfig } from "vitest/config";
+
+// Run tests outside en-US and UTC so locale or time zone assumptions fail here.
+// Set before the test workers start, which read them on launch.
+process.env.LC_ALL = "de_DE.UTF-8";
+process.env.TZ = "Europe/Berlin";
+
+export default defineConfig({
+  resolve: {
+    alias: { "@": dirname(fileURLToPath(import.meta.url)) },
+  },
+  test: {
+    include: ["lib/**/*.test.ts"],
+  },
+});